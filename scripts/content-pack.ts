@@ -0,0 +1,127 @@
+// Validates, imports and exports content packs; the format is described in
+// content/README.md.
+//
+//   npm run content -- validate content/core.yaml
+//   npm run content -- import content/core.yaml
+//   npm run content -- export content/core.yaml [slug ...]
+//
+// import and export talk to the database named by SUPABASE_URL (or
+// VITE_SUPABASE_URL) with SUPABASE_SERVICE_ROLE_KEY.
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+import { parse, stringify } from 'yaml';
+import { ContentPack, canonicalContentPack, contentPackProblems } from '../src/lib/contentPack';
+
+type SubjectImport = {
+  slug: string;
+  created: boolean;
+  subject_revised: boolean;
+  questions_created: number;
+  questions_revised: number;
+  questions_not_in_pack: number;
+};
+
+const USAGE = 'Usage: npm run content -- <validate|import|export> <pack.yaml|pack.json> [slug ...]';
+
+function isYaml(path: string): boolean {
+  return ['.yaml', '.yml'].includes(extname(path).toLowerCase());
+}
+
+async function readPack(path: string, existingSlugs: string[] = []): Promise<ContentPack> {
+  const text = await readFile(path, 'utf8');
+  const pack: unknown = isYaml(path) ? parse(text) : JSON.parse(text);
+  const problems = contentPackProblems(pack, existingSlugs);
+
+  if (problems.length > 0) {
+    throw new Error(`${path} is not a valid content pack:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+  }
+  return pack as ContentPack;
+}
+
+async function writePack(path: string, pack: ContentPack) {
+  const canonical = canonicalContentPack(pack);
+  const text = isYaml(path) ? stringify(canonical, { lineWidth: 0 }) : `${JSON.stringify(canonical, null, 2)}\n`;
+  await writeFile(path, text);
+}
+
+function connect() {
+  const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceRoleKey) {
+    throw new Error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to import or export packs');
+  }
+  return createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+}
+
+async function importPack(path: string) {
+  const supabase = connect();
+  const { data: subjects, error: subjectsError } = await supabase.from('subjects').select('slug');
+  if (subjectsError) {
+    throw new Error(`Could not list subjects: ${subjectsError.message}`);
+  }
+
+  const pack = await readPack(path, subjects.map((subject) => subject.slug));
+  const { data, error } = await supabase.rpc('import_content_pack', { p_pack: pack });
+  if (error) {
+    throw new Error(`Import failed: ${error.message}`);
+  }
+
+  (data as SubjectImport[]).forEach((subject) => {
+    const changes = [
+      subject.created ? 'created' : subject.subject_revised ? 'details revised' : null,
+      subject.questions_created > 0 ? `${subject.questions_created} questions added` : null,
+      subject.questions_revised > 0 ? `${subject.questions_revised} questions revised` : null,
+    ].filter(Boolean);
+
+    console.log(`${subject.slug}: ${changes.length > 0 ? changes.join(', ') : 'unchanged'}`);
+    if (subject.questions_not_in_pack > 0) {
+      console.log(`  ${subject.questions_not_in_pack} questions are not in the pack and were left alone`);
+    }
+  });
+}
+
+async function exportPack(path: string, slugs: string[]) {
+  const { data, error } = await connect().rpc('export_content_pack', {
+    p_slugs: slugs.length > 0 ? slugs : null,
+  });
+  if (error) {
+    throw new Error(`Export failed: ${error.message}`);
+  }
+
+  const pack = data as ContentPack;
+  const missing = slugs.filter((slug) => !pack.subjects.some((subject) => subject.slug === slug));
+  if (missing.length > 0) {
+    throw new Error(`No subjects with slug ${missing.join(', ')}`);
+  }
+
+  await writePack(path, pack);
+  console.log(`Wrote ${pack.subjects.length} subjects to ${path}`);
+}
+
+async function main() {
+  const [command, path, ...slugs] = process.argv.slice(2);
+  if (!path) {
+    throw new Error(USAGE);
+  }
+
+  switch (command) {
+    case 'validate': {
+      const pack = await readPack(path);
+      console.log(`${path} is valid (${pack.subjects.map((subject) => subject.slug).join(', ')})`);
+      return;
+    }
+    case 'import':
+      return importPack(path);
+    case 'export':
+      return exportPack(path, slugs);
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main().catch((error: Error) => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
@@ -5,6 +5,13 @@ import { Login } from './pages/Login';
 import { SignUp } from './pages/SignUp';
 import { Dashboard } from './pages/Dashboard';
 import { Learn } from './pages/Learn';
+import { SessionReplay } from './pages/SessionReplay';
+import { Mistakes } from './pages/Mistakes';
+import { Instructor } from './pages/Instructor';
+import { Author } from './pages/Author';
+import { AuthorSubject } from './pages/AuthorSubject';
+import { QuestionEditor } from './pages/QuestionEditor';
+import { ItemAnalytics } from './pages/ItemAnalytics';
 
 function App() {
   return (
@@ -30,6 +37,62 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/sessions/:sessionId"
+            element={
+              <ProtectedRoute>
+                <SessionReplay />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/mistakes"
+            element={
+              <ProtectedRoute>
+                <Mistakes />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/instructor"
+            element={
+              <ProtectedRoute role="instructor">
+                <Instructor />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/author"
+            element={
+              <ProtectedRoute role="author">
+                <Author />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/author/subjects/:subjectId"
+            element={
+              <ProtectedRoute role="author">
+                <AuthorSubject />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/author/subjects/:subjectId/analytics"
+            element={
+              <ProtectedRoute role="author">
+                <ItemAnalytics />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/author/questions/:revisionId"
+            element={
+              <ProtectedRoute role="author">
+                <QuestionEditor />
+              </ProtectedRoute>
+            }
+          />
         </Routes>
       </AuthProvider>
     </BrowserRouter>
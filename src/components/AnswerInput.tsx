@@ -0,0 +1,195 @@
+import { Question, QuestionOption } from '../lib/supabase';
+import { AnswerValue, templateParts } from '../lib/answers';
+import { Input } from './Input';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+type AnswerInputProps = {
+  question: Question;
+  value: AnswerValue;
+  onChange: (value: AnswerValue) => void;
+  disabled?: boolean;
+};
+
+export function AnswerInput({ question, value, onChange, disabled }: AnswerInputProps) {
+  switch (question.format) {
+    case 'free_text':
+      return (
+        <Input
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Enter your answer"
+          disabled={disabled}
+        />
+      );
+    case 'multiple_choice':
+      return (
+        <ChoiceList
+          options={question.options}
+          selected={typeof value === 'string' && value ? [value] : []}
+          onToggle={(id) => onChange(id)}
+          disabled={disabled}
+          multiple={false}
+        />
+      );
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <ChoiceList
+          options={question.options}
+          selected={selected}
+          onToggle={(id) =>
+            onChange(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id])
+          }
+          disabled={disabled}
+          multiple
+        />
+      );
+    }
+    case 'ordering':
+      return (
+        <OrderingList
+          options={question.options}
+          order={Array.isArray(value) ? value : []}
+          onChange={onChange}
+          disabled={disabled}
+        />
+      );
+    case 'fill_blank':
+      return (
+        <FillBlank
+          template={question.options.template}
+          blanks={Array.isArray(value) ? value : []}
+          onChange={onChange}
+          disabled={disabled}
+        />
+      );
+  }
+}
+
+type ChoiceListProps = {
+  options: QuestionOption[];
+  selected: string[];
+  onToggle: (id: string) => void;
+  disabled?: boolean;
+  multiple: boolean;
+};
+
+function ChoiceList({ options, selected, onToggle, disabled, multiple }: ChoiceListProps) {
+  return (
+    <div className="space-y-2" role={multiple ? 'group' : 'radiogroup'}>
+      {multiple && (
+        <p className="text-xs text-slate-500">Select all that apply.</p>
+      )}
+      {options.map((option) => {
+        const isSelected = selected.includes(option.id);
+
+        return (
+          <button
+            key={option.id}
+            type="button"
+            role={multiple ? 'checkbox' : 'radio'}
+            aria-checked={isSelected}
+            onClick={() => onToggle(option.id)}
+            disabled={disabled}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg border text-left text-sm transition-colors disabled:cursor-not-allowed ${
+              isSelected
+                ? 'border-slate-700 bg-slate-50 text-slate-900'
+                : 'border-slate-200 bg-white text-slate-700 hover:border-slate-300'
+            }`}
+          >
+            <span
+              className={`flex items-center justify-center w-4 h-4 border ${
+                multiple ? 'rounded' : 'rounded-full'
+              } ${isSelected ? 'border-slate-700 bg-slate-700' : 'border-slate-300'}`}
+            >
+              {isSelected && <span className="w-1.5 h-1.5 rounded-full bg-white" />}
+            </span>
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+type OrderingListProps = {
+  options: QuestionOption[];
+  order: string[];
+  onChange: (order: string[]) => void;
+  disabled?: boolean;
+};
+
+function OrderingList({ options, order, onChange, disabled }: OrderingListProps) {
+  function move(index: number, offset: number) {
+    const next = [...order];
+    const [item] = next.splice(index, 1);
+    next.splice(index + offset, 0, item);
+    onChange(next);
+  }
+
+  return (
+    <ol className="space-y-2">
+      {order.map((id, index) => (
+        <li
+          key={id}
+          className="flex items-center gap-3 px-4 py-3 rounded-lg border border-slate-200 bg-white text-sm text-slate-700"
+        >
+          <span className="text-slate-400 font-medium w-5">{index + 1}.</span>
+          <span className="flex-1">
+            {options.find((option) => option.id === id)?.label ?? id}
+          </span>
+          <button
+            type="button"
+            onClick={() => move(index, -1)}
+            disabled={disabled || index === 0}
+            aria-label="Move up"
+            className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <ChevronUp className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => move(index, 1)}
+            disabled={disabled || index === order.length - 1}
+            aria-label="Move down"
+            className="p-1 rounded text-slate-500 hover:bg-slate-100 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+type FillBlankProps = {
+  template: string;
+  blanks: string[];
+  onChange: (blanks: string[]) => void;
+  disabled?: boolean;
+};
+
+function FillBlank({ template, blanks, onChange, disabled }: FillBlankProps) {
+  const parts = templateParts(template);
+
+  return (
+    <p className="text-slate-700 leading-loose">
+      {parts.map((part, index) => (
+        <span key={index}>
+          {part}
+          {index < parts.length - 1 && (
+            <input
+              value={blanks[index] ?? ''}
+              onChange={(e) =>
+                onChange(blanks.map((blank, i) => (i === index ? e.target.value : blank)))
+              }
+              disabled={disabled}
+              aria-label={`Blank ${index + 1}`}
+              className="mx-1 w-28 px-2 py-1 bg-white border-b-2 border-slate-300 text-slate-900 text-center focus:outline-none focus:border-slate-700"
+            />
+          )}
+        </span>
+      ))}
+    </p>
+  );
+}
@@ -0,0 +1,87 @@
+type ChartPoint = {
+  label: string;
+  value: number;
+};
+
+type LineChartProps = {
+  points: ChartPoint[];
+  max?: number;
+  unit?: string;
+};
+
+const WIDTH = 300;
+const HEIGHT = 100;
+
+export function LineChart({ points, max, unit = '' }: LineChartProps) {
+  if (points.length === 0) {
+    return <p className="text-sm text-slate-500">No data yet.</p>;
+  }
+
+  const top = max ?? Math.max(1, ...points.map((point) => point.value));
+  const step = points.length > 1 ? WIDTH / (points.length - 1) : 0;
+  const coordinates = points.map((point, index) => ({
+    ...point,
+    x: points.length > 1 ? index * step : WIDTH / 2,
+    y: HEIGHT - (Math.min(point.value, top) / top) * HEIGHT,
+  }));
+
+  return (
+    <div>
+      <svg
+        viewBox={`-4 -4 ${WIDTH + 8} ${HEIGHT + 8}`}
+        className="w-full h-32"
+        preserveAspectRatio="none"
+        role="img"
+      >
+        <polyline
+          points={coordinates.map((point) => `${point.x},${point.y}`).join(' ')}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className="text-slate-700"
+        />
+        {coordinates.map((point) => (
+          <circle key={point.label} cx={point.x} cy={point.y} r={3} className="fill-slate-700">
+            <title>{`${point.label}: ${point.value}${unit}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-slate-500 mt-2">
+        <span>{points[0].label}</span>
+        {points.length > 1 && <span>{points[points.length - 1].label}</span>}
+      </div>
+    </div>
+  );
+}
+
+type BarChartProps = {
+  bars: ChartPoint[];
+};
+
+export function BarChart({ bars }: BarChartProps) {
+  const total = bars.reduce((sum, bar) => sum + bar.value, 0);
+
+  if (total === 0) {
+    return <p className="text-sm text-slate-500">No data yet.</p>;
+  }
+
+  const top = Math.max(...bars.map((bar) => bar.value));
+
+  return (
+    <ul className="space-y-2">
+      {bars.map((bar) => (
+        <li key={bar.label} className="flex items-center gap-3 text-sm">
+          <span className="w-24 text-slate-600">{bar.label}</span>
+          <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-slate-700 rounded-full"
+              style={{ width: `${(bar.value / top) * 100}%` }}
+            />
+          </div>
+          <span className="w-8 text-right text-slate-500">{bar.value}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,8 +1,10 @@
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from './Button';
-import { LogOut } from 'lucide-react';
+import { GraduationCap, LogOut, PenLine } from 'lucide-react';
 
 export function Header() {
+  const navigate = useNavigate();
   const { user, profile, signOut } = useAuth();
 
   return (
@@ -18,6 +20,28 @@ export function Header() {
 
           {user && (
             <div className="flex items-center gap-4">
+              {profile?.role === 'instructor' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigate('/instructor')}
+                  className="flex items-center gap-2"
+                >
+                  <GraduationCap className="w-4 h-4" />
+                  <span className="hidden sm:inline">Classrooms</span>
+                </Button>
+              )}
+              {profile?.role === 'author' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigate('/author')}
+                  className="flex items-center gap-2"
+                >
+                  <PenLine className="w-4 h-4" />
+                  <span className="hidden sm:inline">Authoring</span>
+                </Button>
+              )}
               <span className="text-sm text-slate-600 hidden sm:block">
                 {profile?.full_name || profile?.email}
               </span>
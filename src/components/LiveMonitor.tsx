@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase, Profile, Subject, ClassroomNudge } from '../lib/supabase';
+import { CONFUSION_THRESHOLD } from '../lib/confusion';
+import { ConfusionFlag, useClassroomMonitor } from '../hooks/useClassroomMonitor';
+import { Card, CardBody, CardHeader } from './Card';
+import { Input } from './Input';
+import { Button } from './Button';
+import { AlertCircle, CheckCircle, Radio, XCircle } from 'lucide-react';
+
+type LiveMonitorProps = {
+  classroomId: string;
+  students: Profile[];
+  subjects: Subject[];
+};
+
+export function LiveMonitor({ classroomId, students, subjects }: LiveMonitorProps) {
+  const { sessions, flags, activity, connected, dismissFlag } = useClassroomMonitor(
+    classroomId,
+    students.map((student) => student.id)
+  );
+
+  function studentName(userId: string) {
+    const student = students.find((s) => s.id === userId);
+    return student?.full_name || student?.email || 'Student';
+  }
+
+  function subjectName(sessionId: string) {
+    const session = sessions.find((s) => s.id === sessionId);
+    return subjects.find((s) => s.id === session?.subject_id)?.name;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-slate-900">Live</h3>
+          <span className="flex items-center gap-1.5 text-xs text-slate-500">
+            <Radio className={`w-3.5 h-3.5 ${connected ? 'text-green-600' : 'text-slate-400'}`} />
+            {connected ? 'Receiving updates' : 'Connecting...'}
+          </span>
+        </div>
+      </CardHeader>
+
+      <CardBody className="space-y-6">
+        <div>
+          <p className="text-sm font-medium text-slate-700 mb-2">
+            Just crossed {CONFUSION_THRESHOLD}% confusion
+          </p>
+          {flags.length === 0 ? (
+            <p className="text-sm text-slate-500">Nobody is stuck right now.</p>
+          ) : (
+            <ul className="space-y-3">
+              {flags.map((flag) => (
+                <FlaggedStudent
+                  key={flag.sessionId}
+                  classroomId={classroomId}
+                  flag={flag}
+                  name={studentName(flag.userId)}
+                  subject={subjectName(flag.sessionId)}
+                  onDismiss={() => dismissFlag(flag.sessionId)}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <p className="text-sm font-medium text-slate-700 mb-2">Working now</p>
+            {sessions.length === 0 ? (
+              <p className="text-sm text-slate-500">No open sessions.</p>
+            ) : (
+              <ul className="space-y-1.5 text-sm">
+                {sessions.map((session) => (
+                  <li key={session.id} className="flex items-center justify-between gap-4">
+                    <span className="text-slate-700">
+                      {studentName(session.user_id)} · {subjectName(session.id)}
+                    </span>
+                    <span
+                      className={
+                        session.confusion_score >= CONFUSION_THRESHOLD ? 'text-red-600' : 'text-slate-500'
+                      }
+                    >
+                      {session.confusion_score}%
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-slate-700 mb-2">Latest answers</p>
+            {activity.length === 0 ? (
+              <p className="text-sm text-slate-500">Waiting for answers...</p>
+            ) : (
+              <ul className="space-y-1.5 text-sm">
+                {activity.map(({ userId, attempt }) => (
+                  <li key={attempt.id} className="flex items-center gap-2">
+                    {attempt.is_correct ? (
+                      <CheckCircle className="w-4 h-4 text-green-600" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-red-600" />
+                    )}
+                    <span className="text-slate-700">{studentName(userId)}</span>
+                    <span className="text-slate-500 ml-auto">{attempt.confusion_score}%</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
+
+type FlaggedStudentProps = {
+  classroomId: string;
+  flag: ConfusionFlag;
+  name: string;
+  subject: string | undefined;
+  onDismiss: () => void;
+};
+
+function FlaggedStudent({ classroomId, flag, name, subject, onDismiss }: FlaggedStudentProps) {
+  const { user } = useAuth();
+  const [kind, setKind] = useState<ClassroomNudge['kind']>('nudge');
+  const [body, setBody] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  async function sendNudge(e: React.FormEvent) {
+    e.preventDefault();
+
+    const text = body.trim();
+    if (!text || sending) return;
+
+    setSending(true);
+    setError('');
+
+    const { error: insertError } = await supabase.from('classroom_nudges').insert({
+      classroom_id: classroomId,
+      instructor_id: user!.id,
+      user_id: flag.userId,
+      session_id: flag.sessionId,
+      kind,
+      body: text,
+    });
+
+    setSending(false);
+
+    if (insertError) {
+      setError(insertError.message);
+      return;
+    }
+
+    setBody('');
+    onDismiss();
+  }
+
+  return (
+    <li className="p-3 rounded-lg border border-orange-200 bg-orange-50">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <div className="flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 text-orange-600 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-slate-900">
+              {name}
+              {subject && ` · ${subject}`}
+            </p>
+            <p className="text-xs text-slate-600">
+              Confusion {flag.confusionScore}% · {new Date(flag.flaggedAt).toLocaleTimeString()}
+            </p>
+          </div>
+        </div>
+        <Button onClick={onDismiss} size="sm" variant="ghost">
+          Dismiss
+        </Button>
+      </div>
+
+      <form onSubmit={sendNudge} className="flex items-start gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as ClassroomNudge['kind'])}
+          aria-label="Message type"
+          className="px-2 py-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-700"
+        >
+          <option value="nudge">Nudge</option>
+          <option value="hint">Hint</option>
+        </select>
+        <Input
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder={kind === 'hint' ? 'Try looking at...' : 'Keep going, you are close!'}
+          error={error || undefined}
+          disabled={sending}
+        />
+        <Button type="submit" variant="secondary" disabled={sending || body.trim() === ''}>
+          Send
+        </Button>
+      </form>
+    </li>
+  );
+}
@@ -1,8 +1,14 @@
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { ProfileRole } from '../lib/supabase';
 
-export function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { user, loading } = useAuth();
+type ProtectedRouteProps = {
+  children: React.ReactNode;
+  role?: ProfileRole;
+};
+
+export function ProtectedRoute({ children, role }: ProtectedRouteProps) {
+  const { user, profile, loading } = useAuth();
 
   if (loading) {
     return (
@@ -16,5 +22,9 @@ export function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" replace />;
   }
 
+  if (role && profile?.role !== role) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
   return <>{children}</>;
 }
@@ -0,0 +1,129 @@
+import { HintLevel, Question, RevealedHint } from '../lib/supabase';
+import { AlertCircle, ExternalLink } from 'lucide-react';
+import { Button } from './Button';
+import { Card, CardBody } from './Card';
+
+export const HINT_LEVEL_LABELS: Record<HintLevel, string> = {
+  nudge: 'Nudge',
+  concept: 'Key idea',
+  step: 'Next step',
+  worked_example: 'Worked example',
+};
+
+// The question and its data, as Learn shows them. Shared with the author preview.
+export function QuestionPrompt({ question }: { question: Question }) {
+  return (
+    <>
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-base font-medium text-slate-900">
+            Question
+          </h2>
+          <span className="text-xs text-slate-500">
+            Difficulty {question.difficulty}/5
+          </span>
+        </div>
+        <p className="text-slate-700 leading-relaxed">
+          {question.question}
+        </p>
+      </div>
+
+      <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+        <p className="text-sm font-medium text-slate-700 mb-2">Data</p>
+        <p className="text-slate-900 font-mono text-sm">
+          {question.data}
+        </p>
+      </div>
+    </>
+  );
+}
+
+type LearningAssistanceProps = {
+  aiHelpText: string;
+  videoSearchQuery: string;
+  hints: Pick<RevealedHint, 'position' | 'level' | 'body'>[];
+  hintCount: number;
+  onRevealHint?: () => void;
+  revealingHint?: boolean;
+  onVideoClick?: () => void;
+  // Shown above the hints, e.g. the tutor's explanation of the last answer.
+  children?: React.ReactNode;
+};
+
+// The help card shown once a learner is stuck. Without hints it falls back to
+// the subject's help text.
+export function LearningAssistance({
+  aiHelpText,
+  videoSearchQuery,
+  hints,
+  hintCount,
+  onRevealHint,
+  revealingHint,
+  onVideoClick,
+  children,
+}: LearningAssistanceProps) {
+  return (
+    <Card className="border-l-4 border-l-blue-400">
+      <CardBody className="p-6">
+        <div className="flex items-start gap-3 mb-4">
+          <div className="p-2 bg-blue-50 rounded-lg">
+            <AlertCircle className="w-5 h-5 text-blue-600" />
+          </div>
+          <div>
+            <h3 className="font-medium text-slate-900 mb-1">
+              Learning Assistance
+            </h3>
+            <p className="text-sm text-slate-600">
+              It looks like you might be stuck. Here's some guidance:
+            </p>
+          </div>
+        </div>
+
+        {children}
+
+        {hintCount === 0 ? (
+          <div className="bg-blue-50 border border-blue-100 rounded-lg p-4 mb-4">
+            <p className="text-sm text-slate-700 leading-relaxed">
+              {aiHelpText}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3 mb-4">
+            {hints.map((hint) => (
+              <div
+                key={hint.position}
+                className="bg-blue-50 border border-blue-100 rounded-lg p-4"
+              >
+                <p className="text-xs font-medium text-blue-700 mb-1">
+                  Hint {hint.position}: {HINT_LEVEL_LABELS[hint.level]}
+                </p>
+                <p className="text-sm text-slate-700 leading-relaxed">{hint.body}</p>
+              </div>
+            ))}
+
+            {onRevealHint && hints.length < hintCount && (
+              <Button variant="secondary" onClick={onRevealHint} disabled={revealingHint}>
+                {`${hints.length === 0 ? 'Show a hint' : 'Show next hint'} (${
+                  hints.length + 1
+                } of ${hintCount})`}
+              </Button>
+            )}
+          </div>
+        )}
+
+        <a
+          href={`https://www.youtube.com/results?search_query=${encodeURIComponent(
+            videoSearchQuery
+          )}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={onVideoClick}
+          className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
+        >
+          Watch video explanation
+          <ExternalLink className="w-4 h-4" />
+        </a>
+      </CardBody>
+    </Card>
+  );
+}
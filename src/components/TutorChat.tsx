@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { TutorMessage } from '../lib/supabase';
+import { Card, CardBody, CardHeader } from './Card';
+import { Input } from './Input';
+import { Button } from './Button';
+import { MessageCircle } from 'lucide-react';
+
+type TutorChatProps = {
+  messages: TutorMessage[];
+  onSend: (body: string) => Promise<void>;
+  sending: boolean;
+};
+
+export function TutorChat({ messages, onSend, sending }: TutorChatProps) {
+  const [draft, setDraft] = useState('');
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    const body = draft.trim();
+    if (!body || sending) return;
+
+    setDraft('');
+    await onSend(body);
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <MessageCircle className="w-4 h-4 text-slate-500" />
+          <h3 className="font-medium text-slate-900">Ask the tutor</h3>
+        </div>
+        <p className="text-xs text-slate-500 mt-1">
+          The tutor answers with questions that help you find the mistake yourself.
+        </p>
+      </CardHeader>
+
+      <CardBody className="space-y-4">
+        {messages.length > 0 && (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                className={`flex ${message.role === 'learner' ? 'justify-end' : 'justify-start'}`}
+              >
+                <p
+                  className={`max-w-[80%] rounded-lg px-3 py-2 text-sm leading-relaxed ${
+                    message.role === 'learner'
+                      ? 'bg-slate-700 text-white'
+                      : 'bg-slate-100 text-slate-700'
+                  }`}
+                >
+                  {message.body}
+                </p>
+              </div>
+            ))}
+            {sending && <p className="text-xs text-slate-500">The tutor is thinking...</p>}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Why is my answer wrong?"
+            disabled={sending}
+          />
+          <Button type="submit" variant="secondary" disabled={sending || draft.trim() === ''}>
+            Send
+          </Button>
+        </form>
+      </CardBody>
+    </Card>
+  );
+}
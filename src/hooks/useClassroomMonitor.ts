@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, LearningSession, SessionAttempt } from '../lib/supabase';
+import { CONFUSION_THRESHOLD } from '../lib/confusion';
+
+// How many scored attempts the activity feed keeps.
+const ACTIVITY_LIMIT = 20;
+
+export type ConfusionFlag = {
+  userId: string;
+  sessionId: string;
+  questionId: string | null;
+  confusionScore: number;
+  flaggedAt: number;
+};
+
+export type MonitorActivity = {
+  userId: string;
+  attempt: SessionAttempt;
+};
+
+function questionKey(attempt: Pick<SessionAttempt, 'session_id' | 'question_id'>) {
+  return `${attempt.session_id}:${attempt.question_id}`;
+}
+
+// Follows the open sessions of a classroom's students over Supabase realtime.
+// A student is flagged when an attempt takes their confusion on a question from
+// below the help threshold to at or above it.
+export function useClassroomMonitor(classroomId: string | null, studentIds: string[]) {
+  const [sessions, setSessions] = useState<LearningSession[]>([]);
+  const [flags, setFlags] = useState<ConfusionFlag[]>([]);
+  const [activity, setActivity] = useState<MonitorActivity[]>([]);
+  const [connected, setConnected] = useState(false);
+  const studentKey = studentIds.join(',');
+
+  const dismissFlag = useCallback((sessionId: string) => {
+    setFlags((prev) => prev.filter((flag) => flag.sessionId !== sessionId));
+  }, []);
+
+  useEffect(() => {
+    if (!classroomId || studentKey === '') return;
+
+    let cancelled = false;
+    const ids = studentKey.split(',');
+    const owners = new Map<string, string>();
+    const peakByQuestion = new Map<string, number>();
+
+    function trackSession(session: LearningSession) {
+      owners.set(session.id, session.user_id);
+      setSessions((prev) => {
+        const others = prev.filter((s) => s.id !== session.id);
+        return session.is_completed || session.abandoned_at ? others : [session, ...others];
+      });
+    }
+
+    function handleAttempt(attempt: SessionAttempt) {
+      const userId = owners.get(attempt.session_id);
+      // Steps are not scored, and sessions of other users are not ours to show.
+      if (!userId || attempt.parent_question_id) return;
+
+      const key = questionKey(attempt);
+      const previous = peakByQuestion.get(key) ?? 0;
+      peakByQuestion.set(key, Math.max(previous, attempt.confusion_score));
+
+      setActivity((prev) => [{ userId, attempt }, ...prev].slice(0, ACTIVITY_LIMIT));
+
+      if (previous < CONFUSION_THRESHOLD && attempt.confusion_score >= CONFUSION_THRESHOLD) {
+        setFlags((prev) => [
+          {
+            userId,
+            sessionId: attempt.session_id,
+            questionId: attempt.question_id,
+            confusionScore: attempt.confusion_score,
+            flaggedAt: Date.now(),
+          },
+          ...prev.filter((flag) => flag.sessionId !== attempt.session_id),
+        ]);
+      }
+    }
+
+    async function loadOpenSessions() {
+      const { data: sessionsData } = await supabase
+        .from('learning_sessions')
+        .select('*')
+        .in('user_id', ids)
+        .eq('is_completed', false)
+        .is('abandoned_at', null)
+        .order('start_time', { ascending: false });
+
+      if (cancelled || !sessionsData) return;
+
+      sessionsData.forEach((session: LearningSession) => owners.set(session.id, session.user_id));
+      setSessions(sessionsData);
+
+      if (sessionsData.length === 0) return;
+
+      // Seed the per-question peaks so attempts already over the threshold are not flagged again.
+      const { data: attemptsData } = await supabase
+        .from('session_attempts')
+        .select('session_id, question_id, confusion_score')
+        .in('session_id', sessionsData.map((session: LearningSession) => session.id))
+        .is('parent_question_id', null);
+
+      (attemptsData ?? []).forEach((attempt: Pick<SessionAttempt, 'session_id' | 'question_id' | 'confusion_score'>) => {
+        const key = questionKey(attempt);
+        peakByQuestion.set(key, Math.max(peakByQuestion.get(key) ?? 0, attempt.confusion_score));
+      });
+    }
+
+    loadOpenSessions();
+
+    const channel = supabase
+      .channel(`classroom-monitor:${classroomId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'learning_sessions', filter: `user_id=in.(${ids.join(',')})` },
+        (payload) => {
+          if (payload.eventType !== 'DELETE') trackSession(payload.new as LearningSession);
+        }
+      )
+      // Attempts are inserted unscored and scored by an update in the same call.
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'session_attempts' },
+        (payload) => handleAttempt(payload.new as SessionAttempt)
+      )
+      .subscribe((status) => setConnected(status === 'SUBSCRIBED'));
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+      setSessions([]);
+      setFlags([]);
+      setActivity([]);
+      setConnected(false);
+    };
+  }, [classroomId, studentKey]);
+
+  return { sessions, flags, activity, connected, dismissFlag };
+}
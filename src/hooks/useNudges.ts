@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, ClassroomNudge } from '../lib/supabase';
+
+// Unread nudges from the learner's instructors, kept up to date over Supabase
+// realtime so a nudge sent during a session shows up without a reload.
+export function useNudges(userId: string | undefined) {
+  const [nudges, setNudges] = useState<ClassroomNudge[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+
+    supabase
+      .from('classroom_nudges')
+      .select('*')
+      .eq('user_id', userId)
+      .is('read_at', null)
+      .order('created_at')
+      .then(({ data }) => {
+        if (!cancelled && data) setNudges(data);
+      });
+
+    const channel = supabase
+      .channel(`nudges:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'classroom_nudges', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const nudge = payload.new as ClassroomNudge;
+          setNudges((prev) => (prev.some((n) => n.id === nudge.id) ? prev : [...prev, nudge]));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const dismiss = useCallback(async (nudgeId: string) => {
+    setNudges((prev) => prev.filter((nudge) => nudge.id !== nudgeId));
+    await supabase
+      .from('classroom_nudges')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', nudgeId);
+  }, []);
+
+  return { nudges, dismiss };
+}
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase, SessionEvent, SessionEventType } from '../lib/supabase';
+import { ConfusionSignal, IDLE_GAP_SECONDS } from '../lib/confusion';
+
+const FLUSH_INTERVAL_MS = 5000;
+const FLUSH_BATCH_SIZE = 20;
+
+// Keystrokes closer together than this belong to the same typing burst.
+const BURST_GAP_MS = 2000;
+
+export type TelemetryEvent = Omit<SessionEvent, 'id' | 'session_id' | 'created_at'>;
+
+type TypingBurst = {
+  startedAt: number;
+  lastAt: number;
+  inserted: number;
+  deleted: number;
+};
+
+export function toConfusionSignals(events: TelemetryEvent[]): ConfusionSignal[] {
+  const signals: ConfusionSignal[] = [];
+
+  for (const event of events) {
+    const at = event.seconds_from_start;
+
+    if (event.event_type === 'pause') {
+      signals.push({ type: 'idle', at, seconds: Number(event.payload.seconds) });
+    } else if (event.event_type === 'deletion') {
+      signals.push({ type: 'rewrite', at, deletedChars: Number(event.payload.chars) });
+    } else if (event.event_type === 'visibility_visible') {
+      signals.push({ type: 'tab_away', at, seconds: Number(event.payload.hidden_seconds) });
+    }
+  }
+
+  return signals;
+}
+
+// Records interaction events for a Learn session and writes them to
+// `session_events` in batches. Events recorded before the session row exists
+// are queued and sent once `sessionId` is known. The server times events by
+// when they arrive, so visibility changes are sent straight away.
+export function useSessionTelemetry(sessionId: string | undefined, startedAt: number) {
+  const [events, setEvents] = useState<TelemetryEvent[]>([]);
+  const [hidden, setHidden] = useState(document.hidden);
+  const queue = useRef<TelemetryEvent[]>([]);
+  const hiddenMs = useRef(0);
+  const hiddenSince = useRef<number | null>(document.hidden ? Date.now() : null);
+  const burst = useRef<TypingBurst | null>(null);
+  const lastInputAt = useRef<number | null>(null);
+
+  const activeSeconds = useCallback(
+    (at: number = Date.now()) => {
+      const hiddenNow = hiddenSince.current !== null ? at - hiddenSince.current : 0;
+      return Math.max(0, Math.floor((at - startedAt - hiddenMs.current - hiddenNow) / 1000));
+    },
+    [startedAt]
+  );
+
+  const flush = useCallback(async () => {
+    if (!sessionId || queue.current.length === 0) return;
+
+    const batch = queue.current.splice(0);
+    const { error } = await supabase
+      .from('session_events')
+      .insert(batch.map((event) => ({ ...event, session_id: sessionId })));
+
+    // Batches the server rejected, e.g. once the session is completed, are
+    // dropped; only failed requests are retried.
+    if (error && !error.code) {
+      queue.current.unshift(...batch);
+    }
+  }, [sessionId]);
+
+  const record = useCallback(
+    (
+      eventType: SessionEventType,
+      payload: TelemetryEvent['payload'] = {},
+      at: number = Date.now()
+    ) => {
+      const event: TelemetryEvent = {
+        event_type: eventType,
+        payload,
+        seconds_from_start: activeSeconds(at),
+        occurred_at: new Date(at).toISOString(),
+      };
+
+      queue.current.push(event);
+      setEvents((prev) => [...prev, event]);
+
+      if (queue.current.length >= FLUSH_BATCH_SIZE) {
+        flush();
+      }
+    },
+    [activeSeconds, flush]
+  );
+
+  const endBurst = useCallback(() => {
+    const current = burst.current;
+    if (!current) return;
+
+    burst.current = null;
+    record(
+      'typing_burst',
+      {
+        inserted: current.inserted,
+        deleted: current.deleted,
+        duration_ms: current.lastAt - current.startedAt,
+      },
+      current.lastAt
+    );
+
+    if (current.deleted > 0) {
+      record('deletion', { chars: current.deleted }, current.lastAt);
+    }
+  }, [record]);
+
+  const recordInput = useCallback(
+    (previous: string, next: string) => {
+      const now = Date.now();
+
+      if (burst.current && now - burst.current.lastAt >= BURST_GAP_MS) {
+        endBurst();
+      }
+
+      if (lastInputAt.current !== null) {
+        const pause = Math.round((now - lastInputAt.current) / 1000);
+        if (pause >= IDLE_GAP_SECONDS) {
+          record('pause', { seconds: pause }, now);
+        }
+      }
+
+      const current = burst.current ?? { startedAt: now, lastAt: now, inserted: 0, deleted: 0 };
+      const delta = next.length - previous.length;
+      burst.current = {
+        ...current,
+        lastAt: now,
+        inserted: current.inserted + Math.max(0, delta),
+        deleted: current.deleted + Math.max(0, -delta),
+      };
+      lastInputAt.current = now;
+    },
+    [endBurst, record]
+  );
+
+  // Closes the current typing burst and sends everything recorded so far, so
+  // the server sees the latest visibility events when grading.
+  const recordSubmit = useCallback(async () => {
+    endBurst();
+    record('submit');
+    lastInputAt.current = Date.now();
+    await flush();
+  }, [endBurst, record, flush]);
+
+  useEffect(() => {
+    function handleVisibilityChange() {
+      const now = Date.now();
+
+      if (document.hidden) {
+        hiddenSince.current = now;
+        setHidden(true);
+        record('visibility_hidden', {}, now);
+        flush();
+        return;
+      }
+
+      if (hiddenSince.current === null) return;
+
+      const hiddenFor = now - hiddenSince.current;
+      hiddenMs.current += hiddenFor;
+      hiddenSince.current = null;
+      setHidden(false);
+      record('visibility_visible', { hidden_seconds: Math.round(hiddenFor / 1000) }, now);
+      flush();
+    }
+
+    function handleFocus() {
+      record('focus');
+    }
+
+    function handleBlur() {
+      record('blur');
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [record, flush]);
+
+  useEffect(() => {
+    const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      flush();
+    };
+  }, [flush]);
+
+  return {
+    events,
+    hidden,
+    activeSeconds,
+    record,
+    recordInput,
+    recordSubmit,
+  };
+}
@@ -0,0 +1,59 @@
+import { Question } from './supabase';
+
+// Free text and multiple choice answers are a single string (the text or the
+// option id); multi-select and ordering answers are option ids and
+// fill-in-the-blank answers hold one string per blank.
+export type AnswerValue = string | string[];
+
+export const BLANK = '___';
+
+export function templateParts(template: string): string[] {
+  return template.split(BLANK);
+}
+
+export function emptyAnswer(question: Question): AnswerValue {
+  switch (question.format) {
+    case 'free_text':
+    case 'multiple_choice':
+      return '';
+    case 'multi_select':
+      return [];
+    case 'ordering':
+      return question.options.map((option) => option.id);
+    case 'fill_blank':
+      return templateParts(question.options.template).slice(1).map(() => '');
+  }
+}
+
+export function isAnswerComplete(question: Question, answer: AnswerValue): boolean {
+  switch (question.format) {
+    case 'free_text':
+    case 'multiple_choice':
+      return typeof answer === 'string' && answer.trim() !== '';
+    case 'multi_select':
+      return Array.isArray(answer) && answer.length > 0;
+    case 'ordering':
+      return Array.isArray(answer) && answer.length === question.options.length;
+    case 'fill_blank':
+      return Array.isArray(answer) && answer.every((blank) => blank.trim() !== '');
+  }
+}
+
+// Plain-text rendering used for telemetry and for comparing successive answers.
+export function answerText(question: Question, answer: AnswerValue): string {
+  if (typeof answer === 'string') {
+    if (question.format === 'multiple_choice') {
+      return question.options.find((option) => option.id === answer)?.label ?? answer;
+    }
+    return answer.trim();
+  }
+
+  if (question.format === 'fill_blank') {
+    return answer.map((blank) => blank.trim()).join(' | ');
+  }
+
+  const labels = answer.map(
+    (id) => question.options.find((option) => option.id === id)?.label ?? id
+  );
+  return labels.join(question.format === 'ordering' ? ' → ' : ', ');
+}
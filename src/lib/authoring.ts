@@ -0,0 +1,187 @@
+import { Question, QuestionFormat, QuestionOption, QuestionRevision, SubjectRevision } from './supabase';
+import { BLANK, answerText, emptyAnswer } from './answers';
+
+export const QUESTION_FORMAT_LABELS: Record<QuestionFormat, string> = {
+  free_text: 'Free text',
+  multiple_choice: 'Multiple choice',
+  multi_select: 'Select all that apply',
+  ordering: 'Put in order',
+  fill_blank: 'Fill in the blanks',
+};
+
+// Columns an author can write on a question draft.
+export type QuestionDraftFields = Pick<
+  QuestionRevision,
+  | 'difficulty'
+  | 'format'
+  | 'question'
+  | 'data'
+  | 'options'
+  | 'correct_answer'
+  | 'answer_key'
+  | 'answer_spec'
+  | 'hints'
+>;
+
+export type SubjectDraftFields = Pick<
+  SubjectRevision,
+  'name' | 'title' | 'description' | 'ai_help_text' | 'video_search_query'
+>;
+
+export function questionDraftFields(revision: QuestionRevision): QuestionDraftFields {
+  const { difficulty, format, question, data, options, correct_answer, answer_key, answer_spec, hints } =
+    revision;
+  return { difficulty, format, question, data, options, correct_answer, answer_key, answer_spec, hints };
+}
+
+export function subjectDraftFields(source: SubjectDraftFields): SubjectDraftFields {
+  const { name, title, description, ai_help_text, video_search_query } = source;
+  return { name, title, description, ai_help_text, video_search_query };
+}
+
+// What gets written when a draft is saved: the readable answer is derived for
+// structured formats and blank accepted answers are dropped.
+export function savedDraftFields(draft: QuestionRevision): QuestionDraftFields {
+  const { accepted, ...otherRules } = draft.answer_spec ?? {};
+  const keptAnswers = (accepted ?? []).map((answer) => answer.trim()).filter((answer) => answer !== '');
+  const answerSpec = keptAnswers.length > 0 ? { ...otherRules, accepted: keptAnswers } : otherRules;
+
+  return {
+    ...questionDraftFields(draft),
+    correct_answer: correctAnswerText(draft),
+    answer_spec: draft.format === 'free_text' && Object.keys(answerSpec).length > 0 ? answerSpec : null,
+  };
+}
+
+// Switches a draft to another format, keeping the options where they still apply.
+export function withFormat(draft: QuestionRevision, format: QuestionFormat): QuestionRevision {
+  const options =
+    format === 'fill_blank'
+      ? { template: '' }
+      : format === 'free_text' || !Array.isArray(draft.options)
+        ? []
+        : draft.options;
+
+  return withAnswerKey({ ...draft, format, options, answer_key: null });
+}
+
+// Brings the answer key back in line with the options or blanks after they change.
+export function withAnswerKey(draft: QuestionRevision): QuestionRevision {
+  const question = previewQuestion(draft);
+  const key = draft.answer_key;
+  const optionIds = Array.isArray(draft.options) ? draft.options.map((option) => option.id) : [];
+  const keptIds = Array.isArray(key) ? key.filter((id) => optionIds.includes(id)) : [];
+
+  switch (question.format) {
+    case 'free_text':
+      return { ...draft, answer_key: null };
+    case 'multiple_choice':
+      return { ...draft, answer_key: typeof key === 'string' && optionIds.includes(key) ? key : '' };
+    case 'multi_select':
+      return { ...draft, answer_key: keptIds };
+    case 'ordering':
+      return { ...draft, answer_key: [...keptIds, ...optionIds.filter((id) => !keptIds.includes(id))] };
+    case 'fill_blank': {
+      const blanks = emptyAnswer(question) as string[];
+      return { ...draft, answer_key: blanks.map((_, index) => (Array.isArray(key) ? key[index] ?? '' : '')) };
+    }
+  }
+}
+
+// The draft as Learn would receive it, for the preview.
+export function previewQuestion(draft: QuestionRevision): Question {
+  return {
+    id: draft.id,
+    subject_id: draft.subject_id,
+    parent_id: null,
+    position: 1,
+    difficulty: draft.difficulty,
+    format: draft.format,
+    question: draft.question,
+    data: draft.data,
+    options: draft.options,
+    revision_id: draft.id,
+    created_at: draft.created_at,
+  } as Question;
+}
+
+// Structured formats derive their readable answer from the answer key; it is
+// what the tutor and the mistake journal show.
+export function correctAnswerText(draft: QuestionRevision): string {
+  if (draft.format === 'free_text' || draft.answer_key == null) {
+    return draft.correct_answer;
+  }
+  return answerText(previewQuestion(draft), draft.answer_key);
+}
+
+// Mirrors the checks publish_question_revision makes, so problems show up
+// before the author tries to publish.
+export function questionDraftProblems(draft: QuestionRevision): string[] {
+  const problems: string[] = [];
+
+  if (draft.question.trim() === '' || draft.data.trim() === '') {
+    problems.push('Question and data are required');
+  }
+
+  if (correctAnswerText(draft).trim() === '') {
+    problems.push('Correct answer is required');
+  }
+
+  if (Array.isArray(draft.options)) {
+    if (draft.format !== 'free_text' && draft.options.length < 2) {
+      problems.push('Add at least two options');
+    }
+    if (draft.options.some((option) => option.id.trim() === '' || option.label.trim() === '')) {
+      problems.push('Every option needs an id and a label');
+    }
+  } else if (!draft.options.template.includes(BLANK)) {
+    problems.push(`The template needs at least one ${BLANK} blank`);
+  }
+
+  const key = draft.answer_key;
+  const keyMissing =
+    key == null ||
+    (typeof key === 'string' ? key === '' : key.length === 0 || key.some((value) => value.trim() === ''));
+  if (draft.format !== 'free_text' && keyMissing) {
+    problems.push('Answer key is required');
+  }
+
+  // Ordering questions start in option order, which must not already be the answer.
+  if (
+    draft.format === 'ordering' &&
+    Array.isArray(draft.options) &&
+    Array.isArray(key) &&
+    draft.options.every((option, index) => option.id === key[index])
+  ) {
+    problems.push('Shuffle the options so they do not start in the correct order');
+  }
+
+  if (draft.hints.some((hint) => hint.body.trim() === '')) {
+    problems.push('Hints cannot be empty');
+  }
+
+  return problems;
+}
+
+export function subjectDraftProblems(draft: SubjectDraftFields): string[] {
+  const problems: string[] = [];
+
+  if (draft.name.trim() === '' || draft.title.trim() === '') {
+    problems.push('Name and title are required');
+  }
+  if (draft.ai_help_text.trim() === '' || draft.video_search_query.trim() === '') {
+    problems.push('Help text and video query are required');
+  }
+
+  return problems;
+}
+
+// Option ids only need to be unique within the question; misconception
+// mappings refer to them, so existing ids are never renumbered.
+export function nextOptionId(options: QuestionOption[]): string {
+  let index = options.length + 1;
+  while (options.some((option) => option.id === `option_${index}`)) {
+    index += 1;
+  }
+  return `option_${index}`;
+}
@@ -0,0 +1,276 @@
+// Confusion models turn the stream of behavioural signals collected while a
+// learner works on a question into a 0-100 score plus the reasons behind it.
+//
+// The recorded `learning_sessions.confusion_score` is computed by the SQL
+// implementations of these models (see the `confusion_*` functions in
+// supabase/migrations). Learn runs the same model in the browser to keep the
+// on-screen score live between submissions, so the two must stay in sync.
+
+export const CONFUSION_THRESHOLD = 40;
+
+// Pauses in typing shorter than this are treated as normal thinking time.
+export const IDLE_GAP_SECONDS = 15;
+
+export type ConfusionModelVersion = 'baseline@1' | 'weighted@1' | 'weighted@2' | 'weighted@3';
+
+// `at` is always seconds since the session started.
+export type ConfusionSignal =
+  | {
+      type: 'attempt';
+      at: number;
+      answer: string;
+      isCorrect: boolean;
+      misconceptionId?: string | null;
+    }
+  | { type: 'idle'; at: number; seconds: number }
+  | { type: 'rewrite'; at: number; deletedChars: number }
+  | { type: 'tab_away'; at: number; seconds: number }
+  | { type: 'chat'; at: number };
+
+export type ConfusionSignalName =
+  | 'attempts'
+  | 'misconception'
+  | 'time'
+  | 'repetition'
+  | 'idle'
+  | 'rewrite'
+  | 'tab_away'
+  | 'chat';
+
+export type ConfusionReason = {
+  signal: ConfusionSignalName;
+  label: string;
+  contribution: number;
+};
+
+export type ConfusionResult = {
+  score: number;
+  reasons: ConfusionReason[];
+};
+
+export type ConfusionModel = {
+  version: ConfusionModelVersion;
+  label: string;
+  score: (signals: ConfusionSignal[], elapsedSeconds: number) => ConfusionResult;
+};
+
+// Per-attempt summary of the non-attempt signals, as sent to submit_attempt.
+export type AttemptSignals = {
+  idle_seconds: number;
+  deleted_chars: number;
+  tab_away_seconds: number;
+};
+
+export function summarizeSignals(signals: ConfusionSignal[], sinceSeconds: number): AttemptSignals {
+  const summary: AttemptSignals = { idle_seconds: 0, deleted_chars: 0, tab_away_seconds: 0 };
+
+  for (const signal of signals) {
+    if (signal.at < sinceSeconds) continue;
+
+    if (signal.type === 'idle') summary.idle_seconds += signal.seconds;
+    if (signal.type === 'rewrite') summary.deleted_chars += signal.deletedChars;
+    if (signal.type === 'tab_away') summary.tab_away_seconds += signal.seconds;
+  }
+
+  return summary;
+}
+
+function finalize(reasons: ConfusionReason[]): ConfusionResult {
+  const kept = reasons
+    .filter((reason) => reason.contribution > 0)
+    .sort((a, b) => b.contribution - a.contribution);
+
+  return {
+    score: Math.min(100, kept.reduce((sum, reason) => sum + reason.contribution, 0)),
+    reasons: kept,
+  };
+}
+
+// Same tokenisation as pg_trgm's similarity(), so the browser and the database
+// agree on how alike two answers are.
+function trigrams(text: string): Set<string> {
+  const result = new Set<string>();
+
+  for (const word of text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      result.add(padded.slice(i, i + 3));
+    }
+  }
+
+  return result;
+}
+
+export function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  left.forEach((gram) => {
+    if (right.has(gram)) shared++;
+  });
+
+  return shared / (left.size + right.size - shared);
+}
+
+export const baselineModel: ConfusionModel = {
+  version: 'baseline@1',
+  label: 'Attempts and time',
+  score(signals, elapsedSeconds) {
+    const attempts = signals.filter((signal) => signal.type === 'attempt').length;
+
+    return finalize([
+      { signal: 'attempts', label: `Attempts: ${attempts}`, contribution: attempts * 20 },
+      {
+        signal: 'time',
+        label: `Time on question: ${elapsedSeconds}s`,
+        contribution: Math.min(elapsedSeconds, 60),
+      },
+    ]);
+  },
+};
+
+type Weights = Record<ConfusionSignalName, number>;
+
+// Value of each signal at which its full weight is reached.
+const SATURATION = {
+  attempts: 5,
+  misconception: 2,
+  time: 180,
+  idle: 120,
+  rewrite: 80,
+  tab_away: 60,
+  chat: 4,
+};
+
+function createWeightedModel(
+  version: ConfusionModelVersion,
+  label: string,
+  weights: Weights
+): ConfusionModel {
+  function weighted(signal: ConfusionSignalName, ratio: number): number {
+    return Math.round(weights[signal] * Math.min(1, ratio));
+  }
+
+  return {
+    version,
+    label,
+    score(signals, elapsedSeconds) {
+      const wrongAnswers: string[] = [];
+      let misconceptions = 0;
+      const chatTurns = signals.filter((signal) => signal.type === 'chat').length;
+      const totals = summarizeSignals(signals, 0);
+
+      for (const signal of signals) {
+        if (signal.type !== 'attempt') continue;
+        if (!signal.isCorrect) wrongAnswers.push(signal.answer);
+        if (signal.misconceptionId) misconceptions++;
+      }
+
+      let repetition = 0;
+      if (wrongAnswers.length > 1) {
+        let total = 0;
+        for (let i = 1; i < wrongAnswers.length; i++) {
+          total += trigramSimilarity(wrongAnswers[i - 1], wrongAnswers[i]);
+        }
+        repetition = total / (wrongAnswers.length - 1);
+      }
+
+      return finalize([
+        {
+          signal: 'attempts',
+          label: `Wrong attempts: ${wrongAnswers.length}`,
+          contribution: weighted('attempts', wrongAnswers.length / SATURATION.attempts),
+        },
+        {
+          signal: 'misconception',
+          label: `Known misconceptions: ${misconceptions}`,
+          contribution: weighted('misconception', misconceptions / SATURATION.misconception),
+        },
+        {
+          signal: 'time',
+          label: `Time on question: ${elapsedSeconds}s`,
+          contribution: weighted('time', elapsedSeconds / SATURATION.time),
+        },
+        {
+          signal: 'repetition',
+          label: `Similar wrong answers: ${Math.round(repetition * 100)}%`,
+          contribution: weighted('repetition', repetition),
+        },
+        {
+          signal: 'idle',
+          label: `Idle pauses: ${totals.idle_seconds}s`,
+          contribution: weighted('idle', totals.idle_seconds / SATURATION.idle),
+        },
+        {
+          signal: 'rewrite',
+          label: `Characters deleted: ${totals.deleted_chars}`,
+          contribution: weighted('rewrite', totals.deleted_chars / SATURATION.rewrite),
+        },
+        {
+          signal: 'tab_away',
+          label: `Time away from page: ${totals.tab_away_seconds}s`,
+          contribution: weighted('tab_away', totals.tab_away_seconds / SATURATION.tab_away),
+        },
+        {
+          signal: 'chat',
+          label: `Questions to the tutor: ${chatTurns}`,
+          contribution: weighted('chat', chatTurns / SATURATION.chat),
+        },
+      ]);
+    },
+  };
+}
+
+export const weightedModel = createWeightedModel('weighted@1', 'Weighted behavioural signals', {
+  attempts: 30,
+  misconception: 0,
+  time: 15,
+  repetition: 20,
+  idle: 10,
+  rewrite: 10,
+  tab_away: 15,
+  chat: 0,
+});
+
+export const weightedModelV2 = createWeightedModel(
+  'weighted@2',
+  'Weighted behavioural signals and misconceptions',
+  {
+    attempts: 25,
+    misconception: 25,
+    time: 10,
+    repetition: 15,
+    idle: 10,
+    rewrite: 5,
+    tab_away: 10,
+    chat: 0,
+  }
+);
+
+export const weightedModelV3 = createWeightedModel(
+  'weighted@3',
+  'Weighted behavioural signals, misconceptions and tutor chat',
+  {
+    attempts: 25,
+    misconception: 20,
+    time: 10,
+    repetition: 15,
+    idle: 5,
+    rewrite: 5,
+    tab_away: 10,
+    chat: 10,
+  }
+);
+
+export const CONFUSION_MODELS: Record<ConfusionModelVersion, ConfusionModel> = {
+  'baseline@1': baselineModel,
+  'weighted@1': weightedModel,
+  'weighted@2': weightedModelV2,
+  'weighted@3': weightedModelV3,
+};
+
+export function getConfusionModel(version: string | null | undefined): ConfusionModel {
+  return CONFUSION_MODELS[version as ConfusionModelVersion] ?? baselineModel;
+}
@@ -0,0 +1,198 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parse } from 'yaml';
+import { ContentPack, ContentPackQuestion, canonicalContentPack, contentPackProblems } from './contentPack';
+
+function corePack(): ContentPack {
+  return parse(readFileSync(new URL('../../content/core.yaml', import.meta.url), 'utf8'));
+}
+
+function subject(slug: string, overrides: Record<string, unknown> = {}) {
+  return {
+    slug,
+    name: slug,
+    title: `${slug} title`,
+    ai_help_text: 'Read the data again.',
+    video_search_query: slug,
+    questions: [question()],
+    ...overrides,
+  };
+}
+
+function question(overrides: Record<string, unknown> = {}) {
+  return {
+    difficulty: 1,
+    format: 'free_text',
+    question: 'What is 2 + 2?',
+    data: '2, 2',
+    correct_answer: '4',
+    ...overrides,
+  };
+}
+
+function pack(...subjects: unknown[]) {
+  return { version: 1, subjects };
+}
+
+describe('contentPackProblems', () => {
+  it('accepts the core pack', () => {
+    expect(contentPackProblems(corePack())).toEqual([]);
+  });
+
+  it('accepts a minimal pack', () => {
+    expect(contentPackProblems(pack(subject('arithmetic')))).toEqual([]);
+  });
+
+  it('rejects anything but a pack object', () => {
+    expect(contentPackProblems(null)).toEqual(['The pack must be an object with `version` and `subjects`']);
+    expect(contentPackProblems({ version: 2, subjects: [] })).toEqual([
+      'Unsupported version 2; expected 1',
+      '`subjects` must list at least one subject',
+    ]);
+  });
+
+  it('rejects bad and duplicate slugs', () => {
+    expect(contentPackProblems(pack(subject('Bad Slug')))).toEqual([
+      'Bad Slug: `slug` must use lowercase letters, digits and underscores',
+    ]);
+    expect(contentPackProblems(pack(subject('arithmetic'), subject('arithmetic')))).toEqual([
+      'arithmetic: appears more than once in the pack',
+    ]);
+  });
+
+  it('rejects unknown confusion models and formats, including inherited keys', () => {
+    expect(
+      contentPackProblems(
+        pack(
+          subject('arithmetic', {
+            confusion_model: 'toString',
+            questions: [question({ format: 'constructor' }), question({ format: 'essay' })],
+          })
+        )
+      )
+    ).toEqual([
+      'arithmetic: Unknown confusion model "toString"',
+      'arithmetic: question 1: Unknown format "constructor"',
+      'arithmetic: question 2: Unknown format "essay"',
+    ]);
+  });
+
+  it('checks answer keys against the format', () => {
+    const options = [
+      { id: 'a', label: 'Three' },
+      { id: 'b', label: 'Four' },
+    ];
+
+    expect(
+      contentPackProblems(
+        pack(
+          subject('arithmetic', {
+            questions: [
+              question({ format: 'multiple_choice', options, answer_key: 'c' }),
+              question({ format: 'ordering', options, answer_key: ['a', 'b'] }),
+              question({ format: 'fill_blank', options: { template: '2 + 2 = ___' }, answer_key: [] }),
+              question({ answer_key: '4' }),
+            ],
+          })
+        )
+      )
+    ).toEqual([
+      'arithmetic: question 1: `answer_key` must be the id of one option',
+      'arithmetic: question 2: Shuffle the options so they do not start in the correct order',
+      'arithmetic: question 3: `answer_key` must give one answer per blank',
+      'arithmetic: question 4: free_text questions are marked with `correct_answer` and `answer_spec`, not `answer_key`',
+    ]);
+  });
+
+  it('checks answer specs, hints, misconception matches and steps', () => {
+    expect(
+      contentPackProblems(
+        pack(
+          subject('arithmetic', {
+            misconceptions: [{ slug: 'concatenation', name: 'Joins the digits' }],
+            questions: [
+              question({
+                answer_spec: { accepted: ['four'], exact: true, keywords: { required: ['four'], fuzzy: 'yes' } },
+                hints: [{ level: 'shout', body: '' }],
+                misconceptions: [
+                  { misconception: 'concatenation', answer_spec: { accepted: ['22'] }, feedback: 'Add, not join.' },
+                  { misconception: 'guessing', feedback: '' },
+                ],
+                steps: [question({ steps: [question()] })],
+              }),
+            ],
+          })
+        )
+      )
+    ).toEqual([
+      'arithmetic: question 1: answer_spec: unknown rule `exact`',
+      'arithmetic: question 1: answer_spec: `keywords` takes `required` words or groups of synonyms, `forbidden` words and a `fuzzy` true or false',
+      'arithmetic: question 1: hint 1: unknown level "shout"',
+      'arithmetic: question 1: hint 1: hints cannot be empty',
+      'arithmetic: question 1: misconception match 2: "guessing" is not one of the subject\'s misconceptions',
+      'arithmetic: question 1: misconception match 2: needs `option_ids` or `answer_spec`',
+      'arithmetic: question 1: misconception match 2: feedback is required',
+      'arithmetic: question 1: step 1: Steps cannot have steps of their own',
+    ]);
+  });
+
+  it('rejects prerequisites that are the subject itself or listed twice', () => {
+    expect(
+      contentPackProblems(
+        pack(subject('arithmetic', { prerequisites: ['arithmetic', 'counting', 'counting'] }), subject('counting'))
+      )
+    ).toEqual([
+      'arithmetic: A subject cannot be its own prerequisite',
+      'arithmetic: Prerequisites are listed more than once',
+    ]);
+  });
+
+  it('requires prerequisites to be in the pack or the database', () => {
+    const input = pack(subject('arithmetic', { prerequisites: ['counting'] }));
+
+    expect(contentPackProblems(input)).toEqual(['arithmetic: unknown prerequisite "counting"']);
+    expect(contentPackProblems(input, ['counting'])).toEqual([]);
+  });
+
+  it('rejects prerequisite cycles', () => {
+    expect(
+      contentPackProblems(
+        pack(
+          subject('algebra', { prerequisites: ['arithmetic'] }),
+          subject('arithmetic', { prerequisites: ['counting'] }),
+          subject('counting', { prerequisites: ['algebra'] }),
+          subject('geometry', { prerequisites: ['algebra'] })
+        )
+      )
+    ).toEqual(['Prerequisites form a cycle: algebra → arithmetic → counting → algebra']);
+  });
+});
+
+describe('canonicalContentPack', () => {
+  it('leaves the core pack unchanged', () => {
+    const core = corePack();
+
+    expect(canonicalContentPack(core)).toEqual(core);
+  });
+
+  it('drops empty values and orders keys as documented', () => {
+    const messy = {
+      correct_answer: '4',
+      hints: [],
+      answer_spec: { fuzzy: { max_distance: 1 }, accepted: ['four'] },
+      data: '2, 2',
+      question: 'What is 2 + 2?',
+      format: 'free_text',
+      difficulty: 1,
+      answer_key: null,
+    } as unknown as ContentPackQuestion;
+
+    const [canonical] = canonicalContentPack({
+      version: 1,
+      subjects: [{ ...subject('arithmetic'), questions: [messy] } as ContentPack['subjects'][number]],
+    }).subjects[0].questions;
+
+    expect(Object.keys(canonical)).toEqual(['difficulty', 'format', 'question', 'data', 'correct_answer', 'answer_spec']);
+    expect(Object.keys(canonical.answer_spec ?? {})).toEqual(['accepted', 'fuzzy']);
+  });
+});
@@ -0,0 +1,578 @@
+import { AnswerSpec, HintLevel, QuestionFormat, QuestionOption, QuestionSelector } from './supabase';
+import { AnswerValue, BLANK, templateParts } from './answers';
+import { CONFUSION_MODELS, ConfusionModelVersion } from './confusion';
+import { QUESTION_FORMAT_LABELS } from './authoring';
+
+// Content packs are the portable form of subjects, kept in git under content/
+// and loaded with `npm run content`. The format is documented in
+// content/README.md; import_content_pack and export_content_pack in the
+// content_packs migration read and write it.
+
+export const CONTENT_PACK_VERSION = 1;
+
+export type ContentPack = {
+  version: typeof CONTENT_PACK_VERSION;
+  subjects: ContentPackSubject[];
+};
+
+// Questions are matched to the database by position, so reordering them in a
+// pack revises the questions in place rather than moving them.
+export type ContentPackSubject = {
+  slug: string;
+  name: string;
+  title: string;
+  description?: string | null;
+  ai_help_text: string;
+  video_search_query: string;
+  confusion_model?: ConfusionModelVersion;
+  question_selector?: QuestionSelector;
+  prerequisites?: string[];
+  misconceptions?: ContentPackMisconception[];
+  questions: ContentPackQuestion[];
+};
+
+export type ContentPackMisconception = {
+  slug: string;
+  name: string;
+  description?: string | null;
+};
+
+export type ContentPackQuestion = {
+  difficulty: number;
+  format: QuestionFormat;
+  question: string;
+  data: string;
+  options?: QuestionOption[] | { template: string };
+  correct_answer: string;
+  answer_key?: AnswerValue | null;
+  answer_spec?: AnswerSpec | null;
+  hints?: ContentPackHint[];
+  misconceptions?: ContentPackMisconceptionMatch[];
+  steps?: ContentPackQuestion[];
+};
+
+export type ContentPackHint = {
+  level: HintLevel;
+  body: string;
+  unlock_confusion?: number | null;
+};
+
+// `misconception` is the slug of one of the subject's misconceptions.
+export type ContentPackMisconceptionMatch = {
+  misconception: string;
+  option_ids?: string[] | null;
+  answer_spec?: AnswerSpec | null;
+  feedback: string;
+};
+
+const HINT_LEVELS: HintLevel[] = ['nudge', 'concept', 'step', 'worked_example'];
+const QUESTION_SELECTORS: QuestionSelector[] = ['sequential', 'staircase', 'elo'];
+const SLUG_PATTERN = /^[a-z0-9_]+$/;
+
+// Explicit lists rather than `in` checks, which would also accept inherited
+// keys such as "toString".
+const CONFUSION_MODEL_VERSIONS = Object.keys(CONFUSION_MODELS);
+const QUESTION_FORMATS = Object.keys(QUESTION_FORMAT_LABELS);
+
+type Fields = Record<string, unknown>;
+
+function isFields(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isTextList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function hasDuplicates(values: string[]): boolean {
+  return new Set(values).size !== values.length;
+}
+
+// Returns every problem found, each prefixed with where it is, so a whole pack
+// can be fixed in one pass. An empty list means the pack can be imported.
+// Prerequisites must be subjects in the pack or in `existingSlugs`, the
+// subjects already in the database.
+export function contentPackProblems(input: unknown, existingSlugs: string[] = []): string[] {
+  if (!isFields(input)) {
+    return ['The pack must be an object with `version` and `subjects`'];
+  }
+
+  const problems: string[] = [];
+
+  if (input.version !== CONTENT_PACK_VERSION) {
+    problems.push(`Unsupported version ${JSON.stringify(input.version)}; expected ${CONTENT_PACK_VERSION}`);
+  }
+
+  if (!Array.isArray(input.subjects) || input.subjects.length === 0) {
+    problems.push('`subjects` must list at least one subject');
+    return problems;
+  }
+
+  const slugs = input.subjects.map((subject) => (isFields(subject) ? subject.slug : undefined));
+
+  input.subjects.forEach((subject, index) => {
+    const slug = slugs[index];
+    const where = typeof slug === 'string' && slug !== '' ? slug : `subject ${index + 1}`;
+
+    if (!isFields(subject)) {
+      problems.push(`${where}: must be an object`);
+      return;
+    }
+    if (slugs.indexOf(slug) !== index) {
+      problems.push(`${where}: appears more than once in the pack`);
+    }
+    problems.push(...subjectProblems(subject).map((problem) => `${where}: ${problem}`));
+  });
+
+  problems.push(...prerequisiteProblems(input.subjects.filter(isFields), existingSlugs));
+
+  return problems;
+}
+
+// Checks prerequisites across the pack: each must name a known subject, and
+// following them must never lead back to where it started.
+function prerequisiteProblems(subjects: Fields[], existingSlugs: string[]): string[] {
+  const problems: string[] = [];
+  const prerequisites = new Map<string, string[]>();
+
+  subjects.forEach((subject) => {
+    if (typeof subject.slug === 'string' && isTextList(subject.prerequisites)) {
+      prerequisites.set(subject.slug, subject.prerequisites);
+    }
+  });
+
+  const packSlugs = subjects.map((subject) => subject.slug);
+  prerequisites.forEach((slugs, slug) => {
+    slugs
+      .filter((prerequisite) => !packSlugs.includes(prerequisite) && !existingSlugs.includes(prerequisite))
+      .forEach((prerequisite) => problems.push(`${slug}: unknown prerequisite ${JSON.stringify(prerequisite)}`));
+  });
+
+  // Depth-first search; a prerequisite that is still on the path closes a
+  // cycle. Self-references are reported by subjectProblems.
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  function visit(slug: string) {
+    path.push(slug);
+    for (const prerequisite of prerequisites.get(slug) ?? []) {
+      if (prerequisite === slug || done.has(prerequisite)) continue;
+
+      const start = path.indexOf(prerequisite);
+      if (start >= 0) {
+        problems.push(`Prerequisites form a cycle: ${[...path.slice(start), prerequisite].join(' → ')}`);
+      } else {
+        visit(prerequisite);
+      }
+    }
+    path.pop();
+    done.add(slug);
+  }
+
+  prerequisites.forEach((_, slug) => {
+    if (!done.has(slug)) visit(slug);
+  });
+
+  return problems;
+}
+
+function subjectProblems(subject: Fields): string[] {
+  const problems: string[] = [];
+
+  if (typeof subject.slug !== 'string' || !SLUG_PATTERN.test(subject.slug)) {
+    problems.push('`slug` must use lowercase letters, digits and underscores');
+  }
+  if (!isText(subject.name) || !isText(subject.title)) {
+    problems.push('Name and title are required');
+  }
+  if (!isText(subject.ai_help_text) || !isText(subject.video_search_query)) {
+    problems.push('Help text and video query are required');
+  }
+  if (subject.description != null && typeof subject.description !== 'string') {
+    problems.push('`description` must be text');
+  }
+  if (subject.confusion_model != null && !CONFUSION_MODEL_VERSIONS.includes(subject.confusion_model as string)) {
+    problems.push(`Unknown confusion model ${JSON.stringify(subject.confusion_model)}`);
+  }
+  if (
+    subject.question_selector != null &&
+    !QUESTION_SELECTORS.includes(subject.question_selector as QuestionSelector)
+  ) {
+    problems.push(`Unknown question selector ${JSON.stringify(subject.question_selector)}`);
+  }
+
+  if (subject.prerequisites != null) {
+    if (!isTextList(subject.prerequisites)) {
+      problems.push('`prerequisites` must be a list of subject slugs');
+    } else {
+      if (subject.prerequisites.includes(subject.slug as string)) {
+        problems.push('A subject cannot be its own prerequisite');
+      }
+      if (hasDuplicates(subject.prerequisites)) {
+        problems.push('Prerequisites are listed more than once');
+      }
+    }
+  }
+
+  const misconceptionSlugs: string[] = [];
+  if (subject.misconceptions != null) {
+    if (!Array.isArray(subject.misconceptions)) {
+      problems.push('`misconceptions` must be a list');
+    } else {
+      subject.misconceptions.forEach((misconception, index) => {
+        const where = `misconception ${index + 1}`;
+        if (!isFields(misconception)) {
+          problems.push(`${where}: must be an object`);
+          return;
+        }
+        if (typeof misconception.slug !== 'string' || !SLUG_PATTERN.test(misconception.slug)) {
+          problems.push(`${where}: \`slug\` must use lowercase letters, digits and underscores`);
+        } else {
+          misconceptionSlugs.push(misconception.slug);
+        }
+        if (!isText(misconception.name)) {
+          problems.push(`${where}: name is required`);
+        }
+        if (misconception.description != null && typeof misconception.description !== 'string') {
+          problems.push(`${where}: \`description\` must be text`);
+        }
+      });
+      if (hasDuplicates(misconceptionSlugs)) {
+        problems.push('Misconception slugs must be unique within the subject');
+      }
+    }
+  }
+
+  // Publishing a subject needs at least one question.
+  if (!Array.isArray(subject.questions) || subject.questions.length === 0) {
+    problems.push('`questions` must list at least one question');
+  } else {
+    subject.questions.forEach((question, index) => {
+      problems.push(
+        ...questionProblems(question, misconceptionSlugs, true).map(
+          (problem) => `question ${index + 1}: ${problem}`
+        )
+      );
+    });
+  }
+
+  return problems;
+}
+
+// Mirrors the checks publish_question_revision makes, plus the shape of the
+// answer key for each format.
+function questionProblems(question: unknown, misconceptionSlugs: string[], allowSteps: boolean): string[] {
+  if (!isFields(question)) {
+    return ['must be an object'];
+  }
+
+  const problems: string[] = [];
+  const format = question.format as QuestionFormat;
+  const difficulty = question.difficulty as number;
+
+  if (!Number.isInteger(difficulty) || difficulty < 1 || difficulty > 5) {
+    problems.push('`difficulty` must be a whole number from 1 to 5');
+  }
+  if (!QUESTION_FORMATS.includes(format)) {
+    problems.push(`Unknown format ${JSON.stringify(question.format)}`);
+    return problems;
+  }
+  if (!isText(question.question) || !isText(question.data)) {
+    problems.push('Question and data are required');
+  }
+  if (!isText(question.correct_answer)) {
+    problems.push('Correct answer is required');
+  }
+
+  const optionIds = optionProblems(question, format, problems);
+  answerKeyProblems(question, format, optionIds, problems);
+
+  if (question.answer_spec != null) {
+    if (format !== 'free_text') {
+      problems.push('`answer_spec` only applies to free_text questions');
+    } else {
+      problems.push(...answerSpecProblems(question.answer_spec).map((problem) => `answer_spec: ${problem}`));
+    }
+  }
+
+  if (question.hints != null) {
+    if (!Array.isArray(question.hints)) {
+      problems.push('`hints` must be a list');
+    } else {
+      question.hints.forEach((hint, index) => {
+        const where = `hint ${index + 1}`;
+        if (!isFields(hint)) {
+          problems.push(`${where}: must be an object`);
+          return;
+        }
+        if (!HINT_LEVELS.includes(hint.level as HintLevel)) {
+          problems.push(`${where}: unknown level ${JSON.stringify(hint.level)}`);
+        }
+        if (!isText(hint.body)) {
+          problems.push(`${where}: hints cannot be empty`);
+        }
+        if (
+          hint.unlock_confusion != null &&
+          (!Number.isInteger(hint.unlock_confusion) ||
+            (hint.unlock_confusion as number) < 0 ||
+            (hint.unlock_confusion as number) > 100)
+        ) {
+          problems.push(`${where}: \`unlock_confusion\` must be a whole number from 0 to 100`);
+        }
+      });
+    }
+  }
+
+  if (question.misconceptions != null) {
+    if (!Array.isArray(question.misconceptions)) {
+      problems.push('`misconceptions` must be a list');
+    } else {
+      question.misconceptions.forEach((match, index) => {
+        const where = `misconception match ${index + 1}`;
+        if (!isFields(match)) {
+          problems.push(`${where}: must be an object`);
+          return;
+        }
+        if (typeof match.misconception !== 'string' || !misconceptionSlugs.includes(match.misconception)) {
+          problems.push(`${where}: ${JSON.stringify(match.misconception)} is not one of the subject's misconceptions`);
+        }
+        if (match.option_ids == null && match.answer_spec == null) {
+          problems.push(`${where}: needs \`option_ids\` or \`answer_spec\``);
+        }
+        const optionIdsKnown =
+          isTextList(match.option_ids) && match.option_ids.every((id) => optionIds.includes(id));
+        if (match.option_ids != null && !optionIdsKnown) {
+          problems.push(`${where}: \`option_ids\` must be ids of this question's options`);
+        }
+        if (match.answer_spec != null) {
+          problems.push(
+            ...answerSpecProblems(match.answer_spec).map((problem) => `${where}: answer_spec: ${problem}`)
+          );
+        }
+        if (!isText(match.feedback)) {
+          problems.push(`${where}: feedback is required`);
+        }
+      });
+    }
+  }
+
+  if (question.steps != null) {
+    if (!allowSteps) {
+      problems.push('Steps cannot have steps of their own');
+    } else if (!Array.isArray(question.steps)) {
+      problems.push('`steps` must be a list');
+    } else {
+      question.steps.forEach((step, index) => {
+        problems.push(
+          ...questionProblems(step, misconceptionSlugs, false).map((problem) => `step ${index + 1}: ${problem}`)
+        );
+      });
+    }
+  }
+
+  return problems;
+}
+
+// Records option problems and returns the option ids the answer key may use.
+function optionProblems(question: Fields, format: QuestionFormat, problems: string[]): string[] {
+  const options = question.options;
+
+  if (format === 'free_text') {
+    if (options != null && !(Array.isArray(options) && options.length === 0)) {
+      problems.push('free_text questions have no options');
+    }
+    return [];
+  }
+
+  if (format === 'fill_blank') {
+    if (!isFields(options) || typeof options.template !== 'string' || !options.template.includes(BLANK)) {
+      problems.push(`\`options.template\` needs at least one ${BLANK} blank`);
+    }
+    return [];
+  }
+
+  if (!Array.isArray(options) || options.length < 2) {
+    problems.push('Add at least two options');
+    return [];
+  }
+  if (!options.every((option) => isFields(option) && isText(option.id) && isText(option.label))) {
+    problems.push('Every option needs an id and a label');
+    return [];
+  }
+
+  const ids = (options as QuestionOption[]).map((option) => option.id);
+  if (hasDuplicates(ids)) {
+    problems.push('Option ids must be unique');
+  }
+  return ids;
+}
+
+function answerKeyProblems(question: Fields, format: QuestionFormat, optionIds: string[], problems: string[]) {
+  const key = question.answer_key;
+
+  switch (format) {
+    case 'free_text':
+      if (key != null) {
+        problems.push('free_text questions are marked with `correct_answer` and `answer_spec`, not `answer_key`');
+      }
+      return;
+    case 'multiple_choice':
+      if (typeof key !== 'string' || !optionIds.includes(key)) {
+        problems.push('`answer_key` must be the id of one option');
+      }
+      return;
+    case 'multi_select':
+      if (!isTextList(key) || key.length === 0 || hasDuplicates(key) || key.some((id) => !optionIds.includes(id))) {
+        problems.push('`answer_key` must list the ids of the correct options');
+      }
+      return;
+    case 'ordering':
+      if (!isTextList(key) || key.length !== optionIds.length || optionIds.some((id) => !key.includes(id))) {
+        problems.push('`answer_key` must list every option id in the correct order');
+      } else if (optionIds.every((id, index) => id === key[index])) {
+        // Ordering questions start in option order, which must not already be the answer.
+        problems.push('Shuffle the options so they do not start in the correct order');
+      }
+      return;
+    case 'fill_blank': {
+      const options = question.options;
+      const blanks = isFields(options) && typeof options.template === 'string'
+        ? templateParts(options.template).length - 1
+        : 0;
+      if (!isTextList(key) || key.length !== blanks || key.some((blank) => blank.trim() === '')) {
+        problems.push('`answer_key` must give one answer per blank');
+      }
+      return;
+    }
+  }
+}
+
+function answerSpecProblems(spec: unknown): string[] {
+  if (!isFields(spec)) {
+    return ['must be an object'];
+  }
+
+  const problems: string[] = [];
+  const known = ['accepted', 'numeric', 'patterns', 'fuzzy', 'keywords'];
+
+  Object.keys(spec)
+    .filter((rule) => !known.includes(rule))
+    .forEach((rule) => problems.push(`unknown rule \`${rule}\``));
+
+  if (spec.accepted != null && !isTextList(spec.accepted)) {
+    problems.push('`accepted` must be a list of answers');
+  }
+  if (spec.patterns != null && !isTextList(spec.patterns)) {
+    problems.push('`patterns` must be a list of regular expressions');
+  }
+  if (spec.numeric != null) {
+    const numeric = spec.numeric;
+    if (!isFields(numeric) || typeof numeric.value !== 'number') {
+      problems.push('`numeric.value` must be a number');
+    } else if (numeric.tolerance != null && (typeof numeric.tolerance !== 'number' || numeric.tolerance < 0)) {
+      problems.push('`numeric.tolerance` must be a number of at least 0');
+    } else if (
+      numeric.units != null &&
+      (!isFields(numeric.units) || Object.values(numeric.units).some((factor) => typeof factor !== 'number'))
+    ) {
+      problems.push('`numeric.units` must map unit names to conversion factors');
+    }
+  }
+  if (spec.fuzzy != null) {
+    const fuzzy = spec.fuzzy;
+    if (!isFields(fuzzy) || !Number.isInteger(fuzzy.max_distance) || (fuzzy.max_distance as number) < 0) {
+      problems.push('`fuzzy.max_distance` must be a whole number of at least 0');
+    }
+  }
+  if (spec.keywords != null) {
+    const keywords = spec.keywords;
+    const validRequired = (required: unknown) =>
+      Array.isArray(required) && required.every((group) => typeof group === 'string' || isTextList(group));
+    if (
+      !isFields(keywords) ||
+      (keywords.required != null && !validRequired(keywords.required)) ||
+      (keywords.forbidden != null && !isTextList(keywords.forbidden)) ||
+      (keywords.fuzzy != null && typeof keywords.fuzzy !== 'boolean')
+    ) {
+      problems.push(
+        '`keywords` takes `required` words or groups of synonyms, `forbidden` words and a `fuzzy` true or false'
+      );
+    }
+  }
+
+  return problems;
+}
+
+// Drops empty values and puts keys in the documented order, so an exported
+// pack diffs cleanly against the one in git.
+export function canonicalContentPack(pack: ContentPack): ContentPack {
+  return {
+    version: pack.version,
+    subjects: pack.subjects.map((subject) =>
+      compact({
+        slug: subject.slug,
+        name: subject.name,
+        title: subject.title,
+        description: subject.description,
+        ai_help_text: subject.ai_help_text,
+        video_search_query: subject.video_search_query,
+        confusion_model: subject.confusion_model,
+        question_selector: subject.question_selector,
+        prerequisites: subject.prerequisites,
+        misconceptions: subject.misconceptions?.map((misconception) =>
+          compact({ slug: misconception.slug, name: misconception.name, description: misconception.description })
+        ),
+        questions: subject.questions.map(canonicalQuestion),
+      })
+    ),
+  };
+}
+
+function canonicalQuestion(question: ContentPackQuestion): ContentPackQuestion {
+  return compact({
+    difficulty: question.difficulty,
+    format: question.format,
+    question: question.question,
+    data: question.data,
+    options: question.options,
+    correct_answer: question.correct_answer,
+    answer_key: question.answer_key,
+    answer_spec: question.answer_spec && canonicalAnswerSpec(question.answer_spec),
+    hints: question.hints?.map((hint) =>
+      compact({ level: hint.level, body: hint.body, unlock_confusion: hint.unlock_confusion })
+    ),
+    misconceptions: question.misconceptions?.map((match) =>
+      compact({
+        misconception: match.misconception,
+        option_ids: match.option_ids,
+        answer_spec: match.answer_spec && canonicalAnswerSpec(match.answer_spec),
+        feedback: match.feedback,
+      })
+    ),
+    steps: question.steps?.map(canonicalQuestion),
+  });
+}
+
+function canonicalAnswerSpec(spec: AnswerSpec): AnswerSpec {
+  return compact({
+    accepted: spec.accepted,
+    numeric: spec.numeric && compact({ ...spec.numeric }),
+    patterns: spec.patterns,
+    fuzzy: spec.fuzzy,
+    keywords:
+      spec.keywords &&
+      compact({ required: spec.keywords.required, forbidden: spec.keywords.forbidden, fuzzy: spec.keywords.fuzzy }),
+  });
+}
+
+function compact<T extends object>(fields: T): T {
+  return Object.fromEntries(
+    Object.entries(fields).filter(
+      ([, value]) => value != null && !(Array.isArray(value) && value.length === 0)
+    )
+  ) as T;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { itemFlags } from './itemAnalytics';
+import { Question, QuestionItemStats } from './supabase';
+
+const question: Question = {
+  id: 'q1',
+  subject_id: 's1',
+  parent_id: null,
+  position: 1,
+  difficulty: 1,
+  format: 'free_text',
+  question: 'At which index is the target found?',
+  data: 'Array: [1, 3, 5, 7, 9, 11], target 7',
+  options: [],
+  revision_id: null,
+  created_at: '2026-03-02T09:00:00Z',
+};
+
+// A question most learners solve on the second try, with the odd hint.
+const stats: QuestionItemStats = {
+  question_id: 'q1',
+  encounters: 20,
+  solve_rate: 0.9,
+  first_try_rate: 0.5,
+  mean_attempts: 1.6,
+  mean_seconds_to_correct: 40,
+  avg_confusion: 20,
+  hint_rate: 0.2,
+  wrong_answers: [],
+};
+
+function kinds(flagged: Question, figures: QuestionItemStats): string[] {
+  return itemFlags(flagged, figures).map((flag) => flag.kind);
+}
+
+describe('itemFlags', () => {
+  it('flags nothing for a question that behaves', () => {
+    expect(kinds(question, stats)).toEqual([]);
+  });
+
+  it('flags nothing until enough sessions have answered', () => {
+    expect(kinds(question, { ...stats, encounters: 4, solve_rate: 0, hint_rate: 1 })).toEqual([]);
+  });
+
+  it('flags questions that are too hard or need help', () => {
+    expect(kinds(question, { ...stats, solve_rate: 0.3, hint_rate: 0.85 })).toEqual(['too_hard', 'needs_help']);
+  });
+
+  it('flags a common wrong answer that no misconception explains', () => {
+    const flags = itemFlags(question, {
+      ...stats,
+      wrong_answers: [{ answer: '4', sessions: 8, misconception_id: null, misconception_sessions: 0 }],
+    });
+
+    expect(flags).toEqual([
+      {
+        kind: 'common_wrong_answer',
+        message: '40% of learners answer "4". Check whether it should be accepted, or add it as a misconception.',
+      },
+    ]);
+  });
+
+  it('does not flag a common wrong answer that a misconception explains', () => {
+    const wrongAnswer = { answer: '4', sessions: 8, misconception_id: 'm1', misconception_sessions: 7 };
+
+    expect(kinds(question, { ...stats, wrong_answers: [wrongAnswer] })).toEqual([]);
+  });
+
+  it('still flags a common wrong answer matched to a misconception in only a few sessions', () => {
+    const wrongAnswer = { answer: '4', sessions: 8, misconception_id: 'm1', misconception_sessions: 1 };
+
+    expect(kinds(question, { ...stats, wrong_answers: [wrongAnswer] })).toEqual(['common_wrong_answer']);
+  });
+
+  it('flags multiple choice questions answered at chance and then worked through', () => {
+    const multipleChoice: Question = {
+      ...question,
+      format: 'multiple_choice',
+      options: [
+        { id: 'a', label: '1' },
+        { id: 'b', label: '2' },
+        { id: 'c', label: '3' },
+        { id: 'd', label: '4' },
+      ],
+    };
+    const guessed = { ...stats, solve_rate: 1, first_try_rate: 0.25, mean_attempts: 2.5 };
+
+    expect(kinds(multipleChoice, guessed)).toEqual(['guessed']);
+    expect(kinds(question, guessed)).toEqual([]);
+  });
+
+  it('flags questions nearly everyone answers first time without help', () => {
+    expect(kinds(question, { ...stats, solve_rate: 1, first_try_rate: 0.96, hint_rate: 0 })).toEqual(['too_easy']);
+    expect(kinds(question, { ...stats, solve_rate: 1, first_try_rate: 0.96, hint_rate: 0.1 })).toEqual([]);
+  });
+});
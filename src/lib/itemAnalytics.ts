@@ -0,0 +1,87 @@
+import { Question, QuestionItemStats } from './supabase';
+
+// Flags questions whose statistics suggest something is wrong with them rather
+// than with the learners. The thresholds are deliberately loose: a flag is a
+// prompt to look at the question, not a verdict.
+
+export type ItemFlagKind = 'too_hard' | 'needs_help' | 'common_wrong_answer' | 'guessed' | 'too_easy';
+
+export type ItemFlag = {
+  kind: ItemFlagKind;
+  message: string;
+};
+
+// Below this many encounters the rates are too noisy to flag anything.
+export const MIN_ENCOUNTERS = 5;
+
+const TOO_HARD_SOLVE_RATE = 0.4;
+const NEEDS_HELP_HINT_RATE = 0.8;
+const COMMON_WRONG_ANSWER_SHARE = 0.3;
+const TOO_EASY_FIRST_TRY_RATE = 0.95;
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+export function itemFlags(question: Question, stats: QuestionItemStats): ItemFlag[] {
+  if (stats.encounters < MIN_ENCOUNTERS) {
+    return [];
+  }
+
+  const flags: ItemFlag[] = [];
+  const solveRate = stats.solve_rate ?? 0;
+  const firstTryRate = stats.first_try_rate ?? 0;
+
+  if (solveRate < TOO_HARD_SOLVE_RATE) {
+    flags.push({
+      kind: 'too_hard',
+      message: `Only ${percent(solveRate)} of learners solve it. Check the answer key, or lower the difficulty.`,
+    });
+  }
+
+  if ((stats.hint_rate ?? 0) >= NEEDS_HELP_HINT_RATE) {
+    flags.push({
+      kind: 'needs_help',
+      message: `${percent(stats.hint_rate ?? 0)} of learners need a hint. The question may be unclear.`,
+    });
+  }
+
+  // Sessions whose wrong answer matched a known misconception are expected; an
+  // unexplained answer this common usually means the wording is ambiguous or
+  // a correct answer is not being accepted.
+  const commonWrongAnswer = stats.wrong_answers.find(
+    (wrongAnswer) =>
+      (wrongAnswer.sessions - wrongAnswer.misconception_sessions) / stats.encounters >= COMMON_WRONG_ANSWER_SHARE
+  );
+  if (commonWrongAnswer) {
+    flags.push({
+      kind: 'common_wrong_answer',
+      message: `${percent(commonWrongAnswer.sessions / stats.encounters)} of learners answer "${
+        commonWrongAnswer.answer
+      }". Check whether it should be accepted, or add it as a misconception.`,
+    });
+  }
+
+  // Learners who click through the options until one is accepted get most
+  // multiple choice questions right eventually but rarely on the first try.
+  if (question.format === 'multiple_choice' && question.options.length > 1) {
+    const chance = 1 / question.options.length;
+    if (solveRate >= 0.9 && firstTryRate <= chance * 1.25 && (stats.mean_attempts ?? 0) >= 2) {
+      flags.push({
+        kind: 'guessed',
+        message: `Learners get it right first time at about chance level (${percent(
+          firstTryRate
+        )}), then work through the options.`,
+      });
+    }
+  }
+
+  if (firstTryRate >= TOO_EASY_FIRST_TRY_RATE && (stats.hint_rate ?? 0) === 0) {
+    flags.push({
+      kind: 'too_easy',
+      message: `${percent(firstTryRate)} of learners answer correctly first time without help.`,
+    });
+  }
+
+  return flags;
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { isUnlocked, missingPrerequisites, recommendNext, subjectProgress } from './paths';
+
+// arrays -> searching -> sorting, on one path in that order.
+const PREREQUISITES = [
+  { subject_id: 'searching', prerequisite_id: 'arrays' },
+  { subject_id: 'sorting', prerequisite_id: 'searching' },
+];
+const PATH = ['arrays', 'searching', 'sorting'].map((subjectId, position) => ({
+  path_id: 'basics',
+  subject_id: subjectId,
+  position,
+}));
+
+function session(subjectId: string, endTime: string | null, confusionScore = 0, isCompleted = true) {
+  return { subject_id: subjectId, is_completed: isCompleted, confusion_score: confusionScore, end_time: endTime };
+}
+
+describe('subjectProgress', () => {
+  it('keeps the latest completed session of each subject', () => {
+    const progress = subjectProgress([
+      session('arrays', '2026-03-02T09:00:00Z', 60),
+      session('arrays', '2026-03-01T09:00:00Z', 10),
+    ]);
+
+    expect(progress.get('arrays')).toEqual({
+      completed: true,
+      lastConfusion: 60,
+      lastSessionAt: '2026-03-02T09:00:00Z',
+    });
+  });
+
+  it('leaves out open and abandoned sessions', () => {
+    const progress = subjectProgress([
+      session('arrays', '2026-03-01T09:00:00Z', 10),
+      session('arrays', null, 90, false),
+      session('searching', '2026-03-02T09:00:00Z', 90, false),
+    ]);
+
+    expect(progress.get('arrays')?.lastConfusion).toBe(10);
+    expect(progress.has('searching')).toBe(false);
+  });
+});
+
+describe('missingPrerequisites and isUnlocked', () => {
+  it('unlocks a subject once its prerequisites are completed', () => {
+    const progress = subjectProgress([session('arrays', '2026-03-01T09:00:00Z')]);
+
+    expect(isUnlocked('arrays', PREREQUISITES, progress)).toBe(true);
+    expect(isUnlocked('searching', PREREQUISITES, progress)).toBe(true);
+    expect(missingPrerequisites('sorting', PREREQUISITES, progress)).toEqual(['searching']);
+  });
+});
+
+describe('recommendNext', () => {
+  it('recommends the first unlocked subject not yet completed', () => {
+    const progress = subjectProgress([session('arrays', '2026-03-01T09:00:00Z')]);
+
+    expect(recommendNext(PATH, PREREQUISITES, progress)).toEqual({
+      kind: 'next',
+      subjectId: 'searching',
+      pathId: 'basics',
+    });
+  });
+
+  it('sends a confused learner back to the prerequisite', () => {
+    const progress = subjectProgress([
+      session('arrays', '2026-03-01T09:00:00Z'),
+      session('searching', '2026-03-02T09:00:00Z', 70),
+    ]);
+
+    expect(recommendNext(PATH, PREREQUISITES, progress)).toEqual({
+      kind: 'revisit',
+      subjectId: 'arrays',
+      becauseOf: 'searching',
+    });
+  });
+
+  it('moves on once the prerequisite has been completed again', () => {
+    const progress = subjectProgress([
+      session('arrays', '2026-03-01T09:00:00Z'),
+      session('searching', '2026-03-02T09:00:00Z', 70),
+      session('arrays', '2026-03-03T09:00:00Z', 20),
+    ]);
+
+    expect(recommendNext(PATH, PREREQUISITES, progress)).toEqual({
+      kind: 'next',
+      subjectId: 'sorting',
+      pathId: 'basics',
+    });
+  });
+
+  it('ignores confusion in a session that was not completed', () => {
+    const progress = subjectProgress([
+      session('arrays', '2026-03-01T09:00:00Z'),
+      session('searching', '2026-03-02T09:00:00Z', 10),
+      session('searching', null, 90, false),
+    ]);
+
+    expect(recommendNext(PATH, PREREQUISITES, progress)?.kind).toBe('next');
+  });
+
+  it('falls back to an earlier struggle whose prerequisite has not been revisited', () => {
+    const prerequisites = [...PREREQUISITES, { subject_id: 'hashing', prerequisite_id: 'strings' }];
+    const progress = subjectProgress([
+      session('arrays', '2026-03-01T09:00:00Z'),
+      session('searching', '2026-03-02T09:00:00Z', 70),
+      session('strings', '2026-03-01T09:00:00Z'),
+      session('hashing', '2026-03-03T09:00:00Z', 80),
+      session('strings', '2026-03-04T09:00:00Z'),
+    ]);
+
+    expect(recommendNext(PATH, prerequisites, progress)).toEqual({
+      kind: 'revisit',
+      subjectId: 'arrays',
+      becauseOf: 'searching',
+    });
+  });
+});
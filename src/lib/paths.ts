@@ -0,0 +1,100 @@
+// Prerequisites and learning paths. A subject is unlocked once every subject
+// it requires has been completed at least once. The recommendation prefers
+// going back over a gap: when the latest completed session on a subject ended
+// confused, its prerequisites are suggested before anything new, until each
+// has been completed again since. Open and abandoned sessions are left out.
+//
+// Everything here is pure so that Dashboard can compute it from rows it has
+// already loaded.
+
+import { CONFUSION_THRESHOLD } from './confusion';
+import { LearningPathSubject, LearningSession, SubjectPrerequisite } from './supabase';
+
+// Only subjects with a completed session have progress.
+export type SubjectProgress = {
+  completed: boolean;
+  lastConfusion: number;
+  // When the latest completed session ended.
+  lastSessionAt: string;
+};
+
+export type Recommendation =
+  | { kind: 'revisit'; subjectId: string; becauseOf: string }
+  | { kind: 'next'; subjectId: string; pathId: string };
+
+export function subjectProgress(
+  sessions: Pick<LearningSession, 'subject_id' | 'is_completed' | 'confusion_score' | 'end_time'>[]
+): Map<string, SubjectProgress> {
+  const progress = new Map<string, SubjectProgress>();
+
+  for (const session of sessions) {
+    if (!session.is_completed || !session.end_time) continue;
+
+    const current = progress.get(session.subject_id);
+    if (current && session.end_time <= current.lastSessionAt) continue;
+
+    progress.set(session.subject_id, {
+      completed: true,
+      lastConfusion: session.confusion_score,
+      lastSessionAt: session.end_time,
+    });
+  }
+
+  return progress;
+}
+
+export function prerequisitesOf(subjectId: string, prerequisites: SubjectPrerequisite[]): string[] {
+  return prerequisites
+    .filter((prerequisite) => prerequisite.subject_id === subjectId)
+    .map((prerequisite) => prerequisite.prerequisite_id);
+}
+
+export function missingPrerequisites(
+  subjectId: string,
+  prerequisites: SubjectPrerequisite[],
+  progress: Map<string, SubjectProgress>
+): string[] {
+  return prerequisitesOf(subjectId, prerequisites).filter((id) => !progress.get(id)?.completed);
+}
+
+export function isUnlocked(
+  subjectId: string,
+  prerequisites: SubjectPrerequisite[],
+  progress: Map<string, SubjectProgress>
+): boolean {
+  return missingPrerequisites(subjectId, prerequisites, progress).length === 0;
+}
+
+// `pathSubjects` must be ordered by path and then by position.
+export function recommendNext(
+  pathSubjects: LearningPathSubject[],
+  prerequisites: SubjectPrerequisite[],
+  progress: Map<string, SubjectProgress>
+): Recommendation | null {
+  const struggling = Array.from(progress.entries())
+    .filter(([subjectId, entry]) =>
+      entry.lastConfusion >= CONFUSION_THRESHOLD && prerequisitesOf(subjectId, prerequisites).length > 0
+    )
+    .sort(([, a], [, b]) => b.lastSessionAt.localeCompare(a.lastSessionAt));
+
+  for (const [subjectId, entry] of struggling) {
+    // Weakest prerequisite first; one never completed counts as weakest.
+    // Prerequisites completed again since the struggle have been revisited.
+    const [first] = prerequisitesOf(subjectId, prerequisites)
+      .map((id) => ({ id, entry: progress.get(id) }))
+      .filter((prerequisite) => !prerequisite.entry || prerequisite.entry.lastSessionAt <= entry.lastSessionAt)
+      .sort((a, b) => (b.entry?.lastConfusion ?? 100) - (a.entry?.lastConfusion ?? 100));
+
+    if (first) {
+      return { kind: 'revisit', subjectId: first.id, becauseOf: subjectId };
+    }
+  }
+
+  const next = pathSubjects.find(
+    (entry) =>
+      !progress.get(entry.subject_id)?.completed &&
+      isUnlocked(entry.subject_id, prerequisites, progress)
+  );
+
+  return next ? { kind: 'next', subjectId: next.subject_id, pathId: next.path_id } : null;
+}
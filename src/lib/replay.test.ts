@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { buildTimeline } from './replay';
+import { HintReveal, SessionAttempt, SessionEvent } from './supabase';
+
+const START = Date.parse('2026-03-02T09:00:00Z');
+
+function wallTime(seconds: number): string {
+  return new Date(START + seconds * 1000).toISOString();
+}
+
+function attempt(number: number, atSecond: number, confusionScore: number, wallSecond = atSecond): SessionAttempt {
+  return {
+    id: `a${number}`,
+    session_id: 's1',
+    question_id: 'q1',
+    parent_question_id: null,
+    attempt_number: number,
+    user_answer: 'wrong',
+    response: null,
+    selected_options: null,
+    is_correct: false,
+    match: null,
+    misconception_id: null,
+    hints_used: 0,
+    credit: null,
+    time_from_start: atSecond,
+    signals: { idle_seconds: 0, deleted_chars: 0, tab_away_seconds: 0 },
+    confusion_score: confusionScore,
+    confusion_reasons: [],
+    question_revision_id: null,
+    created_at: wallTime(wallSecond),
+  };
+}
+
+function reveal(wallSecond: number, source: HintReveal['source']): HintReveal {
+  return {
+    id: `r${wallSecond}`,
+    session_id: 's1',
+    question_id: 'q1',
+    hint_id: `h${wallSecond}`,
+    source,
+    revealed_at: wallTime(wallSecond),
+  };
+}
+
+const session = { start_time: wallTime(0), ai_help_shown: true };
+
+describe('buildTimeline', () => {
+  it('shows help with the first hint, including hints unlocked automatically', () => {
+    // The second attempt unlocked a hint in the same transaction.
+    const timeline = buildTimeline(
+      session,
+      [attempt(1, 10, 20), attempt(2, 30, 50)],
+      [reveal(30, 'auto'), reveal(45, 'learner')],
+      [],
+      []
+    );
+
+    expect(timeline.filter((entry) => entry.kind !== 'attempt')).toEqual([
+      { kind: 'help', at: 30, questionId: 'q1', confusionScore: 50 },
+      { kind: 'hint', at: 30, position: 1, source: 'auto' },
+      { kind: 'hint', at: 45, position: 2, source: 'learner' },
+    ]);
+  });
+
+  it('places reveals on the active clock, leaving out time away', () => {
+    // Away from 20s to 80s on the wall clock; back at 20 active seconds.
+    const away: SessionEvent = {
+      id: 'e1',
+      session_id: 's1',
+      event_type: 'visibility_visible',
+      payload: { hidden_seconds: 60 },
+      seconds_from_start: 20,
+      occurred_at: wallTime(80),
+      created_at: wallTime(80),
+    };
+
+    const timeline = buildTimeline(
+      session,
+      [attempt(1, 10, 10), attempt(2, 40, 10, 100)],
+      [reveal(90, 'learner')],
+      [away],
+      []
+    );
+
+    expect(timeline.find((entry) => entry.kind === 'hint')?.at).toBe(30);
+  });
+
+  it('shows help once confusion reaches the threshold when no hint was revealed', () => {
+    const timeline = buildTimeline(session, [attempt(1, 10, 20), attempt(2, 30, 45)], [], [], []);
+
+    expect(timeline.filter((entry) => entry.kind === 'help')).toEqual([
+      { kind: 'help', at: 30, questionId: 'q1', confusionScore: 45 },
+    ]);
+  });
+
+  it('shows no help the session did not record', () => {
+    const timeline = buildTimeline(
+      { ...session, ai_help_shown: false },
+      [attempt(1, 10, 20), attempt(2, 30, 45)],
+      [],
+      [],
+      []
+    );
+
+    expect(timeline.some((entry) => entry.kind === 'help')).toBe(false);
+  });
+});
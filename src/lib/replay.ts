@@ -0,0 +1,136 @@
+// Builds the timeline shown on the session replay page from what a session
+// recorded: attempts, hint reveals, tutor messages and interaction events.
+// Every entry is placed on the same clock as `time_from_start`, i.e. active
+// seconds since the session started, so playback can step through it in order.
+// Hint reveals only carry the time they happened, so they are placed from the
+// latest entry recorded before them.
+
+import { CONFUSION_THRESHOLD } from './confusion';
+import { HintReveal, LearningSession, SessionAttempt, SessionEvent, TutorMessage } from './supabase';
+
+export type TimelineEntry =
+  | { kind: 'attempt'; at: number; attempt: SessionAttempt }
+  | { kind: 'help'; at: number; questionId: string | null; confusionScore: number }
+  | { kind: 'hint'; at: number; position: number; source: HintReveal['source'] }
+  | { kind: 'video'; at: number }
+  | { kind: 'away'; at: number; seconds: number }
+  | { kind: 'tutor'; at: number; message: TutorMessage };
+
+// Entries that happen at the same second keep this order, so the help that an
+// attempt triggered is listed after the attempt.
+const KIND_ORDER: Record<TimelineEntry['kind'], number> = {
+  away: 0,
+  attempt: 1,
+  help: 2,
+  hint: 3,
+  video: 4,
+  tutor: 5,
+};
+
+type ClockMark = { time: number; at: number };
+
+// Active seconds at `time`, counted on from the latest mark at or before it
+// and never past the next one, which may come after time away.
+function activeSecondsAt(marks: ClockMark[], time: string): number {
+  const wallTime = new Date(time).getTime();
+  let at = 0;
+
+  for (const mark of marks) {
+    if (mark.time > wallTime) return Math.min(at, mark.at);
+    at = mark.at + Math.floor((wallTime - mark.time) / 1000);
+  }
+
+  return at;
+}
+
+export function buildTimeline(
+  session: Pick<LearningSession, 'start_time' | 'ai_help_shown'>,
+  attempts: SessionAttempt[],
+  reveals: HintReveal[],
+  events: SessionEvent[],
+  messages: TutorMessage[]
+): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  const marks: ClockMark[] = [
+    { time: new Date(session.start_time).getTime(), at: 0 },
+    ...attempts.map((attempt) => ({ time: new Date(attempt.created_at).getTime(), at: attempt.time_from_start })),
+    ...events.map((event) => ({ time: new Date(event.occurred_at).getTime(), at: event.seconds_from_start })),
+    ...messages.map((message) => ({ time: new Date(message.created_at).getTime(), at: message.seconds_from_start })),
+  ].sort((a, b) => a.time - b.time);
+
+  for (const attempt of attempts) {
+    entries.push({ kind: 'attempt', at: attempt.time_from_start, attempt });
+  }
+
+  // Learn shows the help card with a question's first hint, whether the
+  // learner asked for it or it unlocked as confusion rose.
+  const revealed = new Map<string, number>();
+  const sortedReveals = [...reveals].sort((a, b) => a.revealed_at.localeCompare(b.revealed_at));
+
+  for (const reveal of sortedReveals) {
+    const at = activeSecondsAt(marks, reveal.revealed_at);
+    const position = (revealed.get(reveal.question_id) ?? 0) + 1;
+    revealed.set(reveal.question_id, position);
+
+    if (position === 1) {
+      entries.push({ kind: 'help', at, questionId: reveal.question_id, confusionScore: confusionBefore(attempts, at) });
+    }
+    entries.push({ kind: 'hint', at, position, source: reveal.source });
+  }
+
+  // Without hints the card appears once confusion reaches the threshold, which
+  // the session records in `ai_help_shown`.
+  if (session.ai_help_shown && revealed.size === 0) {
+    const trigger = attempts.find((attempt) => attempt.confusion_score >= CONFUSION_THRESHOLD);
+    if (trigger) {
+      entries.push({
+        kind: 'help',
+        at: trigger.time_from_start,
+        questionId: trigger.parent_question_id ?? trigger.question_id,
+        confusionScore: trigger.confusion_score,
+      });
+    }
+  }
+
+  for (const event of events) {
+    if (event.event_type === 'video_click') {
+      entries.push({ kind: 'video', at: event.seconds_from_start });
+    } else if (event.event_type === 'visibility_visible' && Number(event.payload.hidden_seconds) > 0) {
+      entries.push({ kind: 'away', at: event.seconds_from_start, seconds: Number(event.payload.hidden_seconds) });
+    }
+  }
+
+  for (const message of messages) {
+    entries.push({ kind: 'tutor', at: message.seconds_from_start, message });
+  }
+
+  return entries.sort((a, b) => a.at - b.at || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+}
+
+// Confusion score of the latest attempt at or before `at`.
+function confusionBefore(attempts: SessionAttempt[], at: number): number {
+  let score = 0;
+
+  for (const attempt of attempts) {
+    if (attempt.time_from_start <= at) score = attempt.confusion_score;
+  }
+
+  return score;
+}
+
+// Confusion score as of `at`: that of the latest attempt at or before it.
+export function confusionAt(entries: TimelineEntry[], at: number): number {
+  let score = 0;
+
+  for (const entry of entries) {
+    if (entry.at > at) break;
+    if (entry.kind === 'attempt') score = entry.attempt.confusion_score;
+  }
+
+  return score;
+}
+
+export function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
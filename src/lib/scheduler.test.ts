@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { isDue, reviewUrgency } from './scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-02T09:00:00Z');
+
+describe('reviewUrgency and isDue', () => {
+  it('measures how overdue a review is against its interval', () => {
+    const state = { intervalDays: 4, dueAt: new Date(NOW.getTime() - 2 * DAY_MS) };
+
+    expect(reviewUrgency(state, NOW)).toBeCloseTo(0.5);
+    expect(reviewUrgency({ intervalDays: 4, dueAt: NOW }, NOW)).toBe(0);
+    expect(reviewUrgency({ intervalDays: 0, dueAt: new Date(NOW.getTime() + DAY_MS) }, NOW)).toBe(-1);
+  });
+
+  it('is due from the due time on', () => {
+    expect(isDue({ dueAt: NOW }, NOW)).toBe(true);
+    expect(isDue({ dueAt: new Date(NOW.getTime() + 1) }, NOW)).toBe(false);
+  });
+});
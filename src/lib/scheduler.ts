@@ -0,0 +1,27 @@
+// SM-2 spaced repetition. The database grades each review of a subject or
+// question 0-5 from how the learner did on it and moves its next review in
+// review_schedule (see the server_review_schedule migration): items that were
+// solved cleanly wait longer each time, items that needed many attempts, a lot
+// of help or were given up come back the next day.
+//
+// Dashboard ranks the reviews that are due with the helpers below.
+
+export type ReviewState = {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: Date;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How overdue a review is relative to its interval; 0 when it is just due and
+// negative while it is not due yet.
+export function reviewUrgency(state: Pick<ReviewState, 'intervalDays' | 'dueAt'>, now: Date = new Date()): number {
+  const overdueDays = (now.getTime() - state.dueAt.getTime()) / DAY_MS;
+  return overdueDays / Math.max(1, state.intervalDays);
+}
+
+export function isDue(state: Pick<ReviewState, 'dueAt'>, now: Date = new Date()): boolean {
+  return state.dueAt.getTime() <= now.getTime();
+}
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import { AttemptSignals, ConfusionModelVersion, ConfusionReason } from './confusion';
+import { AnswerValue } from './answers';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -9,49 +11,467 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// correct_answer is not readable by learners, so subjects and questions must
+// be selected with an explicit column list rather than '*'.
+export const SUBJECT_COLUMNS =
+  'id, name, slug, title, description, ai_help_text, video_search_query, confusion_model, question_selector, published_at, revision_id, created_at';
+
+export const QUESTION_COLUMNS =
+  'id, subject_id, parent_id, position, difficulty, format, question, data, options, revision_id, created_at';
+
+// Open sessions without activity for this long are marked abandoned instead of
+// being resumed.
+export const STALE_SESSION_MINUTES = Number(import.meta.env.VITE_STALE_SESSION_MINUTES) || 120;
+
+export type ProfileRole = 'learner' | 'instructor' | 'author';
+
 export type Profile = {
   id: string;
   email: string;
   full_name: string | null;
   learning_fingerprint: string;
+  role: ProfileRole;
   created_at: string;
   updated_at: string;
 };
 
+export type Classroom = {
+  id: string;
+  instructor_id: string;
+  name: string;
+  join_code: string;
+  created_at: string;
+};
+
+export type ClassroomMember = {
+  classroom_id: string;
+  user_id: string;
+  joined_at: string;
+};
+
+export type ClassroomNudge = {
+  id: string;
+  classroom_id: string;
+  instructor_id: string;
+  user_id: string;
+  session_id: string | null;
+  kind: 'nudge' | 'hint';
+  body: string;
+  created_at: string;
+  read_at: string | null;
+};
+
 export type Subject = {
   id: string;
   name: string;
   slug: string;
   title: string;
   description: string | null;
+  ai_help_text: string;
+  video_search_query: string;
+  confusion_model: ConfusionModelVersion;
+  question_selector: QuestionSelector;
+  // NULL until the subject is first published; see the content_authoring migration.
+  published_at: string | null;
+  revision_id: string | null;
+  created_at: string;
+};
+
+// How the next question of a session is picked; see the adaptive_difficulty
+// migration.
+export type QuestionSelector = 'sequential' | 'staircase' | 'elo';
+
+export type LearnerRating = {
+  user_id: string;
+  subject_id: string;
+  rating: number;
+  level: number;
+  attempts: number;
+  updated_at: string;
+};
+
+export type SubjectPrerequisite = {
+  subject_id: string;
+  prerequisite_id: string;
+};
+
+export type LearningPath = {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+};
+
+export type LearningPathSubject = {
+  path_id: string;
+  subject_id: string;
+  position: number;
+};
+
+export type QuestionFormat = Question['format'];
+
+export type QuestionOption = {
+  id: string;
+  label: string;
+};
+
+// Scaffold steps have a `parent_id` and are ordered by `position` within their
+// parent question.
+type QuestionBase = {
+  id: string;
+  subject_id: string;
+  parent_id: string | null;
+  position: number;
+  difficulty: number;
   question: string;
   data: string;
-  correct_answer: string;
+  revision_id: string | null;
+  created_at: string;
+};
+
+// `template` marks each blank with ___.
+export type Question =
+  | (QuestionBase & { format: 'free_text'; options: [] })
+  | (QuestionBase & { format: 'multiple_choice'; options: QuestionOption[] })
+  | (QuestionBase & { format: 'multi_select'; options: QuestionOption[] })
+  | (QuestionBase & { format: 'ordering'; options: QuestionOption[] })
+  | (QuestionBase & { format: 'fill_blank'; options: { template: string } });
+
+// Matching rules for free-text questions; see the answer_matching and
+// negated_answers migrations for the order in which they are applied.
+export type AnswerSpec = {
+  accepted?: string[];
+  numeric?: {
+    value: number;
+    tolerance?: number;
+    units?: Record<string, number>;
+    unit_required?: boolean;
+  };
+  patterns?: string[];
+  fuzzy?: { max_distance: number };
+  keywords?: {
+    required?: (string | string[])[];
+    forbidden?: string[];
+    // Match `required` within `fuzzy.max_distance` too; exact by default.
+    fuzzy?: boolean;
+  };
+};
+
+// Drafts have neither `revision` nor `published_at`; publishing assigns both.
+export type SubjectRevision = {
+  id: string;
+  subject_id: string;
+  revision: number | null;
+  name: string;
+  title: string;
+  description: string | null;
   ai_help_text: string;
   video_search_query: string;
+  created_by: string | null;
   created_at: string;
+  updated_at: string;
+  published_at: string | null;
+};
+
+export type HintDraft = {
+  level: HintLevel;
+  body: string;
+  unlock_confusion: number | null;
+};
+
+// `question_id` is null for a question that has never been published.
+export type QuestionRevision = {
+  id: string;
+  question_id: string | null;
+  subject_id: string;
+  parent_id: string | null;
+  revision: number | null;
+  difficulty: number;
+  format: QuestionFormat;
+  question: string;
+  data: string;
+  options: QuestionOption[] | { template: string };
+  correct_answer: string;
+  answer_key: AnswerValue | null;
+  answer_spec: AnswerSpec | null;
+  hints: HintDraft[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  published_at: string | null;
+};
+
+export type AnswerMatch = {
+  matched: boolean;
+  rule: string;
+  detail?: string;
+};
+
+export type Misconception = {
+  id: string;
+  subject_id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+};
+
+export type LearnerMisconception = {
+  user_id: string;
+  misconception_id: string;
+  subject_id: string;
+  name: string;
+  occurrences: number;
+  last_seen_at: string;
+};
+
+export type LearnerOverallStats = {
+  user_id: string;
+  session_count: number;
+  completed_count: number;
+  attempt_count: number;
+  avg_confusion: number;
+  total_time: number;
+  questions_solved: number;
+  hint_usage_rate: number;
+  last_attempt_at: string;
+};
+
+export type LearnerSubjectStats = LearnerOverallStats & {
+  subject_id: string;
+};
+
+export type ConfusionTrendPoint = {
+  user_id: string;
+  day: string;
+  session_count: number;
+  avg_confusion: number;
+};
+
+export type TimeToCorrectBucket = {
+  user_id: string;
+  bucket: string;
+  bucket_order: number;
+  questions: number;
+};
+
+// Returned by question_item_stats. Rates are shares of encounters, the
+// sessions that answered the question; they are null until someone has.
+export type QuestionItemStats = {
+  question_id: string;
+  encounters: number;
+  solve_rate: number | null;
+  first_try_rate: number | null;
+  mean_attempts: number | null;
+  mean_seconds_to_correct: number | null;
+  avg_confusion: number | null;
+  hint_rate: number | null;
+  wrong_answers: FrequentWrongAnswer[];
+};
+
+export type FrequentWrongAnswer = {
+  answer: string;
+  sessions: number;
+  // The misconception matched in most of the answer's sessions, and in how
+  // many of them.
+  misconception_id: string | null;
+  misconception_sessions: number;
 };
 
 export type LearningSession = {
   id: string;
   user_id: string;
   subject_id: string;
+  question_id: string | null;
   start_time: string;
   end_time: string | null;
   attempts: number;
   time_spent: number;
   confusion_score: number;
+  confusion_model: ConfusionModelVersion;
+  confusion_reasons: ConfusionReason[];
+  question_selector: QuestionSelector;
   is_completed: boolean;
   ai_help_shown: boolean;
+  hints_used: number;
+  credit: number | null;
+  scaffold_question_id: string | null;
+  abandoned_at: string | null;
+  paused_seconds: number;
+  focus_question_id: string | null;
+  subject_revision_id: string | null;
   created_at: string;
 };
 
+// Returned by resume_session; `elapsed_seconds` is the active time so far.
+export type ResumedSession = LearningSession & {
+  elapsed_seconds: number;
+  resumed: boolean;
+};
+
 export type SessionAttempt = {
   id: string;
   session_id: string;
+  question_id: string | null;
+  parent_question_id: string | null;
   attempt_number: number;
   user_answer: string;
+  response: AnswerValue | null;
+  selected_options: string[] | null;
   is_correct: boolean;
+  match: AnswerMatch | null;
+  misconception_id: string | null;
+  hints_used: number;
+  credit: number | null;
   time_from_start: number;
+  signals: AttemptSignals;
+  confusion_score: number;
+  confusion_reasons: ConfusionReason[];
+  question_revision_id: string | null;
+  created_at: string;
+};
+
+export type HintLevel = 'nudge' | 'concept' | 'step' | 'worked_example';
+
+export type RevealedHint = {
+  id: string;
+  position: number;
+  level: HintLevel;
+  body: string;
+  source: 'learner' | 'auto';
+  revealed_at: string;
+};
+
+export type HintReveal = {
+  id: string;
+  session_id: string;
+  question_id: string;
+  hint_id: string;
+  source: RevealedHint['source'];
+  revealed_at: string;
+};
+
+// Hints revealed so far for one question of a session.
+export type SessionHints = {
+  question_id: string | null;
+  hint_count: number;
+  hints: RevealedHint[];
+};
+
+export type TutorExplanation = {
+  id: string;
+  question_id: string;
+  misconception_id: string | null;
+  provider: string;
+  body: string;
+  created_at: string;
+};
+
+// Returned by tutor_explanation and save_tutor_explanation; `body` is null on a
+// cache miss.
+export type CachedExplanation = {
+  question_id: string;
+  misconception_id: string | null;
+  body: string | null;
+};
+
+export type TutorMessage = {
+  id: string;
+  session_id: string;
+  question_id: string;
+  role: 'learner' | 'tutor';
+  body: string;
+  provider: string | null;
+  redacted: boolean;
+  seconds_from_start: number;
   created_at: string;
 };
+
+// Returned by mistake_journal: one entry per question and misconception.
+export type MistakeJournalEntry = {
+  subject_id: string;
+  question_id: string;
+  question: string;
+  data: string;
+  misconception: Pick<Misconception, 'id' | 'name' | 'description'> | null;
+  answers: { answer: string; session_id: string; answered_at: string }[];
+  last_wrong_at: string;
+  correct_sessions: number;
+  explanation: string | null;
+  worked_example: string | null;
+};
+
+export type ReviewScheduleEntry = {
+  id: string;
+  user_id: string;
+  subject_id: string;
+  question_id: string | null;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: string;
+  last_quality: number | null;
+  last_reviewed_at: string | null;
+  last_session_id: string | null;
+};
+
+export type AttemptResult = {
+  is_correct: boolean;
+  feedback: string;
+  match: AnswerMatch;
+  misconception: Pick<Misconception, 'id' | 'slug' | 'name'> | null;
+  credit: number | null;
+  hints: SessionHints;
+  question_id: string;
+  parent_question_id: string | null;
+  scaffold_question_id: string | null;
+  next_question_id: string | null;
+  is_completed: boolean;
+  attempt_number: number;
+  time_spent: number;
+  confusion_score: number;
+  confusion_model: ConfusionModelVersion;
+  confusion_reasons: ConfusionReason[];
+  ai_help_shown: boolean;
+};
+
+export type SessionEventType =
+  | 'typing_burst'
+  | 'deletion'
+  | 'pause'
+  | 'focus'
+  | 'blur'
+  | 'visibility_hidden'
+  | 'visibility_visible'
+  | 'submit'
+  | 'hint_click'
+  | 'video_click';
+
+export type SessionEvent = {
+  id: string;
+  session_id: string;
+  event_type: SessionEventType;
+  payload: Record<string, number | string>;
+  seconds_from_start: number;
+  // Set by the server on insert; see the server_timed_session_events migration.
+  occurred_at: string;
+  created_at: string;
+};
+
+export type FingerprintEvidence = {
+  summary: string;
+  completed_sessions: number;
+  avg_attempts: number;
+  avg_time_spent: number;
+  seconds_per_attempt: number;
+  help_rate: number;
+};
+
+export type LearningFingerprint = {
+  id: string;
+  user_id: string;
+  fingerprint: string;
+  evidence: FingerprintEvidence;
+  computed_at: string;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Question } from './supabase';
+import { TutorChatRequest, TutorRequest, templateTutor } from './tutor';
+
+const question: Question = {
+  id: 'q1',
+  subject_id: 's1',
+  parent_id: null,
+  position: 1,
+  difficulty: 1,
+  format: 'free_text',
+  question: 'At which index is the target found?',
+  data: 'Array: [1, 3, 5, 7, 9, 11], target 7',
+  options: [],
+  revision_id: null,
+  created_at: '2026-03-02T09:00:00Z',
+};
+
+const misconception = {
+  id: 'm1',
+  slug: 'one_based_indexing',
+  name: 'Off-by-one / 1-based indexing',
+  description: 'Counting positions from 1 instead of 0.',
+};
+
+function request(overrides: Partial<TutorRequest> = {}): TutorRequest {
+  return {
+    subjectTitle: 'Binary Search',
+    question,
+    attempts: [],
+    misconception: null,
+    ...overrides,
+  };
+}
+
+function chat(learnerTurns: number, overrides: Partial<TutorRequest> = {}): TutorChatRequest {
+  return {
+    ...request(overrides),
+    messages: Array.from({ length: learnerTurns }, (_, turn) => [
+      { role: 'learner' as const, body: `Question ${turn + 1}` },
+      { role: 'tutor' as const, body: `Reply ${turn + 1}` },
+    ])
+      .flat()
+      .slice(0, learnerTurns * 2 - 1),
+  };
+}
+
+describe('templateTutor.reply', () => {
+  it('opens with the misconception when there is one', async () => {
+    expect(await templateTutor.reply(chat(1, { misconception }))).toBe(
+      'Your answer looks like a case of off-by-one / 1-based indexing. What would have to be true for that reasoning to work here?'
+    );
+    expect(await templateTutor.reply(chat(1))).toBe('In your own words, what is the question asking you to find?');
+  });
+
+  it('asks a different guiding question on each learner turn', async () => {
+    const attempts = [{ answer: '4', isCorrect: false, at: 10 }];
+    const replies = await Promise.all(
+      [1, 2, 3, 4, 5].map((turns) => templateTutor.reply(chat(turns, { attempts })))
+    );
+
+    expect(new Set(replies).size).toBe(5);
+    expect(replies[1]).toContain('Array: [1, 3, 5, 7, 9, 11], target 7');
+    expect(replies[2]).toContain('Take your last answer, "4".');
+    expect(replies[3]).toMatch(/What do you notice when you try that\?$/);
+  });
+
+  it('keeps asking the last question once it runs out', async () => {
+    const last = await templateTutor.reply(chat(5));
+
+    expect(await templateTutor.reply(chat(9))).toBe(last);
+  });
+
+  it('never gives the correct answer', async () => {
+    const attempts = [
+      { answer: '4', isCorrect: false, at: 10 },
+      { answer: '3', isCorrect: true, at: 20 },
+    ];
+
+    for (const turns of [1, 2, 3, 4, 5]) {
+      expect(await templateTutor.reply(chat(turns, { attempts }))).not.toContain('"3"');
+    }
+  });
+});
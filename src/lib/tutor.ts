@@ -0,0 +1,77 @@
+// Tutor providers write an explanation aimed at the mistake a learner is
+// making on the current question, cached per (question, misconception) so
+// other learners making the same mistake get the cached one. Explanations from
+// a language model are generated by the tutor edge function, which keeps the
+// provider's API key on the server; template explanations are written by
+// template_tutor_explanation in the database, when no function is configured
+// or it fails.
+//
+// In the chat panel providers act as a Socratic tutor: they answer with
+// guiding questions, and save_tutor_reply replaces any reply that still
+// contains the correct answer. The template tutor below writes its replies in
+// the browser.
+
+import { Misconception, Question, TutorMessage } from './supabase';
+
+export type TutorAttempt = {
+  answer: string;
+  isCorrect: boolean;
+  at: number;
+};
+
+export type TutorRequest = {
+  subjectTitle: string;
+  question: Question;
+  attempts: TutorAttempt[];
+  misconception: Pick<Misconception, 'id' | 'slug' | 'name' | 'description'> | null;
+};
+
+export type TutorChatRequest = TutorRequest & {
+  messages: Pick<TutorMessage, 'role' | 'body'>[];
+};
+
+export type TutorProvider = {
+  name: string;
+  reply: (request: TutorChatRequest) => Promise<string>;
+};
+
+function wrongAnswers(request: TutorRequest): string[] {
+  return request.attempts.filter((attempt) => !attempt.isCorrect).map((attempt) => attempt.answer);
+}
+
+const FORMAT_ADVICE: Record<Question['format'], string> = {
+  free_text: 'Work the problem through on the data step by step before writing your answer.',
+  multiple_choice: 'Rule out each option that contradicts the data before choosing one.',
+  multi_select: 'Check every option on its own; more than one can be right, and so can none of the ones you picked.',
+  ordering: 'Ask which step depends on the result of another: that one has to come later.',
+  fill_blank: 'Read the whole sentence first, then fill each blank so the sentence stays true.',
+};
+
+// Deterministic chat provider used offline and whenever no tutor function is
+// configured. Keep FORMAT_ADVICE in step with template_explanation in the
+// database, which writes the same tutor's explanations.
+export const templateTutor: TutorProvider = {
+  name: 'template@1',
+  async reply(request) {
+    const turn = request.messages.filter((message) => message.role === 'learner').length;
+    const wrong = wrongAnswers(request);
+    const questions = [
+      request.misconception
+        ? `Your answer looks like a case of ${request.misconception.name.toLowerCase()}. What would have to be true for that reasoning to work here?`
+        : 'In your own words, what is the question asking you to find?',
+      `Which part of the data ("${request.question.data}") did you use, and which part did you leave out?`,
+      wrong.length > 0
+        ? `Take your last answer, "${wrong[wrong.length - 1]}". Can you check it against the data one step at a time? Where does it stop fitting?`
+        : 'What would your first step be, before worrying about the final answer?',
+      FORMAT_ADVICE[request.question.format].replace(/\.$/, '. What do you notice when you try that?'),
+      'If you explained your reasoning to a friend, which step would you be least sure about?',
+    ];
+
+    return questions[Math.min(Math.max(turn - 1, 0), questions.length - 1)];
+  },
+};
+
+// Name of the edge function that generates explanations and replies with a
+// language model; see supabase/functions/tutor. Unset, Learn uses the template
+// tutor alone.
+export const TUTOR_FUNCTION: string | null = import.meta.env.VITE_TUTOR_FUNCTION || null;
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase, Subject, SUBJECT_COLUMNS } from '../lib/supabase';
+import { Header } from '../components/Header';
+import { Card, CardBody, CardHeader } from '../components/Card';
+import { Button } from '../components/Button';
+import { Input } from '../components/Input';
+import { EyeOff, PenLine } from 'lucide-react';
+
+export function Author() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [draftCounts, setDraftCounts] = useState<Map<string, number>>(new Map());
+  const [slug, setSlug] = useState('');
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      loadSubjects();
+    }
+  }, [user]);
+
+  async function loadSubjects() {
+    const { data: subjectsData } = await supabase
+      .from('subjects')
+      .select(SUBJECT_COLUMNS)
+      .order('name');
+
+    const { data: subjectDrafts } = await supabase
+      .from('subject_revisions')
+      .select('subject_id')
+      .is('published_at', null);
+
+    const { data: questionDrafts } = await supabase
+      .from('question_revisions')
+      .select('subject_id')
+      .is('published_at', null);
+
+    const counts = new Map<string, number>();
+    [...(subjectDrafts ?? []), ...(questionDrafts ?? [])].forEach(({ subject_id }) =>
+      counts.set(subject_id, (counts.get(subject_id) ?? 0) + 1)
+    );
+
+    setSubjects(subjectsData ?? []);
+    setDraftCounts(counts);
+    setLoading(false);
+  }
+
+  async function createSubject(e: React.FormEvent) {
+    e.preventDefault();
+
+    setCreating(true);
+    setError('');
+
+    const { data, error: createError } = await supabase.rpc('create_subject', {
+      p_slug: slug.trim(),
+      p_name: name.trim(),
+    });
+
+    setCreating(false);
+
+    if (createError) {
+      setError(createError.message);
+      return;
+    }
+
+    navigate(`/author/subjects/${(data as Subject).id}`);
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <div className="flex items-center justify-center h-96">
+          <p className="text-slate-500">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h2 className="text-2xl font-semibold text-slate-900 mb-1">Authoring</h2>
+          <p className="text-slate-600">
+            Edits are saved as drafts. Learners only see what you publish.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-3">
+            {subjects.map((subject) => {
+              const drafts = draftCounts.get(subject.id) ?? 0;
+
+              return (
+                <Card key={subject.id}>
+                  <CardBody className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-slate-900">{subject.name}</p>
+                      <p className="text-xs text-slate-500">
+                        {subject.slug}
+                        {drafts > 0 && ` · ${drafts} unpublished ${drafts === 1 ? 'draft' : 'drafts'}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {!subject.published_at && (
+                        <span className="flex items-center gap-1 text-xs text-slate-500">
+                          <EyeOff className="w-3.5 h-3.5" />
+                          Hidden
+                        </span>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => navigate(`/author/subjects/${subject.id}`)}
+                      >
+                        <span className="flex items-center gap-2">
+                          <PenLine className="w-4 h-4" />
+                          Edit
+                        </span>
+                      </Button>
+                    </div>
+                  </CardBody>
+                </Card>
+              );
+            })}
+          </div>
+
+          <Card className="h-fit">
+            <CardHeader>
+              <h3 className="font-medium text-slate-900">New Subject</h3>
+              <p className="text-xs text-slate-500 mt-1">
+                Stays hidden until you publish it with at least one question.
+              </p>
+            </CardHeader>
+            <CardBody>
+              <form onSubmit={createSubject} className="space-y-3">
+                <Input
+                  label="Name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Linked Lists"
+                />
+                <Input
+                  label="Slug"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value)}
+                  placeholder="linked_lists"
+                  error={error || undefined}
+                />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={creating || slug.trim() === '' || name.trim() === ''}
+                >
+                  Create Subject
+                </Button>
+              </form>
+            </CardBody>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
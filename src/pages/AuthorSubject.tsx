@@ -0,0 +1,423 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  supabase,
+  Subject,
+  Question,
+  SubjectRevision,
+  QuestionRevision,
+  SUBJECT_COLUMNS,
+  QUESTION_COLUMNS,
+} from '../lib/supabase';
+import {
+  QUESTION_FORMAT_LABELS,
+  SubjectDraftFields,
+  questionDraftFields,
+  subjectDraftFields,
+  subjectDraftProblems,
+} from '../lib/authoring';
+import { Header } from '../components/Header';
+import { Card, CardBody, CardFooter, CardHeader } from '../components/Card';
+import { Button } from '../components/Button';
+import { Input } from '../components/Input';
+import { Textarea } from '../components/Textarea';
+import { BarChart3, EyeOff, PenLine, Plus } from 'lucide-react';
+
+export function AuthorSubject() {
+  const { subjectId } = useParams<{ subjectId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [revisions, setRevisions] = useState<SubjectRevision[]>([]);
+  const [fields, setFields] = useState<SubjectDraftFields | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questionDrafts, setQuestionDrafts] = useState<QuestionRevision[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const draft = revisions.find((revision) => !revision.published_at) ?? null;
+  const published = revisions.filter((revision) => revision.published_at);
+
+  useEffect(() => {
+    if (user && subjectId) {
+      loadSubject();
+    }
+  }, [user, subjectId]);
+
+  async function loadSubject() {
+    const { data: subjectData } = await supabase
+      .from('subjects')
+      .select(SUBJECT_COLUMNS)
+      .eq('id', subjectId)
+      .maybeSingle();
+
+    if (!subjectData) {
+      navigate('/author');
+      return;
+    }
+
+    const { data: revisionsData } = await supabase
+      .from('subject_revisions')
+      .select('*')
+      .eq('subject_id', subjectId)
+      .order('revision', { ascending: false, nullsFirst: true });
+
+    const { data: questionsData } = await supabase
+      .from('questions')
+      .select(QUESTION_COLUMNS)
+      .eq('subject_id', subjectId)
+      .is('parent_id', null)
+      .order('position');
+
+    const { data: draftsData } = await supabase
+      .from('question_revisions')
+      .select('*')
+      .eq('subject_id', subjectId)
+      .is('published_at', null)
+      .order('created_at');
+
+    const loadedRevisions: SubjectRevision[] = revisionsData ?? [];
+    const current =
+      loadedRevisions.find((revision) => !revision.published_at) ??
+      loadedRevisions.find((revision) => revision.id === subjectData.revision_id);
+
+    setSubject(subjectData);
+    setRevisions(loadedRevisions);
+    setFields(subjectDraftFields(current ?? subjectData));
+    setDirty(false);
+    setQuestions(questionsData ?? []);
+    setQuestionDrafts(draftsData ?? []);
+    setLoading(false);
+  }
+
+  function updateFields(changes: Partial<SubjectDraftFields>) {
+    setFields((prev) => (prev ? { ...prev, ...changes } : prev));
+    setDirty(true);
+  }
+
+  async function saveDraft(): Promise<SubjectRevision | null> {
+    if (!fields) return null;
+    if (draft && !dirty) return draft;
+
+    const { data, error: saveError } = draft
+      ? await supabase
+          .from('subject_revisions')
+          .update({ ...fields, updated_at: new Date().toISOString() })
+          .eq('id', draft.id)
+          .select('*')
+          .single()
+      : await supabase
+          .from('subject_revisions')
+          .insert({ subject_id: subjectId, ...fields })
+          .select('*')
+          .single();
+
+    if (saveError || !data) {
+      setError(saveError?.message ?? 'Could not save the draft');
+      return null;
+    }
+
+    setRevisions((prev) => [data, ...prev.filter((revision) => revision.id !== data.id)]);
+    setDirty(false);
+    return data;
+  }
+
+  async function handleSave() {
+    setBusy(true);
+    setError('');
+    await saveDraft();
+    setBusy(false);
+  }
+
+  async function handlePublish() {
+    setBusy(true);
+    setError('');
+
+    const saved = await saveDraft();
+    if (saved) {
+      const { error: publishError } = await supabase.rpc('publish_subject_revision', {
+        p_revision_id: saved.id,
+      });
+
+      if (publishError) {
+        setError(publishError.message);
+      } else {
+        await loadSubject();
+      }
+    }
+
+    setBusy(false);
+  }
+
+  async function discardDraft() {
+    if (!draft) return;
+
+    setBusy(true);
+    setError('');
+    await supabase.from('subject_revisions').delete().eq('id', draft.id);
+    await loadSubject();
+    setBusy(false);
+  }
+
+  async function editQuestion(question: Question) {
+    const existing = questionDrafts.find((revision) => revision.question_id === question.id);
+    if (existing) {
+      navigate(`/author/questions/${existing.id}`);
+      return;
+    }
+
+    setBusy(true);
+    setError('');
+
+    // Start the draft from the live revision.
+    const { data: liveRevision } = await supabase
+      .from('question_revisions')
+      .select('*')
+      .eq('id', question.revision_id)
+      .single();
+
+    const { data, error: insertError } = await supabase
+      .from('question_revisions')
+      .insert({
+        question_id: question.id,
+        subject_id: question.subject_id,
+        ...(liveRevision ? questionDraftFields(liveRevision) : {}),
+      })
+      .select('id')
+      .single();
+
+    setBusy(false);
+
+    if (insertError || !data) {
+      setError(insertError?.message ?? 'Could not start a draft');
+      return;
+    }
+
+    navigate(`/author/questions/${data.id}`);
+  }
+
+  async function addQuestion() {
+    setBusy(true);
+    setError('');
+
+    const { data, error: insertError } = await supabase
+      .from('question_revisions')
+      .insert({ subject_id: subjectId })
+      .select('id')
+      .single();
+
+    setBusy(false);
+
+    if (insertError || !data) {
+      setError(insertError?.message ?? 'Could not create the question');
+      return;
+    }
+
+    navigate(`/author/questions/${data.id}`);
+  }
+
+  if (loading || !subject || !fields) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <div className="flex items-center justify-center h-96">
+          <p className="text-slate-500">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const problems = subjectDraftProblems(fields);
+  const newQuestionDrafts = questionDrafts.filter((revision) => !revision.question_id);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <button
+            onClick={() => navigate('/author')}
+            className="text-sm text-slate-600 hover:text-slate-900 mb-2"
+          >
+            ← Back to Authoring
+          </button>
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-semibold text-slate-900">{subject.name}</h2>
+            {!subject.published_at && (
+              <span className="flex items-center gap-1 text-xs text-slate-500">
+                <EyeOff className="w-3.5 h-3.5" />
+                Hidden from learners
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-slate-500">{subject.slug}</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <h3 className="font-medium text-slate-900">Details</h3>
+            <p className="text-xs text-slate-500 mt-1">
+              {draft
+                ? `Draft last saved ${new Date(draft.updated_at).toLocaleString()}`
+                : published.length > 0
+                  ? `Showing revision ${published[0].revision}. Saving starts a draft.`
+                  : 'Not saved yet.'}
+              {dirty && ' · Unsaved changes'}
+            </p>
+          </CardHeader>
+          <CardBody className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Input
+                label="Name"
+                value={fields.name}
+                onChange={(e) => updateFields({ name: e.target.value })}
+              />
+              <Input
+                label="Title"
+                value={fields.title}
+                onChange={(e) => updateFields({ title: e.target.value })}
+              />
+            </div>
+            <Textarea
+              label="Description"
+              value={fields.description ?? ''}
+              onChange={(e) => updateFields({ description: e.target.value || null })}
+              rows={2}
+            />
+            <Textarea
+              label="Help text"
+              value={fields.ai_help_text}
+              onChange={(e) => updateFields({ ai_help_text: e.target.value })}
+              placeholder="Shown when a stuck learner's question has no hints"
+            />
+            <Input
+              label="Video search query"
+              value={fields.video_search_query}
+              onChange={(e) => updateFields({ video_search_query: e.target.value })}
+              placeholder="binary search explained"
+            />
+
+            {problems.length > 0 && (
+              <ul className="text-xs text-slate-500 list-disc list-inside">
+                {problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </CardBody>
+          <CardFooter className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-xs text-slate-500">
+              {published.length > 0
+                ? published
+                    .map((revision) =>
+                      `Revision ${revision.revision} · ${new Date(revision.published_at!).toLocaleDateString()}`
+                    )
+                    .join(', ')
+                : 'Never published'}
+            </p>
+            <div className="flex gap-2">
+              {draft && (
+                <Button variant="ghost" size="sm" onClick={discardDraft} disabled={busy}>
+                  Discard Draft
+                </Button>
+              )}
+              <Button variant="secondary" size="sm" onClick={handleSave} disabled={busy || !dirty}>
+                Save Draft
+              </Button>
+              <Button
+                size="sm"
+                onClick={handlePublish}
+                disabled={busy || problems.length > 0 || (!draft && !dirty)}
+              >
+                Publish
+              </Button>
+            </div>
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-slate-900">Questions</h3>
+              <div className="flex gap-2">
+                {questions.length > 0 && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => navigate(`/author/subjects/${subject.id}/analytics`)}
+                  >
+                    <span className="flex items-center gap-2">
+                      <BarChart3 className="w-4 h-4" />
+                      Item Analytics
+                    </span>
+                  </Button>
+                )}
+                <Button size="sm" variant="secondary" onClick={addQuestion} disabled={busy}>
+                  <span className="flex items-center gap-2">
+                    <Plus className="w-4 h-4" />
+                    Add Question
+                  </span>
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardBody className="divide-y divide-slate-100">
+            {questions.length === 0 && newQuestionDrafts.length === 0 && (
+              <p className="text-sm text-slate-500 py-2">No questions yet.</p>
+            )}
+
+            {questions.map((question) => {
+              const hasDraft = questionDrafts.some((revision) => revision.question_id === question.id);
+
+              return (
+                <div key={question.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm text-slate-900 truncate">
+                      {question.position}. {question.question}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {QUESTION_FORMAT_LABELS[question.format]} · Difficulty {question.difficulty}/5
+                      {hasDraft && ' · Unpublished draft'}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => editQuestion(question)} disabled={busy}>
+                    <span className="flex items-center gap-2">
+                      <PenLine className="w-4 h-4" />
+                      Edit
+                    </span>
+                  </Button>
+                </div>
+              );
+            })}
+
+            {newQuestionDrafts.map((revision) => (
+              <div key={revision.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-slate-900 truncate">
+                    {revision.question || 'Untitled question'}
+                  </p>
+                  <p className="text-xs text-slate-500">New question · Unpublished draft</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => navigate(`/author/questions/${revision.id}`)}
+                >
+                  <span className="flex items-center gap-2">
+                    <PenLine className="w-4 h-4" />
+                    Edit
+                  </span>
+                </Button>
+              </div>
+            ))}
+          </CardBody>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,11 +1,55 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, Subject, LearningSession } from '../lib/supabase';
+import {
+  supabase,
+  Subject,
+  LearningSession,
+  LearningFingerprint,
+  LearnerMisconception,
+  SUBJECT_COLUMNS,
+  STALE_SESSION_MINUTES,
+  ReviewScheduleEntry,
+  Question,
+  QUESTION_COLUMNS,
+  SubjectPrerequisite,
+  LearningPath,
+  LearningPathSubject,
+  LearnerSubjectStats,
+  ConfusionTrendPoint,
+  TimeToCorrectBucket,
+  Classroom,
+} from '../lib/supabase';
+import { reviewUrgency } from '../lib/scheduler';
+import {
+  Recommendation,
+  SubjectProgress,
+  missingPrerequisites,
+  recommendNext,
+  subjectProgress,
+} from '../lib/paths';
 import { Header } from '../components/Header';
 import { Card, CardBody, CardHeader } from '../components/Card';
 import { Button } from '../components/Button';
-import { BookOpen, TrendingDown, User } from 'lucide-react';
+import { Input } from '../components/Input';
+import { BarChart, LineChart } from '../components/Charts';
+import {
+  BookOpen,
+  CalendarClock,
+  CheckCircle,
+  Compass,
+  Lightbulb,
+  Lock,
+  TrendingDown,
+  User,
+} from 'lucide-react';
+
+const TREND_DAYS = 30;
+
+type DueReview = ReviewScheduleEntry & {
+  question: Question | null;
+  urgency: number;
+};
 
 type SubjectWithStats = Subject & {
   sessionCount?: number;
@@ -21,8 +65,23 @@ export function Dashboard() {
     totalAttempts: 0,
     avgConfusion: 0,
     completedSessions: 0,
+    hintUsageRate: 0,
   });
+  const [confusionTrend, setConfusionTrend] = useState<ConfusionTrendPoint[]>([]);
+  const [timeToCorrect, setTimeToCorrect] = useState<TimeToCorrectBucket[]>([]);
   const [recentSessions, setRecentSessions] = useState<LearningSession[]>([]);
+  const [openSessions, setOpenSessions] = useState<LearningSession[]>([]);
+  const [dueReviews, setDueReviews] = useState<DueReview[]>([]);
+  const [fingerprints, setFingerprints] = useState<LearningFingerprint[]>([]);
+  const [misconceptions, setMisconceptions] = useState<LearnerMisconception[]>([]);
+  const [prerequisites, setPrerequisites] = useState<SubjectPrerequisite[]>([]);
+  const [paths, setPaths] = useState<LearningPath[]>([]);
+  const [pathSubjects, setPathSubjects] = useState<LearningPathSubject[]>([]);
+  const [progress, setProgress] = useState<Map<string, SubjectProgress>>(new Map());
+  const [recommendation, setRecommendation] = useState<Recommendation | null>(null);
+  const [classrooms, setClassrooms] = useState<Classroom[]>([]);
+  const [joinCode, setJoinCode] = useState('');
+  const [joinError, setJoinError] = useState('');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -32,43 +91,210 @@ export function Dashboard() {
   }, [user]);
 
   async function loadDashboardData() {
-    const { data: subjectsData } = await supabase
-      .from('subjects')
-      .select('*')
-      .order('name');
-
-    const { data: sessionsData } = await supabase
-      .from('learning_sessions')
-      .select('*')
-      .eq('user_id', user!.id)
-      .order('created_at', { ascending: false })
-      .limit(5);
+    // Stale sessions are closed first so they are not offered for resuming.
+    await supabase.rpc('abandon_stale_sessions', { p_stale_minutes: STALE_SESSION_MINUTES });
+
+    const trendStart = new Date(Date.now() - TREND_DAYS * 24 * 60 * 60 * 1000);
+    const [
+      { data: subjectsData },
+      { data: openSessionsData },
+      { data: sessionsData },
+      { data: fingerprintsData },
+      { data: misconceptionsData },
+      { data: historyData },
+      { data: prerequisitesData },
+      { data: pathsData },
+      { data: pathSubjectsData },
+      { data: overallStats },
+      { data: subjectStatsData },
+      { data: trendData },
+      { data: timeToCorrectData },
+      { data: classroomsData },
+      { data: reviewsData },
+    ] = await Promise.all([
+      supabase
+        .from('subjects')
+        .select(SUBJECT_COLUMNS)
+        // Authors can also see subjects that are not published yet.
+        .not('published_at', 'is', null)
+        .order('name'),
+      supabase
+        .from('learning_sessions')
+        .select('*')
+        .eq('user_id', user!.id)
+        .eq('is_completed', false)
+        .is('abandoned_at', null)
+        .order('start_time', { ascending: false }),
+      supabase
+        .from('learning_sessions')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: false })
+        .limit(5),
+      supabase
+        .from('learning_fingerprints')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('computed_at', { ascending: false })
+        .limit(10),
+      supabase
+        .from('learner_misconceptions')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('occurrences', { ascending: false })
+        .limit(5),
+      supabase
+        .from('learning_sessions')
+        .select('subject_id, is_completed, confusion_score, end_time')
+        .eq('user_id', user!.id),
+      supabase.from('subject_prerequisites').select('*'),
+      supabase.from('learning_paths').select('*').order('name'),
+      supabase.from('learning_path_subjects').select('*').order('position'),
+      supabase.from('learner_overall_stats').select('*').eq('user_id', user!.id).maybeSingle(),
+      supabase.from('learner_subject_stats').select('*').eq('user_id', user!.id),
+      supabase
+        .from('learner_confusion_trend')
+        .select('*')
+        .eq('user_id', user!.id)
+        .gte('day', trendStart.toISOString().slice(0, 10))
+        .order('day'),
+      supabase
+        .from('learner_time_to_correct')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('bucket_order'),
+      // RLS limits this to the classrooms the learner belongs to.
+      supabase
+        .from('classrooms')
+        .select('*')
+        .neq('instructor_id', user!.id)
+        .order('name'),
+      supabase
+        .from('review_schedule')
+        .select('*')
+        .eq('user_id', user!.id)
+        .lte('due_at', new Date().toISOString()),
+    ]);
+
+    if (classroomsData) {
+      setClassrooms(classroomsData);
+    }
 
     if (subjectsData) {
-      setSubjects(subjectsData);
+      setSubjects(
+        subjectsData.map((subject: Subject) => {
+          const subjectStats = subjectStatsData?.find(
+            (entry: LearnerSubjectStats) => entry.subject_id === subject.id
+          );
+
+          return subjectStats
+            ? {
+                ...subject,
+                sessionCount: subjectStats.session_count,
+                avgConfusion: subjectStats.avg_confusion,
+                lastAttempt: subjectStats.last_attempt_at,
+              }
+            : subject;
+        })
+      );
+    }
+
+    if (overallStats) {
+      setStats({
+        totalAttempts: overallStats.attempt_count,
+        avgConfusion: overallStats.avg_confusion,
+        completedSessions: overallStats.completed_count,
+        hintUsageRate: Math.round(Number(overallStats.hint_usage_rate) * 100),
+      });
+    }
+
+    if (trendData) {
+      setConfusionTrend(trendData);
+    }
+
+    if (timeToCorrectData) {
+      setTimeToCorrect(timeToCorrectData);
+    }
+
+    if (historyData && prerequisitesData && pathsData && pathSubjectsData) {
+      // recommendNext walks the paths in display order.
+      const orderedPathSubjects = pathsData.flatMap((path: LearningPath) =>
+        pathSubjectsData.filter((entry: LearningPathSubject) => entry.path_id === path.id)
+      );
+      const currentProgress = subjectProgress(historyData);
+
+      setPrerequisites(prerequisitesData);
+      setPaths(pathsData);
+      setPathSubjects(orderedPathSubjects);
+      setProgress(currentProgress);
+      setRecommendation(recommendNext(orderedPathSubjects, prerequisitesData, currentProgress));
     }
 
     if (sessionsData) {
       setRecentSessions(sessionsData);
+    }
 
-      const totalAttempts = sessionsData.reduce((sum, s) => sum + s.attempts, 0);
-      const avgConfusion = sessionsData.length > 0
-        ? Math.round(sessionsData.reduce((sum, s) => sum + s.confusion_score, 0) / sessionsData.length)
-        : 0;
-      const completedSessions = sessionsData.filter(s => s.is_completed).length;
+    if (reviewsData) {
+      const questionIds = reviewsData
+        .map((review: ReviewScheduleEntry) => review.question_id)
+        .filter((id): id is string => id !== null);
 
-      setStats({
-        totalAttempts,
-        avgConfusion,
-        completedSessions,
-      });
+      const { data: reviewQuestions } = questionIds.length
+        ? await supabase.from('questions').select(QUESTION_COLUMNS).in('id', questionIds)
+        : { data: [] };
+
+      const now = new Date();
+      setDueReviews(
+        reviewsData
+          .map((review: ReviewScheduleEntry) => ({
+            ...review,
+            question: reviewQuestions?.find((q: Question) => q.id === review.question_id) ?? null,
+            urgency: reviewUrgency(
+              { intervalDays: review.interval_days, dueAt: new Date(review.due_at) },
+              now
+            ),
+          }))
+          .sort((a: DueReview, b: DueReview) => b.urgency - a.urgency)
+      );
+    }
+
+    if (openSessionsData) {
+      setOpenSessions(openSessionsData);
+    }
+
+    if (fingerprintsData) {
+      setFingerprints(fingerprintsData);
+    }
+
+    if (misconceptionsData) {
+      setMisconceptions(misconceptionsData);
     }
 
     setLoading(false);
   }
 
-  function startLearning(subjectId: string) {
-    navigate(`/learn/${subjectId}`);
+  function startLearning(subjectId: string, focusQuestionId?: string | null) {
+    navigate(focusQuestionId ? `/learn/${subjectId}?question=${focusQuestionId}` : `/learn/${subjectId}`);
+  }
+
+  async function joinClassroom(e: React.FormEvent) {
+    e.preventDefault();
+    setJoinError('');
+
+    const { data, error } = await supabase.rpc('join_classroom', { p_join_code: joinCode });
+
+    if (error) {
+      setJoinError(error.code === 'P0002' ? 'No classroom has that join code' : error.message);
+      return;
+    }
+
+    const joined = data as Classroom;
+    setClassrooms((prev) => (prev.some((c) => c.id === joined.id) ? prev : [...prev, joined]));
+    setJoinCode('');
+  }
+
+  function subjectName(subjectId: string) {
+    return subjects.find((s) => s.id === subjectId)?.name ?? 'Unknown subject';
   }
 
   if (loading) {
@@ -96,7 +322,7 @@ export function Dashboard() {
           </p>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <Card>
             <CardBody className="p-6">
               <div className="flex items-start justify-between">
@@ -129,14 +355,36 @@ export function Dashboard() {
             </CardBody>
           </Card>
 
+          <Card>
+            <CardBody className="p-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm text-slate-600 mb-1">Hint Usage</p>
+                  <p className="text-3xl font-semibold text-slate-900">
+                    {stats.hintUsageRate}%
+                  </p>
+                  <p className="text-xs text-slate-500 mt-1">of solved questions needed a hint</p>
+                </div>
+                <div className="p-3 bg-slate-100 rounded-lg">
+                  <Lightbulb className="w-5 h-5 text-slate-600" />
+                </div>
+              </div>
+            </CardBody>
+          </Card>
+
           <Card>
             <CardBody className="p-6">
               <div className="flex items-start justify-between">
                 <div>
                   <p className="text-sm text-slate-600 mb-1">Learning Style</p>
                   <p className="text-lg font-medium text-slate-900">
-                    {profile?.learning_fingerprint || 'New Learner'}
+                    {fingerprints[0]?.fingerprint || profile?.learning_fingerprint || 'New Learner'}
                   </p>
+                  {fingerprints[0] && (
+                    <p className="text-xs text-slate-500 mt-1">
+                      {fingerprints[0].evidence.summary}
+                    </p>
+                  )}
                 </div>
                 <div className="p-3 bg-slate-100 rounded-lg">
                   <User className="w-5 h-5 text-slate-600" />
@@ -146,29 +394,92 @@ export function Dashboard() {
           </Card>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          <div>
+        {(confusionTrend.length > 0 || timeToCorrect.length > 0) && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+            <Card>
+              <CardBody className="p-5">
+                <h3 className="font-medium text-slate-900 mb-1">Confusion Over Time</h3>
+                <p className="text-xs text-slate-500 mb-4">
+                  Average confusion per day, last {TREND_DAYS} days
+                </p>
+                <LineChart
+                  points={confusionTrend.map((point) => ({
+                    label: new Date(`${point.day}T00:00`).toLocaleDateString(),
+                    value: point.avg_confusion,
+                  }))}
+                  max={100}
+                  unit="%"
+                />
+              </CardBody>
+            </Card>
+
+            <Card>
+              <CardBody className="p-5">
+                <h3 className="font-medium text-slate-900 mb-1">Time to Correct Answer</h3>
+                <p className="text-xs text-slate-500 mb-4">Solved questions by time taken</p>
+                <BarChart
+                  bars={timeToCorrect.map((bucket) => ({
+                    label: bucket.bucket,
+                    value: bucket.questions,
+                  }))}
+                />
+              </CardBody>
+            </Card>
+          </div>
+        )}
+
+        {recommendation && (
+          <Card className="mb-8">
+            <CardBody className="p-5">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-start gap-3">
+                  <Compass className="w-5 h-5 text-slate-600 mt-0.5" />
+                  <div>
+                    <p className="font-medium text-slate-900">
+                      {recommendation.kind === 'revisit'
+                        ? `Revisit ${subjectName(recommendation.subjectId)} first`
+                        : `Up next: ${subjectName(recommendation.subjectId)}`}
+                    </p>
+                    <p className="text-sm text-slate-600">
+                      {recommendation.kind === 'revisit'
+                        ? `${subjectName(recommendation.becauseOf)} builds on it, and your last session there was a struggle.`
+                        : `Next step in ${paths.find((p) => p.id === recommendation.pathId)?.name}.`}
+                    </p>
+                  </div>
+                </div>
+                <Button onClick={() => startLearning(recommendation.subjectId)} size="sm">
+                  Start
+                </Button>
+              </div>
+            </CardBody>
+          </Card>
+        )}
+
+        {openSessions.length > 0 && (
+          <div className="mb-8">
             <h3 className="text-lg font-semibold text-slate-900 mb-4">
-              Available Subjects
+              Continue Where You Left Off
             </h3>
-            <div className="space-y-3">
-              {subjects.map((subject) => (
-                <Card key={subject.id}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {openSessions.map((session) => (
+                <Card key={session.id}>
                   <CardBody className="p-5">
-                    <div className="flex items-center justify-between">
-                      <div className="flex-1">
-                        <h4 className="font-medium text-slate-900 mb-1">
-                          {subject.name}
-                        </h4>
-                        <p className="text-sm text-slate-600">
-                          {subject.description || subject.title}
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-slate-900">
+                          {subjects.find((s) => s.id === session.subject_id)?.name}
+                          {session.focus_question_id && ' · retrying a mistake'}
+                        </p>
+                        <p className="text-sm text-slate-500">
+                          Started {new Date(session.start_time).toLocaleString()} ·{' '}
+                          {session.attempts} attempts
                         </p>
                       </div>
                       <Button
-                        onClick={() => startLearning(subject.id)}
+                        onClick={() => startLearning(session.subject_id, session.focus_question_id)}
                         size="sm"
                       >
-                        Start
+                        Continue
                       </Button>
                     </div>
                   </CardBody>
@@ -176,6 +487,239 @@ export function Dashboard() {
               ))}
             </div>
           </div>
+        )}
+
+        {dueReviews.length > 0 && (
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">
+              Due for Review
+            </h3>
+            <Card>
+              <CardBody className="p-5">
+                <ul className="space-y-3">
+                  {dueReviews.map((review) => {
+                    const overdueDays = Math.floor(
+                      (Date.now() - new Date(review.due_at).getTime()) / (24 * 60 * 60 * 1000)
+                    );
+
+                    return (
+                      <li key={review.id} className="flex items-center justify-between gap-4 text-sm">
+                        <div className="flex items-start gap-3">
+                          <CalendarClock className="w-4 h-4 text-slate-500 mt-0.5" />
+                          <div>
+                            <p className="font-medium text-slate-900">
+                              {subjects.find((s) => s.id === review.subject_id)?.name}
+                            </p>
+                            <p className="text-slate-600">
+                              {review.question?.question ?? 'Whole subject'}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                              {overdueDays > 0
+                                ? `Overdue by ${overdueDays} day${overdueDays === 1 ? '' : 's'}`
+                                : 'Due today'}
+                            </p>
+                          </div>
+                        </div>
+                        <Button
+                          onClick={() => startLearning(review.subject_id)}
+                          size="sm"
+                          variant="secondary"
+                        >
+                          Review
+                        </Button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </CardBody>
+            </Card>
+          </div>
+        )}
+
+        {paths.length > 0 && (
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">
+              Learning Paths
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {paths.map((path) => (
+                <Card key={path.id}>
+                  <CardBody className="p-5">
+                    <p className="font-medium text-slate-900">{path.name}</p>
+                    {path.description && (
+                      <p className="text-sm text-slate-500 mb-3">{path.description}</p>
+                    )}
+                    <ol className="space-y-2">
+                      {pathSubjects
+                        .filter((entry) => entry.path_id === path.id)
+                        .map((entry) => {
+                          const completed = progress.get(entry.subject_id)?.completed;
+                          const locked =
+                            missingPrerequisites(entry.subject_id, prerequisites, progress).length > 0;
+
+                          return (
+                            <li key={entry.subject_id} className="flex items-center gap-2 text-sm">
+                              {completed ? (
+                                <CheckCircle className="w-4 h-4 text-green-600" />
+                              ) : locked ? (
+                                <Lock className="w-4 h-4 text-slate-400" />
+                              ) : (
+                                <span className="w-4 h-4 rounded-full border-2 border-slate-300" />
+                              )}
+                              <span className={locked ? 'text-slate-400' : 'text-slate-700'}>
+                                {subjectName(entry.subject_id)}
+                              </span>
+                            </li>
+                          );
+                        })}
+                    </ol>
+                  </CardBody>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {misconceptions.length > 0 && (
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-slate-900">
+                Recurring Misconceptions
+              </h3>
+              <Button onClick={() => navigate('/mistakes')} size="sm" variant="ghost">
+                Open Mistake Journal
+              </Button>
+            </div>
+            <Card>
+              <CardBody className="p-5">
+                <ul className="space-y-3">
+                  {misconceptions.map((misconception) => (
+                    <li
+                      key={misconception.misconception_id}
+                      className="flex items-center justify-between gap-4 text-sm"
+                    >
+                      <div>
+                        <p className="font-medium text-slate-900">{misconception.name}</p>
+                        <p className="text-slate-500">
+                          {subjects.find((s) => s.id === misconception.subject_id)?.name}
+                        </p>
+                      </div>
+                      <span className="text-slate-600 whitespace-nowrap">
+                        {misconception.occurrences}×
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </CardBody>
+            </Card>
+          </div>
+        )}
+
+        {fingerprints.length > 1 && (
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">
+              How Your Learning Style Changed
+            </h3>
+            <Card>
+              <CardBody className="p-5">
+                <ol className="space-y-3">
+                  {fingerprints.map((entry) => (
+                    <li key={entry.id} className="flex items-start justify-between gap-4 text-sm">
+                      <div>
+                        <p className="font-medium text-slate-900">{entry.fingerprint}</p>
+                        <p className="text-slate-600">{entry.evidence.summary}</p>
+                      </div>
+                      <span className="text-slate-500 whitespace-nowrap">
+                        {new Date(entry.computed_at).toLocaleDateString()}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </CardBody>
+            </Card>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">
+              Available Subjects
+            </h3>
+            <div className="space-y-3">
+              {subjects.map((subject) => {
+                const missing = missingPrerequisites(subject.id, prerequisites, progress);
+                const hasOpenSession = openSessions.some(
+                  (s) => s.subject_id === subject.id && !s.focus_question_id
+                );
+
+                return (
+                  <Card key={subject.id}>
+                    <CardBody className="p-5">
+                      <div className="flex items-center justify-between">
+                        <div className="flex-1">
+                          <h4 className="font-medium text-slate-900 mb-1">
+                            {subject.name}
+                          </h4>
+                          <p className="text-sm text-slate-600">
+                            {subject.description || subject.title}
+                          </p>
+                          {subject.sessionCount !== undefined && (
+                            <p className="text-xs text-slate-500 mt-1">
+                              {`${subject.sessionCount} session${subject.sessionCount === 1 ? '' : 's'}`} ·{' '}
+                              avg confusion {subject.avgConfusion}% · last{' '}
+                              {new Date(subject.lastAttempt!).toLocaleDateString()}
+                            </p>
+                          )}
+                          {missing.length > 0 && (
+                            <p className="flex items-center gap-1 text-xs text-slate-500 mt-1">
+                              <Lock className="w-3 h-3" />
+                              Requires {missing.map(subjectName).join(', ')}
+                            </p>
+                          )}
+                        </div>
+                        <Button
+                          onClick={() => startLearning(subject.id)}
+                          size="sm"
+                          variant={hasOpenSession ? 'secondary' : 'primary'}
+                          disabled={missing.length > 0 && !hasOpenSession}
+                        >
+                          {hasOpenSession ? 'Continue' : 'Start'}
+                        </Button>
+                      </div>
+                    </CardBody>
+                  </Card>
+                );
+              })}
+            </div>
+
+            <h3 className="text-lg font-semibold text-slate-900 mt-8 mb-4">
+              Classrooms
+            </h3>
+            <Card>
+              <CardBody className="p-5 space-y-4">
+                {classrooms.length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {classrooms.map((classroom) => (
+                      <li key={classroom.id} className="text-slate-700">
+                        {classroom.name}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <form onSubmit={joinClassroom} className="flex gap-2">
+                  <Input
+                    value={joinCode}
+                    onChange={(e) => setJoinCode(e.target.value)}
+                    placeholder="Join code from your instructor"
+                    error={joinError || undefined}
+                  />
+                  <Button type="submit" variant="secondary" disabled={joinCode.trim() === ''}>
+                    Join
+                  </Button>
+                </form>
+              </CardBody>
+            </Card>
+          </div>
 
           <div>
             <h3 className="text-lg font-semibold text-slate-900 mb-4">
@@ -196,7 +740,11 @@ export function Dashboard() {
                         <span className={`text-sm font-medium ${
                           session.is_completed ? 'text-green-600' : 'text-slate-600'
                         }`}>
-                          {session.is_completed ? 'Completed' : 'In Progress'}
+                          {session.is_completed
+                            ? 'Completed'
+                            : session.abandoned_at
+                              ? 'Abandoned'
+                              : 'In Progress'}
                         </span>
                         <span className="text-sm text-slate-500">
                           {new Date(session.created_at).toLocaleDateString()}
@@ -213,6 +761,12 @@ export function Dashboard() {
                           Time: {Math.floor(session.time_spent / 60)}m {session.time_spent % 60}s
                         </span>
                       </div>
+                      <button
+                        onClick={() => navigate(`/sessions/${session.id}`)}
+                        className="text-sm text-slate-600 hover:text-slate-900 mt-3"
+                      >
+                        Replay session →
+                      </button>
                     </CardBody>
                   </Card>
                 ))}
@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  supabase,
+  Subject,
+  Profile,
+  Classroom,
+  ClassroomMember,
+  LearnerSubjectStats,
+  SUBJECT_COLUMNS,
+} from '../lib/supabase';
+import { CONFUSION_THRESHOLD } from '../lib/confusion';
+import { Header } from '../components/Header';
+import { Card, CardBody, CardHeader } from '../components/Card';
+import { Button } from '../components/Button';
+import { Input } from '../components/Input';
+import { LiveMonitor } from '../components/LiveMonitor';
+import { Users } from 'lucide-react';
+
+function confusionCellClass(confusion: number): string {
+  if (confusion >= 70) return 'bg-red-200 text-red-900';
+  if (confusion >= CONFUSION_THRESHOLD) return 'bg-orange-100 text-orange-900';
+  if (confusion >= 20) return 'bg-yellow-50 text-yellow-900';
+  return 'bg-green-50 text-green-900';
+}
+
+export function Instructor() {
+  const { user } = useAuth();
+  const [classrooms, setClassrooms] = useState<Classroom[]>([]);
+  const [classroomId, setClassroomId] = useState<string | null>(null);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [students, setStudents] = useState<Profile[]>([]);
+  const [stats, setStats] = useState<LearnerSubjectStats[]>([]);
+  const [newClassroomName, setNewClassroomName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const classroom = classrooms.find((c) => c.id === classroomId) ?? null;
+
+  useEffect(() => {
+    if (user) {
+      loadClassrooms();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (classroomId) {
+      loadHeatmap(classroomId);
+    }
+  }, [classroomId]);
+
+  async function loadClassrooms() {
+    const { data: subjectsData } = await supabase
+      .from('subjects')
+      .select(SUBJECT_COLUMNS)
+      .order('name');
+
+    const { data: classroomsData } = await supabase
+      .from('classrooms')
+      .select('*')
+      .eq('instructor_id', user!.id)
+      .order('created_at');
+
+    setSubjects(subjectsData ?? []);
+    setClassrooms(classroomsData ?? []);
+    if (classroomsData && classroomsData.length > 0) {
+      setClassroomId((current) => current ?? classroomsData[0].id);
+    }
+    setLoading(false);
+  }
+
+  async function loadHeatmap(forClassroomId: string) {
+    const { data: membersData } = await supabase
+      .from('classroom_members')
+      .select('*')
+      .eq('classroom_id', forClassroomId);
+
+    const memberIds = (membersData ?? []).map((member: ClassroomMember) => member.user_id);
+
+    if (memberIds.length === 0) {
+      setStudents([]);
+      setStats([]);
+      return;
+    }
+
+    const { data: studentsData } = await supabase
+      .from('profiles')
+      .select('*')
+      .in('id', memberIds)
+      .order('full_name');
+
+    const { data: statsData } = await supabase
+      .from('learner_subject_stats')
+      .select('*')
+      .in('user_id', memberIds);
+
+    setStudents(studentsData ?? []);
+    setStats(statsData ?? []);
+  }
+
+  async function createClassroom(e: React.FormEvent) {
+    e.preventDefault();
+
+    const name = newClassroomName.trim();
+    if (!name) return;
+
+    setCreating(true);
+    setError('');
+
+    const { data, error: insertError } = await supabase
+      .from('classrooms')
+      .insert({ instructor_id: user!.id, name })
+      .select('*')
+      .single();
+
+    if (insertError) {
+      setError(insertError.message);
+    } else if (data) {
+      setClassrooms((prev) => [...prev, data]);
+      setClassroomId(data.id);
+      setNewClassroomName('');
+    }
+
+    setCreating(false);
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <div className="flex items-center justify-center h-96">
+          <p className="text-slate-500">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h2 className="text-2xl font-semibold text-slate-900 mb-1">Classrooms</h2>
+          <p className="text-slate-600">See who is stuck on what</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="space-y-3">
+            {classrooms.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => setClassroomId(c.id)}
+                className={`w-full text-left px-4 py-3 rounded-lg border text-sm transition-colors ${
+                  c.id === classroomId
+                    ? 'border-slate-700 bg-white text-slate-900'
+                    : 'border-slate-200 bg-white text-slate-700 hover:border-slate-300'
+                }`}
+              >
+                <p className="font-medium">{c.name}</p>
+                <p className="text-xs text-slate-500">Join code {c.join_code}</p>
+              </button>
+            ))}
+
+            <form onSubmit={createClassroom} className="space-y-2">
+              <Input
+                value={newClassroomName}
+                onChange={(e) => setNewClassroomName(e.target.value)}
+                placeholder="New classroom name"
+                error={error || undefined}
+              />
+              <Button
+                type="submit"
+                size="sm"
+                variant="secondary"
+                disabled={creating || newClassroomName.trim() === ''}
+                className="w-full"
+              >
+                Create Classroom
+              </Button>
+            </form>
+          </div>
+
+          <div className="lg:col-span-3">
+            {!classroom ? (
+              <Card>
+                <CardBody className="p-8 text-center">
+                  <p className="text-slate-500">Create a classroom to get a join code for your students.</p>
+                </CardBody>
+              </Card>
+            ) : (
+              <>
+                {students.length > 0 && (
+                  <LiveMonitor classroomId={classroom.id} students={students} subjects={subjects} />
+                )}
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-medium text-slate-900">{classroom.name}</h3>
+                      <span className="flex items-center gap-1 text-sm text-slate-500">
+                        <Users className="w-4 h-4" />
+                        {students.length} students
+                      </span>
+                    </div>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Each cell shows average confusion, completed sessions and how often hints were needed.
+                    </p>
+                  </CardHeader>
+                  <CardBody className="overflow-x-auto">
+                    {students.length === 0 ? (
+                      <p className="text-sm text-slate-500 text-center py-6">
+                        No students yet. Share the join code {classroom.join_code}.
+                      </p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr>
+                            <th className="text-left font-medium text-slate-600 py-2 pr-4">Student</th>
+                            {subjects.map((subject) => (
+                              <th key={subject.id} className="font-medium text-slate-600 py-2 px-2">
+                                {subject.name}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {students.map((student) => (
+                            <tr key={student.id} className="border-t border-slate-100">
+                              <td className="py-2 pr-4 text-slate-900 whitespace-nowrap">
+                                {student.full_name || student.email}
+                              </td>
+                              {subjects.map((subject) => {
+                                const cell = stats.find(
+                                  (entry) => entry.user_id === student.id && entry.subject_id === subject.id
+                                );
+
+                                return (
+                                  <td key={subject.id} className="p-1">
+                                    {cell ? (
+                                      <div
+                                        className={`rounded-md px-2 py-1.5 text-center ${confusionCellClass(cell.avg_confusion)}`}
+                                      >
+                                        <p className="font-medium">{cell.avg_confusion}%</p>
+                                        <p className="text-xs opacity-80">
+                                          {cell.completed_count}/{cell.session_count} done ·{' '}
+                                          {Math.round(Number(cell.hint_usage_rate) * 100)}% hints
+                                        </p>
+                                      </div>
+                                    ) : (
+                                      <div className="rounded-md px-2 py-1.5 text-center bg-slate-50 text-slate-400">
+                                        —
+                                      </div>
+                                    )}
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </CardBody>
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
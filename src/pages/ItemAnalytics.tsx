@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  supabase,
+  Subject,
+  Question,
+  Misconception,
+  QuestionItemStats,
+  SUBJECT_COLUMNS,
+  QUESTION_COLUMNS,
+} from '../lib/supabase';
+import { QUESTION_FORMAT_LABELS } from '../lib/authoring';
+import { MIN_ENCOUNTERS, itemFlags } from '../lib/itemAnalytics';
+import { formatSeconds } from '../lib/replay';
+import { Header } from '../components/Header';
+import { Card, CardBody, CardHeader } from '../components/Card';
+import { AlertCircle } from 'lucide-react';
+
+function percent(rate: number | null): string {
+  return rate == null ? '–' : `${Math.round(rate * 100)}%`;
+}
+
+export function ItemAnalytics() {
+  const { subjectId } = useParams<{ subjectId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [misconceptions, setMisconceptions] = useState<Misconception[]>([]);
+  const [stats, setStats] = useState<QuestionItemStats[]>([]);
+  const [currentRevisionOnly, setCurrentRevisionOnly] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user && subjectId) {
+      loadAnalytics();
+    }
+  }, [user, subjectId, currentRevisionOnly]);
+
+  async function loadAnalytics() {
+    const { data: subjectData } = await supabase
+      .from('subjects')
+      .select(SUBJECT_COLUMNS)
+      .eq('id', subjectId)
+      .maybeSingle();
+
+    if (!subjectData) {
+      navigate('/author');
+      return;
+    }
+
+    const { data: questionsData } = await supabase
+      .from('questions')
+      .select(QUESTION_COLUMNS)
+      .eq('subject_id', subjectId)
+      .is('parent_id', null)
+      .order('position');
+
+    const { data: misconceptionsData } = await supabase
+      .from('misconceptions')
+      .select('*')
+      .eq('subject_id', subjectId);
+
+    const { data: statsData, error: statsError } = await supabase.rpc('question_item_stats', {
+      p_subject_id: subjectId,
+      p_current_revision_only: currentRevisionOnly,
+    });
+
+    setSubject(subjectData);
+    setQuestions(questionsData ?? []);
+    setMisconceptions(misconceptionsData ?? []);
+    setStats((statsData as QuestionItemStats[] | null) ?? []);
+    setError(statsError?.message ?? '');
+    setLoading(false);
+  }
+
+  if (loading || !subject) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <div className="flex items-center justify-center h-96">
+          <p className="text-slate-500">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const rows = questions.map((question) => {
+    const questionStats = stats.find((entry) => entry.question_id === question.id);
+    return {
+      question,
+      stats: questionStats ?? null,
+      flags: questionStats ? itemFlags(question, questionStats) : [],
+    };
+  });
+  const flaggedCount = rows.filter((row) => row.flags.length > 0).length;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <button
+            onClick={() => navigate(`/author/subjects/${subject.id}`)}
+            className="text-sm text-slate-600 hover:text-slate-900 mb-2"
+          >
+            ← Back to {subject.name}
+          </button>
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <div>
+              <h2 className="text-2xl font-semibold text-slate-900 mb-1">Item Analytics</h2>
+              <p className="text-slate-600">
+                {flaggedCount > 0
+                  ? `${flaggedCount} of ${rows.length} questions may need a look.`
+                  : 'How learners get on with each question of the subject.'}
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={currentRevisionOnly}
+                onChange={(e) => setCurrentRevisionOnly(e.target.checked)}
+              />
+              Live revisions only
+            </label>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {rows.length === 0 && <p className="text-sm text-slate-500">No questions yet.</p>}
+
+        {rows.map(({ question, stats: questionStats, flags }) => (
+          <Card key={question.id}>
+            <CardHeader>
+              <p className="font-medium text-slate-900">
+                {question.position}. {question.question}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                {QUESTION_FORMAT_LABELS[question.format]} · Difficulty {question.difficulty}/5
+              </p>
+            </CardHeader>
+            <CardBody className="space-y-4">
+              {!questionStats || questionStats.encounters === 0 ? (
+                <p className="text-sm text-slate-500">No learner has answered this question yet.</p>
+              ) : (
+                <>
+                  <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    <Figure label="Sessions" value={String(questionStats.encounters)} />
+                    <Figure label="Solved" value={percent(questionStats.solve_rate)} />
+                    <Figure label="First try" value={percent(questionStats.first_try_rate)} />
+                    <Figure
+                      label="Attempts to solve"
+                      value={questionStats.mean_attempts == null ? '–' : String(questionStats.mean_attempts)}
+                    />
+                    <Figure
+                      label="Time to correct"
+                      value={
+                        questionStats.mean_seconds_to_correct == null
+                          ? '–'
+                          : formatSeconds(questionStats.mean_seconds_to_correct)
+                      }
+                    />
+                    <Figure
+                      label="Avg confusion"
+                      value={questionStats.avg_confusion == null ? '–' : `${questionStats.avg_confusion}%`}
+                    />
+                    <Figure label="Needed a hint" value={percent(questionStats.hint_rate)} />
+                  </dl>
+
+                  {flags.length > 0 && (
+                    <ul className="space-y-2">
+                      {flags.map((flag) => (
+                        <li
+                          key={flag.kind}
+                          className="flex items-start gap-2 p-3 rounded-lg border border-orange-200 bg-orange-50 text-sm text-orange-900"
+                        >
+                          <AlertCircle className="w-4 h-4 text-orange-600 mt-0.5 shrink-0" />
+                          {flag.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {questionStats.wrong_answers.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium text-slate-700 mb-2">Most frequent wrong answers</p>
+                      <ul className="space-y-1">
+                        {questionStats.wrong_answers.map((wrongAnswer) => {
+                          const misconception = misconceptions.find(
+                            (entry) => entry.id === wrongAnswer.misconception_id
+                          );
+
+                          return (
+                            <li key={wrongAnswer.answer} className="flex items-center gap-3 text-sm">
+                              <span className="flex-1 min-w-0 truncate text-slate-900">
+                                {wrongAnswer.answer}
+                                {misconception && (
+                                  <span className="ml-2 text-xs text-slate-500">
+                                    {misconception.name} ({wrongAnswer.misconception_sessions} of{' '}
+                                    {wrongAnswer.sessions})
+                                  </span>
+                                )}
+                              </span>
+                              <span className="text-slate-500">
+                                {percent(wrongAnswer.sessions / questionStats.encounters)} of sessions
+                              </span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  )}
+
+                  {questionStats.encounters < MIN_ENCOUNTERS && (
+                    <p className="text-xs text-slate-500">
+                      Questions are flagged once {MIN_ENCOUNTERS} sessions have answered them.
+                    </p>
+                  )}
+                </>
+              )}
+            </CardBody>
+          </Card>
+        ))}
+      </main>
+    </div>
+  );
+}
+
+function Figure({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <dt className="text-xs text-slate-500">{label}</dt>
+      <dd className="text-lg font-semibold text-slate-900">{value}</dd>
+    </div>
+  );
+}
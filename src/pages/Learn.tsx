@@ -1,131 +1,534 @@
-import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, Subject, LearningSession } from '../lib/supabase';
+import {
+  supabase,
+  Subject,
+  Question,
+  LearningSession,
+  AttemptResult,
+  SessionHints,
+  Misconception,
+  CachedExplanation,
+  TutorMessage,
+  SessionAttempt,
+  ResumedSession,
+  STALE_SESSION_MINUTES,
+  SUBJECT_COLUMNS,
+  QUESTION_COLUMNS,
+} from '../lib/supabase';
+import {
+  CONFUSION_THRESHOLD,
+  ConfusionSignal,
+  getConfusionModel,
+  summarizeSignals,
+} from '../lib/confusion';
+import { AnswerValue, answerText, emptyAnswer, isAnswerComplete } from '../lib/answers';
+import { TUTOR_FUNCTION, TutorAttempt, templateTutor } from '../lib/tutor';
+import { toConfusionSignals, useSessionTelemetry } from '../hooks/useSessionTelemetry';
+import { useNudges } from '../hooks/useNudges';
 import { Header } from '../components/Header';
 import { Card, CardBody, CardHeader } from '../components/Card';
 import { Button } from '../components/Button';
-import { Input } from '../components/Input';
-import { Clock, Target, Brain, CheckCircle, XCircle, AlertCircle, ExternalLink } from 'lucide-react';
+import { AnswerInput } from '../components/AnswerInput';
+import { TutorChat } from '../components/TutorChat';
+import { LearningAssistance, QuestionPrompt } from '../components/QuestionView';
+import {
+  Clock,
+  Target,
+  Brain,
+  CheckCircle,
+  XCircle,
+  Lightbulb,
+  MessageCircle,
+  Megaphone,
+  X,
+} from 'lucide-react';
+
+const FEEDBACK_STYLES = {
+  success: {
+    box: 'bg-green-50 border-green-200',
+    icon: 'text-green-600',
+    title: 'text-green-900',
+    detail: 'text-green-800',
+  },
+  error: {
+    box: 'bg-red-50 border-red-200',
+    icon: 'text-red-600',
+    title: 'text-red-900',
+    detail: 'text-red-800',
+  },
+  info: {
+    box: 'bg-blue-50 border-blue-200',
+    icon: 'text-blue-600',
+    title: 'text-blue-900',
+    detail: 'text-blue-800',
+  },
+};
+
+function tutorAttempts(signals: ConfusionSignal[]): TutorAttempt[] {
+  return signals.flatMap((signal) =>
+    signal.type === 'attempt'
+      ? [{ answer: signal.answer, isCorrect: signal.isCorrect, at: signal.at }]
+      : []
+  );
+}
 
-const CONFUSION_THRESHOLD = 40;
+const NO_HINTS: SessionHints = { question_id: null, hint_count: 0, hints: [] };
 
 export function Learn() {
   const { subjectId } = useParams<{ subjectId: string }>();
+  // Set when retrying a single question from the mistake journal.
+  const [searchParams] = useSearchParams();
+  const focusQuestionId = searchParams.get('question');
   const navigate = useNavigate();
   const { user } = useAuth();
 
   const [subject, setSubject] = useState<Subject | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [steps, setSteps] = useState<Question[]>([]);
+  const [scaffoldQuestionId, setScaffoldQuestionId] = useState<string | null>(null);
+  const [questionId, setQuestionId] = useState<string | null>(null);
+  const [nextQuestionId, setNextQuestionId] = useState<string | null>(null);
+  const [solvedCount, setSolvedCount] = useState(0);
+  const [questionStartedAt, setQuestionStartedAt] = useState(0);
   const [session, setSession] = useState<LearningSession | null>(null);
-  const [userAnswer, setUserAnswer] = useState('');
+  const [userAnswer, setUserAnswer] = useState<AnswerValue>('');
   const [attempts, setAttempts] = useState(0);
   const [timeSpent, setTimeSpent] = useState(0);
-  const [confusionScore, setConfusionScore] = useState(0);
+  const [attemptSignals, setAttemptSignals] = useState<ConfusionSignal[]>([]);
   const [feedback, setFeedback] = useState<{
-    type: 'success' | 'error' | null;
+    type: 'success' | 'error' | 'info' | null;
     message: string;
+    detail?: string;
+    credit?: number | null;
   }>({ type: null, message: '' });
   const [showAIHelp, setShowAIHelp] = useState(false);
+  const [hints, setHints] = useState<SessionHints>(NO_HINTS);
+  const [revealingHint, setRevealingHint] = useState(false);
+  const [misconceptions, setMisconceptions] = useState<Misconception[]>([]);
+  const [tutorMessages, setTutorMessages] = useState<TutorMessage[]>([]);
+  const [chatOpen, setChatOpen] = useState(false);
+  const [sendingMessage, setSendingMessage] = useState(false);
+  const [explanation, setExplanation] = useState<{ body: string | null; loading: boolean }>({
+    body: null,
+    loading: false,
+  });
   const [startTime, setStartTime] = useState<number>(Date.now());
   const [loading, setLoading] = useState(true);
+  const lastAttemptAt = useRef(0);
+  const telemetry = useSessionTelemetry(session?.id, startTime);
+  const { hidden, activeSeconds } = telemetry;
+  const { nudges, dismiss: dismissNudge } = useNudges(user?.id);
+
+  const question = questions.find((q) => q.id === questionId) ?? null;
+  // Questions are picked adaptively, so progress counts solved questions
+  // rather than following their positions.
+  const questionNumber = solvedCount + (feedback.type === 'success' ? 0 : 1);
+  const step = steps.find((s) => s.id === scaffoldQuestionId) ?? null;
+  const stepCount = steps.filter((s) => s.parent_id === questionId).length;
+  const activeQuestion = step ?? question;
+
+  const signals = useMemo(
+    () => [
+      ...attemptSignals,
+      ...toConfusionSignals(telemetry.events).filter((signal) => signal.at >= questionStartedAt),
+      ...tutorMessages
+        .filter((message) => message.role === 'learner')
+        .map((message): ConfusionSignal => ({ type: 'chat', at: message.seconds_from_start })),
+    ],
+    [attemptSignals, telemetry.events, questionStartedAt, tutorMessages]
+  );
+
+  const confusion = useMemo(
+    () =>
+      getConfusionModel(subject?.confusion_model).score(
+        signals,
+        Math.max(0, timeSpent - questionStartedAt)
+      ),
+    [subject, signals, timeSpent, questionStartedAt]
+  );
 
   useEffect(() => {
     if (subjectId && user) {
-      loadSubjectAndCreateSession();
+      loadSubjectAndSession();
     }
-  }, [subjectId, user]);
+  }, [subjectId, focusQuestionId, user]);
 
   useEffect(() => {
+    if (hidden) return;
+
     const timer = setInterval(() => {
-      setTimeSpent(Math.floor((Date.now() - startTime) / 1000));
+      setTimeSpent(activeSeconds());
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [startTime]);
+  }, [hidden, activeSeconds]);
 
-  async function loadSubjectAndCreateSession() {
+  async function loadSubjectAndSession() {
     const { data: subjectData } = await supabase
       .from('subjects')
-      .select('*')
+      .select(SUBJECT_COLUMNS)
       .eq('id', subjectId)
       .maybeSingle();
 
     if (subjectData) {
       setSubject(subjectData);
 
-      const { data: sessionData } = await supabase
-        .from('learning_sessions')
-        .insert({
-          user_id: user!.id,
-          subject_id: subjectData.id,
-          start_time: new Date().toISOString(),
-        })
-        .select()
-        .single();
+      const { data: questionsData } = await supabase
+        .from('questions')
+        .select(QUESTION_COLUMNS)
+        .eq('subject_id', subjectData.id)
+        .order('position');
+
+      const bank: Question[] = (questionsData ?? []).filter(
+        (q: Question) => !q.parent_id && (!focusQuestionId || q.id === focusQuestionId)
+      );
+      setQuestions(bank);
+      setSteps((questionsData ?? []).filter((q: Question) => q.parent_id));
+
+      const { data: misconceptionsData } = await supabase
+        .from('misconceptions')
+        .select('*')
+        .eq('subject_id', subjectData.id);
+
+      setMisconceptions(misconceptionsData ?? []);
+
+      const { data: sessionData } = await supabase.rpc('resume_session', {
+        p_subject_id: subjectData.id,
+        p_stale_minutes: STALE_SESSION_MINUTES,
+        p_question_id: focusQuestionId,
+      });
 
       if (sessionData) {
-        setSession(sessionData);
+        const resumed = sessionData as ResumedSession;
+        const resumedQuestion: Question | undefined =
+          questionsData?.find((q: Question) => q.id === resumed.scaffold_question_id) ??
+          bank.find((q) => q.id === resumed.question_id);
+
+        setSession(resumed);
+        setQuestionId(resumed.question_id);
+        setScaffoldQuestionId(resumed.scaffold_question_id);
+        setStartTime(Date.now() - resumed.elapsed_seconds * 1000);
+        setTimeSpent(resumed.elapsed_seconds);
+        if (resumedQuestion) {
+          setUserAnswer(emptyAnswer(resumedQuestion));
+        }
+
+        const revealed = await loadHints(resumed.id);
+        await loadTutorMessages(resumed.id, resumed.question_id);
+
+        if (resumed.resumed) {
+          await restoreProgress(resumed, revealed);
+        }
       }
     }
 
     setLoading(false);
   }
 
+  async function loadTutorMessages(sessionId: string, forQuestionId: string | null) {
+    if (!forQuestionId) return;
+
+    const { data } = await supabase
+      .from('tutor_messages')
+      .select('*')
+      .eq('session_id', sessionId)
+      .eq('question_id', forQuestionId)
+      .order('created_at');
+
+    setTutorMessages(data ?? []);
+  }
+
+  // Rebuilds the per-question state of a resumed session from its attempts.
+  async function restoreProgress(resumed: LearningSession, revealed: SessionHints) {
+    const { data } = await supabase
+      .from('session_attempts')
+      .select('*')
+      .eq('session_id', resumed.id)
+      .order('attempt_number');
+
+    const all: SessionAttempt[] = data ?? [];
+    const topLevel = all.filter((attempt) => !attempt.parent_question_id);
+    const current = topLevel.filter((attempt) => attempt.question_id === resumed.question_id);
+    const startedAt = Math.max(
+      0,
+      ...topLevel
+        .filter((attempt) => attempt.is_correct && attempt.question_id !== resumed.question_id)
+        .map((attempt) => attempt.time_from_start)
+    );
+
+    setSolvedCount(
+      new Set(topLevel.filter((attempt) => attempt.is_correct).map((a) => a.question_id)).size
+    );
+    setAttempts(current.length);
+    setQuestionStartedAt(startedAt);
+    setAttemptSignals(
+      current.flatMap((attempt): ConfusionSignal[] => [
+        {
+          type: 'attempt',
+          at: attempt.time_from_start,
+          answer: attempt.user_answer,
+          isCorrect: attempt.is_correct,
+          misconceptionId: attempt.misconception_id,
+        },
+        { type: 'idle', at: attempt.time_from_start, seconds: attempt.signals.idle_seconds ?? 0 },
+        {
+          type: 'rewrite',
+          at: attempt.time_from_start,
+          deletedChars: attempt.signals.deleted_chars ?? 0,
+        },
+        {
+          type: 'tab_away',
+          at: attempt.time_from_start,
+          seconds: attempt.signals.tab_away_seconds ?? 0,
+        },
+      ])
+    );
+    lastAttemptAt.current = all.length > 0 ? all[all.length - 1].time_from_start : startedAt;
+
+    const lastScore = current.length > 0 ? current[current.length - 1].confusion_score : 0;
+    setShowAIHelp(revealed.hints.length > 0 || lastScore >= CONFUSION_THRESHOLD);
+  }
+
+  async function loadHints(sessionId: string): Promise<SessionHints> {
+    const { data } = await supabase.rpc('session_hints', { p_session_id: sessionId });
+    const loaded = (data as SessionHints | null) ?? NO_HINTS;
+
+    setHints(loaded);
+    return loaded;
+  }
+
+  // Asks the tutor function for an explanation of this question and mistake,
+  // which it serves from its cache when it can, and falls back to the template
+  // tutor.
+  async function loadExplanation(sessionId: string) {
+    setExplanation((prev) => ({ ...prev, loading: true }));
+
+    let explanation: CachedExplanation | null = null;
+
+    if (TUTOR_FUNCTION) {
+      const { data } = await supabase.functions.invoke(TUTOR_FUNCTION, {
+        body: { kind: 'explain', session_id: sessionId },
+      });
+      explanation = data as CachedExplanation | null;
+    }
+
+    if (!explanation?.body) {
+      const { data } = await supabase.rpc('template_tutor_explanation', { p_session_id: sessionId });
+      explanation = data as CachedExplanation | null;
+    }
+
+    setExplanation({ body: explanation?.body ?? null, loading: false });
+  }
+
+  async function sendTutorMessage(body: string) {
+    if (!subject || !session || !question) return;
+
+    setSendingMessage(true);
+
+    const { data: sent, error } = await supabase.rpc('send_tutor_message', {
+      p_session_id: session.id,
+      p_body: body,
+    });
+
+    if (error || !sent) {
+      setSendingMessage(false);
+      return;
+    }
+
+    const conversation = [...tutorMessages, sent as TutorMessage];
+    setTutorMessages(conversation);
+
+    try {
+      let reply: TutorMessage | null = null;
+
+      if (TUTOR_FUNCTION) {
+        const { data } = await supabase.functions.invoke(TUTOR_FUNCTION, {
+          body: { kind: 'reply', session_id: session.id },
+        });
+        reply = data as TutorMessage | null;
+      }
+
+      if (!reply) {
+        const lastAttempt = [...attemptSignals].reverse().find((signal) => signal.type === 'attempt');
+        const misconceptionId = lastAttempt?.type === 'attempt' ? lastAttempt.misconceptionId : null;
+
+        const body = await templateTutor.reply({
+          subjectTitle: subject.title,
+          question,
+          attempts: tutorAttempts(attemptSignals),
+          misconception: misconceptions.find((m) => m.id === misconceptionId) ?? null,
+          messages: conversation,
+        });
+
+        const { data: saved } = await supabase.rpc('save_tutor_reply', {
+          p_session_id: session.id,
+          p_provider: templateTutor.name,
+          p_body: body,
+        });
+        reply = saved as TutorMessage | null;
+      }
+
+      if (reply) {
+        setTutorMessages((prev) => [...prev, reply]);
+      }
+    } catch {
+      // The learner's message is saved; they can ask again.
+    }
+
+    setSendingMessage(false);
+  }
+
+  async function revealHint() {
+    if (!session || revealingHint) return;
+
+    setRevealingHint(true);
+    telemetry.record('hint_click', { position: hints.hints.length + 1 });
+
+    const { data, error } = await supabase.rpc('reveal_hint', { p_session_id: session.id });
+
+    if (!error && data) {
+      setHints(data as SessionHints);
+      setShowAIHelp(true);
+    }
+    setRevealingHint(false);
+  }
+
+  function handleAnswerChange(value: AnswerValue) {
+    if (
+      activeQuestion &&
+      (activeQuestion.format === 'free_text' || activeQuestion.format === 'fill_blank')
+    ) {
+      telemetry.recordInput(
+        answerText(activeQuestion, userAnswer),
+        answerText(activeQuestion, value)
+      );
+    }
+    setUserAnswer(value);
+  }
+
+  // Step attempts are graded but do not count towards the question's attempts
+  // or confusion; the server moves the session through the steps.
+  function handleStepResult(result: AttemptResult) {
+    const nextStep = steps.find((s) => s.id === result.scaffold_question_id);
+
+    if (!result.is_correct) {
+      setFeedback({ type: 'error', message: result.feedback });
+      return;
+    }
+
+    setScaffoldQuestionId(nextStep?.id ?? null);
+    setUserAnswer(emptyAnswer(nextStep ?? question!));
+    setFeedback({ type: 'info', message: result.feedback });
+  }
+
   async function submitAnswer(e: React.FormEvent) {
     e.preventDefault();
 
-    if (!subject || !session || !userAnswer.trim()) return;
+    if (
+      !subject ||
+      !session ||
+      !question ||
+      !activeQuestion ||
+      !isAnswerComplete(activeQuestion, userAnswer)
+    ) {
+      return;
+    }
+
+    const at = activeSeconds();
+    await telemetry.recordSubmit();
 
-    const newAttempts = attempts + 1;
-    const currentTime = Math.floor((Date.now() - startTime) / 1000);
+    const { data, error } = await supabase.rpc('submit_attempt', {
+      p_session_id: session.id,
+      p_answer: userAnswer,
+      p_signals: summarizeSignals(signals, lastAttemptAt.current),
+    });
 
-    const newConfusionScore = Math.min(100, newAttempts * 20 + Math.min(currentTime, 60));
+    if (error || !data) {
+      setFeedback({
+        type: 'error',
+        message: error?.message || 'Could not submit your answer. Please try again.',
+      });
+      return;
+    }
 
-    setAttempts(newAttempts);
-    setTimeSpent(currentTime);
-    setConfusionScore(newConfusionScore);
+    const result = data as AttemptResult;
 
-    const isCorrect = userAnswer.toLowerCase().trim().includes(
-      subject.correct_answer.toLowerCase()
-    );
+    setTimeSpent(result.time_spent);
+    lastAttemptAt.current = at;
 
-    await supabase.from('session_attempts').insert({
-      session_id: session.id,
-      attempt_number: newAttempts,
-      user_answer: userAnswer,
-      is_correct: isCorrect,
-      time_from_start: currentTime,
-    });
+    if (result.parent_question_id) {
+      handleStepResult(result);
+      return;
+    }
 
-    await supabase
-      .from('learning_sessions')
-      .update({
-        attempts: newAttempts,
-        time_spent: currentTime,
-        confusion_score: newConfusionScore,
-        is_completed: isCorrect,
-        ai_help_shown: newConfusionScore >= CONFUSION_THRESHOLD || showAIHelp,
-        end_time: isCorrect ? new Date().toISOString() : null,
-      })
-      .eq('id', session.id);
-
-    if (isCorrect) {
+    setAttempts((prev) => prev + 1);
+    const attempt: ConfusionSignal = {
+      type: 'attempt',
+      at,
+      answer: answerText(question, userAnswer),
+      isCorrect: result.is_correct,
+      misconceptionId: result.misconception?.id,
+    };
+
+    setAttemptSignals((prev) => [...prev, attempt]);
+    setHints(result.hints);
+
+    if (result.is_correct) {
+      setSolvedCount((prev) => prev + 1);
+      setNextQuestionId(result.next_question_id);
       setFeedback({
         type: 'success',
-        message: 'Correct! Well done.',
+        message: result.feedback,
+        detail: result.match.detail,
+        credit: result.credit,
       });
     } else {
       setFeedback({
         type: 'error',
-        message: 'Not quite right. Try again.',
+        message: result.feedback,
+        detail: result.misconception?.name,
       });
 
-      if (newConfusionScore >= CONFUSION_THRESHOLD) {
+      if (result.confusion_score >= CONFUSION_THRESHOLD || result.hints.hints.length > 0) {
         setShowAIHelp(true);
+        loadExplanation(session.id);
+      }
+
+      const firstStep = steps.find((s) => s.id === result.scaffold_question_id);
+      if (firstStep) {
+        setScaffoldQuestionId(firstStep.id);
+        setUserAnswer(emptyAnswer(firstStep));
       }
     }
   }
 
+  function goToNextQuestion() {
+    const startedAt = activeSeconds();
+    const nextQuestion = questions.find((q) => q.id === nextQuestionId);
+
+    if (!nextQuestion) return;
+
+    setQuestionId(nextQuestion.id);
+    setNextQuestionId(null);
+    setUserAnswer(emptyAnswer(nextQuestion));
+    setAttempts(0);
+    setAttemptSignals([]);
+    setQuestionStartedAt(startedAt);
+    setFeedback({ type: null, message: '' });
+    setShowAIHelp(false);
+    setHints(NO_HINTS);
+    setExplanation({ body: null, loading: false });
+    setTutorMessages([]);
+    setChatOpen(false);
+    lastAttemptAt.current = startedAt;
+
+    if (session) {
+      loadHints(session.id);
+    }
+  }
+
   function formatTime(seconds: number): string {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -143,12 +546,14 @@ export function Learn() {
     );
   }
 
-  if (!subject) {
+  if (!subject || !question) {
     return (
       <div className="min-h-screen bg-slate-50">
         <Header />
         <div className="flex items-center justify-center h-96">
-          <p className="text-slate-500">Subject not found</p>
+          <p className="text-slate-500">
+            {subject ? 'This subject has no questions yet' : 'Subject not found'}
+          </p>
         </div>
       </div>
     );
@@ -168,29 +573,59 @@ export function Learn() {
           </button>
         </div>
 
+        {nudges.map((nudge) => (
+          <div
+            key={nudge.id}
+            className={`flex items-start gap-3 mb-4 p-4 rounded-lg border ${FEEDBACK_STYLES.info.box}`}
+          >
+            <Megaphone className={`w-5 h-5 mt-0.5 ${FEEDBACK_STYLES.info.icon}`} />
+            <div className="flex-1">
+              <p className={`font-medium ${FEEDBACK_STYLES.info.title}`}>
+                {nudge.kind === 'hint' ? 'Hint from your instructor' : 'Message from your instructor'}
+              </p>
+              <p className={`text-sm mt-1 ${FEEDBACK_STYLES.info.detail}`}>{nudge.body}</p>
+            </div>
+            <button
+              onClick={() => dismissNudge(nudge.id)}
+              aria-label="Dismiss"
+              className={`p-1 rounded hover:bg-blue-100 ${FEEDBACK_STYLES.info.icon}`}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
         <Card className="mb-6">
           <CardHeader>
             <h1 className="text-2xl font-semibold text-slate-900">
               {subject.title}
             </h1>
+            <div className="mt-3">
+              <div className="flex items-center justify-between text-sm text-slate-600 mb-1.5">
+                <span>
+                  Question {questionNumber} of {questions.length}
+                </span>
+                <span>{solvedCount} solved</span>
+              </div>
+              <div className="flex gap-1">
+                {questions.map((q, index) => (
+                  <div
+                    key={q.id}
+                    className={`h-1.5 flex-1 rounded-full ${
+                      index < solvedCount
+                        ? 'bg-green-500'
+                        : index === questionNumber - 1
+                          ? 'bg-slate-700'
+                          : 'bg-slate-200'
+                    }`}
+                  />
+                ))}
+              </div>
+            </div>
           </CardHeader>
 
           <CardBody className="space-y-6">
-            <div>
-              <h2 className="text-base font-medium text-slate-900 mb-3">
-                Question
-              </h2>
-              <p className="text-slate-700 leading-relaxed">
-                {subject.question}
-              </p>
-            </div>
-
-            <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
-              <p className="text-sm font-medium text-slate-700 mb-2">Data</p>
-              <p className="text-slate-900 font-mono text-sm">
-                {subject.data}
-              </p>
-            </div>
+            <QuestionPrompt question={question} />
 
             <div className="flex items-center gap-6 text-sm text-slate-600 border-t border-slate-100 pt-4">
               <div className="flex items-center gap-2">
@@ -203,95 +638,157 @@ export function Learn() {
               </div>
               <div className="flex items-center gap-2">
                 <Brain className="w-4 h-4" />
-                <span>Confusion: {confusionScore}%</span>
+                <span>Confusion: {confusion.score}%</span>
               </div>
             </div>
 
+            {confusion.reasons.length > 0 && (
+              <div className="flex flex-wrap gap-2 -mt-2">
+                {confusion.reasons.slice(0, 3).map((reason) => (
+                  <span
+                    key={reason.signal}
+                    className="text-xs text-slate-600 bg-slate-100 rounded-full px-2.5 py-1"
+                  >
+                    {reason.label}
+                  </span>
+                ))}
+              </div>
+            )}
+
             <form onSubmit={submitAnswer} className="space-y-4">
-              <Input
-                value={userAnswer}
-                onChange={(e) => setUserAnswer(e.target.value)}
-                placeholder="Enter your answer"
-                disabled={feedback.type === 'success'}
-              />
+              {step ? (
+                <div className="border border-blue-200 bg-blue-50/50 rounded-lg p-4 space-y-4">
+                  <div>
+                    <p className="text-xs font-medium text-blue-700 mb-1">
+                      Let's break it down: step {step.position} of {stepCount}
+                    </p>
+                    <p className="text-slate-700 leading-relaxed">{step.question}</p>
+                    {step.data !== question.data && (
+                      <p className="text-slate-900 font-mono text-sm mt-2">{step.data}</p>
+                    )}
+                  </div>
+                  <AnswerInput question={step} value={userAnswer} onChange={handleAnswerChange} />
+                </div>
+              ) : (
+                <AnswerInput
+                  question={question}
+                  value={userAnswer}
+                  onChange={handleAnswerChange}
+                  disabled={feedback.type === 'success'}
+                />
+              )}
 
               <Button
                 type="submit"
                 className="w-full"
-                disabled={feedback.type === 'success' || !userAnswer.trim()}
+                disabled={
+                  feedback.type === 'success' ||
+                  !activeQuestion ||
+                  !isAnswerComplete(activeQuestion, userAnswer)
+                }
               >
-                Submit Answer
+                {step ? 'Check Step' : 'Submit Answer'}
               </Button>
             </form>
 
+            {feedback.type !== 'success' && (
+              <div className="flex items-center gap-6">
+                {!showAIHelp && hints.hint_count > 0 && (
+                  <button
+                    type="button"
+                    onClick={revealHint}
+                    disabled={revealingHint}
+                    className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+                  >
+                    <Lightbulb className="w-4 h-4" />
+                    Need a hint?
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setChatOpen((open) => !open)}
+                  className="inline-flex items-center gap-2 text-sm text-slate-600 hover:text-slate-900 font-medium"
+                >
+                  <MessageCircle className="w-4 h-4" />
+                  {chatOpen ? 'Hide tutor' : 'Ask the tutor'}
+                </button>
+              </div>
+            )}
+
             {feedback.type && (
               <div
                 className={`flex items-start gap-3 p-4 rounded-lg border ${
-                  feedback.type === 'success'
-                    ? 'bg-green-50 border-green-200'
-                    : 'bg-red-50 border-red-200'
+                  FEEDBACK_STYLES[feedback.type].box
                 }`}
               >
-                {feedback.type === 'success' ? (
-                  <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
-                ) : (
+                {feedback.type === 'error' ? (
                   <XCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <CheckCircle
+                    className={`w-5 h-5 flex-shrink-0 mt-0.5 ${FEEDBACK_STYLES[feedback.type].icon}`}
+                  />
                 )}
-                <p
-                  className={`text-sm font-medium ${
-                    feedback.type === 'success' ? 'text-green-900' : 'text-red-900'
-                  }`}
-                >
-                  {feedback.message}
-                </p>
+                <div>
+                  <p className={`text-sm font-medium ${FEEDBACK_STYLES[feedback.type].title}`}>
+                    {feedback.message}
+                  </p>
+                  {feedback.detail && (
+                    <p className={`text-xs mt-1 ${FEEDBACK_STYLES[feedback.type].detail}`}>
+                      {feedback.detail}
+                    </p>
+                  )}
+                  {feedback.credit != null && feedback.credit < 1 && (
+                    <p className="text-xs mt-1 text-green-800">
+                      Solved with {hints.hints.length} of {hints.hint_count} hints:{' '}
+                      {Math.round(feedback.credit * 100)}% credit
+                    </p>
+                  )}
+                </div>
               </div>
             )}
           </CardBody>
         </Card>
 
-        {showAIHelp && feedback.type !== 'success' && (
-          <Card className="border-l-4 border-l-blue-400">
-            <CardBody className="p-6">
-              <div className="flex items-start gap-3 mb-4">
-                <div className="p-2 bg-blue-50 rounded-lg">
-                  <AlertCircle className="w-5 h-5 text-blue-600" />
-                </div>
-                <div>
-                  <h3 className="font-medium text-slate-900 mb-1">
-                    Learning Assistance
-                  </h3>
-                  <p className="text-sm text-slate-600">
-                    It looks like you might be stuck. Here's some guidance:
-                  </p>
-                </div>
-              </div>
+        {chatOpen && feedback.type !== 'success' && (
+          <TutorChat
+            messages={tutorMessages}
+            onSend={sendTutorMessage}
+            sending={sendingMessage}
+          />
+        )}
 
-              <div className="bg-blue-50 border border-blue-100 rounded-lg p-4 mb-4">
+        {showAIHelp && feedback.type !== 'success' && (
+          <LearningAssistance
+            aiHelpText={subject.ai_help_text}
+            videoSearchQuery={subject.video_search_query}
+            hints={hints.hints}
+            hintCount={hints.hint_count}
+            onRevealHint={revealHint}
+            revealingHint={revealingHint}
+            onVideoClick={() => telemetry.record('video_click')}
+          >
+            {(explanation.loading || explanation.body) && (
+              <div className="bg-white border border-blue-100 rounded-lg p-4 mb-4">
+                <p className="text-xs font-medium text-blue-700 mb-1">About your answer</p>
                 <p className="text-sm text-slate-700 leading-relaxed">
-                  {subject.ai_help_text}
+                  {explanation.loading ? 'Thinking about your answer...' : explanation.body}
                 </p>
               </div>
-
-              <a
-                href={`https://www.youtube.com/results?search_query=${encodeURIComponent(
-                  subject.video_search_query
-                )}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700 font-medium"
-              >
-                Watch video explanation
-                <ExternalLink className="w-4 h-4" />
-              </a>
-            </CardBody>
-          </Card>
+            )}
+          </LearningAssistance>
         )}
 
         {feedback.type === 'success' && (
           <div className="text-center">
-            <Button onClick={() => navigate('/dashboard')}>
-              Return to Dashboard
-            </Button>
+            {nextQuestionId ? (
+              <Button onClick={goToNextQuestion}>
+                Next Question
+              </Button>
+            ) : (
+              <Button onClick={() => navigate(focusQuestionId ? '/mistakes' : '/dashboard')}>
+                {focusQuestionId ? 'Back to Mistakes' : 'Return to Dashboard'}
+              </Button>
+            )}
           </div>
         )}
       </main>
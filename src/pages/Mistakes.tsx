@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase, Subject, MistakeJournalEntry, SUBJECT_COLUMNS } from '../lib/supabase';
+import { Header } from '../components/Header';
+import { Card, CardBody, CardHeader } from '../components/Card';
+import { Button } from '../components/Button';
+import { RotateCcw, XCircle } from 'lucide-react';
+
+// Correct answers in this many later sessions clear an entry; see mistake_journal.
+const SESSIONS_TO_CLEAR = 2;
+
+type MisconceptionGroup = {
+  key: string;
+  name: string;
+  description: string | null;
+  entries: MistakeJournalEntry[];
+};
+
+function groupByMisconception(entries: MistakeJournalEntry[]): MisconceptionGroup[] {
+  const groups = new Map<string, MisconceptionGroup>();
+
+  for (const entry of entries) {
+    const key = entry.misconception?.id ?? 'other';
+    const group = groups.get(key) ?? {
+      key,
+      name: entry.misconception?.name ?? 'Other mistakes',
+      description: entry.misconception?.description ?? null,
+      entries: [],
+    };
+
+    group.entries.push(entry);
+    groups.set(key, group);
+  }
+
+  // Unnamed mistakes go last.
+  return Array.from(groups.values()).sort((a, b) => Number(a.key === 'other') - Number(b.key === 'other'));
+}
+
+export function Mistakes() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [entries, setEntries] = useState<MistakeJournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      loadJournal();
+    }
+  }, [user]);
+
+  async function loadJournal() {
+    const { data: subjectsData } = await supabase
+      .from('subjects')
+      .select(SUBJECT_COLUMNS)
+      .order('name');
+
+    const { data: journalData } = await supabase.rpc('mistake_journal');
+
+    setSubjects(subjectsData ?? []);
+    setEntries((journalData ?? []) as MistakeJournalEntry[]);
+    setLoading(false);
+  }
+
+  function retry(entry: MistakeJournalEntry) {
+    navigate(`/learn/${entry.subject_id}?question=${entry.question_id}`);
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <div className="flex items-center justify-center h-96">
+          <p className="text-slate-500">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const subjectsWithMistakes = subjects.filter((subject) =>
+    entries.some((entry) => entry.subject_id === subject.id)
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="text-sm text-slate-600 hover:text-slate-900 mb-2"
+          >
+            ← Back to Dashboard
+          </button>
+          <h2 className="text-2xl font-semibold text-slate-900">Mistake Journal</h2>
+          <p className="text-slate-600">
+            Every question you got wrong. A mistake leaves the journal once you answer it
+            correctly in {SESSIONS_TO_CLEAR} later sessions.
+          </p>
+        </div>
+
+        {entries.length === 0 ? (
+          <Card>
+            <CardBody className="p-8 text-center">
+              <p className="text-slate-500">No open mistakes. Nice work!</p>
+            </CardBody>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            {subjectsWithMistakes.map((subject) => (
+              <section key={subject.id}>
+                <h3 className="text-lg font-semibold text-slate-900 mb-4">{subject.name}</h3>
+                <div className="space-y-4">
+                  {groupByMisconception(
+                    entries.filter((entry) => entry.subject_id === subject.id)
+                  ).map((group) => (
+                    <Card key={group.key}>
+                      <CardHeader>
+                        <h4 className="font-medium text-slate-900">{group.name}</h4>
+                        {group.description && (
+                          <p className="text-sm text-slate-600 mt-1">{group.description}</p>
+                        )}
+                      </CardHeader>
+                      <CardBody className="space-y-6">
+                        {group.entries.map((entry) => (
+                          <MistakeItem key={entry.question_id} entry={entry} onRetry={retry} />
+                        ))}
+                      </CardBody>
+                    </Card>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+type MistakeItemProps = {
+  entry: MistakeJournalEntry;
+  onRetry: (entry: MistakeJournalEntry) => void;
+};
+
+function MistakeItem({ entry, onRetry }: MistakeItemProps) {
+  const answers = Array.from(new Set(entry.answers.map((answer) => answer.answer)));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-slate-900">{entry.question}</p>
+          <p className="text-xs text-slate-500 mt-1">Data: {entry.data}</p>
+        </div>
+        <Button onClick={() => onRetry(entry)} size="sm" variant="secondary">
+          <span className="flex items-center gap-2 whitespace-nowrap">
+            <RotateCcw className="w-4 h-4" />
+            Retry now
+          </span>
+        </Button>
+      </div>
+
+      <div className="flex items-start gap-2 text-sm">
+        <XCircle className="w-4 h-4 text-red-600 mt-0.5" />
+        <p className="text-slate-700">
+          You answered {answers.map((answer) => `"${answer}"`).join(', ')} · last on{' '}
+          {new Date(entry.last_wrong_at).toLocaleDateString()}
+        </p>
+      </div>
+
+      {(entry.explanation || entry.worked_example) && (
+        <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-2 text-sm">
+          {entry.explanation && <p className="text-slate-700">{entry.explanation}</p>}
+          {entry.worked_example && (
+            <p className="text-slate-700">
+              <span className="font-medium">Worked example:</span> {entry.worked_example}
+            </p>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500">
+        Correct in {entry.correct_sessions} of {SESSIONS_TO_CLEAR} later sessions
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,514 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  supabase,
+  Subject,
+  HintDraft,
+  HintLevel,
+  QuestionFormat,
+  QuestionOption,
+  QuestionRevision,
+  SUBJECT_COLUMNS,
+} from '../lib/supabase';
+import { AnswerValue, emptyAnswer } from '../lib/answers';
+import {
+  QUESTION_FORMAT_LABELS,
+  nextOptionId,
+  previewQuestion,
+  questionDraftProblems,
+  savedDraftFields,
+  withAnswerKey,
+  withFormat,
+} from '../lib/authoring';
+import { Header } from '../components/Header';
+import { Card, CardBody, CardFooter, CardHeader } from '../components/Card';
+import { Button } from '../components/Button';
+import { Input } from '../components/Input';
+import { Textarea } from '../components/Textarea';
+import { AnswerInput } from '../components/AnswerInput';
+import { HINT_LEVEL_LABELS, LearningAssistance, QuestionPrompt } from '../components/QuestionView';
+import { Eye, Plus, X } from 'lucide-react';
+
+const SELECT_CLASS =
+  'w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-slate-900 focus:outline-none focus:ring-2 focus:ring-slate-400';
+
+type PublishedRevision = Pick<QuestionRevision, 'id' | 'revision' | 'published_at'>;
+
+export function QuestionEditor() {
+  const { revisionId } = useParams<{ revisionId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [draft, setDraft] = useState<QuestionRevision | null>(null);
+  const [history, setHistory] = useState<PublishedRevision[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [previewAnswer, setPreviewAnswer] = useState<AnswerValue>('');
+  const [showHelp, setShowHelp] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user && revisionId) {
+      loadRevision();
+    }
+  }, [user, revisionId]);
+
+  async function loadRevision() {
+    setLoading(true);
+
+    const { data: revisionData } = await supabase
+      .from('question_revisions')
+      .select('*')
+      .eq('id', revisionId)
+      .maybeSingle();
+
+    if (!revisionData) {
+      navigate('/author');
+      return;
+    }
+
+    const { data: subjectData } = await supabase
+      .from('subjects')
+      .select(SUBJECT_COLUMNS)
+      .eq('id', revisionData.subject_id)
+      .single();
+
+    const { data: historyData } = revisionData.question_id
+      ? await supabase
+          .from('question_revisions')
+          .select('id, revision, published_at')
+          .eq('question_id', revisionData.question_id)
+          .not('published_at', 'is', null)
+          .order('revision', { ascending: false })
+      : { data: [] };
+
+    setSubject(subjectData);
+    setDraft(revisionData);
+    setHistory(historyData ?? []);
+    setDirty(false);
+    setPreviewAnswer(emptyAnswer(previewQuestion(revisionData)));
+    setLoading(false);
+  }
+
+  function change(next: QuestionRevision) {
+    // A different format or option list invalidates the preview answer.
+    if (draft && (next.format !== draft.format || next.options !== draft.options)) {
+      setPreviewAnswer(emptyAnswer(previewQuestion(next)));
+    }
+    setDraft(next);
+    setDirty(true);
+  }
+
+  function update(changes: Partial<QuestionRevision>) {
+    if (draft) change({ ...draft, ...changes });
+  }
+
+  function updateOptions(options: QuestionOption[] | { template: string }) {
+    if (draft) change(withAnswerKey({ ...draft, options }));
+  }
+
+  function updateHint(index: number, changes: Partial<HintDraft>) {
+    if (draft) {
+      update({ hints: draft.hints.map((hint, i) => (i === index ? { ...hint, ...changes } : hint)) });
+    }
+  }
+
+  async function saveDraft(): Promise<boolean> {
+    if (!draft) return false;
+    if (!dirty) return true;
+
+    const { data, error: saveError } = await supabase
+      .from('question_revisions')
+      .update({
+        ...savedDraftFields(draft),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', draft.id)
+      .select('*')
+      .single();
+
+    if (saveError || !data) {
+      setError(saveError?.message ?? 'Could not save the draft');
+      return false;
+    }
+
+    setDraft(data);
+    setDirty(false);
+    return true;
+  }
+
+  async function handleSave() {
+    setBusy(true);
+    setError('');
+    await saveDraft();
+    setBusy(false);
+  }
+
+  async function handlePublish() {
+    if (!draft) return;
+
+    setBusy(true);
+    setError('');
+
+    if (await saveDraft()) {
+      const { error: publishError } = await supabase.rpc('publish_question_revision', {
+        p_revision_id: draft.id,
+      });
+
+      if (publishError) {
+        setError(publishError.message);
+      } else {
+        navigate(`/author/subjects/${draft.subject_id}`);
+        return;
+      }
+    }
+
+    setBusy(false);
+  }
+
+  async function discardDraft() {
+    if (!draft) return;
+
+    setBusy(true);
+    await supabase.from('question_revisions').delete().eq('id', draft.id);
+    navigate(`/author/subjects/${draft.subject_id}`);
+  }
+
+  if (loading || !draft || !subject) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <div className="flex items-center justify-center h-96">
+          <p className="text-slate-500">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const readOnly = draft.published_at !== null;
+  const question = previewQuestion(draft);
+  const problems = questionDraftProblems(draft);
+  const options = Array.isArray(draft.options) ? draft.options : [];
+  const accepted = draft.answer_spec?.accepted ?? [];
+  const otherRules = Object.keys(draft.answer_spec ?? {}).filter((rule) => rule !== 'accepted');
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate(`/author/subjects/${draft.subject_id}`)}
+            className="text-sm text-slate-600 hover:text-slate-900 mb-2"
+          >
+            ← Back to {subject.name}
+          </button>
+          <h2 className="text-2xl font-semibold text-slate-900">
+            {readOnly
+              ? `Revision ${draft.revision}`
+              : draft.question_id
+                ? 'Edit Question'
+                : 'New Question'}
+          </h2>
+          <p className="text-sm text-slate-500">
+            {readOnly
+              ? `Published ${new Date(draft.published_at!).toLocaleString()}. Published revisions are read-only.`
+              : `Draft last saved ${new Date(draft.updated_at).toLocaleString()}${dirty ? ' · Unsaved changes' : ''}`}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+          <Card>
+            <fieldset disabled={readOnly || busy}>
+              <CardBody className="space-y-5">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1.5">Format</label>
+                    <select
+                      value={draft.format}
+                      onChange={(e) => change(withFormat(draft, e.target.value as QuestionFormat))}
+                      className={SELECT_CLASS}
+                    >
+                      {(Object.keys(QUESTION_FORMAT_LABELS) as QuestionFormat[]).map((format) => (
+                        <option key={format} value={format}>
+                          {QUESTION_FORMAT_LABELS[format]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1.5">Difficulty</label>
+                    <select
+                      value={draft.difficulty}
+                      onChange={(e) => update({ difficulty: Number(e.target.value) })}
+                      className={SELECT_CLASS}
+                    >
+                      {[1, 2, 3, 4, 5].map((difficulty) => (
+                        <option key={difficulty} value={difficulty}>
+                          {difficulty}/5
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <Textarea
+                  label="Question"
+                  value={draft.question}
+                  onChange={(e) => update({ question: e.target.value })}
+                />
+                <Textarea
+                  label="Data"
+                  value={draft.data}
+                  onChange={(e) => update({ data: e.target.value })}
+                  rows={2}
+                />
+
+                {draft.format === 'free_text' && (
+                  <>
+                    <Input
+                      label="Correct answer"
+                      value={draft.correct_answer}
+                      onChange={(e) => update({ correct_answer: e.target.value })}
+                    />
+                    <div>
+                      <Textarea
+                        label="Also accept"
+                        value={accepted.join('\n')}
+                        onChange={(e) =>
+                          update({
+                            answer_spec: {
+                              ...draft.answer_spec,
+                              accepted: e.target.value.split('\n'),
+                            },
+                          })
+                        }
+                        placeholder="One answer or alias per line"
+                        rows={2}
+                      />
+                      {otherRules.length > 0 && (
+                        <p className="text-xs text-slate-500 mt-1">
+                          Also matched by {otherRules.join(', ')} rules, which are kept as they are.
+                        </p>
+                      )}
+                    </div>
+                  </>
+                )}
+
+                {draft.format === 'fill_blank' && !Array.isArray(draft.options) && (
+                  <Textarea
+                    label="Template"
+                    value={draft.options.template}
+                    onChange={(e) => updateOptions({ template: e.target.value })}
+                    placeholder="Mark each blank with ___"
+                    rows={2}
+                  />
+                )}
+
+                {Array.isArray(draft.options) && draft.format !== 'free_text' && (
+                  <div>
+                    <p className="text-sm font-medium text-slate-700 mb-1.5">Options</p>
+                    <div className="space-y-2">
+                      {options.map((option, index) => (
+                        <div key={option.id} className="flex items-center gap-2">
+                          <Input
+                            value={option.label}
+                            onChange={(e) =>
+                              updateOptions(
+                                options.map((o, i) => (i === index ? { ...o, label: e.target.value } : o))
+                              )
+                            }
+                            aria-label={`Option ${index + 1}`}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => updateOptions(options.filter((_, i) => i !== index))}
+                            aria-label="Remove option"
+                            className="p-2 rounded text-slate-500 hover:bg-slate-100"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateOptions([...options, { id: nextOptionId(options), label: '' }])}
+                      >
+                        <span className="flex items-center gap-2">
+                          <Plus className="w-4 h-4" />
+                          Add option
+                        </span>
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {draft.format !== 'free_text' && (
+                  <div>
+                    <p className="text-sm font-medium text-slate-700 mb-1.5">Answer key</p>
+                    <p className="text-xs text-slate-500 mb-2">Answer the question the way a learner should.</p>
+                    <AnswerInput
+                      question={question}
+                      value={draft.answer_key ?? emptyAnswer(question)}
+                      onChange={(answerKey) => update({ answer_key: answerKey })}
+                      disabled={readOnly}
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <p className="text-sm font-medium text-slate-700 mb-1.5">Hints</p>
+                  <div className="space-y-3">
+                    {draft.hints.map((hint, index) => (
+                      <div key={index} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs font-medium text-slate-500 w-12">Hint {index + 1}</span>
+                          <select
+                            value={hint.level}
+                            onChange={(e) => updateHint(index, { level: e.target.value as HintLevel })}
+                            aria-label="Hint level"
+                            className={SELECT_CLASS}
+                          >
+                            {(Object.keys(HINT_LEVEL_LABELS) as HintLevel[]).map((level) => (
+                              <option key={level} value={level}>
+                                {HINT_LEVEL_LABELS[level]}
+                              </option>
+                            ))}
+                          </select>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={hint.unlock_confusion ?? ''}
+                            onChange={(e) =>
+                              updateHint(index, {
+                                unlock_confusion: e.target.value === '' ? null : Number(e.target.value),
+                              })
+                            }
+                            placeholder="Auto-unlock at %"
+                            aria-label="Unlock at confusion"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => update({ hints: draft.hints.filter((_, i) => i !== index) })}
+                            aria-label="Remove hint"
+                            className="p-2 rounded text-slate-500 hover:bg-slate-100"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <Textarea
+                          value={hint.body}
+                          onChange={(e) => updateHint(index, { body: e.target.value })}
+                          aria-label={`Hint ${index + 1}`}
+                          rows={2}
+                        />
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() =>
+                        update({
+                          hints: [...draft.hints, { level: 'nudge', body: '', unlock_confusion: null }],
+                        })
+                      }
+                    >
+                      <span className="flex items-center gap-2">
+                        <Plus className="w-4 h-4" />
+                        Add hint
+                      </span>
+                    </Button>
+                  </div>
+                </div>
+
+                {!readOnly && problems.length > 0 && (
+                  <ul className="text-xs text-slate-500 list-disc list-inside">
+                    {problems.map((problem) => (
+                      <li key={problem}>{problem}</li>
+                    ))}
+                  </ul>
+                )}
+                {error && <p className="text-sm text-red-600">{error}</p>}
+              </CardBody>
+            </fieldset>
+
+            <CardFooter className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                {history.map((revision) => (
+                  <button
+                    key={revision.id}
+                    onClick={() => navigate(`/author/questions/${revision.id}`)}
+                    className={revision.id === draft.id ? 'text-slate-900 font-medium' : 'text-slate-500 hover:text-slate-900'}
+                  >
+                    Revision {revision.revision} · {new Date(revision.published_at!).toLocaleDateString()}
+                  </button>
+                ))}
+              </div>
+              {!readOnly && (
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={discardDraft} disabled={busy}>
+                    Discard Draft
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={handleSave} disabled={busy || !dirty}>
+                    Save Draft
+                  </Button>
+                  <Button size="sm" onClick={handlePublish} disabled={busy || problems.length > 0}>
+                    Publish
+                  </Button>
+                </div>
+              )}
+            </CardFooter>
+          </Card>
+
+          <div className="space-y-6 lg:sticky lg:top-6">
+            <div className="flex items-center justify-between">
+              <p className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                <Eye className="w-4 h-4" />
+                Preview
+              </p>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={showHelp}
+                  onChange={(e) => setShowHelp(e.target.checked)}
+                />
+                Show help for a stuck learner
+              </label>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <h1 className="text-2xl font-semibold text-slate-900">{subject.title}</h1>
+              </CardHeader>
+              <CardBody className="space-y-6">
+                <QuestionPrompt question={question} />
+                <div className="space-y-4">
+                  <AnswerInput question={question} value={previewAnswer} onChange={setPreviewAnswer} />
+                  <Button className="w-full" disabled>
+                    Submit Answer
+                  </Button>
+                </div>
+              </CardBody>
+            </Card>
+
+            {showHelp && (
+              <LearningAssistance
+                aiHelpText={subject.ai_help_text}
+                videoSearchQuery={subject.video_search_query}
+                hints={draft.hints.map((hint, index) => ({ ...hint, position: index + 1 }))}
+                hintCount={draft.hints.length}
+              />
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  supabase,
+  Subject,
+  Question,
+  LearningSession,
+  SessionAttempt,
+  SessionEvent,
+  HintReveal,
+  TutorMessage,
+  SUBJECT_COLUMNS,
+  QUESTION_COLUMNS,
+} from '../lib/supabase';
+import { TimelineEntry, buildTimeline, confusionAt, formatSeconds } from '../lib/replay';
+import { Header } from '../components/Header';
+import { Card, CardBody } from '../components/Card';
+import { Button } from '../components/Button';
+import { LineChart } from '../components/Charts';
+import {
+  AlertCircle,
+  CheckCircle,
+  EyeOff,
+  Lightbulb,
+  MessageCircle,
+  Pause,
+  Play,
+  RotateCcw,
+  Video,
+  XCircle,
+} from 'lucide-react';
+
+const PLAYBACK_SPEEDS = [1, 2, 5, 10];
+const PLAYBACK_TICK_MS = 250;
+
+export function SessionReplay() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const [session, setSession] = useState<LearningSession | null>(null);
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(PLAYBACK_SPEEDS[0]);
+  // Playback position in active seconds; null shows the whole session.
+  const [position, setPosition] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadReplay();
+  }, [sessionId]);
+
+  const duration = useMemo(
+    () => Math.max(session?.time_spent ?? 0, ...timeline.map((entry) => entry.at)),
+    [session, timeline]
+  );
+
+  useEffect(() => {
+    if (!playing) return;
+
+    const interval = setInterval(() => {
+      setPosition((current) => Math.min(duration, (current ?? 0) + (PLAYBACK_TICK_MS / 1000) * speed));
+    }, PLAYBACK_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [playing, speed, duration]);
+
+  useEffect(() => {
+    if (playing && position !== null && position >= duration) setPlaying(false);
+  }, [playing, position, duration]);
+
+  async function loadReplay() {
+    const { data: sessionData } = await supabase
+      .from('learning_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (!sessionData) {
+      setLoading(false);
+      return;
+    }
+
+    const [
+      { data: subjectData },
+      { data: questionsData },
+      { data: attemptsData },
+      { data: revealsData },
+      { data: eventsData },
+      { data: messagesData },
+    ] = await Promise.all([
+      supabase
+        .from('subjects')
+        .select(SUBJECT_COLUMNS)
+        .eq('id', sessionData.subject_id)
+        .maybeSingle(),
+      supabase
+        .from('questions')
+        .select(QUESTION_COLUMNS)
+        .eq('subject_id', sessionData.subject_id),
+      supabase
+        .from('session_attempts')
+        .select('*')
+        .eq('session_id', sessionData.id)
+        .order('attempt_number'),
+      // Hints the learner asked for and those unlocked automatically.
+      supabase
+        .from('hint_reveals')
+        .select('*')
+        .eq('session_id', sessionData.id)
+        .order('revealed_at'),
+      supabase
+        .from('session_events')
+        .select('*')
+        .eq('session_id', sessionData.id)
+        .in('event_type', ['video_click', 'visibility_visible'])
+        .order('seconds_from_start'),
+      supabase
+        .from('tutor_messages')
+        .select('*')
+        .eq('session_id', sessionData.id)
+        .order('created_at'),
+    ]);
+
+    setSession(sessionData);
+    setSubject(subjectData);
+    setQuestions(questionsData ?? []);
+    setTimeline(
+      buildTimeline(
+        sessionData,
+        (attemptsData ?? []) as SessionAttempt[],
+        (revealsData ?? []) as HintReveal[],
+        (eventsData ?? []) as SessionEvent[],
+        (messagesData ?? []) as TutorMessage[]
+      )
+    );
+    setLoading(false);
+  }
+
+  function togglePlayback() {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+
+    if (position === null || position >= duration) setPosition(0);
+    setPlaying(true);
+  }
+
+  function restart() {
+    setPosition(0);
+    setPlaying(false);
+  }
+
+  function questionText(questionId: string | null) {
+    return questions.find((q) => q.id === questionId)?.question;
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <div className="flex items-center justify-center h-96">
+          <p className="text-slate-500">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Header />
+        <div className="flex items-center justify-center h-96">
+          <p className="text-slate-500">Session not found</p>
+        </div>
+      </div>
+    );
+  }
+
+  const now = position ?? duration;
+  const visible = timeline.filter((entry) => entry.at <= now);
+  const attempts = timeline.filter(
+    (entry): entry is Extract<TimelineEntry, { kind: 'attempt' }> => entry.kind === 'attempt'
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="text-sm text-slate-600 hover:text-slate-900 mb-2"
+          >
+            ← Back to Dashboard
+          </button>
+          <h2 className="text-2xl font-semibold text-slate-900">
+            {subject?.name ?? 'Session'} replay
+          </h2>
+          <p className="text-slate-600">
+            {new Date(session.start_time).toLocaleString()} · {session.attempts} attempts ·{' '}
+            {formatSeconds(session.time_spent)} active
+          </p>
+        </div>
+
+        <Card className="mb-6">
+          <CardBody className="p-5">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <Button onClick={togglePlayback} size="sm" disabled={timeline.length === 0}>
+                <span className="flex items-center gap-2">
+                  {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  {playing ? 'Pause' : 'Play'}
+                </span>
+              </Button>
+              <Button onClick={restart} size="sm" variant="secondary" disabled={position === null}>
+                <span className="flex items-center gap-2">
+                  <RotateCcw className="w-4 h-4" />
+                  Restart
+                </span>
+              </Button>
+              <div className="flex items-center gap-1 ml-auto">
+                {PLAYBACK_SPEEDS.map((option) => (
+                  <Button
+                    key={option}
+                    onClick={() => setSpeed(option)}
+                    size="sm"
+                    variant={speed === option ? 'primary' : 'ghost'}
+                  >
+                    {option}×
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={1}
+              value={Math.floor(now)}
+              onChange={(e) => setPosition(Number(e.target.value))}
+              aria-label="Playback position"
+              className="w-full accent-slate-700"
+            />
+            <div className="flex justify-between text-sm text-slate-600 mt-1">
+              <span>{formatSeconds(Math.floor(now))}</span>
+              <span>Confusion: {confusionAt(timeline, now)}%</span>
+              <span>{formatSeconds(duration)}</span>
+            </div>
+          </CardBody>
+        </Card>
+
+        {attempts.length > 1 && (
+          <Card className="mb-6">
+            <CardBody className="p-5">
+              <h3 className="font-medium text-slate-900 mb-4">Confusion by Attempt</h3>
+              <LineChart
+                points={attempts.map((entry) => ({
+                  label: `Attempt ${entry.attempt.attempt_number}`,
+                  value: entry.attempt.confusion_score,
+                }))}
+                max={100}
+                unit="%"
+              />
+            </CardBody>
+          </Card>
+        )}
+
+        <Card>
+          <CardBody className="p-5">
+            {timeline.length === 0 ? (
+              <p className="text-center text-slate-500">Nothing was recorded in this session.</p>
+            ) : (
+              <ol className="space-y-4">
+                {visible.map((entry, index) => (
+                  <li key={index} className="flex items-start gap-3 text-sm">
+                    <div className="w-16 shrink-0 text-right">
+                      <p className="font-medium text-slate-700">{formatSeconds(entry.at)}</p>
+                      {index > 0 && entry.at > visible[index - 1].at && (
+                        <p className="text-xs text-slate-400">
+                          +{formatSeconds(entry.at - visible[index - 1].at)}
+                        </p>
+                      )}
+                    </div>
+                    <TimelineItem entry={entry} questionText={questionText} />
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardBody>
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+type TimelineItemProps = {
+  entry: TimelineEntry;
+  questionText: (questionId: string | null) => string | undefined;
+};
+
+function TimelineItem({ entry, questionText }: TimelineItemProps) {
+  switch (entry.kind) {
+    case 'attempt': {
+      const { attempt } = entry;
+
+      return (
+        <div className="flex items-start gap-2">
+          {attempt.is_correct ? (
+            <CheckCircle className="w-4 h-4 text-green-600 mt-0.5" />
+          ) : (
+            <XCircle className="w-4 h-4 text-red-600 mt-0.5" />
+          )}
+          <div>
+            <p className="text-slate-900">
+              {attempt.parent_question_id ? 'Step answer' : 'Answer'}: "{attempt.user_answer}"
+            </p>
+            <p className="text-xs text-slate-500">
+              {questionText(attempt.question_id)} · confusion {attempt.confusion_score}%
+            </p>
+          </div>
+        </div>
+      );
+    }
+    case 'help':
+      return (
+        <div className="flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 text-amber-600 mt-0.5" />
+          <p className="text-slate-700">Help appeared at {entry.confusionScore}% confusion</p>
+        </div>
+      );
+    case 'hint':
+      return (
+        <div className="flex items-start gap-2">
+          <Lightbulb className="w-4 h-4 text-amber-600 mt-0.5" />
+          <p className="text-slate-700">
+            {entry.source === 'learner'
+              ? `Asked for hint ${entry.position}`
+              : `Hint ${entry.position} unlocked as confusion rose`}
+          </p>
+        </div>
+      );
+    case 'video':
+      return (
+        <div className="flex items-start gap-2">
+          <Video className="w-4 h-4 text-slate-500 mt-0.5" />
+          <p className="text-slate-700">Opened a video explanation</p>
+        </div>
+      );
+    case 'away':
+      return (
+        <div className="flex items-start gap-2">
+          <EyeOff className="w-4 h-4 text-slate-400 mt-0.5" />
+          <p className="text-slate-500">Away from the page for {formatSeconds(entry.seconds)}</p>
+        </div>
+      );
+    case 'tutor':
+      return (
+        <div className="flex items-start gap-2">
+          <MessageCircle className="w-4 h-4 text-slate-500 mt-0.5" />
+          <p className="text-slate-700">
+            <span className="font-medium">
+              {entry.message.role === 'learner' ? 'You asked' : 'Tutor'}:
+            </span>{' '}
+            {entry.message.body}
+          </p>
+        </div>
+      );
+  }
+}
@@ -0,0 +1,245 @@
+// Tutor edge function. Explanations and chat replies from a language model are
+// generated here rather than in the browser, so the provider's API key never
+// reaches learners and only text this function generated is written to the
+// shared explanation cache.
+//
+// POST { kind: 'explain' | 'reply', session_id } with the learner's JWT.
+// `explain` returns the cached explanation shape of tutor_explanation; `reply`
+// returns the tutor message saved by save_tutor_reply.
+//
+// Configured with the secrets TUTOR_ENDPOINT (any OpenAI-compatible API),
+// TUTOR_MODEL and TUTOR_API_KEY. Without TUTOR_ENDPOINT it answers 404 and Learn
+// falls back to the template tutor.
+
+import { SupabaseClient, createClient } from 'npm:@supabase/supabase-js@2';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type TutorRequest = {
+  subjectTitle: string;
+  question: { question: string; data: string };
+  wrongAnswers: string[];
+  misconception: { name: string; description: string | null } | null;
+};
+
+type ChatCompletionMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+}
+
+function describeRequest(request: TutorRequest): string {
+  return [
+    `Subject: ${request.subjectTitle}`,
+    `Question: ${request.question.question}`,
+    `Data: ${request.question.data}`,
+    `Wrong answers so far: ${request.wrongAnswers.length > 0 ? request.wrongAnswers.join(' | ') : 'none'}`,
+    request.misconception
+      ? `Likely misconception: ${request.misconception.name}. ${request.misconception.description ?? ''}`
+      : 'No known misconception detected.',
+  ].join('\n');
+}
+
+// Talks to any endpoint implementing the OpenAI chat completions API.
+async function complete(messages: ChatCompletionMessage[]): Promise<string> {
+  const endpoint = Deno.env.get('TUTOR_ENDPOINT')!;
+  const apiKey = Deno.env.get('TUTOR_API_KEY');
+
+  const response = await fetch(`${endpoint.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({ model: tutorModel(), temperature: 0.2, messages }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Tutor request failed with status ${response.status}`);
+  }
+
+  const payload = await response.json();
+  const content = payload?.choices?.[0]?.message?.content;
+
+  if (typeof content !== 'string' || content.trim() === '') {
+    throw new Error('Tutor returned an empty response');
+  }
+
+  return content.trim();
+}
+
+function tutorModel(): string {
+  return Deno.env.get('TUTOR_MODEL') || 'gpt-4o-mini';
+}
+
+// Reads go through the learner's own client, so row level security limits them
+// to the learner's sessions.
+async function loadRequest(
+  learner: SupabaseClient,
+  sessionId: string,
+  misconceptionId: string | null
+): Promise<TutorRequest | null> {
+  const { data: session } = await learner
+    .from('learning_sessions')
+    .select('subject_id, question_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (!session?.question_id) return null;
+
+  const [{ data: subject }, { data: question }, { data: attempts }, { data: misconception }] =
+    await Promise.all([
+      learner.from('subjects').select('title').eq('id', session.subject_id).maybeSingle(),
+      learner.from('questions').select('question, data').eq('id', session.question_id).maybeSingle(),
+      learner
+        .from('session_attempts')
+        .select('user_answer, is_correct')
+        .eq('session_id', sessionId)
+        .eq('question_id', session.question_id)
+        .order('attempt_number'),
+      misconceptionId
+        ? learner.from('misconceptions').select('name, description').eq('id', misconceptionId).maybeSingle()
+        : Promise.resolve({ data: null }),
+    ]);
+
+  if (!subject || !question) return null;
+
+  return {
+    subjectTitle: subject.title,
+    question,
+    wrongAnswers: (attempts ?? [])
+      .filter((attempt) => !attempt.is_correct)
+      .map((attempt) => attempt.user_answer),
+    misconception,
+  };
+}
+
+async function explain(learner: SupabaseClient, sessionId: string): Promise<Response> {
+  const provider = `openai:${tutorModel()}`;
+
+  // Checks the session belongs to the learner and serves a cache hit.
+  const { data: cached, error } = await learner.rpc('tutor_explanation', {
+    p_session_id: sessionId,
+    p_provider: provider,
+  });
+
+  if (error) return json({ error: error.message }, 404);
+  if (cached.body) return json(cached);
+
+  const request = await loadRequest(learner, sessionId, cached.misconception_id);
+  if (!request) return json({ error: 'Session not found' }, 404);
+
+  const body = await complete([
+    {
+      role: 'system',
+      content:
+        'You are a patient tutor. Explain what is wrong with the learner\'s reasoning in at most four sentences. Do not state the correct answer.',
+    },
+    { role: 'user', content: describeRequest(request) },
+  ]);
+
+  // Only this function may write the cache that other learners are served from.
+  const service = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data: saved, error: saveError } = await service.rpc('save_tutor_explanation', {
+    p_session_id: sessionId,
+    p_provider: provider,
+    p_body: body,
+  });
+
+  if (saveError) return json({ error: saveError.message }, 500);
+  return json(saved);
+}
+
+async function reply(learner: SupabaseClient, sessionId: string): Promise<Response> {
+  const { data: session } = await learner
+    .from('learning_sessions')
+    .select('question_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (!session?.question_id) return json({ error: 'Session not found' }, 404);
+
+  const { data: lastAttempt } = await learner
+    .from('session_attempts')
+    .select('misconception_id')
+    .eq('session_id', sessionId)
+    .eq('question_id', session.question_id)
+    .order('attempt_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const [request, { data: messages }] = await Promise.all([
+    loadRequest(learner, sessionId, lastAttempt?.misconception_id ?? null),
+    learner
+      .from('tutor_messages')
+      .select('role, body')
+      .eq('session_id', sessionId)
+      .eq('question_id', session.question_id)
+      .order('created_at'),
+  ]);
+
+  if (!request) return json({ error: 'Session not found' }, 404);
+
+  const body = await complete([
+    {
+      role: 'system',
+      content: [
+        'You are a Socratic tutor. Reply to the learner with one or two short guiding questions that help them find the mistake themselves.',
+        'Never give the answer, even when asked for it directly.',
+        describeRequest(request),
+      ].join('\n'),
+    },
+    ...(messages ?? []).map(
+      (message): ChatCompletionMessage => ({
+        role: message.role === 'learner' ? 'user' : 'assistant',
+        content: message.body,
+      })
+    ),
+  ]);
+
+  // Replies only go into the learner's own session, and save_tutor_reply
+  // still replaces any that give the answer away.
+  const { data: saved, error } = await learner.rpc('save_tutor_reply', {
+    p_session_id: sessionId,
+    p_provider: `openai:${tutorModel()}`,
+    p_body: body,
+  });
+
+  if (error) return json({ error: error.message }, 500);
+  return json(saved);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  if (!Deno.env.get('TUTOR_ENDPOINT')) {
+    return json({ error: 'No tutor endpoint is configured' }, 404);
+  }
+
+  const { kind, session_id: sessionId } = await req.json().catch(() => ({}));
+
+  if (typeof sessionId !== 'string' || (kind !== 'explain' && kind !== 'reply')) {
+    return json({ error: 'Expected { kind: "explain" | "reply", session_id }' }, 400);
+  }
+
+  const learner = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  try {
+    return kind === 'explain' ? await explain(learner, sessionId) : await reply(learner, sessionId);
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : String(error) }, 502);
+  }
+});
@@ -0,0 +1,115 @@
+/*
+  # Server-side answer grading
+
+  ## Overview
+  Answers used to be graded in the browser, which meant every `subjects.correct_answer`
+  was shipped to the client. Grading now happens inside the database and the answer
+  column is no longer readable by learners.
+
+  ## Security
+  - `subjects` is readable through column grants that leave out `correct_answer`
+  - Learners can no longer insert `session_attempts` rows directly; attempts are
+    recorded by `submit_attempt`
+
+  ## New Functions
+
+  ### `submit_attempt(p_session_id uuid, p_answer text)`
+  Grades an answer for one of the caller's open sessions, records the attempt,
+  updates the session and returns only the outcome:
+  - `is_correct` (boolean)
+  - `feedback` (text)
+  - `attempt_number` (integer)
+  - `time_spent` (integer) - Seconds since the session started
+  - `confusion_score` (integer)
+  - `ai_help_shown` (boolean)
+*/
+
+-- Hide correct_answer from learners
+REVOKE SELECT ON subjects FROM anon, authenticated;
+
+GRANT SELECT (
+  id,
+  name,
+  slug,
+  title,
+  description,
+  question,
+  data,
+  ai_help_text,
+  video_search_query,
+  created_at
+) ON subjects TO authenticated;
+
+-- Attempts are only written by submit_attempt
+DROP POLICY IF EXISTS "Users can insert own session attempts" ON session_attempts;
+
+CREATE OR REPLACE FUNCTION submit_attempt(p_session_id uuid, p_answer text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_correct_answer text;
+  v_answer text := trim(coalesce(p_answer, ''));
+  v_attempt_number integer;
+  v_time_from_start integer;
+  v_is_correct boolean;
+  v_confusion_score integer;
+  v_ai_help_shown boolean;
+BEGIN
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT correct_answer INTO v_correct_answer
+  FROM subjects
+  WHERE id = v_session.subject_id;
+
+  v_attempt_number := v_session.attempts + 1;
+  v_time_from_start := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+  v_is_correct := position(lower(v_correct_answer) IN lower(v_answer)) > 0;
+  v_confusion_score := least(100, v_attempt_number * 20 + least(v_time_from_start, 60));
+  v_ai_help_shown := v_session.ai_help_shown OR v_confusion_score >= 40;
+
+  INSERT INTO session_attempts (session_id, attempt_number, user_answer, is_correct, time_from_start)
+  VALUES (p_session_id, v_attempt_number, v_answer, v_is_correct, v_time_from_start);
+
+  UPDATE learning_sessions
+  SET
+    attempts = v_attempt_number,
+    time_spent = v_time_from_start,
+    confusion_score = v_confusion_score,
+    is_completed = v_is_correct,
+    ai_help_shown = v_ai_help_shown,
+    end_time = CASE WHEN v_is_correct THEN now() ELSE NULL END
+  WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE WHEN v_is_correct THEN 'Correct! Well done.' ELSE 'Not quite right. Try again.' END,
+    'attempt_number', v_attempt_number,
+    'time_spent', v_time_from_start,
+    'confusion_score', v_confusion_score,
+    'ai_help_shown', v_ai_help_shown
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_attempt(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION submit_attempt(uuid, text) TO authenticated;
@@ -0,0 +1,149 @@
+/*
+  # Derive learning session stats from attempts
+
+  ## Overview
+  `attempts`, `time_spent`, `confusion_score`, `is_completed`, `end_time` and
+  `ai_help_shown` on `learning_sessions` used to be written by the client, and the
+  update policy let learners set them to anything. They are now derived from the
+  `session_attempts` history by a trigger, so dashboards and the learning fingerprint
+  can trust them.
+
+  ## Security
+  - Removes the "Users can update own sessions" policy
+  - Learners may only supply `user_id` and `subject_id` when starting a session;
+    everything else comes from column defaults or the trigger
+
+  ## New Functions
+
+  ### `refresh_session_stats(p_session_id uuid)`
+  Recomputes the derived columns of a session from its attempts:
+  - `attempts` - Number of attempts
+  - `time_spent` - Latest `time_from_start`
+  - `confusion_score` - `attempts * 20 + min(time_spent, 60)`, capped at 100
+  - `is_completed` / `end_time` - Set by the first correct attempt
+  - `ai_help_shown` - Latched once the confusion score reaches 40
+*/
+
+DROP POLICY IF EXISTS "Users can update own sessions" ON learning_sessions;
+
+REVOKE INSERT, UPDATE ON learning_sessions FROM anon, authenticated;
+GRANT INSERT (user_id, subject_id) ON learning_sessions TO authenticated;
+
+REVOKE INSERT, UPDATE, DELETE ON session_attempts FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_session_stats(p_session_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempts integer;
+  v_time_spent integer;
+  v_completed_at timestamptz;
+  v_confusion_score integer;
+BEGIN
+  SELECT
+    count(*),
+    coalesce(max(time_from_start), 0),
+    min(created_at) FILTER (WHERE is_correct)
+  INTO v_attempts, v_time_spent, v_completed_at
+  FROM session_attempts
+  WHERE session_id = p_session_id;
+
+  v_confusion_score := least(100, v_attempts * 20 + least(v_time_spent, 60));
+
+  UPDATE learning_sessions
+  SET
+    attempts = v_attempts,
+    time_spent = v_time_spent,
+    confusion_score = v_confusion_score,
+    is_completed = v_completed_at IS NOT NULL,
+    end_time = v_completed_at,
+    ai_help_shown = ai_help_shown OR v_confusion_score >= 40
+  WHERE id = p_session_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_session_stats(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION session_attempts_refresh_session()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_session_stats(OLD.session_id);
+  ELSE
+    PERFORM refresh_session_stats(NEW.session_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER session_attempts_refresh_session
+  AFTER INSERT OR UPDATE OR DELETE ON session_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION session_attempts_refresh_session();
+
+-- submit_attempt now only grades and records; the trigger derives the session stats
+CREATE OR REPLACE FUNCTION submit_attempt(p_session_id uuid, p_answer text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_correct_answer text;
+  v_answer text := trim(coalesce(p_answer, ''));
+  v_is_correct boolean;
+BEGIN
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT correct_answer INTO v_correct_answer
+  FROM subjects
+  WHERE id = v_session.subject_id;
+
+  v_is_correct := position(lower(v_correct_answer) IN lower(v_answer)) > 0;
+
+  INSERT INTO session_attempts (session_id, attempt_number, user_answer, is_correct, time_from_start)
+  VALUES (
+    p_session_id,
+    v_session.attempts + 1,
+    v_answer,
+    v_is_correct,
+    floor(extract(epoch FROM now() - v_session.start_time))::integer
+  );
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE WHEN v_is_correct THEN 'Correct! Well done.' ELSE 'Not quite right. Try again.' END,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', v_session.confusion_score,
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
@@ -0,0 +1,287 @@
+/*
+  # Pluggable confusion models
+
+  ## Overview
+  The confusion score used to be a single hard-coded formula. Each subject now picks
+  a versioned confusion model, and every session records which model produced its
+  score together with the reasons behind it. The models mirror `src/lib/confusion.ts`.
+
+  ## Models
+  - `baseline@1` - The original `attempts * 20 + min(time, 60)` formula
+  - `weighted@1` - Weighted blend of wrong attempts, time, similarity of successive
+    wrong answers, idle pauses, deleted characters and time away from the page
+
+  ## Modified Tables
+
+  ### `subjects`
+  - `confusion_model` (text) - Model version used for new sessions
+
+  ### `learning_sessions`
+  - `confusion_model` (text) - Model version that produced `confusion_score`
+  - `confusion_reasons` (jsonb) - `[{ signal, label, contribution }]`, largest first
+
+  ### `session_attempts`
+  - `signals` (jsonb) - Behaviour since the previous attempt:
+    `{ idle_seconds, deleted_chars, tab_away_seconds }`
+
+  ## Modified Functions
+  - `submit_attempt` takes an optional `p_signals` argument and also returns
+    `confusion_model` and `confusion_reasons`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE subjects
+  ADD COLUMN IF NOT EXISTS confusion_model text NOT NULL DEFAULT 'baseline@1'
+  CHECK (confusion_model IN ('baseline@1', 'weighted@1'));
+
+GRANT SELECT (confusion_model) ON subjects TO authenticated;
+
+ALTER TABLE learning_sessions
+  ADD COLUMN IF NOT EXISTS confusion_model text NOT NULL DEFAULT 'baseline@1',
+  ADD COLUMN IF NOT EXISTS confusion_reasons jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE session_attempts
+  ADD COLUMN IF NOT EXISTS signals jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Sessions keep the model their subject used when they started
+CREATE OR REPLACE FUNCTION learning_sessions_assign_confusion_model()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT confusion_model INTO NEW.confusion_model
+  FROM subjects
+  WHERE id = NEW.subject_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER learning_sessions_assign_confusion_model
+  BEFORE INSERT ON learning_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION learning_sessions_assign_confusion_model();
+
+CREATE OR REPLACE FUNCTION confusion_result(p_reasons jsonb[])
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'score', least(100, coalesce(sum((r->>'contribution')::integer), 0)),
+    'reasons', coalesce(jsonb_agg(r ORDER BY (r->>'contribution')::integer DESC), '[]'::jsonb)
+  )
+  FROM unnest(p_reasons) AS r
+  WHERE (r->>'contribution')::integer > 0;
+$$;
+
+CREATE OR REPLACE FUNCTION confusion_baseline_v1(p_session_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_attempts integer;
+  v_time integer;
+BEGIN
+  SELECT count(*), coalesce(max(time_from_start), 0)
+  INTO v_attempts, v_time
+  FROM session_attempts
+  WHERE session_id = p_session_id;
+
+  RETURN confusion_result(ARRAY[
+    jsonb_build_object('signal', 'attempts', 'label', 'Attempts: ' || v_attempts, 'contribution', v_attempts * 20),
+    jsonb_build_object('signal', 'time', 'label', 'Time on question: ' || v_time || 's', 'contribution', least(v_time, 60))
+  ]);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION confusion_weighted_v1(p_session_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_wrong integer;
+  v_time integer;
+  v_idle integer;
+  v_deleted integer;
+  v_tab_away integer;
+  v_repetition numeric;
+BEGIN
+  SELECT
+    count(*) FILTER (WHERE NOT is_correct),
+    coalesce(max(time_from_start), 0),
+    coalesce(sum((signals->>'idle_seconds')::integer), 0),
+    coalesce(sum((signals->>'deleted_chars')::integer), 0),
+    coalesce(sum((signals->>'tab_away_seconds')::integer), 0)
+  INTO v_wrong, v_time, v_idle, v_deleted, v_tab_away
+  FROM session_attempts
+  WHERE session_id = p_session_id;
+
+  SELECT coalesce(avg(extensions.similarity(previous_answer, user_answer)), 0)
+  INTO v_repetition
+  FROM (
+    SELECT
+      user_answer,
+      lag(user_answer) OVER (ORDER BY attempt_number) AS previous_answer
+    FROM session_attempts
+    WHERE session_id = p_session_id
+    AND NOT is_correct
+  ) wrong_answers
+  WHERE previous_answer IS NOT NULL;
+
+  RETURN confusion_result(ARRAY[
+    jsonb_build_object('signal', 'attempts', 'label', 'Wrong attempts: ' || v_wrong,
+      'contribution', round(30 * least(1, v_wrong / 5.0))),
+    jsonb_build_object('signal', 'time', 'label', 'Time on question: ' || v_time || 's',
+      'contribution', round(15 * least(1, v_time / 180.0))),
+    jsonb_build_object('signal', 'repetition', 'label', 'Similar wrong answers: ' || round(v_repetition * 100) || '%',
+      'contribution', round(20 * least(1, v_repetition))),
+    jsonb_build_object('signal', 'idle', 'label', 'Idle pauses: ' || v_idle || 's',
+      'contribution', round(10 * least(1, v_idle / 120.0))),
+    jsonb_build_object('signal', 'rewrite', 'label', 'Characters deleted: ' || v_deleted,
+      'contribution', round(10 * least(1, v_deleted / 80.0))),
+    jsonb_build_object('signal', 'tab_away', 'label', 'Time away from page: ' || v_tab_away || 's',
+      'contribution', round(15 * least(1, v_tab_away / 60.0)))
+  ]);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION score_session_confusion(p_session_id uuid, p_model text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  CASE p_model
+    WHEN 'weighted@1' THEN RETURN confusion_weighted_v1(p_session_id);
+    ELSE RETURN confusion_baseline_v1(p_session_id);
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_session_stats(p_session_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempts integer;
+  v_time_spent integer;
+  v_completed_at timestamptz;
+  v_confusion jsonb;
+  v_confusion_score integer;
+BEGIN
+  SELECT
+    count(*),
+    coalesce(max(time_from_start), 0),
+    min(created_at) FILTER (WHERE is_correct)
+  INTO v_attempts, v_time_spent, v_completed_at
+  FROM session_attempts
+  WHERE session_id = p_session_id;
+
+  SELECT score_session_confusion(p_session_id, confusion_model)
+  INTO v_confusion
+  FROM learning_sessions
+  WHERE id = p_session_id;
+
+  v_confusion_score := coalesce((v_confusion->>'score')::integer, 0);
+
+  UPDATE learning_sessions
+  SET
+    attempts = v_attempts,
+    time_spent = v_time_spent,
+    confusion_score = v_confusion_score,
+    confusion_reasons = coalesce(v_confusion->'reasons', '[]'::jsonb),
+    is_completed = v_completed_at IS NOT NULL,
+    end_time = v_completed_at,
+    ai_help_shown = ai_help_shown OR v_confusion_score >= 40
+  WHERE id = p_session_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS submit_attempt(uuid, text);
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+  p_session_id uuid,
+  p_answer text,
+  p_signals jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_correct_answer text;
+  v_answer text := trim(coalesce(p_answer, ''));
+  v_is_correct boolean;
+  v_signals jsonb;
+BEGIN
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT correct_answer INTO v_correct_answer
+  FROM subjects
+  WHERE id = v_session.subject_id;
+
+  v_is_correct := position(lower(v_correct_answer) IN lower(v_answer)) > 0;
+
+  -- Client-reported signals are clamped so they cannot dominate the score
+  v_signals := jsonb_build_object(
+    'idle_seconds', greatest(0, least(3600, coalesce((p_signals->>'idle_seconds')::integer, 0))),
+    'deleted_chars', greatest(0, least(10000, coalesce((p_signals->>'deleted_chars')::integer, 0))),
+    'tab_away_seconds', greatest(0, least(3600, coalesce((p_signals->>'tab_away_seconds')::integer, 0)))
+  );
+
+  INSERT INTO session_attempts (session_id, attempt_number, user_answer, is_correct, time_from_start, signals)
+  VALUES (
+    p_session_id,
+    v_session.attempts + 1,
+    v_answer,
+    v_is_correct,
+    floor(extract(epoch FROM now() - v_session.start_time))::integer,
+    v_signals
+  );
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE WHEN v_is_correct THEN 'Correct! Well done.' ELSE 'Not quite right. Try again.' END,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', v_session.confusion_score,
+    'confusion_model', v_session.confusion_model,
+    'confusion_reasons', v_session.confusion_reasons,
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_attempt(uuid, text, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION submit_attempt(uuid, text, jsonb) TO authenticated;
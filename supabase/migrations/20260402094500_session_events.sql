@@ -0,0 +1,175 @@
+/*
+  # Interaction telemetry for learning sessions
+
+  ## Overview
+  Records fine-grained interaction events from the Learn page so confusion can be
+  detected from more than answer attempts. Time the learner spends with the page
+  hidden no longer counts towards `time_from_start` / `time_spent`.
+
+  ## New Tables
+
+  ### `session_events`
+  Batched interaction events for a learning session
+  - `id` (uuid, primary key)
+  - `session_id` (uuid) - Links to learning_sessions
+  - `event_type` (text) - `typing_burst`, `deletion`, `pause`, `focus`, `blur`,
+    `visibility_hidden`, `visibility_visible`, `submit`, `hint_click` or `video_click`
+  - `payload` (jsonb) - Event details, e.g. `{ inserted, deleted, duration_ms }` for a
+    typing burst or `{ hidden_seconds }` when the page becomes visible again
+  - `seconds_from_start` (integer) - Active seconds since the session started
+  - `occurred_at` (timestamptz) - When the event happened in the browser
+  - `created_at` (timestamptz)
+
+  ## Security
+  - Enable RLS; learners can view and insert events for their own sessions
+
+  ## New Functions
+
+  ### `session_hidden_seconds(p_session_id uuid)`
+  Total seconds the page was hidden, from paired visibility events
+
+  ## Modified Functions
+  - `submit_attempt` subtracts hidden time from `time_from_start`
+*/
+
+CREATE TABLE IF NOT EXISTS session_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES learning_sessions(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN (
+    'typing_burst',
+    'deletion',
+    'pause',
+    'focus',
+    'blur',
+    'visibility_hidden',
+    'visibility_visible',
+    'submit',
+    'hint_click',
+    'video_click'
+  )),
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  seconds_from_start integer NOT NULL DEFAULT 0,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE session_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own session events"
+  ON session_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM learning_sessions
+      WHERE learning_sessions.id = session_events.session_id
+      AND learning_sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own session events"
+  ON session_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM learning_sessions
+      WHERE learning_sessions.id = session_events.session_id
+      AND learning_sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_session_events_session_id ON session_events(session_id, occurred_at);
+
+CREATE OR REPLACE FUNCTION session_hidden_seconds(p_session_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(floor(sum(extract(epoch FROM coalesce(next_at, now()) - occurred_at))), 0)::integer
+  FROM (
+    SELECT
+      event_type,
+      occurred_at,
+      lead(occurred_at) OVER (ORDER BY occurred_at) AS next_at
+    FROM session_events
+    WHERE session_id = p_session_id
+    AND event_type IN ('visibility_hidden', 'visibility_visible')
+  ) visibility
+  WHERE event_type = 'visibility_hidden';
+$$;
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+  p_session_id uuid,
+  p_answer text,
+  p_signals jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_correct_answer text;
+  v_answer text := trim(coalesce(p_answer, ''));
+  v_is_correct boolean;
+  v_signals jsonb;
+  v_elapsed integer;
+BEGIN
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT correct_answer INTO v_correct_answer
+  FROM subjects
+  WHERE id = v_session.subject_id;
+
+  v_is_correct := position(lower(v_correct_answer) IN lower(v_answer)) > 0;
+
+  -- Client-reported signals are clamped so they cannot dominate the score
+  v_signals := jsonb_build_object(
+    'idle_seconds', greatest(0, least(3600, coalesce((p_signals->>'idle_seconds')::integer, 0))),
+    'deleted_chars', greatest(0, least(10000, coalesce((p_signals->>'deleted_chars')::integer, 0))),
+    'tab_away_seconds', greatest(0, least(3600, coalesce((p_signals->>'tab_away_seconds')::integer, 0)))
+  );
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  INSERT INTO session_attempts (session_id, attempt_number, user_answer, is_correct, time_from_start, signals)
+  VALUES (
+    p_session_id,
+    v_session.attempts + 1,
+    v_answer,
+    v_is_correct,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id)),
+    v_signals
+  );
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE WHEN v_is_correct THEN 'Correct! Well done.' ELSE 'Not quite right. Try again.' END,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', v_session.confusion_score,
+    'confusion_model', v_session.confusion_model,
+    'confusion_reasons', v_session.confusion_reasons,
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
@@ -0,0 +1,152 @@
+/*
+  # Learning fingerprint
+
+  ## Overview
+  `profiles.learning_fingerprint` was never updated after sign-up. It is now
+  recomputed from the learner's session history every time a session is completed,
+  and each classification is kept with the evidence behind it.
+
+  ## Classes
+  - `New Learner` - Fewer than 3 completed sessions
+  - `Fast Guesser` - Many attempts in quick succession
+  - `Hint-Reliant` - Needed learning assistance in at least half of the sessions
+  - `Persistent` - Many attempts, but keeps going until solved
+  - `Slow and Careful` - Few attempts after a long think
+  - `Quick and Accurate` - Few attempts, little time
+  - `Balanced Learner` - None of the above stands out
+
+  ## New Tables
+
+  ### `learning_fingerprints`
+  History of fingerprint classifications
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Links to profiles
+  - `fingerprint` (text) - Class assigned
+  - `evidence` (jsonb) - Metrics and a `summary` explaining the class
+  - `computed_at` (timestamptz)
+
+  ## Security
+  - Enable RLS; learners can view their own history
+  - Learners can no longer write `learning_fingerprint` on their profile
+
+  ## New Functions
+
+  ### `refresh_learning_fingerprint(p_user_id uuid)`
+  Classifies the learner, stores a history row and updates the profile
+*/
+
+CREATE TABLE IF NOT EXISTS learning_fingerprints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  fingerprint text NOT NULL,
+  evidence jsonb NOT NULL DEFAULT '{}'::jsonb,
+  computed_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE learning_fingerprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own learning fingerprints"
+  ON learning_fingerprints FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_learning_fingerprints_user_id ON learning_fingerprints(user_id, computed_at DESC);
+
+REVOKE INSERT, UPDATE ON profiles FROM anon, authenticated;
+GRANT INSERT (id, email, full_name) ON profiles TO authenticated;
+GRANT UPDATE (full_name, updated_at) ON profiles TO authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_learning_fingerprint(p_user_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_completed integer;
+  v_avg_attempts numeric;
+  v_avg_time numeric;
+  v_seconds_per_attempt numeric;
+  v_help_rate numeric;
+  v_fingerprint text;
+  v_summary text;
+BEGIN
+  SELECT
+    count(*),
+    coalesce(avg(attempts), 0),
+    coalesce(avg(time_spent), 0),
+    coalesce(sum(time_spent)::numeric / nullif(sum(attempts), 0), 0),
+    coalesce(avg(CASE WHEN ai_help_shown THEN 1 ELSE 0 END), 0)
+  INTO v_completed, v_avg_attempts, v_avg_time, v_seconds_per_attempt, v_help_rate
+  FROM learning_sessions
+  WHERE user_id = p_user_id
+  AND is_completed;
+
+  IF v_completed < 3 THEN
+    v_fingerprint := 'New Learner';
+    v_summary := 'Complete ' || (3 - v_completed) || ' more session(s) to reveal your learning style.';
+  ELSIF v_avg_attempts >= 3 AND v_seconds_per_attempt < 10 THEN
+    v_fingerprint := 'Fast Guesser';
+    v_summary := 'Averages ' || round(v_avg_attempts, 1) || ' attempts, about '
+      || round(v_seconds_per_attempt) || 's apart.';
+  ELSIF v_help_rate >= 0.5 THEN
+    v_fingerprint := 'Hint-Reliant';
+    v_summary := 'Needed learning assistance in ' || round(v_help_rate * 100) || '% of sessions.';
+  ELSIF v_avg_attempts >= 3 THEN
+    v_fingerprint := 'Persistent';
+    v_summary := 'Keeps going for ' || round(v_avg_attempts, 1) || ' attempts on average until solved.';
+  ELSIF v_avg_attempts <= 1.5 AND v_avg_time >= 60 THEN
+    v_fingerprint := 'Slow and Careful';
+    v_summary := 'Solves in ' || round(v_avg_attempts, 1) || ' attempts after about '
+      || round(v_avg_time) || 's of thought.';
+  ELSIF v_avg_attempts <= 1.5 THEN
+    v_fingerprint := 'Quick and Accurate';
+    v_summary := 'Solves in ' || round(v_avg_attempts, 1) || ' attempts within about '
+      || round(v_avg_time) || 's.';
+  ELSE
+    v_fingerprint := 'Balanced Learner';
+    v_summary := 'Averages ' || round(v_avg_attempts, 1) || ' attempts and '
+      || round(v_avg_time) || 's per session.';
+  END IF;
+
+  INSERT INTO learning_fingerprints (user_id, fingerprint, evidence)
+  VALUES (
+    p_user_id,
+    v_fingerprint,
+    jsonb_build_object(
+      'summary', v_summary,
+      'completed_sessions', v_completed,
+      'avg_attempts', round(v_avg_attempts, 2),
+      'avg_time_spent', round(v_avg_time),
+      'seconds_per_attempt', round(v_seconds_per_attempt, 1),
+      'help_rate', round(v_help_rate, 2)
+    )
+  );
+
+  UPDATE profiles
+  SET learning_fingerprint = v_fingerprint, updated_at = now()
+  WHERE id = p_user_id;
+
+  RETURN v_fingerprint;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_learning_fingerprint(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION learning_sessions_refresh_fingerprint()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_learning_fingerprint(NEW.user_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER learning_sessions_refresh_fingerprint
+  AFTER UPDATE OF is_completed ON learning_sessions
+  FOR EACH ROW
+  WHEN (NEW.is_completed AND NOT OLD.is_completed)
+  EXECUTE FUNCTION learning_sessions_refresh_fingerprint();
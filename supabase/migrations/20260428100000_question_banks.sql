@@ -0,0 +1,534 @@
+/*
+  # Question banks
+
+  ## Overview
+  Each subject used to carry exactly one question. Questions now live in their own
+  table with an order and a difficulty, and a learning session steps through all of
+  a subject's questions. Confusion is scored per question; the session keeps its
+  peak.
+
+  ## New Tables
+
+  ### `questions`
+  Questions belonging to a subject
+  - `id` (uuid, primary key)
+  - `subject_id` (uuid) - Links to subjects
+  - `position` (integer) - Order within the subject, starting at 1
+  - `difficulty` (smallint) - 1 (easiest) to 5 (hardest)
+  - `question` (text) - The learning question
+  - `data` (text) - Context/data for the question
+  - `correct_answer` (text) - The correct answer, not readable by learners
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `subjects`
+  - `question`, `data` and `correct_answer` move to `questions`
+
+  ### `learning_sessions`
+  - `question_id` (uuid) - Question currently being answered
+
+  ### `session_attempts`
+  - `question_id` (uuid) - Question the attempt answered
+  - `confusion_score` (integer) - Confusion on that question after this attempt
+  - `confusion_reasons` (jsonb) - Reasons behind `confusion_score`
+
+  ## Modified Functions
+  - Confusion models score a single question within a session
+  - `refresh_session_stats` completes a session once every question is solved and
+    keeps the peak per-question confusion
+  - `submit_attempt` grades the current question, advances to the next one and also
+    returns `question_id`, `next_question_id` and `is_completed`
+  - `refresh_learning_fingerprint` averages attempts per question rather than per
+    session
+*/
+
+-- Create questions table
+CREATE TABLE IF NOT EXISTS questions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_id uuid NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  difficulty smallint NOT NULL DEFAULT 1 CHECK (difficulty BETWEEN 1 AND 5),
+  question text NOT NULL,
+  data text NOT NULL,
+  correct_answer text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (subject_id, position)
+);
+
+ALTER TABLE questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view questions"
+  ON questions FOR SELECT
+  TO authenticated
+  USING (true);
+
+REVOKE ALL ON questions FROM anon, authenticated;
+
+GRANT SELECT (
+  id,
+  subject_id,
+  position,
+  difficulty,
+  question,
+  data,
+  created_at
+) ON questions TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_questions_subject_id ON questions(subject_id, position);
+
+-- Move each subject's question into the bank
+INSERT INTO questions (subject_id, position, difficulty, question, data, correct_answer)
+SELECT id, 1, 1, question, data, correct_answer
+FROM subjects
+ON CONFLICT (subject_id, position) DO NOTHING;
+
+ALTER TABLE subjects
+  DROP COLUMN IF EXISTS question,
+  DROP COLUMN IF EXISTS data,
+  DROP COLUMN IF EXISTS correct_answer;
+
+-- Link sessions and attempts to questions
+ALTER TABLE learning_sessions
+  ADD COLUMN IF NOT EXISTS question_id uuid REFERENCES questions(id) ON DELETE SET NULL;
+
+ALTER TABLE session_attempts
+  ADD COLUMN IF NOT EXISTS question_id uuid REFERENCES questions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS confusion_score integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS confusion_reasons jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE learning_sessions
+SET question_id = questions.id
+FROM questions
+WHERE questions.subject_id = learning_sessions.subject_id
+AND questions.position = 1
+AND learning_sessions.question_id IS NULL;
+
+UPDATE session_attempts
+SET question_id = learning_sessions.question_id
+FROM learning_sessions
+WHERE learning_sessions.id = session_attempts.session_id
+AND session_attempts.question_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_session_attempts_question_id ON session_attempts(question_id);
+
+-- Additional questions for the seeded subjects
+INSERT INTO questions (subject_id, position, difficulty, question, data, correct_answer)
+SELECT subjects.id, q.position, q.difficulty, q.question, q.data, q.correct_answer
+FROM subjects
+JOIN (
+  VALUES
+    (
+      'data_structures',
+      2,
+      2,
+      'How many middle elements does binary search compare against before it finds 23?',
+      '[2, 5, 8, 12, 16, 23, 38, 56, 72, 91]',
+      '3'
+    ),
+    (
+      'newtons_laws',
+      2,
+      2,
+      'A hockey puck slides across perfectly frictionless ice. What happens to its velocity?',
+      'No friction, no air resistance.',
+      'constant'
+    ),
+    (
+      'dbms',
+      2,
+      2,
+      'Which normal form removes transitive dependency?',
+      'Options: 1NF, 2NF, 3NF',
+      '3nf'
+    )
+) AS q(slug, position, difficulty, question, data, correct_answer)
+  ON q.slug = subjects.slug
+ON CONFLICT (subject_id, position) DO NOTHING;
+
+-- New sessions start on the subject's first question
+CREATE OR REPLACE FUNCTION learning_sessions_assign_first_question()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT id INTO NEW.question_id
+  FROM questions
+  WHERE subject_id = NEW.subject_id
+  ORDER BY position
+  LIMIT 1;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER learning_sessions_assign_first_question
+  BEFORE INSERT ON learning_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION learning_sessions_assign_first_question();
+
+-- Confusion models now score one question within a session
+DROP FUNCTION IF EXISTS score_session_confusion(uuid, text);
+DROP FUNCTION IF EXISTS confusion_baseline_v1(uuid);
+DROP FUNCTION IF EXISTS confusion_weighted_v1(uuid);
+
+-- Seconds from session start at which the learner reached the question
+CREATE OR REPLACE FUNCTION question_started_at(p_session_id uuid, p_question_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(max(time_from_start), 0)
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  AND is_correct
+  AND question_id IS DISTINCT FROM p_question_id
+  AND attempt_number < coalesce((
+    SELECT min(attempt_number)
+    FROM session_attempts
+    WHERE session_id = p_session_id
+    AND question_id = p_question_id
+  ), 2147483647);
+$$;
+
+CREATE OR REPLACE FUNCTION confusion_baseline_v1(p_session_id uuid, p_question_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_attempts integer;
+  v_time integer;
+BEGIN
+  SELECT count(*), greatest(0, coalesce(max(time_from_start), 0) - question_started_at(p_session_id, p_question_id))
+  INTO v_attempts, v_time
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  AND question_id = p_question_id;
+
+  RETURN confusion_result(ARRAY[
+    jsonb_build_object('signal', 'attempts', 'label', 'Attempts: ' || v_attempts, 'contribution', v_attempts * 20),
+    jsonb_build_object('signal', 'time', 'label', 'Time on question: ' || v_time || 's', 'contribution', least(v_time, 60))
+  ]);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION confusion_weighted_v1(p_session_id uuid, p_question_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_wrong integer;
+  v_time integer;
+  v_idle integer;
+  v_deleted integer;
+  v_tab_away integer;
+  v_repetition numeric;
+BEGIN
+  SELECT
+    count(*) FILTER (WHERE NOT is_correct),
+    greatest(0, coalesce(max(time_from_start), 0) - question_started_at(p_session_id, p_question_id)),
+    coalesce(sum((signals->>'idle_seconds')::integer), 0),
+    coalesce(sum((signals->>'deleted_chars')::integer), 0),
+    coalesce(sum((signals->>'tab_away_seconds')::integer), 0)
+  INTO v_wrong, v_time, v_idle, v_deleted, v_tab_away
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  AND question_id = p_question_id;
+
+  SELECT coalesce(avg(extensions.similarity(previous_answer, user_answer)), 0)
+  INTO v_repetition
+  FROM (
+    SELECT
+      user_answer,
+      lag(user_answer) OVER (ORDER BY attempt_number) AS previous_answer
+    FROM session_attempts
+    WHERE session_id = p_session_id
+    AND question_id = p_question_id
+    AND NOT is_correct
+  ) wrong_answers
+  WHERE previous_answer IS NOT NULL;
+
+  RETURN confusion_result(ARRAY[
+    jsonb_build_object('signal', 'attempts', 'label', 'Wrong attempts: ' || v_wrong,
+      'contribution', round(30 * least(1, v_wrong / 5.0))),
+    jsonb_build_object('signal', 'time', 'label', 'Time on question: ' || v_time || 's',
+      'contribution', round(15 * least(1, v_time / 180.0))),
+    jsonb_build_object('signal', 'repetition', 'label', 'Similar wrong answers: ' || round(v_repetition * 100) || '%',
+      'contribution', round(20 * least(1, v_repetition))),
+    jsonb_build_object('signal', 'idle', 'label', 'Idle pauses: ' || v_idle || 's',
+      'contribution', round(10 * least(1, v_idle / 120.0))),
+    jsonb_build_object('signal', 'rewrite', 'label', 'Characters deleted: ' || v_deleted,
+      'contribution', round(10 * least(1, v_deleted / 80.0))),
+    jsonb_build_object('signal', 'tab_away', 'label', 'Time away from page: ' || v_tab_away || 's',
+      'contribution', round(15 * least(1, v_tab_away / 60.0)))
+  ]);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION score_question_confusion(p_session_id uuid, p_question_id uuid, p_model text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  CASE p_model
+    WHEN 'weighted@1' THEN RETURN confusion_weighted_v1(p_session_id, p_question_id);
+    ELSE RETURN confusion_baseline_v1(p_session_id, p_question_id);
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_session_stats(p_session_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subject_id uuid;
+  v_attempts integer;
+  v_time_spent integer;
+  v_question_count integer;
+  v_solved_count integer;
+  v_last_correct_at timestamptz;
+  v_peak session_attempts%ROWTYPE;
+BEGIN
+  SELECT subject_id INTO v_subject_id FROM learning_sessions WHERE id = p_session_id;
+
+  SELECT
+    count(*),
+    coalesce(max(time_from_start), 0),
+    count(DISTINCT question_id) FILTER (WHERE is_correct),
+    max(created_at) FILTER (WHERE is_correct)
+  INTO v_attempts, v_time_spent, v_solved_count, v_last_correct_at
+  FROM session_attempts
+  WHERE session_id = p_session_id;
+
+  SELECT count(*) INTO v_question_count FROM questions WHERE subject_id = v_subject_id;
+
+  SELECT * INTO v_peak
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  ORDER BY confusion_score DESC, attempt_number DESC
+  LIMIT 1;
+
+  UPDATE learning_sessions
+  SET
+    attempts = v_attempts,
+    time_spent = v_time_spent,
+    confusion_score = coalesce(v_peak.confusion_score, 0),
+    confusion_reasons = coalesce(v_peak.confusion_reasons, '[]'::jsonb),
+    is_completed = v_question_count > 0 AND v_solved_count >= v_question_count,
+    end_time = CASE WHEN v_question_count > 0 AND v_solved_count >= v_question_count THEN v_last_correct_at END,
+    ai_help_shown = ai_help_shown OR coalesce(v_peak.confusion_score, 0) >= 40
+  WHERE id = p_session_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+  p_session_id uuid,
+  p_answer text,
+  p_signals jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_next_question_id uuid;
+  v_answer text := trim(coalesce(p_answer, ''));
+  v_is_correct boolean;
+  v_signals jsonb;
+  v_elapsed integer;
+  v_attempt_id uuid;
+  v_confusion jsonb;
+BEGIN
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = v_session.question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to answer' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_is_correct := position(lower(v_question.correct_answer) IN lower(v_answer)) > 0;
+
+  -- Client-reported signals are clamped so they cannot dominate the score
+  v_signals := jsonb_build_object(
+    'idle_seconds', greatest(0, least(3600, coalesce((p_signals->>'idle_seconds')::integer, 0))),
+    'deleted_chars', greatest(0, least(10000, coalesce((p_signals->>'deleted_chars')::integer, 0))),
+    'tab_away_seconds', greatest(0, least(3600, coalesce((p_signals->>'tab_away_seconds')::integer, 0)))
+  );
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  INSERT INTO session_attempts (
+    session_id,
+    question_id,
+    attempt_number,
+    user_answer,
+    is_correct,
+    time_from_start,
+    signals
+  )
+  VALUES (
+    p_session_id,
+    v_question.id,
+    v_session.attempts + 1,
+    v_answer,
+    v_is_correct,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id)),
+    v_signals
+  )
+  RETURNING id INTO v_attempt_id;
+
+  v_confusion := score_question_confusion(p_session_id, v_question.id, v_session.confusion_model);
+
+  UPDATE session_attempts
+  SET
+    confusion_score = (v_confusion->>'score')::integer,
+    confusion_reasons = v_confusion->'reasons'
+  WHERE id = v_attempt_id;
+
+  IF v_is_correct THEN
+    SELECT id INTO v_next_question_id
+    FROM questions
+    WHERE subject_id = v_question.subject_id
+    AND position > v_question.position
+    ORDER BY position
+    LIMIT 1;
+
+    IF v_next_question_id IS NOT NULL THEN
+      UPDATE learning_sessions SET question_id = v_next_question_id WHERE id = p_session_id;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE
+      WHEN NOT v_is_correct THEN 'Not quite right. Try again.'
+      WHEN v_next_question_id IS NOT NULL THEN 'Correct! On to the next question.'
+      ELSE 'Correct! Well done.'
+    END,
+    'question_id', v_question.id,
+    'next_question_id', v_next_question_id,
+    'is_completed', v_session.is_completed,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', (v_confusion->>'score')::integer,
+    'confusion_model', v_session.confusion_model,
+    'confusion_reasons', v_confusion->'reasons',
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_learning_fingerprint(p_user_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_completed integer;
+  v_avg_attempts numeric;
+  v_avg_time numeric;
+  v_seconds_per_attempt numeric;
+  v_help_rate numeric;
+  v_fingerprint text;
+  v_summary text;
+BEGIN
+  SELECT
+    count(*),
+    coalesce(avg(time_spent), 0),
+    coalesce(sum(time_spent)::numeric / nullif(sum(attempts), 0), 0),
+    coalesce(avg(CASE WHEN ai_help_shown THEN 1 ELSE 0 END), 0)
+  INTO v_completed, v_avg_time, v_seconds_per_attempt, v_help_rate
+  FROM learning_sessions
+  WHERE user_id = p_user_id
+  AND is_completed;
+
+  SELECT coalesce(count(*)::numeric / nullif(count(DISTINCT (session_attempts.session_id, session_attempts.question_id)), 0), 0)
+  INTO v_avg_attempts
+  FROM session_attempts
+  JOIN learning_sessions ON learning_sessions.id = session_attempts.session_id
+  WHERE learning_sessions.user_id = p_user_id
+  AND learning_sessions.is_completed;
+
+  IF v_completed < 3 THEN
+    v_fingerprint := 'New Learner';
+    v_summary := 'Complete ' || (3 - v_completed) || ' more session(s) to reveal your learning style.';
+  ELSIF v_avg_attempts >= 3 AND v_seconds_per_attempt < 10 THEN
+    v_fingerprint := 'Fast Guesser';
+    v_summary := 'Averages ' || round(v_avg_attempts, 1) || ' attempts per question, about '
+      || round(v_seconds_per_attempt) || 's apart.';
+  ELSIF v_help_rate >= 0.5 THEN
+    v_fingerprint := 'Hint-Reliant';
+    v_summary := 'Needed learning assistance in ' || round(v_help_rate * 100) || '% of sessions.';
+  ELSIF v_avg_attempts >= 3 THEN
+    v_fingerprint := 'Persistent';
+    v_summary := 'Keeps going for ' || round(v_avg_attempts, 1) || ' attempts per question until solved.';
+  ELSIF v_avg_attempts <= 1.5 AND v_avg_time >= 60 THEN
+    v_fingerprint := 'Slow and Careful';
+    v_summary := 'Solves in ' || round(v_avg_attempts, 1) || ' attempts per question after about '
+      || round(v_avg_time) || 's per session.';
+  ELSIF v_avg_attempts <= 1.5 THEN
+    v_fingerprint := 'Quick and Accurate';
+    v_summary := 'Solves in ' || round(v_avg_attempts, 1) || ' attempts per question within about '
+      || round(v_avg_time) || 's per session.';
+  ELSE
+    v_fingerprint := 'Balanced Learner';
+    v_summary := 'Averages ' || round(v_avg_attempts, 1) || ' attempts per question and '
+      || round(v_avg_time) || 's per session.';
+  END IF;
+
+  INSERT INTO learning_fingerprints (user_id, fingerprint, evidence)
+  VALUES (
+    p_user_id,
+    v_fingerprint,
+    jsonb_build_object(
+      'summary', v_summary,
+      'completed_sessions', v_completed,
+      'avg_attempts', round(v_avg_attempts, 2),
+      'avg_time_spent', round(v_avg_time),
+      'seconds_per_attempt', round(v_seconds_per_attempt, 1),
+      'help_rate', round(v_help_rate, 2)
+    )
+  );
+
+  UPDATE profiles
+  SET learning_fingerprint = v_fingerprint, updated_at = now()
+  WHERE id = p_user_id;
+
+  RETURN v_fingerprint;
+END;
+$$;
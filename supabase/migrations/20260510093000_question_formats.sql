@@ -0,0 +1,350 @@
+/*
+  # Rich question formats
+
+  ## Overview
+  Questions used to be free text only, so multiple choice was faked by listing the
+  options in `data`. Each question now has a typed format with its own options,
+  answer key and grader, and every attempt records which options were picked so
+  authors can see which distractors confuse learners most.
+
+  ## Formats
+  - `free_text` - Graded against `correct_answer`; the answer is a string
+  - `multiple_choice` - One option id; `answer_key` is the correct id
+  - `multi_select` - A set of option ids; `answer_key` is the correct set
+  - `ordering` - Every option id in order; `answer_key` is the correct order
+  - `fill_blank` - One string per `___` in `options.template`; `answer_key` holds
+    the expected text for each blank
+
+  ## Modified Tables
+
+  ### `questions`
+  - `format` (text) - One of the formats above
+  - `options` (jsonb) - `[{ id, label }]` for choice and ordering questions,
+    `{ template }` for fill-in-the-blank, `[]` for free text
+  - `answer_key` (jsonb) - Correct response for structured formats, not readable by
+    learners
+
+  ### `session_attempts`
+  - `response` (jsonb) - The structured answer as submitted
+  - `selected_options` (text[]) - Option ids picked, in order, for choice and
+    ordering questions
+
+  ## New Functions
+
+  ### `grade_response(p_question questions, p_response jsonb)`
+  Dispatches to the grader for the question's format
+
+  ### `describe_response(p_question questions, p_response jsonb)`
+  Readable rendering of a response, stored in `session_attempts.user_answer`
+
+  ## Modified Functions
+  - `submit_attempt` takes the answer as jsonb
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS format text NOT NULL DEFAULT 'free_text'
+    CHECK (format IN ('free_text', 'multiple_choice', 'multi_select', 'ordering', 'fill_blank')),
+  ADD COLUMN IF NOT EXISTS options jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS answer_key jsonb;
+
+GRANT SELECT (format, options) ON questions TO authenticated;
+
+ALTER TABLE session_attempts
+  ADD COLUMN IF NOT EXISTS response jsonb,
+  ADD COLUMN IF NOT EXISTS selected_options text[];
+
+UPDATE session_attempts
+SET response = to_jsonb(user_answer)
+WHERE response IS NULL;
+
+-- Turn the faked DBMS multiple choice into real ones
+UPDATE questions
+SET
+  format = 'multiple_choice',
+  data = 'A table keyed on (student_id, course_id) stores student_name, which depends only on student_id.',
+  options = '[{"id": "1nf", "label": "1NF"}, {"id": "2nf", "label": "2NF"}, {"id": "3nf", "label": "3NF"}]'::jsonb,
+  answer_key = '"2nf"'::jsonb
+FROM subjects
+WHERE subjects.id = questions.subject_id
+AND subjects.slug = 'dbms'
+AND questions.position = 1;
+
+UPDATE questions
+SET
+  format = 'multiple_choice',
+  data = 'A table keyed on employee_id stores dept_id and dept_name, and dept_name depends on dept_id.',
+  options = '[{"id": "1nf", "label": "1NF"}, {"id": "2nf", "label": "2NF"}, {"id": "3nf", "label": "3NF"}]'::jsonb,
+  answer_key = '"3nf"'::jsonb
+FROM subjects
+WHERE subjects.id = questions.subject_id
+AND subjects.slug = 'dbms'
+AND questions.position = 2;
+
+INSERT INTO questions (subject_id, position, difficulty, format, question, data, options, correct_answer, answer_key)
+SELECT subjects.id, q.position, q.difficulty, q.format, q.question, q.data, q.options::jsonb, q.correct_answer, q.answer_key::jsonb
+FROM subjects
+JOIN (
+  VALUES
+    (
+      'data_structures',
+      3,
+      2,
+      'ordering',
+      'Put the steps of one binary search iteration in order.',
+      'Each iteration works on the current low..high range.',
+      '[{"id": "compare", "label": "Compare the middle element with the target"}, {"id": "middle", "label": "Compute the middle index"}, {"id": "discard", "label": "Discard the half that cannot contain the target"}]',
+      'Compute the middle index, compare it with the target, discard the other half',
+      '["middle", "compare", "discard"]'
+    ),
+    (
+      'data_structures',
+      4,
+      3,
+      'multi_select',
+      'Which of these arrays can binary search be applied to directly?',
+      'Binary search needs no preprocessing on the arrays you pick.',
+      '[{"id": "sorted_numbers", "label": "[1, 3, 5, 7, 9]"}, {"id": "unsorted", "label": "[9, 4, 7, 1]"}, {"id": "sorted_letters", "label": "[a, c, f, k]"}, {"id": "all_equal", "label": "[5, 5, 5, 5]"}]',
+      '[1, 3, 5, 7, 9], [a, c, f, k], [5, 5, 5, 5]',
+      '["all_equal", "sorted_letters", "sorted_numbers"]'
+    ),
+    (
+      'newtons_laws',
+      3,
+      2,
+      'fill_blank',
+      'Complete the statement of Newton''s first law.',
+      'Also known as the law of inertia.',
+      '{"template": "An object at ___ stays at rest, and an object in motion stays in ___ motion, unless acted on by an external force."}',
+      'rest, uniform',
+      '["rest", "uniform"]'
+    )
+) AS q(slug, position, difficulty, format, question, data, options, correct_answer, answer_key)
+  ON q.slug = subjects.slug
+ON CONFLICT (subject_id, position) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION grade_free_text(p_correct_answer text, p_answer text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT position(lower(p_correct_answer) IN lower(trim(p_answer))) > 0;
+$$;
+
+CREATE OR REPLACE FUNCTION grade_response(p_question questions, p_response jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  CASE p_question.format
+    WHEN 'multiple_choice' THEN
+      RETURN jsonb_typeof(p_response) = 'string'
+        AND p_response #>> '{}' = p_question.answer_key #>> '{}';
+
+    WHEN 'multi_select' THEN
+      RETURN jsonb_typeof(p_response) = 'array'
+        AND (SELECT coalesce(array_agg(DISTINCT value ORDER BY value), '{}') FROM jsonb_array_elements_text(p_response))
+          = (SELECT coalesce(array_agg(DISTINCT value ORDER BY value), '{}') FROM jsonb_array_elements_text(p_question.answer_key));
+
+    WHEN 'ordering' THEN
+      RETURN jsonb_typeof(p_response) = 'array'
+        AND p_response = p_question.answer_key;
+
+    WHEN 'fill_blank' THEN
+      RETURN jsonb_typeof(p_response) = 'array'
+        AND jsonb_array_length(p_response) = jsonb_array_length(p_question.answer_key)
+        AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements_text(p_question.answer_key) WITH ORDINALITY AS expected(value, index)
+          WHERE lower(trim(coalesce(p_response ->> (expected.index - 1)::integer, ''))) <> lower(trim(expected.value))
+        );
+
+    ELSE
+      RETURN jsonb_typeof(p_response) = 'string'
+        AND grade_free_text(p_question.correct_answer, p_response #>> '{}');
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION describe_response(p_question questions, p_response jsonb)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_labels text;
+BEGIN
+  IF jsonb_typeof(p_response) = 'string' THEN
+    IF p_question.format = 'multiple_choice' THEN
+      SELECT option->>'label' INTO v_labels
+      FROM jsonb_array_elements(p_question.options) AS option
+      WHERE option->>'id' = p_response #>> '{}';
+
+      RETURN coalesce(v_labels, p_response #>> '{}');
+    END IF;
+
+    RETURN trim(p_response #>> '{}');
+  END IF;
+
+  IF p_question.format = 'fill_blank' THEN
+    SELECT string_agg(trim(value), ' | ' ORDER BY index) INTO v_labels
+    FROM jsonb_array_elements_text(p_response) WITH ORDINALITY AS blanks(value, index);
+
+    RETURN coalesce(v_labels, '');
+  END IF;
+
+  SELECT string_agg(
+    coalesce(option->>'label', picked.value),
+    CASE WHEN p_question.format = 'ordering' THEN ' → ' ELSE ', ' END
+    ORDER BY picked.index
+  )
+  INTO v_labels
+  FROM jsonb_array_elements_text(p_response) WITH ORDINALITY AS picked(value, index)
+  LEFT JOIN jsonb_array_elements(p_question.options) AS option
+    ON option->>'id' = picked.value;
+
+  RETURN coalesce(v_labels, '');
+END;
+$$;
+
+DROP FUNCTION IF EXISTS submit_attempt(uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+  p_session_id uuid,
+  p_answer jsonb,
+  p_signals jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_next_question_id uuid;
+  v_answer text;
+  v_selected_options text[];
+  v_is_correct boolean;
+  v_signals jsonb;
+  v_elapsed integer;
+  v_attempt_id uuid;
+  v_confusion jsonb;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = v_session.question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to answer' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_answer := describe_response(v_question, coalesce(p_answer, '""'::jsonb));
+
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_question.format IN ('multiple_choice', 'multi_select', 'ordering') THEN
+    IF jsonb_typeof(p_answer) = 'array' THEN
+      SELECT array_agg(value ORDER BY index) INTO v_selected_options
+      FROM jsonb_array_elements_text(p_answer) WITH ORDINALITY AS picked(value, index);
+    ELSE
+      v_selected_options := ARRAY[p_answer #>> '{}'];
+    END IF;
+  END IF;
+
+  v_is_correct := grade_response(v_question, p_answer);
+
+  -- Client-reported signals are clamped so they cannot dominate the score
+  v_signals := jsonb_build_object(
+    'idle_seconds', greatest(0, least(3600, coalesce((p_signals->>'idle_seconds')::integer, 0))),
+    'deleted_chars', greatest(0, least(10000, coalesce((p_signals->>'deleted_chars')::integer, 0))),
+    'tab_away_seconds', greatest(0, least(3600, coalesce((p_signals->>'tab_away_seconds')::integer, 0)))
+  );
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  INSERT INTO session_attempts (
+    session_id,
+    question_id,
+    attempt_number,
+    user_answer,
+    response,
+    selected_options,
+    is_correct,
+    time_from_start,
+    signals
+  )
+  VALUES (
+    p_session_id,
+    v_question.id,
+    v_session.attempts + 1,
+    v_answer,
+    p_answer,
+    v_selected_options,
+    v_is_correct,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id)),
+    v_signals
+  )
+  RETURNING id INTO v_attempt_id;
+
+  v_confusion := score_question_confusion(p_session_id, v_question.id, v_session.confusion_model);
+
+  UPDATE session_attempts
+  SET
+    confusion_score = (v_confusion->>'score')::integer,
+    confusion_reasons = v_confusion->'reasons'
+  WHERE id = v_attempt_id;
+
+  IF v_is_correct THEN
+    SELECT id INTO v_next_question_id
+    FROM questions
+    WHERE subject_id = v_question.subject_id
+    AND position > v_question.position
+    ORDER BY position
+    LIMIT 1;
+
+    IF v_next_question_id IS NOT NULL THEN
+      UPDATE learning_sessions SET question_id = v_next_question_id WHERE id = p_session_id;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE
+      WHEN NOT v_is_correct THEN 'Not quite right. Try again.'
+      WHEN v_next_question_id IS NOT NULL THEN 'Correct! On to the next question.'
+      ELSE 'Correct! Well done.'
+    END,
+    'question_id', v_question.id,
+    'next_question_id', v_next_question_id,
+    'is_completed', v_session.is_completed,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', (v_confusion->>'score')::integer,
+    'confusion_model', v_session.confusion_model,
+    'confusion_reasons', v_confusion->'reasons',
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION submit_attempt(uuid, jsonb, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION submit_attempt(uuid, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,465 @@
+/*
+  # Answer equivalence for free-text and numeric answers
+
+  ## Overview
+  Free-text grading was a substring check, which marked "15" correct when the
+  answer is "5" and rejected "second normal form" when the answer is "2nf". Free-text
+  questions can now carry an answer spec, and every graded attempt records which
+  rule decided the outcome and why.
+
+  ## Answer spec (`questions.answer_spec`)
+  All keys are optional. Without a spec, `correct_answer` is the only accepted answer.
+  - `accepted` (text[]) - Accepted answers and aliases, matched as whole tokens
+  - `numeric` - `{ value, tolerance, units, unit_required }`; `units` maps each
+    accepted unit to its factor relative to `value`
+  - `patterns` (text[]) - Case-insensitive regular expressions
+  - `fuzzy` - `{ max_distance }`; tokens of an accepted answer may each be this many
+    edits away
+  - `keywords` - `{ required, forbidden }`; `required` is a list of synonym groups
+    that must each be mentioned, `forbidden` rejects the answer outright
+
+  Rules are tried in this order: forbidden keywords, accepted answers, numeric,
+  patterns, fuzzy, required keywords.
+
+  ## Modified Tables
+
+  ### `questions`
+  - `answer_spec` (jsonb) - Matching rules for free-text questions, not readable by
+    learners
+
+  ### `session_attempts`
+  - `match` (jsonb) - `{ matched, rule, detail }` explaining the grade
+
+  ## New Functions
+  - `normalize_answer(text)` / `answer_tokens(text)` - Shared normalization
+  - `answer_phrase_distance(text[], text[])` - Smallest token-wise edit distance of a
+    phrase within an answer
+  - `match_free_text(p_spec jsonb, p_correct_answer text, p_answer text)`
+  - `evaluate_response(p_question questions, p_response jsonb)` replaces
+    `grade_response` and returns `{ matched, rule, detail }`
+
+  ## Modified Functions
+  - `submit_attempt` stores and returns the match
+*/
+
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch WITH SCHEMA extensions;
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS answer_spec jsonb;
+
+ALTER TABLE session_attempts
+  ADD COLUMN IF NOT EXISTS match jsonb;
+
+CREATE OR REPLACE FUNCTION normalize_answer(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(lower(coalesce(p_text, '')), '[^a-z0-9.%/\-]+', ' ', 'g'),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION answer_tokens(p_text text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN normalize_answer(p_text) = '' THEN ARRAY[]::text[]
+    ELSE regexp_split_to_array(normalize_answer(p_text), ' ')
+  END;
+$$;
+
+-- Slides the phrase over the answer and returns the best window's largest
+-- per-token edit distance, or NULL when the answer is shorter than the phrase.
+CREATE OR REPLACE FUNCTION answer_phrase_distance(p_answer_tokens text[], p_phrase_tokens text[])
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_answer_length integer := coalesce(array_length(p_answer_tokens, 1), 0);
+  v_phrase_length integer := coalesce(array_length(p_phrase_tokens, 1), 0);
+  v_best integer;
+  v_window integer;
+BEGIN
+  IF v_phrase_length = 0 OR v_answer_length < v_phrase_length THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_start IN 0 .. v_answer_length - v_phrase_length LOOP
+    v_window := 0;
+    FOR v_index IN 1 .. v_phrase_length LOOP
+      v_window := greatest(
+        v_window,
+        extensions.levenshtein(p_answer_tokens[v_start + v_index], p_phrase_tokens[v_index])
+      );
+    END LOOP;
+
+    IF v_best IS NULL OR v_window < v_best THEN
+      v_best := v_window;
+    END IF;
+  END LOOP;
+
+  RETURN v_best;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_free_text(p_spec jsonb, p_correct_answer text, p_answer text)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_spec jsonb := coalesce(p_spec, '{}'::jsonb);
+  v_tokens text[] := answer_tokens(p_answer);
+  v_accepted text[];
+  v_phrase text;
+  v_distance integer;
+  v_best_distance integer;
+  v_best_phrase text;
+  v_max_distance integer;
+  v_numbers text[];
+  v_number numeric;
+  v_unit text;
+  v_factor numeric;
+  v_target numeric;
+  v_tolerance numeric;
+  v_pattern text;
+  v_group jsonb;
+  v_mentioned text[] := ARRAY[]::text[];
+  v_group_hit text;
+BEGIN
+  IF array_length(v_tokens, 1) IS NULL THEN
+    RETURN jsonb_build_object('matched', false, 'rule', 'empty', 'detail', 'The answer is empty');
+  END IF;
+
+  -- Forbidden keywords reject the answer before anything else is considered
+  FOR v_phrase IN SELECT jsonb_array_elements_text(coalesce(v_spec #> '{keywords,forbidden}', '[]'::jsonb)) LOOP
+    IF answer_phrase_distance(v_tokens, answer_tokens(v_phrase)) = 0 THEN
+      RETURN jsonb_build_object('matched', false, 'rule', 'forbidden_keyword',
+        'detail', 'Mentions "' || v_phrase || '"');
+    END IF;
+  END LOOP;
+
+  SELECT coalesce(array_agg(value), ARRAY[]::text[]) INTO v_accepted
+  FROM jsonb_array_elements_text(coalesce(v_spec->'accepted', '[]'::jsonb));
+
+  IF NOT (v_spec ? 'accepted') AND NOT (v_spec ? 'numeric') AND NOT (v_spec ? 'patterns')
+    AND NOT (v_spec ? 'keywords') AND p_correct_answer IS NOT NULL THEN
+    v_accepted := ARRAY[p_correct_answer];
+  END IF;
+
+  FOREACH v_phrase IN ARRAY v_accepted LOOP
+    v_distance := answer_phrase_distance(v_tokens, answer_tokens(v_phrase));
+
+    IF v_distance = 0 THEN
+      RETURN jsonb_build_object('matched', true, 'rule', 'accepted',
+        'detail', CASE
+          WHEN normalize_answer(p_answer) = normalize_answer(v_phrase) THEN 'Matches "' || v_phrase || '"'
+          ELSE 'Contains "' || v_phrase || '"'
+        END);
+    END IF;
+
+    IF v_distance IS NOT NULL AND (v_best_distance IS NULL OR v_distance < v_best_distance) THEN
+      v_best_distance := v_distance;
+      v_best_phrase := v_phrase;
+    END IF;
+  END LOOP;
+
+  IF v_spec ? 'numeric' THEN
+    SELECT array_agg(m[1] || '|' || coalesce(m[2], '')) INTO v_numbers
+    FROM regexp_matches(normalize_answer(p_answer), '(-?[0-9]+(?:\.[0-9]+)?)\s*([a-z%/]+)?', 'g') AS m;
+
+    IF coalesce(array_length(v_numbers, 1), 0) = 1 THEN
+      v_number := split_part(v_numbers[1], '|', 1)::numeric;
+      v_unit := split_part(v_numbers[1], '|', 2);
+      v_target := (v_spec #>> '{numeric,value}')::numeric;
+      v_tolerance := coalesce((v_spec #>> '{numeric,tolerance}')::numeric, 0);
+
+      IF v_unit = '' THEN
+        v_factor := CASE WHEN coalesce((v_spec #>> '{numeric,unit_required}')::boolean, false) THEN NULL ELSE 1 END;
+      ELSE
+        v_factor := (v_spec -> 'numeric' -> 'units' ->> v_unit)::numeric;
+      END IF;
+
+      IF v_factor IS NOT NULL AND abs(v_number * v_factor - v_target) <= v_tolerance THEN
+        RETURN jsonb_build_object('matched', true, 'rule', 'numeric',
+          'detail', trim(v_number || ' ' || v_unit) || ' is within ' || v_tolerance || ' of ' || v_target);
+      END IF;
+    END IF;
+  END IF;
+
+  FOR v_pattern IN SELECT jsonb_array_elements_text(coalesce(v_spec->'patterns', '[]'::jsonb)) LOOP
+    BEGIN
+      IF trim(p_answer) ~* v_pattern THEN
+        RETURN jsonb_build_object('matched', true, 'rule', 'pattern', 'detail', 'Matches /' || v_pattern || '/');
+      END IF;
+    EXCEPTION
+      WHEN invalid_regular_expression THEN
+        NULL;
+    END;
+  END LOOP;
+
+  v_max_distance := coalesce((v_spec #>> '{fuzzy,max_distance}')::integer, 0);
+
+  IF v_best_distance IS NOT NULL AND v_best_distance <= v_max_distance THEN
+    RETURN jsonb_build_object('matched', true, 'rule', 'fuzzy',
+      'detail', 'Within ' || v_best_distance || ' edit(s) of "' || v_best_phrase || '"');
+  END IF;
+
+  IF jsonb_array_length(coalesce(v_spec #> '{keywords,required}', '[]'::jsonb)) > 0 THEN
+    FOR v_group IN SELECT jsonb_array_elements(v_spec #> '{keywords,required}') LOOP
+      v_group_hit := NULL;
+
+      FOR v_phrase IN
+        SELECT value FROM jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(v_group) = 'array' THEN v_group ELSE jsonb_build_array(v_group) END
+        )
+      LOOP
+        IF answer_phrase_distance(v_tokens, answer_tokens(v_phrase)) <= v_max_distance THEN
+          v_group_hit := v_phrase;
+          EXIT;
+        END IF;
+      END LOOP;
+
+      IF v_group_hit IS NULL THEN
+        RETURN jsonb_build_object('matched', false, 'rule', 'missing_keyword',
+          'detail', 'Does not mention ' || (
+            SELECT string_agg('"' || value || '"', ' or ')
+            FROM jsonb_array_elements_text(
+              CASE WHEN jsonb_typeof(v_group) = 'array' THEN v_group ELSE jsonb_build_array(v_group) END
+            )
+          ));
+      END IF;
+
+      v_mentioned := v_mentioned || v_group_hit;
+    END LOOP;
+
+    RETURN jsonb_build_object('matched', true, 'rule', 'keywords',
+      'detail', 'Mentions ' || array_to_string(v_mentioned, ', '));
+  END IF;
+
+  RETURN jsonb_build_object('matched', false, 'rule', 'no_match', 'detail', 'Does not match any accepted answer');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION evaluate_response(p_question questions, p_response jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_matched boolean;
+BEGIN
+  CASE p_question.format
+    WHEN 'multiple_choice' THEN
+      v_matched := jsonb_typeof(p_response) = 'string'
+        AND p_response #>> '{}' = p_question.answer_key #>> '{}';
+      RETURN jsonb_build_object('matched', v_matched, 'rule', 'choice',
+        'detail', CASE WHEN v_matched THEN 'Picked the correct option' ELSE 'Picked a different option' END);
+
+    WHEN 'multi_select' THEN
+      v_matched := jsonb_typeof(p_response) = 'array'
+        AND (SELECT coalesce(array_agg(DISTINCT value ORDER BY value), '{}') FROM jsonb_array_elements_text(p_response))
+          = (SELECT coalesce(array_agg(DISTINCT value ORDER BY value), '{}') FROM jsonb_array_elements_text(p_question.answer_key));
+      RETURN jsonb_build_object('matched', v_matched, 'rule', 'selection',
+        'detail', CASE WHEN v_matched THEN 'Picked exactly the correct options' ELSE 'Selection differs from the correct options' END);
+
+    WHEN 'ordering' THEN
+      v_matched := jsonb_typeof(p_response) = 'array'
+        AND p_response = p_question.answer_key;
+      RETURN jsonb_build_object('matched', v_matched, 'rule', 'order',
+        'detail', CASE WHEN v_matched THEN 'Items are in the correct order' ELSE 'Items are out of order' END);
+
+    WHEN 'fill_blank' THEN
+      v_matched := jsonb_typeof(p_response) = 'array'
+        AND jsonb_array_length(p_response) = jsonb_array_length(p_question.answer_key)
+        AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements_text(p_question.answer_key) WITH ORDINALITY AS expected(value, index)
+          WHERE normalize_answer(p_response ->> (expected.index - 1)::integer) <> normalize_answer(expected.value)
+        );
+      RETURN jsonb_build_object('matched', v_matched, 'rule', 'blanks',
+        'detail', CASE WHEN v_matched THEN 'Every blank is filled correctly' ELSE 'At least one blank is wrong' END);
+
+    ELSE
+      IF jsonb_typeof(p_response) <> 'string' THEN
+        RETURN jsonb_build_object('matched', false, 'rule', 'invalid', 'detail', 'Expected a text answer');
+      END IF;
+
+      RETURN match_free_text(p_question.answer_spec, p_question.correct_answer, p_response #>> '{}');
+  END CASE;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS grade_response(questions, jsonb);
+DROP FUNCTION IF EXISTS grade_free_text(text, text);
+
+-- Answer specs for the seeded free-text questions
+UPDATE questions
+SET answer_spec = q.answer_spec::jsonb
+FROM subjects, (
+  VALUES
+    ('data_structures', 1, '{"numeric": {"value": 5, "tolerance": 0}}'),
+    ('data_structures', 2, '{"numeric": {"value": 3, "tolerance": 0}}'),
+    (
+      'newtons_laws',
+      1,
+      '{"accepted": ["same state", "stays the same", "remains the same"], "fuzzy": {"max_distance": 1}, "keywords": {"required": [["same", "unchanged", "constant", "continues", "remains", "stays"], ["state", "motion", "velocity", "rest", "moving"]], "forbidden": ["stops", "slows down", "speeds up"]}}'
+    ),
+    (
+      'newtons_laws',
+      2,
+      '{"accepted": ["constant", "stays the same", "does not change", "unchanged"], "fuzzy": {"max_distance": 1}, "keywords": {"forbidden": ["decreases", "increases", "slows down", "speeds up"]}}'
+    )
+) AS q(slug, position, answer_spec)
+WHERE subjects.slug = q.slug
+AND questions.subject_id = subjects.id
+AND questions.position = q.position
+AND questions.format = 'free_text';
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+  p_session_id uuid,
+  p_answer jsonb,
+  p_signals jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_next_question_id uuid;
+  v_answer text;
+  v_selected_options text[];
+  v_match jsonb;
+  v_is_correct boolean;
+  v_signals jsonb;
+  v_elapsed integer;
+  v_attempt_id uuid;
+  v_confusion jsonb;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = v_session.question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to answer' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_answer := describe_response(v_question, coalesce(p_answer, '""'::jsonb));
+
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_question.format IN ('multiple_choice', 'multi_select', 'ordering') THEN
+    IF jsonb_typeof(p_answer) = 'array' THEN
+      SELECT array_agg(value ORDER BY index) INTO v_selected_options
+      FROM jsonb_array_elements_text(p_answer) WITH ORDINALITY AS picked(value, index);
+    ELSE
+      v_selected_options := ARRAY[p_answer #>> '{}'];
+    END IF;
+  END IF;
+
+  v_match := evaluate_response(v_question, p_answer);
+  v_is_correct := (v_match->>'matched')::boolean;
+
+  -- Client-reported signals are clamped so they cannot dominate the score
+  v_signals := jsonb_build_object(
+    'idle_seconds', greatest(0, least(3600, coalesce((p_signals->>'idle_seconds')::integer, 0))),
+    'deleted_chars', greatest(0, least(10000, coalesce((p_signals->>'deleted_chars')::integer, 0))),
+    'tab_away_seconds', greatest(0, least(3600, coalesce((p_signals->>'tab_away_seconds')::integer, 0)))
+  );
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  INSERT INTO session_attempts (
+    session_id,
+    question_id,
+    attempt_number,
+    user_answer,
+    response,
+    selected_options,
+    is_correct,
+    match,
+    time_from_start,
+    signals
+  )
+  VALUES (
+    p_session_id,
+    v_question.id,
+    v_session.attempts + 1,
+    v_answer,
+    p_answer,
+    v_selected_options,
+    v_is_correct,
+    v_match,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id)),
+    v_signals
+  )
+  RETURNING id INTO v_attempt_id;
+
+  v_confusion := score_question_confusion(p_session_id, v_question.id, v_session.confusion_model);
+
+  UPDATE session_attempts
+  SET
+    confusion_score = (v_confusion->>'score')::integer,
+    confusion_reasons = v_confusion->'reasons'
+  WHERE id = v_attempt_id;
+
+  IF v_is_correct THEN
+    SELECT id INTO v_next_question_id
+    FROM questions
+    WHERE subject_id = v_question.subject_id
+    AND position > v_question.position
+    ORDER BY position
+    LIMIT 1;
+
+    IF v_next_question_id IS NOT NULL THEN
+      UPDATE learning_sessions SET question_id = v_next_question_id WHERE id = p_session_id;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE
+      WHEN NOT v_is_correct THEN 'Not quite right. Try again.'
+      WHEN v_next_question_id IS NOT NULL THEN 'Correct! On to the next question.'
+      ELSE 'Correct! Well done.'
+    END,
+    'match', CASE WHEN v_is_correct THEN v_match ELSE v_match - 'detail' END,
+    'question_id', v_question.id,
+    'next_question_id', v_next_question_id,
+    'is_completed', v_session.is_completed,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', (v_confusion->>'score')::integer,
+    'confusion_model', v_session.confusion_model,
+    'confusion_reasons', v_confusion->'reasons',
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
@@ -0,0 +1,455 @@
+/*
+  # Misconception catalogue
+
+  ## Overview
+  Every wrong answer used to get the same "Not quite right" message. Authors can now
+  map known wrong answers to named misconceptions with their own feedback. Matched
+  misconceptions are stored on the attempt, counted per learner and feed the new
+  `weighted@2` confusion model.
+
+  ## New Tables
+
+  ### `misconceptions`
+  Named misconceptions within a subject
+  - `id` (uuid, primary key)
+  - `subject_id` (uuid) - Links to subjects
+  - `slug` (text) - Identifier, unique within the subject
+  - `name` (text) - Display name
+  - `description` (text) - What the learner is getting wrong
+  - `created_at` (timestamptz)
+
+  ### `question_misconceptions`
+  How a misconception shows up in the answers to one question
+  - `id` (uuid, primary key)
+  - `question_id` (uuid) - Links to questions
+  - `misconception_id` (uuid) - Links to misconceptions
+  - `position` (integer) - Order in which mappings are tried
+  - `option_ids` (text[]) - Picking any of these options signals the misconception
+  - `answer_spec` (jsonb) - Answer spec (as on `questions`) matching the wrong answer
+  - `feedback` (text) - Targeted feedback shown instead of the generic message
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `session_attempts`
+  - `misconception_id` (uuid) - Misconception matched by a wrong answer
+
+  ### `subjects`
+  - `confusion_model` accepts `weighted@2`, which adds matched misconceptions as a
+    signal; the seeded subjects switch to it
+
+  ## New Views
+
+  ### `learner_misconceptions`
+  Misconception counts per learner (`user_id`, `misconception_id`, `subject_id`,
+  `name`, `occurrences`, `last_seen_at`), subject to the caller's RLS
+
+  ## Security
+  - `misconceptions` is readable by authenticated users
+  - `question_misconceptions` is only read by `submit_attempt`, since its feedback
+    can give the answer away
+
+  ## Modified Functions
+  - `submit_attempt` matches wrong answers against the catalogue and returns the
+    misconception and its feedback
+*/
+
+CREATE TABLE IF NOT EXISTS misconceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_id uuid NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+  slug text NOT NULL,
+  name text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (subject_id, slug)
+);
+
+ALTER TABLE misconceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view misconceptions"
+  ON misconceptions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TABLE IF NOT EXISTS question_misconceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  misconception_id uuid NOT NULL REFERENCES misconceptions(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 1,
+  option_ids text[],
+  answer_spec jsonb,
+  feedback text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (option_ids IS NOT NULL OR answer_spec IS NOT NULL)
+);
+
+ALTER TABLE question_misconceptions ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON question_misconceptions FROM anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_question_misconceptions_question_id ON question_misconceptions(question_id, position);
+
+ALTER TABLE session_attempts
+  ADD COLUMN IF NOT EXISTS misconception_id uuid REFERENCES misconceptions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_session_attempts_misconception_id ON session_attempts(misconception_id);
+
+CREATE OR REPLACE VIEW learner_misconceptions
+WITH (security_invoker = true)
+AS
+  SELECT
+    learning_sessions.user_id,
+    misconceptions.id AS misconception_id,
+    misconceptions.subject_id,
+    misconceptions.name,
+    count(*)::integer AS occurrences,
+    max(session_attempts.created_at) AS last_seen_at
+  FROM session_attempts
+  JOIN learning_sessions ON learning_sessions.id = session_attempts.session_id
+  JOIN misconceptions ON misconceptions.id = session_attempts.misconception_id
+  GROUP BY learning_sessions.user_id, misconceptions.id, misconceptions.subject_id, misconceptions.name;
+
+GRANT SELECT ON learner_misconceptions TO authenticated;
+
+-- Seed catalogue
+INSERT INTO misconceptions (subject_id, slug, name, description)
+SELECT subjects.id, m.slug, m.name, m.description
+FROM subjects
+JOIN (
+  VALUES
+    (
+      'data_structures',
+      'one_based_indexing',
+      'Off-by-one / 1-based indexing',
+      'Counts array positions from 1 instead of 0.'
+    ),
+    (
+      'dbms',
+      'transitive_vs_partial',
+      'Transitive vs partial dependency mix-up',
+      'Confuses dependencies on part of a composite key with dependencies between non-key columns.'
+    ),
+    (
+      'newtons_laws',
+      'motion_needs_force',
+      'Motion needs a force',
+      'Believes a moving object naturally slows down and stops without any force acting on it.'
+    )
+) AS m(subject_slug, slug, name, description)
+  ON m.subject_slug = subjects.slug
+ON CONFLICT (subject_id, slug) DO NOTHING;
+
+INSERT INTO question_misconceptions (question_id, misconception_id, position, option_ids, answer_spec, feedback)
+SELECT questions.id, misconceptions.id, 1, qm.option_ids::text[], qm.answer_spec::jsonb, qm.feedback
+FROM (
+  VALUES
+    (
+      'data_structures',
+      1,
+      'one_based_indexing',
+      NULL,
+      '{"numeric": {"value": 6, "tolerance": 0}}',
+      '23 is the 6th element, but you counted positions from 1. Array indices start at 0, so every position is one less than its count.'
+    ),
+    (
+      'dbms',
+      1,
+      'transitive_vs_partial',
+      '{3nf}',
+      NULL,
+      '3NF removes transitive dependencies, where a non-key column depends on another non-key column. Here student_name depends on only part of the composite key, which is a partial dependency.'
+    ),
+    (
+      'dbms',
+      2,
+      'transitive_vs_partial',
+      '{2nf}',
+      NULL,
+      '2NF removes partial dependencies on part of a composite key. This key is a single column, and dept_name depends on dept_id, another non-key column: that is a transitive dependency.'
+    ),
+    (
+      'newtons_laws',
+      1,
+      'motion_needs_force',
+      NULL,
+      '{"keywords": {"required": [["stop", "stops", "slows", "slow", "rest", "decelerates"]]}}',
+      'Everyday objects stop because friction and air resistance push on them. With no external force at all, nothing is there to slow the object down.'
+    ),
+    (
+      'newtons_laws',
+      2,
+      'motion_needs_force',
+      NULL,
+      '{"keywords": {"required": [["stop", "stops", "slows", "slow", "decreases", "decelerates"]]}}',
+      'On frictionless ice there is no force acting along the puck''s path, so nothing can change its velocity.'
+    )
+) AS qm(subject_slug, question_position, misconception_slug, option_ids, answer_spec, feedback)
+JOIN subjects ON subjects.slug = qm.subject_slug
+JOIN questions ON questions.subject_id = subjects.id AND questions.position = qm.question_position
+JOIN misconceptions ON misconceptions.subject_id = subjects.id AND misconceptions.slug = qm.misconception_slug;
+
+-- Confusion model that also counts matched misconceptions
+ALTER TABLE subjects DROP CONSTRAINT IF EXISTS subjects_confusion_model_check;
+ALTER TABLE subjects
+  ADD CONSTRAINT subjects_confusion_model_check
+  CHECK (confusion_model IN ('baseline@1', 'weighted@1', 'weighted@2'));
+
+CREATE OR REPLACE FUNCTION confusion_weighted_v2(p_session_id uuid, p_question_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_wrong integer;
+  v_misconceptions integer;
+  v_time integer;
+  v_idle integer;
+  v_deleted integer;
+  v_tab_away integer;
+  v_repetition numeric;
+BEGIN
+  SELECT
+    count(*) FILTER (WHERE NOT is_correct),
+    count(*) FILTER (WHERE misconception_id IS NOT NULL),
+    greatest(0, coalesce(max(time_from_start), 0) - question_started_at(p_session_id, p_question_id)),
+    coalesce(sum((signals->>'idle_seconds')::integer), 0),
+    coalesce(sum((signals->>'deleted_chars')::integer), 0),
+    coalesce(sum((signals->>'tab_away_seconds')::integer), 0)
+  INTO v_wrong, v_misconceptions, v_time, v_idle, v_deleted, v_tab_away
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  AND question_id = p_question_id;
+
+  SELECT coalesce(avg(extensions.similarity(previous_answer, user_answer)), 0)
+  INTO v_repetition
+  FROM (
+    SELECT
+      user_answer,
+      lag(user_answer) OVER (ORDER BY attempt_number) AS previous_answer
+    FROM session_attempts
+    WHERE session_id = p_session_id
+    AND question_id = p_question_id
+    AND NOT is_correct
+  ) wrong_answers
+  WHERE previous_answer IS NOT NULL;
+
+  RETURN confusion_result(ARRAY[
+    jsonb_build_object('signal', 'attempts', 'label', 'Wrong attempts: ' || v_wrong,
+      'contribution', round(25 * least(1, v_wrong / 5.0))),
+    jsonb_build_object('signal', 'misconception', 'label', 'Known misconceptions: ' || v_misconceptions,
+      'contribution', round(25 * least(1, v_misconceptions / 2.0))),
+    jsonb_build_object('signal', 'time', 'label', 'Time on question: ' || v_time || 's',
+      'contribution', round(10 * least(1, v_time / 180.0))),
+    jsonb_build_object('signal', 'repetition', 'label', 'Similar wrong answers: ' || round(v_repetition * 100) || '%',
+      'contribution', round(15 * least(1, v_repetition))),
+    jsonb_build_object('signal', 'idle', 'label', 'Idle pauses: ' || v_idle || 's',
+      'contribution', round(10 * least(1, v_idle / 120.0))),
+    jsonb_build_object('signal', 'rewrite', 'label', 'Characters deleted: ' || v_deleted,
+      'contribution', round(5 * least(1, v_deleted / 80.0))),
+    jsonb_build_object('signal', 'tab_away', 'label', 'Time away from page: ' || v_tab_away || 's',
+      'contribution', round(10 * least(1, v_tab_away / 60.0)))
+  ]);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION score_question_confusion(p_session_id uuid, p_question_id uuid, p_model text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  CASE p_model
+    WHEN 'weighted@1' THEN RETURN confusion_weighted_v1(p_session_id, p_question_id);
+    WHEN 'weighted@2' THEN RETURN confusion_weighted_v2(p_session_id, p_question_id);
+    ELSE RETURN confusion_baseline_v1(p_session_id, p_question_id);
+  END CASE;
+END;
+$$;
+
+ALTER TABLE subjects ALTER COLUMN confusion_model SET DEFAULT 'weighted@2';
+
+UPDATE subjects
+SET confusion_model = 'weighted@2'
+WHERE slug IN ('data_structures', 'newtons_laws', 'dbms');
+
+CREATE OR REPLACE FUNCTION match_misconception(p_question questions, p_answer text, p_selected_options text[])
+RETURNS question_misconceptions
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM question_misconceptions
+  WHERE question_id = p_question.id
+  AND (
+    option_ids && p_selected_options
+    OR (
+      answer_spec IS NOT NULL
+      AND (match_free_text(answer_spec, NULL, p_answer)->>'matched')::boolean
+    )
+  )
+  ORDER BY position
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+  p_session_id uuid,
+  p_answer jsonb,
+  p_signals jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_mapping question_misconceptions%ROWTYPE;
+  v_misconception misconceptions%ROWTYPE;
+  v_next_question_id uuid;
+  v_answer text;
+  v_selected_options text[];
+  v_match jsonb;
+  v_is_correct boolean;
+  v_signals jsonb;
+  v_elapsed integer;
+  v_attempt_id uuid;
+  v_confusion jsonb;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = v_session.question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to answer' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_answer := describe_response(v_question, coalesce(p_answer, '""'::jsonb));
+
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_question.format IN ('multiple_choice', 'multi_select', 'ordering') THEN
+    IF jsonb_typeof(p_answer) = 'array' THEN
+      SELECT array_agg(value ORDER BY index) INTO v_selected_options
+      FROM jsonb_array_elements_text(p_answer) WITH ORDINALITY AS picked(value, index);
+    ELSE
+      v_selected_options := ARRAY[p_answer #>> '{}'];
+    END IF;
+  END IF;
+
+  v_match := evaluate_response(v_question, p_answer);
+  v_is_correct := (v_match->>'matched')::boolean;
+
+  IF NOT v_is_correct THEN
+    v_mapping := match_misconception(v_question, v_answer, v_selected_options);
+
+    IF v_mapping.id IS NOT NULL THEN
+      SELECT * INTO v_misconception FROM misconceptions WHERE id = v_mapping.misconception_id;
+    END IF;
+  END IF;
+
+  -- Client-reported signals are clamped so they cannot dominate the score
+  v_signals := jsonb_build_object(
+    'idle_seconds', greatest(0, least(3600, coalesce((p_signals->>'idle_seconds')::integer, 0))),
+    'deleted_chars', greatest(0, least(10000, coalesce((p_signals->>'deleted_chars')::integer, 0))),
+    'tab_away_seconds', greatest(0, least(3600, coalesce((p_signals->>'tab_away_seconds')::integer, 0)))
+  );
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  INSERT INTO session_attempts (
+    session_id,
+    question_id,
+    attempt_number,
+    user_answer,
+    response,
+    selected_options,
+    is_correct,
+    match,
+    misconception_id,
+    time_from_start,
+    signals
+  )
+  VALUES (
+    p_session_id,
+    v_question.id,
+    v_session.attempts + 1,
+    v_answer,
+    p_answer,
+    v_selected_options,
+    v_is_correct,
+    v_match,
+    v_misconception.id,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id)),
+    v_signals
+  )
+  RETURNING id INTO v_attempt_id;
+
+  v_confusion := score_question_confusion(p_session_id, v_question.id, v_session.confusion_model);
+
+  UPDATE session_attempts
+  SET
+    confusion_score = (v_confusion->>'score')::integer,
+    confusion_reasons = v_confusion->'reasons'
+  WHERE id = v_attempt_id;
+
+  IF v_is_correct THEN
+    SELECT id INTO v_next_question_id
+    FROM questions
+    WHERE subject_id = v_question.subject_id
+    AND position > v_question.position
+    ORDER BY position
+    LIMIT 1;
+
+    IF v_next_question_id IS NOT NULL THEN
+      UPDATE learning_sessions SET question_id = v_next_question_id WHERE id = p_session_id;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE
+      WHEN v_mapping.id IS NOT NULL THEN v_mapping.feedback
+      WHEN NOT v_is_correct THEN 'Not quite right. Try again.'
+      WHEN v_next_question_id IS NOT NULL THEN 'Correct! On to the next question.'
+      ELSE 'Correct! Well done.'
+    END,
+    'match', CASE WHEN v_is_correct THEN v_match ELSE v_match - 'detail' END,
+    'misconception', CASE
+      WHEN v_misconception.id IS NOT NULL THEN jsonb_build_object(
+        'id', v_misconception.id,
+        'slug', v_misconception.slug,
+        'name', v_misconception.name
+      )
+    END,
+    'question_id', v_question.id,
+    'next_question_id', v_next_question_id,
+    'is_completed', v_session.is_completed,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', (v_confusion->>'score')::integer,
+    'confusion_model', v_session.confusion_model,
+    'confusion_reasons', v_confusion->'reasons',
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
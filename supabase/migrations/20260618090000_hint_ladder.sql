@@ -0,0 +1,493 @@
+/*
+  # Progressive hint ladder
+
+  ## Overview
+  Once confusion crossed the threshold, Learn used to show the subject's whole
+  `ai_help_text` at once. Each question now has an ordered ladder of hints, from a
+  nudge up to a worked example. Learners reveal them one at a time, and hints also
+  unlock automatically as confusion rises. Every reveal is logged, and correct
+  answers earn less credit the more hints were needed.
+
+  ## New Tables
+
+  ### `question_hints`
+  Ordered hints for a question, not readable by learners until revealed
+  - `id` (uuid, primary key)
+  - `question_id` (uuid) - Links to questions
+  - `position` (integer) - Order on the ladder, starting at 1
+  - `level` (text) - `nudge`, `concept`, `step` or `worked_example`
+  - `body` (text) - Hint text
+  - `unlock_confusion` (integer) - Confusion score at which the hint is revealed
+    automatically; NULL means learner-revealed only
+  - `created_at` (timestamptz)
+
+  ### `hint_reveals`
+  Log of revealed hints
+  - `id` (uuid, primary key)
+  - `session_id` (uuid) - Links to learning_sessions
+  - `question_id` (uuid) - Links to questions
+  - `hint_id` (uuid) - Links to question_hints
+  - `source` (text) - `learner` or `auto`
+  - `revealed_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `session_attempts`
+  - `hints_used` (integer) - Hints revealed for the question before this attempt
+  - `credit` (numeric) - For correct attempts: 1 when solved unaided, down to 0.25
+    after the full ladder
+
+  ### `learning_sessions`
+  - `hints_used` (integer) - Hints revealed in the session
+  - `credit` (numeric) - Average credit over solved questions
+
+  ## Security
+  - Enable RLS; learners can view the reveal log of their own sessions
+  - Hint bodies are only returned through `session_hints` and `reveal_hint`
+
+  ## New Functions
+
+  ### `session_hints(p_session_id uuid)`
+  `{ question_id, hint_count, hints }` for the session's current question, where
+  `hints` are the revealed hints in ladder order
+
+  ### `reveal_hint(p_session_id uuid)`
+  Reveals the next hint of the current question and returns `session_hints`
+
+  ## Modified Functions
+  - `submit_attempt` records `hints_used` and `credit`, auto-reveals hints whose
+    `unlock_confusion` has been reached and returns the answered question's hints
+  - `refresh_session_stats` derives `hints_used` and `credit`
+*/
+
+CREATE TABLE IF NOT EXISTS question_hints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  level text NOT NULL CHECK (level IN ('nudge', 'concept', 'step', 'worked_example')),
+  body text NOT NULL,
+  unlock_confusion integer CHECK (unlock_confusion BETWEEN 0 AND 100),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (question_id, position)
+);
+
+ALTER TABLE question_hints ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON question_hints FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS hint_reveals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES learning_sessions(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  hint_id uuid NOT NULL REFERENCES question_hints(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('learner', 'auto')),
+  revealed_at timestamptz DEFAULT now(),
+  UNIQUE (session_id, hint_id)
+);
+
+ALTER TABLE hint_reveals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own hint reveals"
+  ON hint_reveals FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM learning_sessions
+      WHERE learning_sessions.id = hint_reveals.session_id
+      AND learning_sessions.user_id = auth.uid()
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE ON hint_reveals FROM anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_hint_reveals_session_id ON hint_reveals(session_id, question_id);
+
+ALTER TABLE session_attempts
+  ADD COLUMN IF NOT EXISTS hints_used integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS credit numeric(3, 2);
+
+ALTER TABLE learning_sessions
+  ADD COLUMN IF NOT EXISTS hints_used integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS credit numeric(3, 2);
+
+-- Hints for the seeded questions
+INSERT INTO question_hints (question_id, position, level, body, unlock_confusion)
+SELECT questions.id, h.position, h.level, h.body, h.unlock_confusion
+FROM (
+  VALUES
+    ('data_structures', 1, 1, 'nudge', 'Binary search starts in the middle of the current range. Which index sits in the middle of 0..9?', 40),
+    ('data_structures', 1, 2, 'concept', 'Compare the middle value with 23 and keep only the half that could still contain it. Indices start at 0.', 60),
+    ('data_structures', 1, 3, 'worked_example', 'Index 4 holds 16 < 23, so search 5..9. Index 7 holds 56 > 23, so search 5..6. Index 5 holds 23.', 80),
+    ('data_structures', 2, 1, 'nudge', 'Count every time you look at a middle element, including the one that finally matches.', 40),
+    ('data_structures', 2, 2, 'worked_example', 'First 16 at index 4, then 56 at index 7, then 23 at index 5.', 80),
+    ('data_structures', 3, 1, 'nudge', 'You cannot compare against the middle before you know where the middle is.', 40),
+    ('data_structures', 3, 2, 'worked_example', 'Find the middle index, compare that element with the target, then throw away the half that cannot contain it.', 80),
+    ('data_structures', 4, 1, 'nudge', 'Binary search only needs the array to be sorted. Repeated values can still be in sorted order.', 40),
+    ('data_structures', 4, 2, 'worked_example', 'Numbers ascending, letters in alphabetical order and a run of equal values are all sorted. [9, 4, 7, 1] is not.', 80),
+    ('newtons_laws', 1, 1, 'nudge', 'Ask yourself what would have to act on the object to change how it moves.', 40),
+    ('newtons_laws', 1, 2, 'concept', 'Inertia: objects resist changes to their state of motion.', 60),
+    ('newtons_laws', 1, 3, 'worked_example', 'An object at rest stays at rest, and a moving object keeps the same velocity. Either way it stays in the same state.', 80),
+    ('newtons_laws', 2, 1, 'nudge', 'Friction is what normally slows things down. What happens when there is none?', 40),
+    ('newtons_laws', 2, 2, 'worked_example', 'With no friction there is no horizontal force on the puck, so its velocity does not change.', 80),
+    ('newtons_laws', 3, 1, 'nudge', 'The first blank is the opposite of motion.', 40),
+    ('newtons_laws', 3, 2, 'worked_example', 'Objects at rest stay at rest; objects in motion keep moving in a straight line at constant speed, i.e. uniformly.', 80),
+    ('dbms', 1, 1, 'nudge', 'The key has two columns. Does student_name need both of them?', 40),
+    ('dbms', 1, 2, 'concept', 'A partial dependency is a non-key column that depends on only part of a composite key.', 60),
+    ('dbms', 1, 3, 'worked_example', 'student_name depends only on student_id, which is part of the key. That partial dependency is what second normal form removes.', 80),
+    ('dbms', 2, 1, 'nudge', 'The key is a single column here, so a partial dependency is impossible.', 40),
+    ('dbms', 2, 2, 'worked_example', 'employee_id determines dept_id, which determines dept_name. That chain is a transitive dependency, removed by third normal form.', 80)
+) AS h(subject_slug, question_position, position, level, body, unlock_confusion)
+JOIN subjects ON subjects.slug = h.subject_slug
+JOIN questions ON questions.subject_id = subjects.id AND questions.position = h.question_position
+ON CONFLICT (question_id, position) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION revealed_hints(p_session_id uuid, p_question_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'question_id', p_question_id,
+    'hint_count', (SELECT count(*) FROM question_hints WHERE question_id = p_question_id),
+    'hints', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', question_hints.id,
+          'position', question_hints.position,
+          'level', question_hints.level,
+          'body', question_hints.body,
+          'source', hint_reveals.source,
+          'revealed_at', hint_reveals.revealed_at
+        )
+        ORDER BY question_hints.position
+      )
+      FROM hint_reveals
+      JOIN question_hints ON question_hints.id = hint_reveals.hint_id
+      WHERE hint_reveals.session_id = p_session_id
+      AND hint_reveals.question_id = p_question_id
+    ), '[]'::jsonb)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION session_hints(p_session_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_question_id uuid;
+BEGIN
+  SELECT question_id INTO v_question_id
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN revealed_hints(p_session_id, v_question_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION session_hints(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION session_hints(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION reveal_hint(p_session_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_hint_id uuid;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT id INTO v_hint_id
+  FROM question_hints
+  WHERE question_id = v_session.question_id
+  AND id NOT IN (SELECT hint_id FROM hint_reveals WHERE session_id = p_session_id)
+  ORDER BY position
+  LIMIT 1;
+
+  IF v_hint_id IS NOT NULL THEN
+    INSERT INTO hint_reveals (session_id, question_id, hint_id, source)
+    VALUES (p_session_id, v_session.question_id, v_hint_id, 'learner');
+
+    PERFORM refresh_session_stats(p_session_id);
+  END IF;
+
+  RETURN revealed_hints(p_session_id, v_session.question_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reveal_hint(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION reveal_hint(uuid) TO authenticated;
+
+-- Credit for solving a question after revealing some of its hints
+CREATE OR REPLACE FUNCTION hint_credit(p_hints_used integer, p_hint_count integer)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_hint_count = 0 OR p_hints_used = 0 THEN 1.00
+    ELSE round(1 - 0.75 * least(p_hints_used, p_hint_count)::numeric / p_hint_count, 2)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_session_stats(p_session_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subject_id uuid;
+  v_attempts integer;
+  v_time_spent integer;
+  v_question_count integer;
+  v_solved_count integer;
+  v_last_correct_at timestamptz;
+  v_credit numeric;
+  v_hints_used integer;
+  v_peak session_attempts%ROWTYPE;
+BEGIN
+  SELECT subject_id INTO v_subject_id FROM learning_sessions WHERE id = p_session_id;
+
+  SELECT
+    count(*),
+    coalesce(max(time_from_start), 0),
+    count(DISTINCT question_id) FILTER (WHERE is_correct),
+    max(created_at) FILTER (WHERE is_correct),
+    avg(credit) FILTER (WHERE is_correct)
+  INTO v_attempts, v_time_spent, v_solved_count, v_last_correct_at, v_credit
+  FROM session_attempts
+  WHERE session_id = p_session_id;
+
+  SELECT count(*) INTO v_question_count FROM questions WHERE subject_id = v_subject_id;
+  SELECT count(*) INTO v_hints_used FROM hint_reveals WHERE session_id = p_session_id;
+
+  SELECT * INTO v_peak
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  ORDER BY confusion_score DESC, attempt_number DESC
+  LIMIT 1;
+
+  UPDATE learning_sessions
+  SET
+    attempts = v_attempts,
+    time_spent = v_time_spent,
+    confusion_score = coalesce(v_peak.confusion_score, 0),
+    confusion_reasons = coalesce(v_peak.confusion_reasons, '[]'::jsonb),
+    is_completed = v_question_count > 0 AND v_solved_count >= v_question_count,
+    end_time = CASE WHEN v_question_count > 0 AND v_solved_count >= v_question_count THEN v_last_correct_at END,
+    ai_help_shown = ai_help_shown OR v_hints_used > 0 OR coalesce(v_peak.confusion_score, 0) >= 40,
+    hints_used = v_hints_used,
+    credit = round(v_credit, 2)
+  WHERE id = p_session_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+  p_session_id uuid,
+  p_answer jsonb,
+  p_signals jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_mapping question_misconceptions%ROWTYPE;
+  v_misconception misconceptions%ROWTYPE;
+  v_next_question_id uuid;
+  v_answer text;
+  v_selected_options text[];
+  v_match jsonb;
+  v_is_correct boolean;
+  v_signals jsonb;
+  v_elapsed integer;
+  v_hints_used integer;
+  v_hint_count integer;
+  v_attempt_id uuid;
+  v_confusion jsonb;
+  v_confusion_score integer;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = v_session.question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to answer' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_answer := describe_response(v_question, coalesce(p_answer, '""'::jsonb));
+
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_question.format IN ('multiple_choice', 'multi_select', 'ordering') THEN
+    IF jsonb_typeof(p_answer) = 'array' THEN
+      SELECT array_agg(value ORDER BY index) INTO v_selected_options
+      FROM jsonb_array_elements_text(p_answer) WITH ORDINALITY AS picked(value, index);
+    ELSE
+      v_selected_options := ARRAY[p_answer #>> '{}'];
+    END IF;
+  END IF;
+
+  v_match := evaluate_response(v_question, p_answer);
+  v_is_correct := (v_match->>'matched')::boolean;
+
+  IF NOT v_is_correct THEN
+    v_mapping := match_misconception(v_question, v_answer, v_selected_options);
+
+    IF v_mapping.id IS NOT NULL THEN
+      SELECT * INTO v_misconception FROM misconceptions WHERE id = v_mapping.misconception_id;
+    END IF;
+  END IF;
+
+  -- Client-reported signals are clamped so they cannot dominate the score
+  v_signals := jsonb_build_object(
+    'idle_seconds', greatest(0, least(3600, coalesce((p_signals->>'idle_seconds')::integer, 0))),
+    'deleted_chars', greatest(0, least(10000, coalesce((p_signals->>'deleted_chars')::integer, 0))),
+    'tab_away_seconds', greatest(0, least(3600, coalesce((p_signals->>'tab_away_seconds')::integer, 0)))
+  );
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  SELECT count(*) INTO v_hints_used
+  FROM hint_reveals
+  WHERE session_id = p_session_id
+  AND question_id = v_question.id;
+
+  SELECT count(*) INTO v_hint_count FROM question_hints WHERE question_id = v_question.id;
+
+  INSERT INTO session_attempts (
+    session_id,
+    question_id,
+    attempt_number,
+    user_answer,
+    response,
+    selected_options,
+    is_correct,
+    match,
+    misconception_id,
+    hints_used,
+    credit,
+    time_from_start,
+    signals
+  )
+  VALUES (
+    p_session_id,
+    v_question.id,
+    v_session.attempts + 1,
+    v_answer,
+    p_answer,
+    v_selected_options,
+    v_is_correct,
+    v_match,
+    v_misconception.id,
+    v_hints_used,
+    CASE WHEN v_is_correct THEN hint_credit(v_hints_used, v_hint_count) END,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id)),
+    v_signals
+  )
+  RETURNING id INTO v_attempt_id;
+
+  v_confusion := score_question_confusion(p_session_id, v_question.id, v_session.confusion_model);
+  v_confusion_score := (v_confusion->>'score')::integer;
+
+  UPDATE session_attempts
+  SET
+    confusion_score = v_confusion_score,
+    confusion_reasons = v_confusion->'reasons'
+  WHERE id = v_attempt_id;
+
+  IF v_is_correct THEN
+    SELECT id INTO v_next_question_id
+    FROM questions
+    WHERE subject_id = v_question.subject_id
+    AND position > v_question.position
+    ORDER BY position
+    LIMIT 1;
+
+    IF v_next_question_id IS NOT NULL THEN
+      UPDATE learning_sessions SET question_id = v_next_question_id WHERE id = p_session_id;
+    END IF;
+  ELSE
+    -- Unlock hints as confusion rises
+    INSERT INTO hint_reveals (session_id, question_id, hint_id, source)
+    SELECT p_session_id, v_question.id, id, 'auto'
+    FROM question_hints
+    WHERE question_id = v_question.id
+    AND unlock_confusion <= v_confusion_score
+    ON CONFLICT (session_id, hint_id) DO NOTHING;
+
+    PERFORM refresh_session_stats(p_session_id);
+  END IF;
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE
+      WHEN v_mapping.id IS NOT NULL THEN v_mapping.feedback
+      WHEN NOT v_is_correct THEN 'Not quite right. Try again.'
+      WHEN v_next_question_id IS NOT NULL THEN 'Correct! On to the next question.'
+      ELSE 'Correct! Well done.'
+    END,
+    'match', CASE WHEN v_is_correct THEN v_match ELSE v_match - 'detail' END,
+    'misconception', CASE
+      WHEN v_misconception.id IS NOT NULL THEN jsonb_build_object(
+        'id', v_misconception.id,
+        'slug', v_misconception.slug,
+        'name', v_misconception.name
+      )
+    END,
+    'credit', CASE WHEN v_is_correct THEN hint_credit(v_hints_used, v_hint_count) END,
+    'hints', revealed_hints(p_session_id, v_question.id),
+    'question_id', v_question.id,
+    'next_question_id', v_next_question_id,
+    'is_completed', v_session.is_completed,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', v_confusion_score,
+    'confusion_model', v_session.confusion_model,
+    'confusion_reasons', v_confusion->'reasons',
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
@@ -0,0 +1,203 @@
+/*
+  # Tutor explanations
+
+  ## Overview
+  Learn asks a tutor provider (a deterministic template, or an OpenAI-compatible
+  endpoint) for an explanation aimed at the learner's mistake. Explanations are
+  cached per question, misconception and provider, so the same mistake is only
+  explained once, and every explanation shown is recorded against the session.
+
+  ## New Tables
+
+  ### `tutor_explanations`
+  Cached explanations
+  - `id` (uuid, primary key)
+  - `question_id` (uuid) - Links to questions
+  - `misconception_id` (uuid) - Links to misconceptions; NULL for mistakes that
+    match no known misconception
+  - `provider` (text) - Provider name and version, e.g. `template@1`
+  - `body` (text) - Explanation text
+  - `created_at` (timestamptz)
+
+  ### `session_explanations`
+  Explanations shown in a session
+  - `id` (uuid, primary key)
+  - `session_id` (uuid) - Links to learning_sessions
+  - `question_id` (uuid) - Links to questions
+  - `explanation_id` (uuid) - Links to tutor_explanations
+  - `created_at` (timestamptz)
+
+  ## Security
+  - Enable RLS; learners can view explanations recorded in their own sessions
+  - Explanations are only written through `save_tutor_explanation`
+
+  ## New Functions
+
+  ### `tutor_explanation(p_session_id uuid, p_provider text)`
+  Looks up the cached explanation for the session's current question and the
+  misconception of its latest attempt. Returns
+  `{ question_id, misconception_id, body }`, with `body` NULL on a cache miss; a
+  hit is recorded against the session.
+
+  ### `save_tutor_explanation(p_session_id uuid, p_provider text, p_body text)`
+  Caches a newly generated explanation, records it against the session and
+  returns the same shape. If another session cached one first, that one wins.
+*/
+
+CREATE TABLE IF NOT EXISTS tutor_explanations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  misconception_id uuid REFERENCES misconceptions(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  body text NOT NULL CHECK (length(body) BETWEEN 1 AND 4000),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (question_id, misconception_id, provider)
+);
+
+ALTER TABLE tutor_explanations ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS session_explanations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES learning_sessions(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  explanation_id uuid NOT NULL REFERENCES tutor_explanations(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (session_id, explanation_id)
+);
+
+ALTER TABLE session_explanations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own session explanations"
+  ON session_explanations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM learning_sessions
+      WHERE learning_sessions.id = session_explanations.session_id
+      AND learning_sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view explanations shown to them"
+  ON tutor_explanations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM session_explanations
+      JOIN learning_sessions ON learning_sessions.id = session_explanations.session_id
+      WHERE session_explanations.explanation_id = tutor_explanations.id
+      AND learning_sessions.user_id = auth.uid()
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE ON tutor_explanations FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON session_explanations FROM anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_session_explanations_session_id ON session_explanations(session_id);
+
+-- The session's current question and the misconception behind its latest attempt
+CREATE OR REPLACE FUNCTION tutor_context(p_session_id uuid)
+RETURNS TABLE (question_id uuid, misconception_id uuid)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_question_id uuid;
+BEGIN
+  SELECT learning_sessions.question_id INTO v_question_id
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT v_question_id, (
+    SELECT session_attempts.misconception_id
+    FROM session_attempts
+    WHERE session_attempts.session_id = p_session_id
+    AND session_attempts.question_id = v_question_id
+    ORDER BY attempt_number DESC
+    LIMIT 1
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION tutor_explanation(p_session_id uuid, p_provider text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_context record;
+  v_explanation tutor_explanations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_context FROM tutor_context(p_session_id);
+
+  SELECT * INTO v_explanation
+  FROM tutor_explanations
+  WHERE question_id = v_context.question_id
+  AND misconception_id IS NOT DISTINCT FROM v_context.misconception_id
+  AND provider = p_provider;
+
+  IF FOUND THEN
+    INSERT INTO session_explanations (session_id, question_id, explanation_id)
+    VALUES (p_session_id, v_context.question_id, v_explanation.id)
+    ON CONFLICT (session_id, explanation_id) DO NOTHING;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'question_id', v_context.question_id,
+    'misconception_id', v_context.misconception_id,
+    'body', v_explanation.body
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_tutor_explanation(p_session_id uuid, p_provider text, p_body text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_context record;
+  v_explanation tutor_explanations%ROWTYPE;
+BEGIN
+  IF coalesce(trim(p_body), '') = '' THEN
+    RAISE EXCEPTION 'Explanation must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_context FROM tutor_context(p_session_id);
+
+  INSERT INTO tutor_explanations (question_id, misconception_id, provider, body)
+  VALUES (v_context.question_id, v_context.misconception_id, p_provider, trim(p_body))
+  ON CONFLICT (question_id, misconception_id, provider) DO NOTHING;
+
+  SELECT * INTO v_explanation
+  FROM tutor_explanations
+  WHERE question_id = v_context.question_id
+  AND misconception_id IS NOT DISTINCT FROM v_context.misconception_id
+  AND provider = p_provider;
+
+  INSERT INTO session_explanations (session_id, question_id, explanation_id)
+  VALUES (p_session_id, v_context.question_id, v_explanation.id)
+  ON CONFLICT (session_id, explanation_id) DO NOTHING;
+
+  RETURN jsonb_build_object(
+    'question_id', v_context.question_id,
+    'misconception_id', v_context.misconception_id,
+    'body', v_explanation.body
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION tutor_explanation(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION tutor_explanation(uuid, text) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION save_tutor_explanation(uuid, text, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION save_tutor_explanation(uuid, text, text) TO authenticated;
@@ -0,0 +1,296 @@
+/*
+  # Socratic tutor chat
+
+  ## Overview
+  Learn gets a chat panel where the learner can ask the tutor why an answer is
+  wrong. The tutor replies with guiding questions; its replies are checked so
+  they never contain the correct answer word for word. Asking the tutor is
+  itself a sign of confusion, so a new confusion model counts chat turns.
+
+  ## New Tables
+
+  ### `tutor_messages`
+  - `id` (uuid, primary key)
+  - `session_id` (uuid) - Links to learning_sessions
+  - `question_id` (uuid) - Question being discussed
+  - `role` (text) - `learner` or `tutor`
+  - `body` (text) - Message text
+  - `provider` (text) - Tutor provider that wrote a tutor message
+  - `redacted` (boolean) - True when the tutor's reply gave the answer away and
+    was replaced
+  - `seconds_from_start` (integer) - Active seconds since the session started
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `subjects`
+  - `confusion_model` accepts `weighted@3`, which adds learner chat turns as a
+    signal; the default and the seeded subjects switch to it
+
+  ## Security
+  - Enable RLS; learners can view messages of their own sessions
+  - Messages are only written through `send_tutor_message` and `save_tutor_reply`
+
+  ## New Functions
+  - `reveals_answer(p_question questions, p_text text)` - Whether text contains
+    the correct answer (or the correct option's label) as a whole phrase
+  - `send_tutor_message(p_session_id uuid, p_body text)` - Stores a learner message
+    about the session's current question
+  - `save_tutor_reply(p_session_id uuid, p_provider text, p_body text)` - Stores
+    the tutor's reply, replacing it when it reveals the answer
+  - `confusion_weighted_v3(p_session_id uuid, p_question_id uuid)`
+
+  ## Modified Functions
+  - `score_question_confusion` dispatches `weighted@3`
+*/
+
+CREATE TABLE IF NOT EXISTS tutor_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES learning_sessions(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('learner', 'tutor')),
+  body text NOT NULL CHECK (length(body) BETWEEN 1 AND 4000),
+  provider text,
+  redacted boolean NOT NULL DEFAULT false,
+  seconds_from_start integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE tutor_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tutor messages"
+  ON tutor_messages FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM learning_sessions
+      WHERE learning_sessions.id = tutor_messages.session_id
+      AND learning_sessions.user_id = auth.uid()
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE ON tutor_messages FROM anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_tutor_messages_session_id ON tutor_messages(session_id, question_id, created_at);
+
+CREATE OR REPLACE FUNCTION reveals_answer(p_question questions, p_text text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM (
+      SELECT normalize_answer(p_question.correct_answer) AS phrase
+      UNION ALL
+      SELECT normalize_answer(option->>'label')
+      FROM jsonb_array_elements(
+        CASE WHEN p_question.format = 'multiple_choice' THEN p_question.options ELSE '[]'::jsonb END
+      ) AS option
+      WHERE option->>'id' = p_question.answer_key #>> '{}'
+    ) answers
+    WHERE phrase <> ''
+    AND ' ' || normalize_answer(p_text) || ' ' LIKE '% ' || phrase || ' %'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION send_tutor_message(p_session_id uuid, p_body text)
+RETURNS tutor_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_elapsed integer;
+  v_message tutor_messages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed OR v_session.question_id IS NULL THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF coalesce(trim(p_body), '') = '' THEN
+    RAISE EXCEPTION 'Message must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  INSERT INTO tutor_messages (session_id, question_id, role, body, seconds_from_start)
+  VALUES (
+    p_session_id,
+    v_session.question_id,
+    'learner',
+    left(trim(p_body), 4000),
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id))
+  )
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_tutor_reply(p_session_id uuid, p_provider text, p_body text)
+RETURNS tutor_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_redacted boolean;
+  v_elapsed integer;
+  v_message tutor_messages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = v_session.question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to discuss' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF coalesce(trim(p_body), '') = '' THEN
+    RAISE EXCEPTION 'Message must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  v_redacted := reveals_answer(v_question, p_body);
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  INSERT INTO tutor_messages (session_id, question_id, role, body, provider, redacted, seconds_from_start)
+  VALUES (
+    p_session_id,
+    v_question.id,
+    'tutor',
+    CASE
+      WHEN v_redacted THEN 'I would rather not hand you the answer. What does the data tell you if you go through it one step at a time?'
+      ELSE left(trim(p_body), 4000)
+    END,
+    p_provider,
+    v_redacted,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id))
+  )
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_tutor_message(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION send_tutor_message(uuid, text) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION save_tutor_reply(uuid, text, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION save_tutor_reply(uuid, text, text) TO authenticated;
+
+-- Confusion model that also counts questions asked to the tutor
+ALTER TABLE subjects DROP CONSTRAINT IF EXISTS subjects_confusion_model_check;
+ALTER TABLE subjects
+  ADD CONSTRAINT subjects_confusion_model_check
+  CHECK (confusion_model IN ('baseline@1', 'weighted@1', 'weighted@2', 'weighted@3'));
+
+CREATE OR REPLACE FUNCTION confusion_weighted_v3(p_session_id uuid, p_question_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_wrong integer;
+  v_misconceptions integer;
+  v_time integer;
+  v_idle integer;
+  v_deleted integer;
+  v_tab_away integer;
+  v_repetition numeric;
+  v_chat integer;
+BEGIN
+  SELECT
+    count(*) FILTER (WHERE NOT is_correct),
+    count(*) FILTER (WHERE misconception_id IS NOT NULL),
+    greatest(0, coalesce(max(time_from_start), 0) - question_started_at(p_session_id, p_question_id)),
+    coalesce(sum((signals->>'idle_seconds')::integer), 0),
+    coalesce(sum((signals->>'deleted_chars')::integer), 0),
+    coalesce(sum((signals->>'tab_away_seconds')::integer), 0)
+  INTO v_wrong, v_misconceptions, v_time, v_idle, v_deleted, v_tab_away
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  AND question_id = p_question_id;
+
+  SELECT coalesce(avg(extensions.similarity(previous_answer, user_answer)), 0)
+  INTO v_repetition
+  FROM (
+    SELECT
+      user_answer,
+      lag(user_answer) OVER (ORDER BY attempt_number) AS previous_answer
+    FROM session_attempts
+    WHERE session_id = p_session_id
+    AND question_id = p_question_id
+    AND NOT is_correct
+  ) wrong_answers
+  WHERE previous_answer IS NOT NULL;
+
+  SELECT count(*) INTO v_chat
+  FROM tutor_messages
+  WHERE session_id = p_session_id
+  AND question_id = p_question_id
+  AND role = 'learner';
+
+  RETURN confusion_result(ARRAY[
+    jsonb_build_object('signal', 'attempts', 'label', 'Wrong attempts: ' || v_wrong,
+      'contribution', round(25 * least(1, v_wrong / 5.0))),
+    jsonb_build_object('signal', 'misconception', 'label', 'Known misconceptions: ' || v_misconceptions,
+      'contribution', round(20 * least(1, v_misconceptions / 2.0))),
+    jsonb_build_object('signal', 'time', 'label', 'Time on question: ' || v_time || 's',
+      'contribution', round(10 * least(1, v_time / 180.0))),
+    jsonb_build_object('signal', 'repetition', 'label', 'Similar wrong answers: ' || round(v_repetition * 100) || '%',
+      'contribution', round(15 * least(1, v_repetition))),
+    jsonb_build_object('signal', 'idle', 'label', 'Idle pauses: ' || v_idle || 's',
+      'contribution', round(5 * least(1, v_idle / 120.0))),
+    jsonb_build_object('signal', 'rewrite', 'label', 'Characters deleted: ' || v_deleted,
+      'contribution', round(5 * least(1, v_deleted / 80.0))),
+    jsonb_build_object('signal', 'tab_away', 'label', 'Time away from page: ' || v_tab_away || 's',
+      'contribution', round(10 * least(1, v_tab_away / 60.0))),
+    jsonb_build_object('signal', 'chat', 'label', 'Questions to the tutor: ' || v_chat,
+      'contribution', round(10 * least(1, v_chat / 4.0)))
+  ]);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION score_question_confusion(p_session_id uuid, p_question_id uuid, p_model text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  CASE p_model
+    WHEN 'weighted@1' THEN RETURN confusion_weighted_v1(p_session_id, p_question_id);
+    WHEN 'weighted@2' THEN RETURN confusion_weighted_v2(p_session_id, p_question_id);
+    WHEN 'weighted@3' THEN RETURN confusion_weighted_v3(p_session_id, p_question_id);
+    ELSE RETURN confusion_baseline_v1(p_session_id, p_question_id);
+  END CASE;
+END;
+$$;
+
+ALTER TABLE subjects ALTER COLUMN confusion_model SET DEFAULT 'weighted@3';
+
+UPDATE subjects
+SET confusion_model = 'weighted@3'
+WHERE slug IN ('data_structures', 'newtons_laws', 'dbms');
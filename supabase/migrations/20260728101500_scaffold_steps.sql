@@ -0,0 +1,465 @@
+/*
+  # Scaffolded sub-questions
+
+  ## Overview
+  A question can carry a chain of smaller sub-questions ("steps") that walk the
+  learner towards it. When confusion on the question reaches the help threshold
+  after a wrong answer, the session switches to the first step. Each step is
+  graded on its own, and after the last one the learner returns to the original
+  question. Scaffolding runs at most once per question in a session.
+
+  Steps are rows in `questions` with a `parent_id`, so they use the same formats,
+  answer specs and grading as any other question.
+
+  ## Modified Tables
+
+  ### `questions`
+  - `parent_id` (uuid) - Question this step belongs to; NULL for top-level
+    questions. Steps are ordered by `position` within their parent.
+
+  ### `learning_sessions`
+  - `scaffold_question_id` (uuid) - Step the learner is on; NULL outside scaffold
+    mode
+
+  ### `session_attempts`
+  - `parent_question_id` (uuid) - For step attempts, the question the step belongs
+    to. Step attempts are not counted in the session's attempts, solved questions,
+    confusion or credit.
+
+  ## Modified Functions
+  - `submit_attempt` grades the current step while in scaffold mode and enters
+    scaffold mode when confusion reaches 40
+  - `refresh_session_stats` and `learning_sessions_assign_first_question` ignore
+    steps
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES questions(id) ON DELETE CASCADE;
+
+GRANT SELECT (parent_id) ON questions TO authenticated;
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_subject_id_position_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS questions_subject_id_position_key
+  ON questions(subject_id, position)
+  WHERE parent_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS questions_parent_id_position_key
+  ON questions(parent_id, position)
+  WHERE parent_id IS NOT NULL;
+
+ALTER TABLE learning_sessions
+  ADD COLUMN IF NOT EXISTS scaffold_question_id uuid REFERENCES questions(id) ON DELETE SET NULL;
+
+ALTER TABLE session_attempts
+  ADD COLUMN IF NOT EXISTS parent_question_id uuid REFERENCES questions(id) ON DELETE CASCADE;
+
+-- Steps for the first question of each seeded subject
+INSERT INTO questions (subject_id, parent_id, position, difficulty, format, question, data, options, correct_answer, answer_key, answer_spec)
+SELECT
+  parents.subject_id,
+  parents.id,
+  s.position,
+  1,
+  s.format,
+  s.question,
+  s.data,
+  s.options::jsonb,
+  s.correct_answer,
+  s.answer_key::jsonb,
+  s.answer_spec::jsonb
+FROM (
+  VALUES
+    (
+      'data_structures',
+      1,
+      'free_text',
+      'What is the middle index of the range 0 to 9? Use (low + high) / 2, rounded down.',
+      'low = 0, high = 9',
+      '[]',
+      '4',
+      NULL,
+      '{"numeric": {"value": 4, "tolerance": 0}}'
+    ),
+    (
+      'data_structures',
+      2,
+      'multiple_choice',
+      'The element at index 4 is 16. Is the target 23 larger or smaller than 16?',
+      '[2, 5, 8, 12, 16, 23, 38, 56, 72, 91]',
+      '[{"id": "larger", "label": "Larger"}, {"id": "smaller", "label": "Smaller"}]',
+      'Larger',
+      '"larger"',
+      NULL
+    ),
+    (
+      'data_structures',
+      3,
+      'multiple_choice',
+      'Which part of the array can still contain 23?',
+      '[2, 5, 8, 12, 16, 23, 38, 56, 72, 91]',
+      '[{"id": "left", "label": "Indices 0 to 3"}, {"id": "right", "label": "Indices 5 to 9"}]',
+      'Indices 5 to 9',
+      '"right"',
+      NULL
+    ),
+    (
+      'newtons_laws',
+      1,
+      'multiple_choice',
+      'A hockey puck slides across perfectly frictionless ice. Which horizontal forces act on it?',
+      'No one is touching the puck.',
+      '[{"id": "none", "label": "None"}, {"id": "friction", "label": "Friction"}, {"id": "forward", "label": "A forward force keeping it moving"}]',
+      'None',
+      '"none"',
+      NULL
+    ),
+    (
+      'newtons_laws',
+      2,
+      'multiple_choice',
+      'With no horizontal force on it, what does the puck''s velocity do?',
+      'No one is touching the puck.',
+      '[{"id": "same", "label": "Stays the same"}, {"id": "decreases", "label": "Decreases"}, {"id": "increases", "label": "Increases"}]',
+      'Stays the same',
+      '"same"',
+      NULL
+    ),
+    (
+      'dbms',
+      1,
+      'multiple_choice',
+      'What is the primary key of this table?',
+      'A table keyed on (student_id, course_id) stores student_name, which depends only on student_id.',
+      '[{"id": "student_id", "label": "student_id"}, {"id": "composite", "label": "(student_id, course_id)"}, {"id": "student_name", "label": "student_name"}]',
+      '(student_id, course_id)',
+      '"composite"',
+      NULL
+    ),
+    (
+      'dbms',
+      2,
+      'multiple_choice',
+      'Does student_name depend on the whole key or only on part of it?',
+      'A table keyed on (student_id, course_id) stores student_name, which depends only on student_id.',
+      '[{"id": "whole", "label": "The whole key"}, {"id": "part", "label": "Only part of the key"}]',
+      'Only part of the key',
+      '"part"',
+      NULL
+    )
+) AS s(subject_slug, position, format, question, data, options, correct_answer, answer_key, answer_spec)
+JOIN subjects ON subjects.slug = s.subject_slug
+JOIN questions AS parents
+  ON parents.subject_id = subjects.id
+  AND parents.parent_id IS NULL
+  AND parents.position = 1
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION learning_sessions_assign_first_question()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT id INTO NEW.question_id
+  FROM questions
+  WHERE subject_id = NEW.subject_id
+  AND parent_id IS NULL
+  ORDER BY position
+  LIMIT 1;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_session_stats(p_session_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subject_id uuid;
+  v_attempts integer;
+  v_time_spent integer;
+  v_question_count integer;
+  v_solved_count integer;
+  v_last_correct_at timestamptz;
+  v_credit numeric;
+  v_hints_used integer;
+  v_peak session_attempts%ROWTYPE;
+BEGIN
+  SELECT subject_id INTO v_subject_id FROM learning_sessions WHERE id = p_session_id;
+
+  SELECT
+    count(*) FILTER (WHERE parent_question_id IS NULL),
+    coalesce(max(time_from_start), 0),
+    count(DISTINCT question_id) FILTER (WHERE is_correct AND parent_question_id IS NULL),
+    max(created_at) FILTER (WHERE is_correct AND parent_question_id IS NULL),
+    avg(credit) FILTER (WHERE is_correct AND parent_question_id IS NULL)
+  INTO v_attempts, v_time_spent, v_solved_count, v_last_correct_at, v_credit
+  FROM session_attempts
+  WHERE session_id = p_session_id;
+
+  SELECT count(*) INTO v_question_count
+  FROM questions
+  WHERE subject_id = v_subject_id
+  AND parent_id IS NULL;
+
+  SELECT count(*) INTO v_hints_used FROM hint_reveals WHERE session_id = p_session_id;
+
+  SELECT * INTO v_peak
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  AND parent_question_id IS NULL
+  ORDER BY confusion_score DESC, attempt_number DESC
+  LIMIT 1;
+
+  UPDATE learning_sessions
+  SET
+    attempts = v_attempts,
+    time_spent = v_time_spent,
+    confusion_score = coalesce(v_peak.confusion_score, 0),
+    confusion_reasons = coalesce(v_peak.confusion_reasons, '[]'::jsonb),
+    is_completed = v_question_count > 0 AND v_solved_count >= v_question_count,
+    end_time = CASE WHEN v_question_count > 0 AND v_solved_count >= v_question_count THEN v_last_correct_at END,
+    ai_help_shown = ai_help_shown OR v_hints_used > 0 OR coalesce(v_peak.confusion_score, 0) >= 40,
+    hints_used = v_hints_used,
+    credit = round(v_credit, 2)
+  WHERE id = p_session_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+  p_session_id uuid,
+  p_answer jsonb,
+  p_signals jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_mapping question_misconceptions%ROWTYPE;
+  v_misconception misconceptions%ROWTYPE;
+  v_is_step boolean;
+  v_next_question_id uuid;
+  v_next_step_id uuid;
+  v_answer text;
+  v_selected_options text[];
+  v_match jsonb;
+  v_is_correct boolean;
+  v_signals jsonb;
+  v_elapsed integer;
+  v_hints_used integer := 0;
+  v_hint_count integer := 0;
+  v_attempt_id uuid;
+  v_confusion jsonb := jsonb_build_object('score', 0, 'reasons', '[]'::jsonb);
+  v_confusion_score integer := 0;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_is_step := v_session.scaffold_question_id IS NOT NULL;
+
+  SELECT * INTO v_question
+  FROM questions
+  WHERE id = coalesce(v_session.scaffold_question_id, v_session.question_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to answer' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_answer := describe_response(v_question, coalesce(p_answer, '""'::jsonb));
+
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_question.format IN ('multiple_choice', 'multi_select', 'ordering') THEN
+    IF jsonb_typeof(p_answer) = 'array' THEN
+      SELECT array_agg(value ORDER BY index) INTO v_selected_options
+      FROM jsonb_array_elements_text(p_answer) WITH ORDINALITY AS picked(value, index);
+    ELSE
+      v_selected_options := ARRAY[p_answer #>> '{}'];
+    END IF;
+  END IF;
+
+  v_match := evaluate_response(v_question, p_answer);
+  v_is_correct := (v_match->>'matched')::boolean;
+
+  IF NOT v_is_correct THEN
+    v_mapping := match_misconception(v_question, v_answer, v_selected_options);
+
+    IF v_mapping.id IS NOT NULL THEN
+      SELECT * INTO v_misconception FROM misconceptions WHERE id = v_mapping.misconception_id;
+    END IF;
+  END IF;
+
+  -- Client-reported signals are clamped so they cannot dominate the score
+  v_signals := jsonb_build_object(
+    'idle_seconds', greatest(0, least(3600, coalesce((p_signals->>'idle_seconds')::integer, 0))),
+    'deleted_chars', greatest(0, least(10000, coalesce((p_signals->>'deleted_chars')::integer, 0))),
+    'tab_away_seconds', greatest(0, least(3600, coalesce((p_signals->>'tab_away_seconds')::integer, 0)))
+  );
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  IF NOT v_is_step THEN
+    SELECT count(*) INTO v_hints_used
+    FROM hint_reveals
+    WHERE session_id = p_session_id
+    AND question_id = v_question.id;
+
+    SELECT count(*) INTO v_hint_count FROM question_hints WHERE question_id = v_question.id;
+  END IF;
+
+  INSERT INTO session_attempts (
+    session_id,
+    question_id,
+    parent_question_id,
+    attempt_number,
+    user_answer,
+    response,
+    selected_options,
+    is_correct,
+    match,
+    misconception_id,
+    hints_used,
+    credit,
+    time_from_start,
+    signals
+  )
+  VALUES (
+    p_session_id,
+    v_question.id,
+    v_question.parent_id,
+    (SELECT count(*) + 1 FROM session_attempts WHERE session_id = p_session_id),
+    v_answer,
+    p_answer,
+    v_selected_options,
+    v_is_correct,
+    v_match,
+    v_misconception.id,
+    v_hints_used,
+    CASE WHEN v_is_correct AND NOT v_is_step THEN hint_credit(v_hints_used, v_hint_count) END,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id)),
+    v_signals
+  )
+  RETURNING id INTO v_attempt_id;
+
+  IF v_is_step THEN
+    -- Steps are graded but not scored; move on to the next step or back to the question
+    IF v_is_correct THEN
+      SELECT id INTO v_next_step_id
+      FROM questions
+      WHERE parent_id = v_question.parent_id
+      AND position > v_question.position
+      ORDER BY position
+      LIMIT 1;
+
+      UPDATE learning_sessions SET scaffold_question_id = v_next_step_id WHERE id = p_session_id;
+    END IF;
+  ELSE
+    v_confusion := score_question_confusion(p_session_id, v_question.id, v_session.confusion_model);
+    v_confusion_score := (v_confusion->>'score')::integer;
+
+    UPDATE session_attempts
+    SET
+      confusion_score = v_confusion_score,
+      confusion_reasons = v_confusion->'reasons'
+    WHERE id = v_attempt_id;
+
+    IF v_is_correct THEN
+      SELECT id INTO v_next_question_id
+      FROM questions
+      WHERE subject_id = v_question.subject_id
+      AND parent_id IS NULL
+      AND position > v_question.position
+      ORDER BY position
+      LIMIT 1;
+
+      IF v_next_question_id IS NOT NULL THEN
+        UPDATE learning_sessions SET question_id = v_next_question_id WHERE id = p_session_id;
+      END IF;
+    ELSE
+      -- Unlock hints as confusion rises
+      INSERT INTO hint_reveals (session_id, question_id, hint_id, source)
+      SELECT p_session_id, v_question.id, id, 'auto'
+      FROM question_hints
+      WHERE question_id = v_question.id
+      AND unlock_confusion <= v_confusion_score
+      ON CONFLICT (session_id, hint_id) DO NOTHING;
+
+      -- Break the question down once confusion reaches the help threshold
+      IF v_confusion_score >= 40 AND NOT EXISTS (
+        SELECT 1 FROM session_attempts
+        WHERE session_id = p_session_id
+        AND parent_question_id = v_question.id
+      ) THEN
+        SELECT id INTO v_next_step_id
+        FROM questions
+        WHERE parent_id = v_question.id
+        ORDER BY position
+        LIMIT 1;
+
+        IF v_next_step_id IS NOT NULL THEN
+          UPDATE learning_sessions SET scaffold_question_id = v_next_step_id WHERE id = p_session_id;
+        END IF;
+      END IF;
+
+      PERFORM refresh_session_stats(p_session_id);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE
+      WHEN v_mapping.id IS NOT NULL THEN v_mapping.feedback
+      WHEN NOT v_is_correct THEN 'Not quite right. Try again.'
+      WHEN v_is_step AND v_next_step_id IS NOT NULL THEN 'Correct! On to the next step.'
+      WHEN v_is_step THEN 'Correct! Now try the original question again.'
+      WHEN v_next_question_id IS NOT NULL THEN 'Correct! On to the next question.'
+      ELSE 'Correct! Well done.'
+    END,
+    'match', CASE WHEN v_is_correct THEN v_match ELSE v_match - 'detail' END,
+    'misconception', CASE
+      WHEN v_misconception.id IS NOT NULL THEN jsonb_build_object(
+        'id', v_misconception.id,
+        'slug', v_misconception.slug,
+        'name', v_misconception.name
+      )
+    END,
+    'credit', CASE WHEN v_is_correct AND NOT v_is_step THEN hint_credit(v_hints_used, v_hint_count) END,
+    'hints', revealed_hints(p_session_id, coalesce(v_question.parent_id, v_question.id)),
+    'question_id', v_question.id,
+    'parent_question_id', v_question.parent_id,
+    'scaffold_question_id', v_session.scaffold_question_id,
+    'next_question_id', v_next_question_id,
+    'is_completed', v_session.is_completed,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', v_confusion_score,
+    'confusion_model', v_session.confusion_model,
+    'confusion_reasons', v_confusion->'reasons',
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
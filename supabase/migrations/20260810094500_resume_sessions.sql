@@ -0,0 +1,174 @@
+/*
+  # Resume unfinished sessions
+
+  ## Overview
+  Opening Learn used to insert a new session every time, including on refresh.
+  Learn now resumes the learner's open session for the subject, with its
+  attempts, elapsed time, hints and scaffold step. Sessions without activity for
+  longer than the inactivity window are marked abandoned and no longer resumed.
+
+  Time spent away from a resumed session does not count as time on task: a gap
+  that ended with the page hidden is closed as hidden time, any other gap is
+  added to `paused_seconds`.
+
+  ## Modified Tables
+
+  ### `learning_sessions`
+  - `abandoned_at` (timestamptz) - When the session was given up as stale
+  - `paused_seconds` (integer) - Seconds between leaving and resuming the session
+
+  ## New Functions
+
+  ### `session_last_activity(p_session_id uuid)`
+  Latest attempt, event, hint reveal or tutor message, or the start time
+
+  ### `abandon_stale_sessions(p_stale_minutes integer)`
+  Marks the caller's open sessions abandoned once they have been inactive for
+  `p_stale_minutes`; returns how many were marked
+
+  ### `resume_session(p_subject_id uuid, p_stale_minutes integer)`
+  Returns the caller's open session for the subject, starting a new one when
+  there is none, as the session row plus `elapsed_seconds` (active time so far)
+  and `resumed`
+
+  ## Modified Functions
+  - `session_hidden_seconds` includes `paused_seconds`
+*/
+
+ALTER TABLE learning_sessions
+  ADD COLUMN IF NOT EXISTS abandoned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS paused_seconds integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_learning_sessions_open
+  ON learning_sessions(user_id, subject_id)
+  WHERE NOT is_completed AND abandoned_at IS NULL;
+
+CREATE OR REPLACE FUNCTION session_hidden_seconds(p_session_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (
+    SELECT coalesce(floor(sum(extract(epoch FROM coalesce(next_at, now()) - occurred_at))), 0)::integer
+    FROM (
+      SELECT
+        event_type,
+        occurred_at,
+        lead(occurred_at) OVER (ORDER BY occurred_at) AS next_at
+      FROM session_events
+      WHERE session_id = p_session_id
+      AND event_type IN ('visibility_hidden', 'visibility_visible')
+    ) visibility
+    WHERE event_type = 'visibility_hidden'
+  ) + coalesce((SELECT paused_seconds FROM learning_sessions WHERE id = p_session_id), 0);
+$$;
+
+CREATE OR REPLACE FUNCTION session_last_activity(p_session_id uuid)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT greatest(
+    learning_sessions.start_time,
+    (SELECT max(created_at) FROM session_attempts WHERE session_id = p_session_id),
+    (SELECT max(occurred_at) FROM session_events WHERE session_id = p_session_id),
+    (SELECT max(revealed_at) FROM hint_reveals WHERE session_id = p_session_id),
+    (SELECT max(created_at) FROM tutor_messages WHERE session_id = p_session_id)
+  )
+  FROM learning_sessions
+  WHERE id = p_session_id;
+$$;
+
+CREATE OR REPLACE FUNCTION abandon_stale_sessions(p_stale_minutes integer DEFAULT 120)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE learning_sessions
+  SET abandoned_at = now()
+  WHERE user_id = auth.uid()
+  AND NOT is_completed
+  AND abandoned_at IS NULL
+  AND session_last_activity(id) < now() - make_interval(mins => greatest(p_stale_minutes, 1));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resume_session(p_subject_id uuid, p_stale_minutes integer DEFAULT 120)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_last_visibility text;
+  v_away integer;
+  v_elapsed integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM abandon_stale_sessions(p_stale_minutes);
+
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE user_id = auth.uid()
+  AND subject_id = p_subject_id
+  AND NOT is_completed
+  AND abandoned_at IS NULL
+  ORDER BY start_time DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO learning_sessions (user_id, subject_id)
+    VALUES (auth.uid(), p_subject_id)
+    RETURNING * INTO v_session;
+
+    RETURN to_jsonb(v_session) || jsonb_build_object('elapsed_seconds', 0, 'resumed', false);
+  END IF;
+
+  SELECT event_type INTO v_last_visibility
+  FROM session_events
+  WHERE session_id = v_session.id
+  AND event_type IN ('visibility_hidden', 'visibility_visible')
+  ORDER BY occurred_at DESC
+  LIMIT 1;
+
+  IF v_last_visibility = 'visibility_hidden' THEN
+    -- The page was closed while hidden; the hidden interval already covers the gap
+    INSERT INTO session_events (session_id, event_type, payload, seconds_from_start, occurred_at)
+    VALUES (v_session.id, 'visibility_visible', jsonb_build_object('hidden_seconds', 0, 'resumed', true), 0, now());
+  ELSE
+    v_away := floor(extract(epoch FROM now() - session_last_activity(v_session.id)))::integer;
+
+    UPDATE learning_sessions
+    SET paused_seconds = paused_seconds + greatest(v_away, 0)
+    WHERE id = v_session.id
+    RETURNING * INTO v_session;
+  END IF;
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  RETURN to_jsonb(v_session) || jsonb_build_object(
+    'elapsed_seconds', v_elapsed - least(v_elapsed, session_hidden_seconds(v_session.id)),
+    'resumed', true
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION abandon_stale_sessions(integer) FROM public, anon;
+GRANT EXECUTE ON FUNCTION abandon_stale_sessions(integer) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION resume_session(uuid, integer) FROM public, anon;
+GRANT EXECUTE ON FUNCTION resume_session(uuid, integer) TO authenticated;
@@ -0,0 +1,63 @@
+/*
+  # Spaced-repetition review schedule
+
+  ## Overview
+  Once a subject was solved it never came back. Each learner now has an SM-2
+  style schedule per subject and per question. Learn grades every solved
+  question and every completed session from its correctness, attempts, confusion
+  and hint credit, and moves the next review date accordingly (see
+  src/lib/scheduler.ts). Dashboard lists the reviews that are due.
+
+  ## New Tables
+
+  ### `review_schedule`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Links to profiles
+  - `subject_id` (uuid) - Links to subjects
+  - `question_id` (uuid) - Links to questions; NULL for the subject as a whole
+  - `ease_factor` (numeric) - SM-2 ease factor, at least 1.3
+  - `interval_days` (integer) - Days between the last and the next review
+  - `repetitions` (integer) - Successful reviews in a row
+  - `due_at` (timestamptz) - Next review
+  - `last_quality` (integer) - Grade (0-5) of the last review
+  - `last_reviewed_at` (timestamptz)
+  - `last_session_id` (uuid) - Session of the last review
+
+  ## Security
+  - Enable RLS; learners can view, insert and update their own schedule
+*/
+
+CREATE TABLE IF NOT EXISTS review_schedule (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  subject_id uuid NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+  question_id uuid REFERENCES questions(id) ON DELETE CASCADE,
+  ease_factor numeric(4, 2) NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days integer NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  repetitions integer NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+  due_at timestamptz NOT NULL,
+  last_quality integer CHECK (last_quality BETWEEN 0 AND 5),
+  last_reviewed_at timestamptz,
+  last_session_id uuid REFERENCES learning_sessions(id) ON DELETE SET NULL,
+  UNIQUE NULLS NOT DISTINCT (user_id, subject_id, question_id)
+);
+
+ALTER TABLE review_schedule ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own review schedule"
+  ON review_schedule FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own review schedule"
+  ON review_schedule FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own review schedule"
+  ON review_schedule FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_review_schedule_due ON review_schedule(user_id, due_at);
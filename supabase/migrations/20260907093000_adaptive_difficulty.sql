@@ -0,0 +1,445 @@
+/*
+  # Adaptive question selection
+
+  ## Overview
+  Questions were always asked in position order. A session now uses a question
+  selector to pick the next unsolved question, and every top-level attempt
+  updates both the learner's ratings and the question's rating. Like confusion
+  models, selectors are versioned per subject and each session keeps the one it
+  started with.
+
+  ## Selectors
+  - `sequential` - Position order, as before
+  - `staircase` - Questions closest to the learner's level (1-5). The level steps
+    up after a first-try solve with confusion below 20 and steps down when
+    confusion on a question crosses 40.
+  - `elo` - Questions whose rating gives the learner about a 70% chance of
+    solving them
+
+  ## New Tables
+
+  ### `learner_ratings`
+  - `user_id` (uuid) - Links to profiles
+  - `subject_id` (uuid) - Links to subjects
+  - `rating` (numeric) - Elo rating, starting at 1000
+  - `level` (integer) - Staircase level, 1-5
+  - `attempts` (integer) - Attempts the ratings are based on
+  - `updated_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `questions`
+  - `rating` (numeric) - Elo difficulty rating, seeded from `difficulty`
+  - `rating_attempts` (integer) - Attempts the rating is based on
+
+  ### `subjects`
+  - `question_selector` (text) - Selector used for new sessions, default
+    `staircase`
+
+  ### `learning_sessions`
+  - `question_selector` (text) - Selector the session was started with
+
+  ## Security
+  - Enable RLS; learners can view their own ratings
+  - Ratings are only written by `submit_attempt`
+
+  ## New Functions
+  - `update_ratings(p_session_id uuid, p_attempt_id uuid)` - Elo and staircase
+    updates for one attempt
+  - `select_question(p_user_id uuid, p_subject_id uuid, p_selector text, p_session_id uuid)`
+    - Next unsolved top-level question for the selector
+
+  ## Modified Functions
+  - `learning_sessions_assign_first_question` assigns the selector and uses it
+  - `submit_attempt` updates ratings and uses the selector for the next question
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS rating numeric(7, 2) NOT NULL DEFAULT 1000,
+  ADD COLUMN IF NOT EXISTS rating_attempts integer NOT NULL DEFAULT 0;
+
+GRANT SELECT (rating) ON questions TO authenticated;
+
+UPDATE questions SET rating = 1000 + (difficulty - 3) * 100 WHERE rating_attempts = 0;
+
+ALTER TABLE subjects
+  ADD COLUMN IF NOT EXISTS question_selector text NOT NULL DEFAULT 'staircase'
+  CHECK (question_selector IN ('sequential', 'staircase', 'elo'));
+
+GRANT SELECT (question_selector) ON subjects TO authenticated;
+
+ALTER TABLE learning_sessions
+  ADD COLUMN IF NOT EXISTS question_selector text NOT NULL DEFAULT 'sequential';
+
+CREATE TABLE IF NOT EXISTS learner_ratings (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  subject_id uuid NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+  rating numeric(7, 2) NOT NULL DEFAULT 1000,
+  level integer NOT NULL DEFAULT 1 CHECK (level BETWEEN 1 AND 5),
+  attempts integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, subject_id)
+);
+
+ALTER TABLE learner_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own ratings"
+  ON learner_ratings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON learner_ratings FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION select_question(
+  p_user_id uuid,
+  p_subject_id uuid,
+  p_selector text,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH ratings AS (
+    SELECT
+      coalesce((SELECT rating FROM learner_ratings WHERE user_id = p_user_id AND subject_id = p_subject_id), 1000) AS rating,
+      coalesce((SELECT level FROM learner_ratings WHERE user_id = p_user_id AND subject_id = p_subject_id), 1) AS level
+  )
+  SELECT questions.id
+  FROM questions, ratings
+  WHERE questions.subject_id = p_subject_id
+  AND questions.parent_id IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM session_attempts
+    WHERE session_attempts.session_id = p_session_id
+    AND session_attempts.question_id = questions.id
+    AND session_attempts.is_correct
+  )
+  ORDER BY
+    CASE p_selector
+      WHEN 'staircase' THEN abs(questions.difficulty - ratings.level)
+      -- Rating at which the learner solves the question 70% of the time
+      WHEN 'elo' THEN abs(questions.rating - (ratings.rating - 400 * log(0.7 / 0.3)))
+      ELSE 0
+    END,
+    questions.position
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION update_ratings(p_session_id uuid, p_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_attempt session_attempts%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_learner learner_ratings%ROWTYPE;
+  v_previous_peak integer;
+  v_question_attempts integer;
+  v_expected numeric;
+  v_outcome numeric;
+  v_level_change integer := 0;
+BEGIN
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+  SELECT * INTO v_attempt FROM session_attempts WHERE id = p_attempt_id;
+  SELECT * INTO v_question FROM questions WHERE id = v_attempt.question_id FOR UPDATE;
+
+  INSERT INTO learner_ratings (user_id, subject_id)
+  VALUES (v_session.user_id, v_session.subject_id)
+  ON CONFLICT (user_id, subject_id) DO NOTHING;
+
+  SELECT * INTO v_learner
+  FROM learner_ratings
+  WHERE user_id = v_session.user_id
+  AND subject_id = v_session.subject_id
+  FOR UPDATE;
+
+  SELECT count(*), coalesce(max(confusion_score), 0)
+  INTO v_question_attempts, v_previous_peak
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  AND question_id = v_question.id
+  AND attempt_number < v_attempt.attempt_number;
+
+  -- Elo: the learner "plays" the question
+  v_expected := 1 / (1 + power(10, (v_question.rating - v_learner.rating) / 400));
+  v_outcome := CASE WHEN v_attempt.is_correct THEN 1 ELSE 0 END;
+
+  -- Staircase: up after a clean first-try solve, down when confusion crosses 40
+  IF v_attempt.is_correct AND v_question_attempts = 0 AND v_attempt.confusion_score < 20 THEN
+    v_level_change := 1;
+  ELSIF NOT v_attempt.is_correct AND v_attempt.confusion_score >= 40 AND v_previous_peak < 40 THEN
+    v_level_change := -1;
+  END IF;
+
+  UPDATE learner_ratings
+  SET
+    rating = rating + 24 * (v_outcome - v_expected),
+    level = greatest(1, least(5, level + v_level_change)),
+    attempts = attempts + 1,
+    updated_at = now()
+  WHERE user_id = v_session.user_id
+  AND subject_id = v_session.subject_id;
+
+  UPDATE questions
+  SET
+    rating = rating - 8 * (v_outcome - v_expected),
+    rating_attempts = rating_attempts + 1
+  WHERE id = v_question.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION learning_sessions_assign_first_question()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT question_selector INTO NEW.question_selector
+  FROM subjects
+  WHERE id = NEW.subject_id;
+
+  NEW.question_id := select_question(NEW.user_id, NEW.subject_id, NEW.question_selector);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+  p_session_id uuid,
+  p_answer jsonb,
+  p_signals jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_mapping question_misconceptions%ROWTYPE;
+  v_misconception misconceptions%ROWTYPE;
+  v_is_step boolean;
+  v_next_question_id uuid;
+  v_next_step_id uuid;
+  v_answer text;
+  v_selected_options text[];
+  v_match jsonb;
+  v_is_correct boolean;
+  v_signals jsonb;
+  v_elapsed integer;
+  v_hints_used integer := 0;
+  v_hint_count integer := 0;
+  v_attempt_id uuid;
+  v_confusion jsonb := jsonb_build_object('score', 0, 'reasons', '[]'::jsonb);
+  v_confusion_score integer := 0;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_is_step := v_session.scaffold_question_id IS NOT NULL;
+
+  SELECT * INTO v_question
+  FROM questions
+  WHERE id = coalesce(v_session.scaffold_question_id, v_session.question_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to answer' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_answer := describe_response(v_question, coalesce(p_answer, '""'::jsonb));
+
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_question.format IN ('multiple_choice', 'multi_select', 'ordering') THEN
+    IF jsonb_typeof(p_answer) = 'array' THEN
+      SELECT array_agg(value ORDER BY index) INTO v_selected_options
+      FROM jsonb_array_elements_text(p_answer) WITH ORDINALITY AS picked(value, index);
+    ELSE
+      v_selected_options := ARRAY[p_answer #>> '{}'];
+    END IF;
+  END IF;
+
+  v_match := evaluate_response(v_question, p_answer);
+  v_is_correct := (v_match->>'matched')::boolean;
+
+  IF NOT v_is_correct THEN
+    v_mapping := match_misconception(v_question, v_answer, v_selected_options);
+
+    IF v_mapping.id IS NOT NULL THEN
+      SELECT * INTO v_misconception FROM misconceptions WHERE id = v_mapping.misconception_id;
+    END IF;
+  END IF;
+
+  -- Client-reported signals are clamped so they cannot dominate the score
+  v_signals := jsonb_build_object(
+    'idle_seconds', greatest(0, least(3600, coalesce((p_signals->>'idle_seconds')::integer, 0))),
+    'deleted_chars', greatest(0, least(10000, coalesce((p_signals->>'deleted_chars')::integer, 0))),
+    'tab_away_seconds', greatest(0, least(3600, coalesce((p_signals->>'tab_away_seconds')::integer, 0)))
+  );
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  IF NOT v_is_step THEN
+    SELECT count(*) INTO v_hints_used
+    FROM hint_reveals
+    WHERE session_id = p_session_id
+    AND question_id = v_question.id;
+
+    SELECT count(*) INTO v_hint_count FROM question_hints WHERE question_id = v_question.id;
+  END IF;
+
+  INSERT INTO session_attempts (
+    session_id,
+    question_id,
+    parent_question_id,
+    attempt_number,
+    user_answer,
+    response,
+    selected_options,
+    is_correct,
+    match,
+    misconception_id,
+    hints_used,
+    credit,
+    time_from_start,
+    signals
+  )
+  VALUES (
+    p_session_id,
+    v_question.id,
+    v_question.parent_id,
+    (SELECT count(*) + 1 FROM session_attempts WHERE session_id = p_session_id),
+    v_answer,
+    p_answer,
+    v_selected_options,
+    v_is_correct,
+    v_match,
+    v_misconception.id,
+    v_hints_used,
+    CASE WHEN v_is_correct AND NOT v_is_step THEN hint_credit(v_hints_used, v_hint_count) END,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id)),
+    v_signals
+  )
+  RETURNING id INTO v_attempt_id;
+
+  IF v_is_step THEN
+    -- Steps are graded but not scored; move on to the next step or back to the question
+    IF v_is_correct THEN
+      SELECT id INTO v_next_step_id
+      FROM questions
+      WHERE parent_id = v_question.parent_id
+      AND position > v_question.position
+      ORDER BY position
+      LIMIT 1;
+
+      UPDATE learning_sessions SET scaffold_question_id = v_next_step_id WHERE id = p_session_id;
+    END IF;
+  ELSE
+    v_confusion := score_question_confusion(p_session_id, v_question.id, v_session.confusion_model);
+    v_confusion_score := (v_confusion->>'score')::integer;
+
+    UPDATE session_attempts
+    SET
+      confusion_score = v_confusion_score,
+      confusion_reasons = v_confusion->'reasons'
+    WHERE id = v_attempt_id;
+
+    PERFORM update_ratings(p_session_id, v_attempt_id);
+
+    IF v_is_correct THEN
+      v_next_question_id := select_question(
+        v_session.user_id,
+        v_session.subject_id,
+        v_session.question_selector,
+        p_session_id
+      );
+
+      IF v_next_question_id IS NOT NULL THEN
+        UPDATE learning_sessions SET question_id = v_next_question_id WHERE id = p_session_id;
+      END IF;
+    ELSE
+      -- Unlock hints as confusion rises
+      INSERT INTO hint_reveals (session_id, question_id, hint_id, source)
+      SELECT p_session_id, v_question.id, id, 'auto'
+      FROM question_hints
+      WHERE question_id = v_question.id
+      AND unlock_confusion <= v_confusion_score
+      ON CONFLICT (session_id, hint_id) DO NOTHING;
+
+      -- Break the question down once confusion reaches the help threshold
+      IF v_confusion_score >= 40 AND NOT EXISTS (
+        SELECT 1 FROM session_attempts
+        WHERE session_id = p_session_id
+        AND parent_question_id = v_question.id
+      ) THEN
+        SELECT id INTO v_next_step_id
+        FROM questions
+        WHERE parent_id = v_question.id
+        ORDER BY position
+        LIMIT 1;
+
+        IF v_next_step_id IS NOT NULL THEN
+          UPDATE learning_sessions SET scaffold_question_id = v_next_step_id WHERE id = p_session_id;
+        END IF;
+      END IF;
+
+      PERFORM refresh_session_stats(p_session_id);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE
+      WHEN v_mapping.id IS NOT NULL THEN v_mapping.feedback
+      WHEN NOT v_is_correct THEN 'Not quite right. Try again.'
+      WHEN v_is_step AND v_next_step_id IS NOT NULL THEN 'Correct! On to the next step.'
+      WHEN v_is_step THEN 'Correct! Now try the original question again.'
+      WHEN v_next_question_id IS NOT NULL THEN 'Correct! On to the next question.'
+      ELSE 'Correct! Well done.'
+    END,
+    'match', CASE WHEN v_is_correct THEN v_match ELSE v_match - 'detail' END,
+    'misconception', CASE
+      WHEN v_misconception.id IS NOT NULL THEN jsonb_build_object(
+        'id', v_misconception.id,
+        'slug', v_misconception.slug,
+        'name', v_misconception.name
+      )
+    END,
+    'credit', CASE WHEN v_is_correct AND NOT v_is_step THEN hint_credit(v_hints_used, v_hint_count) END,
+    'hints', revealed_hints(p_session_id, coalesce(v_question.parent_id, v_question.id)),
+    'question_id', v_question.id,
+    'parent_question_id', v_question.parent_id,
+    'scaffold_question_id', v_session.scaffold_question_id,
+    'next_question_id', v_next_question_id,
+    'is_completed', v_session.is_completed,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', v_confusion_score,
+    'confusion_model', v_session.confusion_model,
+    'confusion_reasons', v_confusion->'reasons',
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
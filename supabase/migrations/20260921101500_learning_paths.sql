@@ -0,0 +1,189 @@
+/*
+  # Prerequisites and learning paths
+
+  ## Overview
+  Subjects were a flat list. Subjects can now require other subjects, and named
+  learning paths order subjects into a route through the material. Dashboard
+  shows which subjects are unlocked (every prerequisite completed at least once)
+  and recommends revisiting a prerequisite when confusion on a subject suggests
+  a gap in what it builds on.
+
+  Two introductory subjects are added so the seeded subjects have something to
+  build on: arrays before binary search, and keys and dependencies before
+  normalization.
+
+  ## New Tables
+
+  ### `subject_prerequisites`
+  - `subject_id` (uuid) - Links to subjects
+  - `prerequisite_id` (uuid) - Subject that should be completed first
+
+  ### `learning_paths`
+  - `id` (uuid, primary key)
+  - `slug` (text, unique)
+  - `name` (text)
+  - `description` (text)
+  - `created_at` (timestamptz)
+
+  ### `learning_path_subjects`
+  - `path_id` (uuid) - Links to learning_paths
+  - `subject_id` (uuid) - Links to subjects
+  - `position` (integer) - Order within the path
+
+  ## Security
+  - Enable RLS; all three tables are readable by authenticated users
+*/
+
+CREATE TABLE IF NOT EXISTS subject_prerequisites (
+  subject_id uuid NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+  prerequisite_id uuid NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+  PRIMARY KEY (subject_id, prerequisite_id),
+  CHECK (subject_id <> prerequisite_id)
+);
+
+ALTER TABLE subject_prerequisites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view subject prerequisites"
+  ON subject_prerequisites FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TABLE IF NOT EXISTS learning_paths (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text UNIQUE NOT NULL,
+  name text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE learning_paths ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view learning paths"
+  ON learning_paths FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TABLE IF NOT EXISTS learning_path_subjects (
+  path_id uuid NOT NULL REFERENCES learning_paths(id) ON DELETE CASCADE,
+  subject_id uuid NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  PRIMARY KEY (path_id, subject_id),
+  UNIQUE (path_id, position)
+);
+
+ALTER TABLE learning_path_subjects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view learning path subjects"
+  ON learning_path_subjects FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Introductory subjects
+INSERT INTO subjects (name, slug, title, description, ai_help_text, video_search_query)
+VALUES
+  (
+    'Arrays',
+    'arrays',
+    'Array Indexing',
+    'Find your way around an array before searching it',
+    'Array positions are counted from 0: the first element is at index 0 and the last one at length - 1.',
+    'array indexing zero based explained'
+  ),
+  (
+    'Database Keys',
+    'dbms_keys',
+    'Keys and Functional Dependencies',
+    'Learn what identifies a row and which columns depend on which',
+    'A key is the smallest set of columns that identifies a row. A column depends on a key when knowing the key fixes its value.',
+    'primary key composite key functional dependency explained'
+  )
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO questions (subject_id, position, difficulty, rating, format, question, data, options, correct_answer, answer_key, answer_spec)
+SELECT subjects.id, q.position, q.difficulty, 1000 + (q.difficulty - 3) * 100, q.format, q.question, q.data, q.options::jsonb, q.correct_answer, q.answer_key::jsonb, q.answer_spec::jsonb
+FROM subjects
+JOIN (
+  VALUES
+    (
+      'arrays',
+      1,
+      1,
+      'free_text',
+      'What is the index of the first element of this array?',
+      '[4, 8, 15, 16, 23, 42]',
+      '[]',
+      '0',
+      NULL,
+      '{"numeric": {"value": 0, "tolerance": 0}}'
+    ),
+    (
+      'arrays',
+      2,
+      2,
+      'free_text',
+      'What is the index of 23 in this array?',
+      '[4, 8, 15, 16, 23, 42]',
+      '[]',
+      '4',
+      NULL,
+      '{"numeric": {"value": 4, "tolerance": 0}}'
+    ),
+    (
+      'dbms_keys',
+      1,
+      1,
+      'multiple_choice',
+      'Which columns uniquely identify a row of this table?',
+      'enrollments(student_id, course_id, student_name, grade); a student takes many courses.',
+      '[{"id": "student_id", "label": "student_id"}, {"id": "composite", "label": "(student_id, course_id)"}, {"id": "student_name", "label": "student_name"}]',
+      '(student_id, course_id)',
+      '"composite"',
+      NULL
+    ),
+    (
+      'dbms_keys',
+      2,
+      2,
+      'multiple_choice',
+      'Which column does student_name depend on?',
+      'enrollments(student_id, course_id, student_name, grade); a student takes many courses.',
+      '[{"id": "student_id", "label": "student_id"}, {"id": "course_id", "label": "course_id"}, {"id": "grade", "label": "grade"}]',
+      'student_id',
+      '"student_id"',
+      NULL
+    )
+) AS q(slug, position, difficulty, format, question, data, options, correct_answer, answer_key, answer_spec)
+  ON q.slug = subjects.slug
+ON CONFLICT DO NOTHING;
+
+INSERT INTO subject_prerequisites (subject_id, prerequisite_id)
+SELECT subjects.id, prerequisites.id
+FROM (
+  VALUES
+    ('data_structures', 'arrays'),
+    ('dbms', 'dbms_keys')
+) AS p(subject_slug, prerequisite_slug)
+JOIN subjects ON subjects.slug = p.subject_slug
+JOIN subjects AS prerequisites ON prerequisites.slug = p.prerequisite_slug
+ON CONFLICT DO NOTHING;
+
+INSERT INTO learning_paths (slug, name, description)
+VALUES
+  ('searching', 'Searching', 'From array indexing to binary search'),
+  ('database_design', 'Database Design', 'From keys and dependencies to normal forms'),
+  ('mechanics', 'Mechanics', 'The laws of motion')
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO learning_path_subjects (path_id, subject_id, position)
+SELECT learning_paths.id, subjects.id, ps.position
+FROM (
+  VALUES
+    ('searching', 'arrays', 1),
+    ('searching', 'data_structures', 2),
+    ('database_design', 'dbms_keys', 1),
+    ('database_design', 'dbms', 2),
+    ('mechanics', 'newtons_laws', 1)
+) AS ps(path_slug, subject_slug, position)
+JOIN learning_paths ON learning_paths.slug = ps.path_slug
+JOIN subjects ON subjects.slug = ps.subject_slug
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,181 @@
+/*
+  # Whole-history learner analytics
+
+  ## Overview
+  Dashboard worked its totals out from the five most recent sessions, so they
+  were wrong for anyone with a longer history. These views aggregate the whole
+  history per learner, per subject and over time. All of them run with the
+  caller's permissions, so learners only ever see their own rows.
+
+  ## New Views
+
+  ### `learner_solve_times`
+  One row per question solved outside a scaffold step (`user_id`, `subject_id`,
+  `session_id`, `question_id`, `solved_at`, `seconds_to_correct`, `attempts`,
+  `hints_used`). `seconds_to_correct` runs from reaching the question to the
+  correct answer, excluding time the page was hidden.
+
+  ### `learner_subject_stats`
+  Per learner and subject: `session_count`, `completed_count`, `attempt_count`,
+  `avg_confusion`, `total_time`, `questions_solved`, `hint_usage_rate` (share of
+  solved questions that needed at least one hint) and `last_attempt_at`
+
+  ### `learner_overall_stats`
+  The same figures per learner across all subjects
+
+  ### `learner_confusion_trend`
+  Per learner and day: `session_count` and `avg_confusion`
+
+  ### `learner_time_to_correct`
+  Per learner: solved questions bucketed by `seconds_to_correct` (`bucket`,
+  `bucket_order`, `questions`)
+*/
+
+CREATE OR REPLACE VIEW learner_solve_times
+WITH (security_invoker = true)
+AS
+  SELECT
+    learning_sessions.user_id,
+    learning_sessions.subject_id,
+    session_attempts.session_id,
+    session_attempts.question_id,
+    session_attempts.created_at AS solved_at,
+    greatest(
+      0,
+      session_attempts.time_from_start
+        - question_started_at(session_attempts.session_id, session_attempts.question_id)
+    ) AS seconds_to_correct,
+    (
+      SELECT count(*)::integer
+      FROM session_attempts AS previous
+      WHERE previous.session_id = session_attempts.session_id
+      AND previous.question_id = session_attempts.question_id
+    ) AS attempts,
+    session_attempts.hints_used
+  FROM session_attempts
+  JOIN learning_sessions ON learning_sessions.id = session_attempts.session_id
+  WHERE session_attempts.is_correct
+  AND session_attempts.parent_question_id IS NULL;
+
+GRANT SELECT ON learner_solve_times TO authenticated;
+
+CREATE OR REPLACE VIEW learner_subject_stats
+WITH (security_invoker = true)
+AS
+  SELECT
+    sessions.user_id,
+    sessions.subject_id,
+    sessions.session_count,
+    sessions.completed_count,
+    sessions.attempt_count,
+    sessions.avg_confusion,
+    sessions.total_time,
+    coalesce(solved.questions_solved, 0) AS questions_solved,
+    coalesce(solved.hint_usage_rate, 0) AS hint_usage_rate,
+    sessions.last_attempt_at
+  FROM (
+    SELECT
+      user_id,
+      subject_id,
+      count(*)::integer AS session_count,
+      count(*) FILTER (WHERE is_completed)::integer AS completed_count,
+      coalesce(sum(attempts), 0)::integer AS attempt_count,
+      round(avg(confusion_score))::integer AS avg_confusion,
+      coalesce(sum(time_spent), 0)::integer AS total_time,
+      max(created_at) AS last_attempt_at
+    FROM learning_sessions
+    GROUP BY user_id, subject_id
+  ) AS sessions
+  LEFT JOIN (
+    SELECT
+      user_id,
+      subject_id,
+      count(*)::integer AS questions_solved,
+      round(avg(CASE WHEN hints_used > 0 THEN 1 ELSE 0 END), 2) AS hint_usage_rate
+    FROM learner_solve_times
+    GROUP BY user_id, subject_id
+  ) AS solved
+    ON solved.user_id = sessions.user_id
+    AND solved.subject_id = sessions.subject_id;
+
+GRANT SELECT ON learner_subject_stats TO authenticated;
+
+CREATE OR REPLACE VIEW learner_overall_stats
+WITH (security_invoker = true)
+AS
+  SELECT
+    sessions.user_id,
+    sessions.session_count,
+    sessions.completed_count,
+    sessions.attempt_count,
+    sessions.avg_confusion,
+    sessions.total_time,
+    coalesce(solved.questions_solved, 0) AS questions_solved,
+    coalesce(solved.hint_usage_rate, 0) AS hint_usage_rate,
+    sessions.last_attempt_at
+  FROM (
+    SELECT
+      user_id,
+      count(*)::integer AS session_count,
+      count(*) FILTER (WHERE is_completed)::integer AS completed_count,
+      coalesce(sum(attempts), 0)::integer AS attempt_count,
+      round(avg(confusion_score))::integer AS avg_confusion,
+      coalesce(sum(time_spent), 0)::integer AS total_time,
+      max(created_at) AS last_attempt_at
+    FROM learning_sessions
+    GROUP BY user_id
+  ) AS sessions
+  LEFT JOIN (
+    SELECT
+      user_id,
+      count(*)::integer AS questions_solved,
+      round(avg(CASE WHEN hints_used > 0 THEN 1 ELSE 0 END), 2) AS hint_usage_rate
+    FROM learner_solve_times
+    GROUP BY user_id
+  ) AS solved
+    ON solved.user_id = sessions.user_id;
+
+GRANT SELECT ON learner_overall_stats TO authenticated;
+
+CREATE OR REPLACE VIEW learner_confusion_trend
+WITH (security_invoker = true)
+AS
+  SELECT
+    user_id,
+    created_at::date AS day,
+    count(*)::integer AS session_count,
+    round(avg(confusion_score))::integer AS avg_confusion
+  FROM learning_sessions
+  GROUP BY user_id, created_at::date;
+
+GRANT SELECT ON learner_confusion_trend TO authenticated;
+
+CREATE OR REPLACE VIEW learner_time_to_correct
+WITH (security_invoker = true)
+AS
+  SELECT
+    user_id,
+    buckets.bucket,
+    buckets.bucket_order,
+    count(*)::integer AS questions
+  FROM learner_solve_times
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE
+        WHEN seconds_to_correct < 30 THEN 'Under 30s'
+        WHEN seconds_to_correct < 60 THEN '30s to 1m'
+        WHEN seconds_to_correct < 120 THEN '1 to 2m'
+        WHEN seconds_to_correct < 300 THEN '2 to 5m'
+        ELSE 'Over 5m'
+      END AS bucket,
+      CASE
+        WHEN seconds_to_correct < 30 THEN 1
+        WHEN seconds_to_correct < 60 THEN 2
+        WHEN seconds_to_correct < 120 THEN 3
+        WHEN seconds_to_correct < 300 THEN 4
+        ELSE 5
+      END AS bucket_order
+  ) AS buckets
+  GROUP BY user_id, buckets.bucket, buckets.bucket_order;
+
+GRANT SELECT ON learner_time_to_correct TO authenticated;
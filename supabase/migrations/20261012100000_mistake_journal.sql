@@ -0,0 +1,351 @@
+/*
+  # Mistake journal and focused retry sessions
+
+  ## Overview
+  Wrong answers were only visible while a session was open. The mistake journal
+  collects them across subjects, one entry per question and misconception, with
+  what the learner answered and the reasoning behind the right answer. An entry
+  leaves the journal once the learner answers the question correctly in two
+  separate sessions started after the latest wrong answer.
+
+  "Retry now" starts a focused session: a session on a single question that
+  completes as soon as that question is solved.
+
+  ## Modified Tables
+
+  ### `learning_sessions`
+  - `focus_question_id` (uuid) - The only question of a focused retry session
+
+  ## New Functions
+
+  ### `mistake_journal()`
+  The caller's open journal entries as a jsonb array, newest first. Each entry
+  has the subject, question and misconception, the wrong `answers`,
+  `correct_sessions` (later sessions with a correct answer, out of 2), the cached
+  tutor `explanation` for the mistake and, once the learner has solved the
+  question at least once, its `worked_example` hint.
+
+  ## Modified Functions
+  - `resume_session` takes an optional `p_question_id`; with it, the caller's
+    open focused session on that question is resumed or a new one is started.
+    Without it, focused sessions are never resumed.
+  - `learning_sessions_assign_first_question` starts focused sessions on their
+    question
+  - `select_question` has no next question for focused sessions
+  - `refresh_session_stats` completes focused sessions once their question is
+    solved
+*/
+
+ALTER TABLE learning_sessions
+  ADD COLUMN IF NOT EXISTS focus_question_id uuid REFERENCES questions(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION learning_sessions_assign_first_question()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT question_selector INTO NEW.question_selector
+  FROM subjects
+  WHERE id = NEW.subject_id;
+
+  NEW.question_id := coalesce(
+    NEW.focus_question_id,
+    select_question(NEW.user_id, NEW.subject_id, NEW.question_selector)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION select_question(
+  p_user_id uuid,
+  p_subject_id uuid,
+  p_selector text,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH ratings AS (
+    SELECT
+      coalesce((SELECT rating FROM learner_ratings WHERE user_id = p_user_id AND subject_id = p_subject_id), 1000) AS rating,
+      coalesce((SELECT level FROM learner_ratings WHERE user_id = p_user_id AND subject_id = p_subject_id), 1) AS level
+  )
+  SELECT questions.id
+  FROM questions, ratings
+  WHERE questions.subject_id = p_subject_id
+  AND questions.parent_id IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM session_attempts
+    WHERE session_attempts.session_id = p_session_id
+    AND session_attempts.question_id = questions.id
+    AND session_attempts.is_correct
+  )
+  -- Focused sessions end with their question
+  AND NOT EXISTS (
+    SELECT 1 FROM learning_sessions
+    WHERE learning_sessions.id = p_session_id
+    AND learning_sessions.focus_question_id IS NOT NULL
+  )
+  ORDER BY
+    CASE p_selector
+      WHEN 'staircase' THEN abs(questions.difficulty - ratings.level)
+      -- Rating at which the learner solves the question 70% of the time
+      WHEN 'elo' THEN abs(questions.rating - (ratings.rating - 400 * log(0.7 / 0.3)))
+      ELSE 0
+    END,
+    questions.position
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_session_stats(p_session_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subject_id uuid;
+  v_focus_question_id uuid;
+  v_attempts integer;
+  v_time_spent integer;
+  v_question_count integer;
+  v_solved_count integer;
+  v_last_correct_at timestamptz;
+  v_credit numeric;
+  v_hints_used integer;
+  v_peak session_attempts%ROWTYPE;
+BEGIN
+  SELECT subject_id, focus_question_id INTO v_subject_id, v_focus_question_id
+  FROM learning_sessions
+  WHERE id = p_session_id;
+
+  SELECT
+    count(*) FILTER (WHERE parent_question_id IS NULL),
+    coalesce(max(time_from_start), 0),
+    count(DISTINCT question_id) FILTER (WHERE is_correct AND parent_question_id IS NULL),
+    max(created_at) FILTER (WHERE is_correct AND parent_question_id IS NULL),
+    avg(credit) FILTER (WHERE is_correct AND parent_question_id IS NULL)
+  INTO v_attempts, v_time_spent, v_solved_count, v_last_correct_at, v_credit
+  FROM session_attempts
+  WHERE session_id = p_session_id;
+
+  IF v_focus_question_id IS NOT NULL THEN
+    v_question_count := 1;
+  ELSE
+    SELECT count(*) INTO v_question_count
+    FROM questions
+    WHERE subject_id = v_subject_id
+    AND parent_id IS NULL;
+  END IF;
+
+  SELECT count(*) INTO v_hints_used FROM hint_reveals WHERE session_id = p_session_id;
+
+  SELECT * INTO v_peak
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  AND parent_question_id IS NULL
+  ORDER BY confusion_score DESC, attempt_number DESC
+  LIMIT 1;
+
+  UPDATE learning_sessions
+  SET
+    attempts = v_attempts,
+    time_spent = v_time_spent,
+    confusion_score = coalesce(v_peak.confusion_score, 0),
+    confusion_reasons = coalesce(v_peak.confusion_reasons, '[]'::jsonb),
+    is_completed = v_question_count > 0 AND v_solved_count >= v_question_count,
+    end_time = CASE WHEN v_question_count > 0 AND v_solved_count >= v_question_count THEN v_last_correct_at END,
+    ai_help_shown = ai_help_shown OR v_hints_used > 0 OR coalesce(v_peak.confusion_score, 0) >= 40,
+    hints_used = v_hints_used,
+    credit = round(v_credit, 2)
+  WHERE id = p_session_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS resume_session(uuid, integer);
+
+CREATE OR REPLACE FUNCTION resume_session(
+  p_subject_id uuid,
+  p_stale_minutes integer DEFAULT 120,
+  p_question_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_last_visibility text;
+  v_away integer;
+  v_elapsed integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_question_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM questions
+    WHERE id = p_question_id
+    AND subject_id = p_subject_id
+    AND parent_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Question not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM abandon_stale_sessions(p_stale_minutes);
+
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE user_id = auth.uid()
+  AND subject_id = p_subject_id
+  AND focus_question_id IS NOT DISTINCT FROM p_question_id
+  AND NOT is_completed
+  AND abandoned_at IS NULL
+  ORDER BY start_time DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO learning_sessions (user_id, subject_id, focus_question_id)
+    VALUES (auth.uid(), p_subject_id, p_question_id)
+    RETURNING * INTO v_session;
+
+    RETURN to_jsonb(v_session) || jsonb_build_object('elapsed_seconds', 0, 'resumed', false);
+  END IF;
+
+  SELECT event_type INTO v_last_visibility
+  FROM session_events
+  WHERE session_id = v_session.id
+  AND event_type IN ('visibility_hidden', 'visibility_visible')
+  ORDER BY occurred_at DESC
+  LIMIT 1;
+
+  IF v_last_visibility = 'visibility_hidden' THEN
+    -- The page was closed while hidden; the hidden interval already covers the gap
+    INSERT INTO session_events (session_id, event_type, payload, seconds_from_start, occurred_at)
+    VALUES (v_session.id, 'visibility_visible', jsonb_build_object('hidden_seconds', 0, 'resumed', true), 0, now());
+  ELSE
+    v_away := floor(extract(epoch FROM now() - session_last_activity(v_session.id)))::integer;
+
+    UPDATE learning_sessions
+    SET paused_seconds = paused_seconds + greatest(v_away, 0)
+    WHERE id = v_session.id
+    RETURNING * INTO v_session;
+  END IF;
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  RETURN to_jsonb(v_session) || jsonb_build_object(
+    'elapsed_seconds', v_elapsed - least(v_elapsed, session_hidden_seconds(v_session.id)),
+    'resumed', true
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resume_session(uuid, integer, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION resume_session(uuid, integer, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION mistake_journal()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH wrong AS (
+    SELECT
+      learning_sessions.subject_id,
+      session_attempts.question_id,
+      session_attempts.misconception_id,
+      jsonb_agg(
+        jsonb_build_object(
+          'answer', session_attempts.user_answer,
+          'session_id', session_attempts.session_id,
+          'answered_at', session_attempts.created_at
+        )
+        ORDER BY session_attempts.created_at
+      ) AS answers,
+      max(session_attempts.created_at) AS last_wrong_at
+    FROM session_attempts
+    JOIN learning_sessions ON learning_sessions.id = session_attempts.session_id
+    WHERE learning_sessions.user_id = auth.uid()
+    AND NOT session_attempts.is_correct
+    AND session_attempts.parent_question_id IS NULL
+    AND session_attempts.question_id IS NOT NULL
+    GROUP BY learning_sessions.subject_id, session_attempts.question_id, session_attempts.misconception_id
+  ),
+  entries AS (
+    SELECT
+      wrong.*,
+      (
+        SELECT count(DISTINCT session_attempts.session_id)::integer
+        FROM session_attempts
+        JOIN learning_sessions ON learning_sessions.id = session_attempts.session_id
+        WHERE learning_sessions.user_id = auth.uid()
+        AND learning_sessions.start_time > wrong.last_wrong_at
+        AND session_attempts.question_id = wrong.question_id
+        AND session_attempts.is_correct
+      ) AS correct_sessions,
+      EXISTS (
+        SELECT 1
+        FROM session_attempts
+        JOIN learning_sessions ON learning_sessions.id = session_attempts.session_id
+        WHERE learning_sessions.user_id = auth.uid()
+        AND session_attempts.question_id = wrong.question_id
+        AND session_attempts.is_correct
+      ) AS ever_solved
+    FROM wrong
+  )
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'subject_id', entries.subject_id,
+        'question_id', entries.question_id,
+        'question', questions.question,
+        'data', questions.data,
+        'misconception', CASE
+          WHEN misconceptions.id IS NOT NULL THEN jsonb_build_object(
+            'id', misconceptions.id,
+            'name', misconceptions.name,
+            'description', misconceptions.description
+          )
+        END,
+        'answers', entries.answers,
+        'last_wrong_at', entries.last_wrong_at,
+        'correct_sessions', entries.correct_sessions,
+        'explanation', (
+          SELECT body
+          FROM tutor_explanations
+          WHERE question_id = entries.question_id
+          AND misconception_id IS NOT DISTINCT FROM entries.misconception_id
+          ORDER BY created_at DESC
+          LIMIT 1
+        ),
+        'worked_example', CASE
+          WHEN entries.ever_solved THEN (
+            SELECT body
+            FROM question_hints
+            WHERE question_id = entries.question_id
+            ORDER BY (level = 'worked_example') DESC, position DESC
+            LIMIT 1
+          )
+        END
+      )
+      ORDER BY entries.last_wrong_at DESC
+    ),
+    '[]'::jsonb
+  )
+  FROM entries
+  JOIN questions ON questions.id = entries.question_id
+  LEFT JOIN misconceptions ON misconceptions.id = entries.misconception_id
+  WHERE entries.correct_sessions < 2;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mistake_journal() FROM public, anon;
+GRANT EXECUTE ON FUNCTION mistake_journal() TO authenticated;
@@ -0,0 +1,234 @@
+/*
+  # Instructors and classrooms
+
+  ## Overview
+  Every user was a learner who could only see their own data. Profiles now have
+  a role, instructors create classrooms that learners join with a join code, and
+  instructors can read the sessions and attempts of the learners in their
+  classrooms. The learner analytics views run with the caller's permissions, so
+  they return the whole class for its instructor.
+
+  Roles are not self-service: `role` is not in the columns learners may write,
+  so instructors are promoted by an administrator.
+
+  ## Modified Tables
+
+  ### `profiles`
+  - `role` (text) - `learner` (default) or `instructor`
+
+  ## New Tables
+
+  ### `classrooms`
+  - `id` (uuid, primary key)
+  - `instructor_id` (uuid) - Links to profiles
+  - `name` (text)
+  - `join_code` (text, unique) - Code learners enter to join
+  - `created_at` (timestamptz)
+
+  ### `classroom_members`
+  - `classroom_id` (uuid) - Links to classrooms
+  - `user_id` (uuid) - Links to profiles
+  - `joined_at` (timestamptz)
+
+  ## Security
+  - Instructors can create, view, rename and delete their own classrooms
+  - Learners can view the classrooms they belong to and leave them; they join
+    through `join_classroom`
+  - Instructors can view the profiles, sessions and attempts of their students
+
+  ## New Functions
+
+  ### `is_instructor_of(p_user_id uuid)`
+  Whether the caller teaches a classroom the user belongs to
+
+  ### `is_member_of(p_classroom_id uuid)`
+  Whether the caller belongs to the classroom
+
+  ### `join_classroom(p_join_code text)`
+  Adds the caller to the classroom with that join code and returns it
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'learner'
+    CHECK (role IN ('learner', 'instructor'));
+
+CREATE TABLE IF NOT EXISTS classrooms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  instructor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(name) BETWEEN 1 AND 200),
+  join_code text UNIQUE NOT NULL DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 8)),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_classrooms_instructor_id ON classrooms(instructor_id);
+
+CREATE TABLE IF NOT EXISTS classroom_members (
+  classroom_id uuid NOT NULL REFERENCES classrooms(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  joined_at timestamptz DEFAULT now(),
+  PRIMARY KEY (classroom_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classroom_members_user_id ON classroom_members(user_id);
+
+-- SECURITY DEFINER so the policies below do not recurse through classroom RLS
+CREATE OR REPLACE FUNCTION is_instructor_of(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM classroom_members
+    JOIN classrooms ON classrooms.id = classroom_members.classroom_id
+    WHERE classroom_members.user_id = p_user_id
+    AND classrooms.instructor_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_member_of(p_classroom_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM classroom_members
+    WHERE classroom_id = p_classroom_id
+    AND user_id = auth.uid()
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_instructor_of(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION is_instructor_of(uuid) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION is_member_of(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION is_member_of(uuid) TO authenticated;
+
+ALTER TABLE classrooms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can view own classrooms"
+  ON classrooms FOR SELECT
+  TO authenticated
+  USING (instructor_id = auth.uid());
+
+CREATE POLICY "Members can view their classrooms"
+  ON classrooms FOR SELECT
+  TO authenticated
+  USING (is_member_of(id));
+
+CREATE POLICY "Instructors can create classrooms"
+  ON classrooms FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    instructor_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'instructor')
+  );
+
+CREATE POLICY "Instructors can update own classrooms"
+  ON classrooms FOR UPDATE
+  TO authenticated
+  USING (instructor_id = auth.uid())
+  WITH CHECK (instructor_id = auth.uid());
+
+CREATE POLICY "Instructors can delete own classrooms"
+  ON classrooms FOR DELETE
+  TO authenticated
+  USING (instructor_id = auth.uid());
+
+REVOKE UPDATE ON classrooms FROM anon, authenticated;
+GRANT UPDATE (name) ON classrooms TO authenticated;
+
+ALTER TABLE classroom_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own memberships"
+  ON classroom_members FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Instructors can view their classroom members"
+  ON classroom_members FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM classrooms
+      WHERE classrooms.id = classroom_members.classroom_id
+      AND classrooms.instructor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can leave classrooms"
+  ON classroom_members FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Instructors can remove members"
+  ON classroom_members FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM classrooms
+      WHERE classrooms.id = classroom_members.classroom_id
+      AND classrooms.instructor_id = auth.uid()
+    )
+  );
+
+REVOKE INSERT, UPDATE ON classroom_members FROM anon, authenticated;
+
+-- Instructors can read their students' data
+CREATE POLICY "Instructors can view their students' profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (is_instructor_of(id));
+
+CREATE POLICY "Instructors can view their students' sessions"
+  ON learning_sessions FOR SELECT
+  TO authenticated
+  USING (is_instructor_of(user_id));
+
+CREATE POLICY "Instructors can view their students' session attempts"
+  ON session_attempts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM learning_sessions
+      WHERE learning_sessions.id = session_attempts.session_id
+      AND is_instructor_of(learning_sessions.user_id)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION join_classroom(p_join_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_classroom classrooms%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_classroom
+  FROM classrooms
+  WHERE join_code = upper(trim(coalesce(p_join_code, '')));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Classroom not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO classroom_members (classroom_id, user_id)
+  VALUES (v_classroom.id, auth.uid())
+  ON CONFLICT (classroom_id, user_id) DO NOTHING;
+
+  RETURN to_jsonb(v_classroom);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION join_classroom(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION join_classroom(text) TO authenticated;
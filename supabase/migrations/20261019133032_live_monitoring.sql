@@ -0,0 +1,95 @@
+/*
+  # Live classroom monitoring and nudges
+
+  ## Overview
+  The heatmap only shows how a class did after the fact. Session and attempt
+  changes are now published over Supabase realtime, so the instructor view can
+  follow its classroom live and flag students whose confusion just crossed the
+  help threshold. Instructors can send those students a nudge or a hint, which
+  appears on their Learn page as soon as it is sent.
+
+  Realtime applies the same RLS as a select, so instructors only receive
+  changes for their own students and learners only their own.
+
+  ## New Tables
+
+  ### `classroom_nudges`
+  - `id` (uuid, primary key)
+  - `classroom_id` (uuid) - Links to classrooms
+  - `instructor_id` (uuid) - Sender, links to profiles
+  - `user_id` (uuid) - Student, links to profiles
+  - `session_id` (uuid) - Session the student was in, if any
+  - `kind` (text) - `nudge` (encouragement) or `hint` (content help)
+  - `body` (text)
+  - `created_at` (timestamptz)
+  - `read_at` (timestamptz) - When the student dismissed it
+
+  ## Security
+  - Instructors can send nudges to members of their own classrooms and view
+    what they sent
+  - Students can view their nudges and mark them read
+
+  ## Realtime
+  - `learning_sessions`, `session_attempts` and `classroom_nudges` are added to
+    the `supabase_realtime` publication
+*/
+
+CREATE TABLE IF NOT EXISTS classroom_nudges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  classroom_id uuid NOT NULL REFERENCES classrooms(id) ON DELETE CASCADE,
+  instructor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  session_id uuid REFERENCES learning_sessions(id) ON DELETE SET NULL,
+  kind text NOT NULL DEFAULT 'nudge' CHECK (kind IN ('nudge', 'hint')),
+  body text NOT NULL CHECK (length(body) BETWEEN 1 AND 1000),
+  created_at timestamptz DEFAULT now(),
+  read_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_classroom_nudges_user_id ON classroom_nudges(user_id, created_at);
+
+ALTER TABLE classroom_nudges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view own nudges"
+  ON classroom_nudges FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Students can mark own nudges read"
+  ON classroom_nudges FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Instructors can view sent nudges"
+  ON classroom_nudges FOR SELECT
+  TO authenticated
+  USING (instructor_id = auth.uid());
+
+CREATE POLICY "Instructors can nudge their classroom members"
+  ON classroom_nudges FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    instructor_id = auth.uid()
+    AND EXISTS (
+      SELECT 1
+      FROM classrooms
+      JOIN classroom_members ON classroom_members.classroom_id = classrooms.id
+      WHERE classrooms.id = classroom_nudges.classroom_id
+      AND classrooms.instructor_id = auth.uid()
+      AND classroom_members.user_id = classroom_nudges.user_id
+    )
+    AND (
+      session_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM learning_sessions
+        WHERE learning_sessions.id = classroom_nudges.session_id
+        AND learning_sessions.user_id = classroom_nudges.user_id
+      )
+    )
+  );
+
+REVOKE UPDATE ON classroom_nudges FROM anon, authenticated;
+GRANT UPDATE (read_at) ON classroom_nudges TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE learning_sessions, session_attempts, classroom_nudges;
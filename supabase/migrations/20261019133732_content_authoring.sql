@@ -0,0 +1,607 @@
+/*
+  # Content authoring
+
+  ## Overview
+  Subjects and questions could only be added with SQL. Authors can now create and
+  edit them in the app. Edits are saved as draft revisions that only authors can
+  see, and publishing a draft copies it onto the live subject or question. Every
+  published revision is kept, and sessions and attempts record the revision they
+  ran against, so editing a question does not rewrite what earlier learners
+  answered.
+
+  New subjects stay hidden from learners until their first publish.
+
+  ## Modified Tables
+
+  ### `profiles`
+  - `role` accepts `author`
+
+  ### `subjects`
+  - `published_at` (timestamptz) - First publish; NULL while the subject is
+    hidden from learners
+  - `revision_id` (uuid) - Published revision currently live
+
+  ### `questions`
+  - `revision_id` (uuid) - Published revision currently live
+
+  ### `learning_sessions`
+  - `subject_revision_id` (uuid) - Subject revision live when the session started
+
+  ### `session_attempts`
+  - `question_revision_id` (uuid) - Question revision the attempt answered
+
+  ## New Tables
+
+  ### `subject_revisions`
+  - `id` (uuid, primary key)
+  - `subject_id` (uuid) - Links to subjects
+  - `revision` (integer) - 1, 2, ... in publish order; NULL for the draft
+  - `name`, `title`, `description`, `ai_help_text`, `video_search_query` (text) -
+    As on `subjects`
+  - `created_by` (uuid) - Links to profiles
+  - `created_at`, `updated_at` (timestamptz)
+  - `published_at` (timestamptz) - NULL for the draft
+
+  ### `question_revisions`
+  - `id` (uuid, primary key)
+  - `question_id` (uuid) - Links to questions; NULL until a new question is first
+    published
+  - `subject_id` (uuid) - Links to subjects
+  - `parent_id` (uuid) - As on `questions`, for scaffold steps
+  - `revision` (integer) - 1, 2, ... in publish order; NULL for the draft
+  - `difficulty`, `format`, `question`, `data`, `options`, `correct_answer`,
+    `answer_key`, `answer_spec` - As on `questions`
+  - `hints` (jsonb) - The hint ladder, `[{ level, body, unlock_confusion }]`
+  - `created_by` (uuid) - Links to profiles
+  - `created_at`, `updated_at` (timestamptz)
+  - `published_at` (timestamptz) - NULL for the draft
+
+  Each subject and question has at most one draft. Existing content is recorded
+  as revision 1.
+
+  ## Security
+  - Learners only see published subjects; authors see all of them
+  - Revisions hold answers, so only authors can read them
+  - Authors can create, edit and delete drafts; published revisions are read-only
+  - Live subjects, questions and hints are only written by the functions below
+
+  ## New Functions
+
+  ### `is_author()`
+  Whether the caller is an author
+
+  ### `create_subject(p_slug text, p_name text)`
+  Creates a hidden subject with an empty draft and returns the subject
+
+  ### `publish_subject_revision(p_revision_id uuid)`
+  Publishes a subject draft and returns the subject. A subject needs a published
+  question before its first publish.
+
+  ### `publish_question_revision(p_revision_id uuid)`
+  Validates and publishes a question draft, adding new questions at the end of
+  the subject, and returns the revision. Hints are updated in place by position,
+  so reveal logs of earlier sessions keep pointing at the same rung of the
+  ladder; rungs beyond the new ladder are removed along with their reveals.
+*/
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('learner', 'instructor', 'author'));
+
+CREATE OR REPLACE FUNCTION is_author()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'author'
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_author() FROM public, anon;
+GRANT EXECUTE ON FUNCTION is_author() TO authenticated;
+
+-- Revisions
+CREATE TABLE IF NOT EXISTS subject_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_id uuid NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+  revision integer,
+  name text NOT NULL DEFAULT '',
+  title text NOT NULL DEFAULT '',
+  description text,
+  ai_help_text text NOT NULL DEFAULT '',
+  video_search_query text NOT NULL DEFAULT '',
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  published_at timestamptz,
+  UNIQUE (subject_id, revision),
+  CHECK ((revision IS NULL) = (published_at IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS subject_revisions_draft_key
+  ON subject_revisions(subject_id) WHERE published_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS question_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id uuid REFERENCES questions(id) ON DELETE CASCADE,
+  subject_id uuid NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES questions(id) ON DELETE CASCADE,
+  revision integer,
+  difficulty smallint NOT NULL DEFAULT 3 CHECK (difficulty BETWEEN 1 AND 5),
+  format text NOT NULL DEFAULT 'free_text'
+    CHECK (format IN ('free_text', 'multiple_choice', 'multi_select', 'ordering', 'fill_blank')),
+  question text NOT NULL DEFAULT '',
+  data text NOT NULL DEFAULT '',
+  options jsonb NOT NULL DEFAULT '[]'::jsonb,
+  correct_answer text NOT NULL DEFAULT '',
+  answer_key jsonb,
+  answer_spec jsonb,
+  hints jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(hints) = 'array'),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  published_at timestamptz,
+  UNIQUE (question_id, revision),
+  CHECK ((revision IS NULL) = (published_at IS NULL)),
+  CHECK (published_at IS NULL OR question_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS question_revisions_draft_key
+  ON question_revisions(question_id) WHERE published_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_question_revisions_subject_id ON question_revisions(subject_id);
+
+-- Live content points at its published revision
+ALTER TABLE subjects
+  ADD COLUMN IF NOT EXISTS published_at timestamptz,
+  ADD COLUMN IF NOT EXISTS revision_id uuid REFERENCES subject_revisions(id) ON DELETE SET NULL;
+
+GRANT SELECT (published_at, revision_id) ON subjects TO authenticated;
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS revision_id uuid REFERENCES question_revisions(id) ON DELETE SET NULL;
+
+GRANT SELECT (revision_id) ON questions TO authenticated;
+
+ALTER TABLE learning_sessions
+  ADD COLUMN IF NOT EXISTS subject_revision_id uuid REFERENCES subject_revisions(id) ON DELETE SET NULL;
+
+ALTER TABLE session_attempts
+  ADD COLUMN IF NOT EXISTS question_revision_id uuid REFERENCES question_revisions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_session_attempts_question_revision_id
+  ON session_attempts(question_revision_id);
+
+-- Record existing content as revision 1
+UPDATE subjects SET published_at = created_at WHERE published_at IS NULL;
+
+INSERT INTO subject_revisions (
+  subject_id, revision, name, title, description, ai_help_text, video_search_query,
+  created_by, created_at, updated_at, published_at
+)
+SELECT id, 1, name, title, description, ai_help_text, video_search_query,
+  NULL, created_at, created_at, created_at
+FROM subjects
+WHERE NOT EXISTS (SELECT 1 FROM subject_revisions WHERE subject_revisions.subject_id = subjects.id);
+
+UPDATE subjects
+SET revision_id = subject_revisions.id
+FROM subject_revisions
+WHERE subject_revisions.subject_id = subjects.id
+AND subject_revisions.revision = 1
+AND subjects.revision_id IS NULL;
+
+INSERT INTO question_revisions (
+  question_id, subject_id, parent_id, revision, difficulty, format, question, data,
+  options, correct_answer, answer_key, answer_spec, hints,
+  created_by, created_at, updated_at, published_at
+)
+SELECT
+  q.id, q.subject_id, q.parent_id, 1, q.difficulty, q.format, q.question, q.data,
+  q.options, q.correct_answer, q.answer_key, q.answer_spec,
+  coalesce(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object('level', h.level, 'body', h.body, 'unlock_confusion', h.unlock_confusion)
+        ORDER BY h.position
+      )
+      FROM question_hints h
+      WHERE h.question_id = q.id
+    ),
+    '[]'::jsonb
+  ),
+  NULL, q.created_at, q.created_at, q.created_at
+FROM questions q
+WHERE NOT EXISTS (SELECT 1 FROM question_revisions WHERE question_revisions.question_id = q.id);
+
+UPDATE questions
+SET revision_id = question_revisions.id
+FROM question_revisions
+WHERE question_revisions.question_id = questions.id
+AND question_revisions.revision = 1
+AND questions.revision_id IS NULL;
+
+UPDATE learning_sessions
+SET subject_revision_id = subjects.revision_id
+FROM subjects
+WHERE subjects.id = learning_sessions.subject_id
+AND learning_sessions.subject_revision_id IS NULL;
+
+UPDATE session_attempts
+SET question_revision_id = questions.revision_id
+FROM questions
+WHERE questions.id = session_attempts.question_id
+AND session_attempts.question_revision_id IS NULL;
+
+-- Stamp new sessions and attempts with the live revision
+CREATE OR REPLACE FUNCTION learning_sessions_assign_subject_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT revision_id INTO NEW.subject_revision_id
+  FROM subjects
+  WHERE id = NEW.subject_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS learning_sessions_assign_subject_revision ON learning_sessions;
+CREATE TRIGGER learning_sessions_assign_subject_revision
+  BEFORE INSERT ON learning_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION learning_sessions_assign_subject_revision();
+
+CREATE OR REPLACE FUNCTION session_attempts_assign_question_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT revision_id INTO NEW.question_revision_id
+  FROM questions
+  WHERE id = NEW.question_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS session_attempts_assign_question_revision ON session_attempts;
+CREATE TRIGGER session_attempts_assign_question_revision
+  BEFORE INSERT ON session_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION session_attempts_assign_question_revision();
+
+-- Learners only see published subjects
+DROP POLICY IF EXISTS "Authenticated users can view subjects" ON subjects;
+
+CREATE POLICY "Authenticated users can view published subjects"
+  ON subjects FOR SELECT
+  TO authenticated
+  USING (published_at IS NOT NULL);
+
+CREATE POLICY "Authors can view all subjects"
+  ON subjects FOR SELECT
+  TO authenticated
+  USING (is_author());
+
+-- Drafts are written by authors, published revisions only by the publish functions
+ALTER TABLE subject_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors can view subject revisions"
+  ON subject_revisions FOR SELECT
+  TO authenticated
+  USING (is_author());
+
+CREATE POLICY "Authors can create subject drafts"
+  ON subject_revisions FOR INSERT
+  TO authenticated
+  WITH CHECK (is_author() AND published_at IS NULL);
+
+CREATE POLICY "Authors can update subject drafts"
+  ON subject_revisions FOR UPDATE
+  TO authenticated
+  USING (is_author() AND published_at IS NULL)
+  WITH CHECK (is_author() AND published_at IS NULL);
+
+CREATE POLICY "Authors can delete subject drafts"
+  ON subject_revisions FOR DELETE
+  TO authenticated
+  USING (is_author() AND published_at IS NULL);
+
+REVOKE INSERT, UPDATE ON subject_revisions FROM anon, authenticated;
+GRANT INSERT (subject_id, name, title, description, ai_help_text, video_search_query)
+  ON subject_revisions TO authenticated;
+GRANT UPDATE (name, title, description, ai_help_text, video_search_query, updated_at)
+  ON subject_revisions TO authenticated;
+
+ALTER TABLE question_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors can view question revisions"
+  ON question_revisions FOR SELECT
+  TO authenticated
+  USING (is_author());
+
+CREATE POLICY "Authors can create question drafts"
+  ON question_revisions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_author()
+    AND published_at IS NULL
+    AND (
+      question_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM questions
+        WHERE questions.id = question_revisions.question_id
+        AND questions.subject_id = question_revisions.subject_id
+      )
+    )
+  );
+
+CREATE POLICY "Authors can update question drafts"
+  ON question_revisions FOR UPDATE
+  TO authenticated
+  USING (is_author() AND published_at IS NULL)
+  WITH CHECK (is_author() AND published_at IS NULL);
+
+CREATE POLICY "Authors can delete question drafts"
+  ON question_revisions FOR DELETE
+  TO authenticated
+  USING (is_author() AND published_at IS NULL);
+
+REVOKE INSERT, UPDATE ON question_revisions FROM anon, authenticated;
+GRANT INSERT (
+  question_id, subject_id, difficulty, format, question, data, options,
+  correct_answer, answer_key, answer_spec, hints
+) ON question_revisions TO authenticated;
+GRANT UPDATE (
+  difficulty, format, question, data, options,
+  correct_answer, answer_key, answer_spec, hints, updated_at
+) ON question_revisions TO authenticated;
+
+CREATE OR REPLACE FUNCTION create_subject(p_slug text, p_name text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subject subjects%ROWTYPE;
+  v_name text := trim(coalesce(p_name, ''));
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_author() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF coalesce(p_slug, '') !~ '^[a-z0-9_]+$' THEN
+    RAISE EXCEPTION 'Slug may only contain lowercase letters, digits and underscores'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Name is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO subjects (slug, name, title, ai_help_text, video_search_query)
+  VALUES (p_slug, v_name, v_name, '', '')
+  RETURNING * INTO v_subject;
+
+  INSERT INTO subject_revisions (subject_id, name, title)
+  VALUES (v_subject.id, v_name, v_name);
+
+  RETURN to_jsonb(v_subject);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_subject(text, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION create_subject(text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION publish_subject_revision(p_revision_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision subject_revisions%ROWTYPE;
+  v_subject subjects%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_author() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_revision
+  FROM subject_revisions
+  WHERE id = p_revision_id
+  AND published_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF trim(v_revision.name) = '' OR trim(v_revision.title) = '' THEN
+    RAISE EXCEPTION 'Name and title are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF trim(v_revision.ai_help_text) = '' OR trim(v_revision.video_search_query) = '' THEN
+    RAISE EXCEPTION 'Help text and video query are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM questions
+    WHERE subject_id = v_revision.subject_id
+    AND parent_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Publish a question before publishing the subject' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE subject_revisions
+  SET
+    revision = (
+      SELECT coalesce(max(revision), 0) + 1
+      FROM subject_revisions
+      WHERE subject_id = v_revision.subject_id
+    ),
+    published_at = now()
+  WHERE id = v_revision.id;
+
+  UPDATE subjects
+  SET
+    name = v_revision.name,
+    title = v_revision.title,
+    description = v_revision.description,
+    ai_help_text = v_revision.ai_help_text,
+    video_search_query = v_revision.video_search_query,
+    revision_id = v_revision.id,
+    published_at = coalesce(published_at, now())
+  WHERE id = v_revision.subject_id
+  RETURNING * INTO v_subject;
+
+  RETURN to_jsonb(v_subject);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_subject_revision(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION publish_subject_revision(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION publish_question_revision(p_revision_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision question_revisions%ROWTYPE;
+  v_question_id uuid;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_author() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_revision
+  FROM question_revisions
+  WHERE id = p_revision_id
+  AND published_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF trim(v_revision.question) = '' OR trim(v_revision.data) = '' THEN
+    RAISE EXCEPTION 'Question and data are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF trim(v_revision.correct_answer) = '' THEN
+    RAISE EXCEPTION 'Correct answer is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_revision.format IN ('multiple_choice', 'multi_select', 'ordering') AND (
+    jsonb_typeof(v_revision.options) <> 'array' OR jsonb_array_length(v_revision.options) < 2
+  ) THEN
+    RAISE EXCEPTION 'Add at least two options' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_revision.format = 'fill_blank' AND coalesce(v_revision.options ->> 'template', '') NOT LIKE '%\_\_\_%' THEN
+    RAISE EXCEPTION 'The template needs at least one ___ blank' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_revision.format <> 'free_text' AND v_revision.answer_key IS NULL THEN
+    RAISE EXCEPTION 'Answer key is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_revision.hints) AS hint
+    WHERE trim(coalesce(hint ->> 'body', '')) = ''
+  ) THEN
+    RAISE EXCEPTION 'Hints cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_revision.question_id IS NULL THEN
+    INSERT INTO questions (
+      subject_id, position, difficulty, format, question, data, options,
+      correct_answer, answer_key, answer_spec, rating
+    )
+    VALUES (
+      v_revision.subject_id,
+      (
+        SELECT coalesce(max(position), 0) + 1
+        FROM questions
+        WHERE subject_id = v_revision.subject_id
+        AND parent_id IS NULL
+      ),
+      v_revision.difficulty,
+      v_revision.format,
+      v_revision.question,
+      v_revision.data,
+      v_revision.options,
+      v_revision.correct_answer,
+      v_revision.answer_key,
+      v_revision.answer_spec,
+      1000 + (v_revision.difficulty - 3) * 100
+    )
+    RETURNING id INTO v_question_id;
+  ELSE
+    v_question_id := v_revision.question_id;
+
+    UPDATE questions
+    SET
+      difficulty = v_revision.difficulty,
+      format = v_revision.format,
+      question = v_revision.question,
+      data = v_revision.data,
+      options = v_revision.options,
+      correct_answer = v_revision.correct_answer,
+      answer_key = v_revision.answer_key,
+      answer_spec = v_revision.answer_spec
+    WHERE id = v_question_id;
+  END IF;
+
+  DELETE FROM question_hints
+  WHERE question_id = v_question_id
+  AND position > jsonb_array_length(v_revision.hints);
+
+  INSERT INTO question_hints (question_id, position, level, body, unlock_confusion)
+  SELECT
+    v_question_id,
+    h.index,
+    h.hint ->> 'level',
+    trim(h.hint ->> 'body'),
+    (h.hint ->> 'unlock_confusion')::integer
+  FROM jsonb_array_elements(v_revision.hints) WITH ORDINALITY AS h(hint, index)
+  ON CONFLICT (question_id, position) DO UPDATE
+  SET
+    level = EXCLUDED.level,
+    body = EXCLUDED.body,
+    unlock_confusion = EXCLUDED.unlock_confusion;
+
+  UPDATE question_revisions
+  SET
+    question_id = v_question_id,
+    revision = (
+      SELECT coalesce(max(revision), 0) + 1
+      FROM question_revisions
+      WHERE question_id = v_question_id
+    ),
+    published_at = now()
+  WHERE id = v_revision.id
+  RETURNING * INTO v_revision;
+
+  UPDATE questions SET revision_id = v_revision.id WHERE id = v_question_id;
+
+  RETURN to_jsonb(v_revision);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_question_revision(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION publish_question_revision(uuid) TO authenticated;
@@ -0,0 +1,741 @@
+/*
+  # Content packs
+
+  ## Overview
+  Subjects can now be kept in git as content packs (see content/README.md) and
+  moved between environments. A pack holds subjects with their questions,
+  scaffold steps, answers, hints, misconceptions and prerequisites.
+
+  Importing is idempotent and keyed on `subjects.slug`. Questions are matched by
+  their position in the pack, and steps by their position under the parent
+  question. Anything that changed is published as a new revision, exactly as if
+  an author had edited it, so sessions and attempts keep pointing at the
+  revision they ran against. Importing the same pack twice changes nothing.
+
+  Imports never delete content. Misconceptions and questions missing from the
+  pack are left alone and reported. Prerequisites are the exception: a
+  subject's prerequisites are replaced by the ones listed in the pack.
+
+  The subjects seeded by earlier migrations are the first pack,
+  content/core.yaml.
+
+  ## Security
+  - Packs carry answer keys, so import and export are only available to the
+    service role, which the `npm run content` script connects with
+
+  ## New Functions
+
+  ### `apply_question_revision(p_revision_id uuid, p_position integer)`
+  Copies a question draft onto the live question and its hints and publishes it.
+  New questions go at `p_position`, or at the end of their subject or parent
+  question when it is NULL. Used by `publish_question_revision` and the importer.
+
+  ### `apply_subject_revision(p_revision_id uuid)`
+  Copies a subject draft onto the live subject and publishes it
+
+  ### `import_content_pack(p_pack jsonb)`
+  Imports a validated pack and returns, for each subject, whether it was
+  created or revised and how many questions were added, revised or left out of
+  the pack. Fails without changing anything if content it would revise has an
+  unpublished draft.
+
+  ### `export_content_pack(p_slugs text[])`
+  Returns the given subjects as a pack, or every published subject when
+  `p_slugs` is NULL
+
+  ## Modified Functions
+
+  ### `publish_subject_revision(p_revision_id uuid)`, `publish_question_revision(p_revision_id uuid)`
+  Validate the draft as before and publish it through the functions above
+*/
+
+CREATE OR REPLACE FUNCTION apply_question_revision(p_revision_id uuid, p_position integer DEFAULT NULL)
+RETURNS question_revisions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision question_revisions%ROWTYPE;
+  v_question_id uuid;
+BEGIN
+  SELECT * INTO v_revision
+  FROM question_revisions
+  WHERE id = p_revision_id
+  AND published_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_revision.question_id IS NULL THEN
+    INSERT INTO questions (
+      subject_id, parent_id, position, difficulty, format, question, data, options,
+      correct_answer, answer_key, answer_spec, rating
+    )
+    VALUES (
+      v_revision.subject_id,
+      v_revision.parent_id,
+      coalesce(p_position, (
+        SELECT coalesce(max(position), 0) + 1
+        FROM questions
+        WHERE subject_id = v_revision.subject_id
+        AND parent_id IS NOT DISTINCT FROM v_revision.parent_id
+      )),
+      v_revision.difficulty,
+      v_revision.format,
+      v_revision.question,
+      v_revision.data,
+      v_revision.options,
+      v_revision.correct_answer,
+      v_revision.answer_key,
+      v_revision.answer_spec,
+      1000 + (v_revision.difficulty - 3) * 100
+    )
+    RETURNING id INTO v_question_id;
+  ELSE
+    v_question_id := v_revision.question_id;
+
+    UPDATE questions
+    SET
+      difficulty = v_revision.difficulty,
+      format = v_revision.format,
+      question = v_revision.question,
+      data = v_revision.data,
+      options = v_revision.options,
+      correct_answer = v_revision.correct_answer,
+      answer_key = v_revision.answer_key,
+      answer_spec = v_revision.answer_spec
+    WHERE id = v_question_id;
+  END IF;
+
+  DELETE FROM question_hints
+  WHERE question_id = v_question_id
+  AND position > jsonb_array_length(v_revision.hints);
+
+  INSERT INTO question_hints (question_id, position, level, body, unlock_confusion)
+  SELECT
+    v_question_id,
+    h.index,
+    h.hint ->> 'level',
+    trim(h.hint ->> 'body'),
+    (h.hint ->> 'unlock_confusion')::integer
+  FROM jsonb_array_elements(v_revision.hints) WITH ORDINALITY AS h(hint, index)
+  ON CONFLICT (question_id, position) DO UPDATE
+  SET
+    level = EXCLUDED.level,
+    body = EXCLUDED.body,
+    unlock_confusion = EXCLUDED.unlock_confusion;
+
+  UPDATE question_revisions
+  SET
+    question_id = v_question_id,
+    revision = (
+      SELECT coalesce(max(revision), 0) + 1
+      FROM question_revisions
+      WHERE question_id = v_question_id
+    ),
+    published_at = now()
+  WHERE id = v_revision.id
+  RETURNING * INTO v_revision;
+
+  UPDATE questions SET revision_id = v_revision.id WHERE id = v_question_id;
+
+  RETURN v_revision;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_question_revision(uuid, integer) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION apply_subject_revision(p_revision_id uuid)
+RETURNS subjects
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision subject_revisions%ROWTYPE;
+  v_subject subjects%ROWTYPE;
+BEGIN
+  UPDATE subject_revisions
+  SET
+    revision = (
+      SELECT coalesce(max(r.revision), 0) + 1
+      FROM subject_revisions r
+      WHERE r.subject_id = subject_revisions.subject_id
+    ),
+    published_at = now()
+  WHERE id = p_revision_id
+  AND published_at IS NULL
+  RETURNING * INTO v_revision;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE subjects
+  SET
+    name = v_revision.name,
+    title = v_revision.title,
+    description = v_revision.description,
+    ai_help_text = v_revision.ai_help_text,
+    video_search_query = v_revision.video_search_query,
+    revision_id = v_revision.id,
+    published_at = coalesce(published_at, now())
+  WHERE id = v_revision.subject_id
+  RETURNING * INTO v_subject;
+
+  RETURN v_subject;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_subject_revision(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION publish_subject_revision(p_revision_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision subject_revisions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_author() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_revision
+  FROM subject_revisions
+  WHERE id = p_revision_id
+  AND published_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF trim(v_revision.name) = '' OR trim(v_revision.title) = '' THEN
+    RAISE EXCEPTION 'Name and title are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF trim(v_revision.ai_help_text) = '' OR trim(v_revision.video_search_query) = '' THEN
+    RAISE EXCEPTION 'Help text and video query are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM questions
+    WHERE subject_id = v_revision.subject_id
+    AND parent_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Publish a question before publishing the subject' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN to_jsonb(apply_subject_revision(v_revision.id));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION publish_question_revision(p_revision_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision question_revisions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_author() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_revision
+  FROM question_revisions
+  WHERE id = p_revision_id
+  AND published_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF trim(v_revision.question) = '' OR trim(v_revision.data) = '' THEN
+    RAISE EXCEPTION 'Question and data are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF trim(v_revision.correct_answer) = '' THEN
+    RAISE EXCEPTION 'Correct answer is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_revision.format IN ('multiple_choice', 'multi_select', 'ordering') AND (
+    jsonb_typeof(v_revision.options) <> 'array' OR jsonb_array_length(v_revision.options) < 2
+  ) THEN
+    RAISE EXCEPTION 'Add at least two options' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_revision.format = 'fill_blank' AND coalesce(v_revision.options ->> 'template', '') NOT LIKE '%\_\_\_%' THEN
+    RAISE EXCEPTION 'The template needs at least one ___ blank' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_revision.format <> 'free_text' AND v_revision.answer_key IS NULL THEN
+    RAISE EXCEPTION 'Answer key is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_revision.hints) AS hint
+    WHERE trim(coalesce(hint ->> 'body', '')) = ''
+  ) THEN
+    RAISE EXCEPTION 'Hints cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN to_jsonb(apply_question_revision(v_revision.id));
+END;
+$$;
+
+-- Import
+CREATE OR REPLACE FUNCTION import_content_pack_questions(
+  p_subject_id uuid,
+  p_parent_id uuid,
+  p_questions jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item record;
+  v_question questions%ROWTYPE;
+  v_found boolean;
+  v_hints jsonb;
+  v_matches jsonb;
+  v_revision_id uuid;
+  v_question_id uuid;
+  v_steps jsonb;
+  v_created integer := 0;
+  v_revised integer := 0;
+  v_not_in_pack integer := 0;
+BEGIN
+  FOR v_item IN
+    SELECT value AS entry, ordinality::integer AS position
+    FROM jsonb_array_elements(coalesce(p_questions, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    SELECT * INTO v_question
+    FROM questions
+    WHERE subject_id = p_subject_id
+    AND parent_id IS NOT DISTINCT FROM p_parent_id
+    AND position = v_item.position
+    FOR UPDATE;
+
+    v_found := FOUND;
+    v_question_id := v_question.id;
+
+    -- Hints are compared in the shape revisions store them in.
+    SELECT coalesce(jsonb_agg(
+      jsonb_build_object(
+        'level', hint ->> 'level',
+        'body', trim(hint ->> 'body'),
+        'unlock_confusion', hint -> 'unlock_confusion'
+      )
+      ORDER BY index
+    ), '[]'::jsonb)
+    INTO v_hints
+    FROM jsonb_array_elements(coalesce(v_item.entry -> 'hints', '[]'::jsonb)) WITH ORDINALITY AS h(hint, index);
+
+    IF NOT v_found OR NOT EXISTS (
+      SELECT 1 FROM question_revisions
+      WHERE id = v_question.revision_id
+      AND (difficulty, format, question, data, options, correct_answer, answer_key, answer_spec, hints)
+        IS NOT DISTINCT FROM (
+          (v_item.entry ->> 'difficulty')::smallint,
+          v_item.entry ->> 'format',
+          v_item.entry ->> 'question',
+          v_item.entry ->> 'data',
+          coalesce(v_item.entry -> 'options', '[]'::jsonb),
+          v_item.entry ->> 'correct_answer',
+          nullif(v_item.entry -> 'answer_key', 'null'::jsonb),
+          nullif(v_item.entry -> 'answer_spec', 'null'::jsonb),
+          v_hints
+        )
+    ) THEN
+      IF v_found AND EXISTS (
+        SELECT 1 FROM question_revisions
+        WHERE question_id = v_question.id
+        AND published_at IS NULL
+      ) THEN
+        RAISE EXCEPTION 'Question % of subject % has an unpublished draft; publish or discard it first',
+          v_item.position,
+          (SELECT slug FROM subjects WHERE id = p_subject_id);
+      END IF;
+
+      INSERT INTO question_revisions (
+        question_id, subject_id, parent_id, difficulty, format, question, data, options,
+        correct_answer, answer_key, answer_spec, hints, created_by
+      )
+      VALUES (
+        v_question.id,
+        p_subject_id,
+        p_parent_id,
+        (v_item.entry ->> 'difficulty')::smallint,
+        v_item.entry ->> 'format',
+        v_item.entry ->> 'question',
+        v_item.entry ->> 'data',
+        coalesce(v_item.entry -> 'options', '[]'::jsonb),
+        v_item.entry ->> 'correct_answer',
+        nullif(v_item.entry -> 'answer_key', 'null'::jsonb),
+        nullif(v_item.entry -> 'answer_spec', 'null'::jsonb),
+        v_hints,
+        NULL
+      )
+      RETURNING id INTO v_revision_id;
+
+      v_question_id := (apply_question_revision(v_revision_id, v_item.position)).question_id;
+
+      IF v_found THEN
+        v_revised := v_revised + 1;
+      ELSE
+        v_created := v_created + 1;
+      END IF;
+    END IF;
+
+    -- Misconception matches are not versioned, so they are only rewritten when
+    -- they differ from the pack.
+    SELECT coalesce(jsonb_agg(
+      jsonb_build_object(
+        'misconception', mapping ->> 'misconception',
+        'option_ids', nullif(mapping -> 'option_ids', 'null'::jsonb),
+        'answer_spec', nullif(mapping -> 'answer_spec', 'null'::jsonb),
+        'feedback', mapping ->> 'feedback'
+      )
+      ORDER BY index
+    ), '[]'::jsonb)
+    INTO v_matches
+    FROM jsonb_array_elements(coalesce(v_item.entry -> 'misconceptions', '[]'::jsonb)) WITH ORDINALITY AS m(mapping, index);
+
+    IF v_matches IS DISTINCT FROM (
+      SELECT coalesce(jsonb_agg(
+        jsonb_build_object(
+          'misconception', m.slug,
+          'option_ids', to_jsonb(qm.option_ids),
+          'answer_spec', qm.answer_spec,
+          'feedback', qm.feedback
+        )
+        ORDER BY qm.position
+      ), '[]'::jsonb)
+      FROM question_misconceptions qm
+      JOIN misconceptions m ON m.id = qm.misconception_id
+      WHERE qm.question_id = v_question_id
+    ) THEN
+      DELETE FROM question_misconceptions WHERE question_id = v_question_id;
+
+      INSERT INTO question_misconceptions (question_id, misconception_id, position, option_ids, answer_spec, feedback)
+      SELECT
+        v_question_id,
+        m.id,
+        x.index,
+        CASE
+          WHEN jsonb_typeof(x.mapping -> 'option_ids') = 'array'
+          THEN ARRAY(SELECT jsonb_array_elements_text(x.mapping -> 'option_ids'))
+        END,
+        nullif(x.mapping -> 'answer_spec', 'null'::jsonb),
+        x.mapping ->> 'feedback'
+      FROM jsonb_array_elements(v_matches) WITH ORDINALITY AS x(mapping, index)
+      JOIN misconceptions m
+        ON m.subject_id = p_subject_id
+        AND m.slug = x.mapping ->> 'misconception';
+    END IF;
+
+    IF p_parent_id IS NULL THEN
+      v_steps := import_content_pack_questions(p_subject_id, v_question_id, v_item.entry -> 'steps');
+      v_created := v_created + (v_steps ->> 'questions_created')::integer;
+      v_revised := v_revised + (v_steps ->> 'questions_revised')::integer;
+      v_not_in_pack := v_not_in_pack + (v_steps ->> 'questions_not_in_pack')::integer;
+    END IF;
+  END LOOP;
+
+  v_not_in_pack := v_not_in_pack + (
+    SELECT count(*)
+    FROM questions
+    WHERE subject_id = p_subject_id
+    AND parent_id IS NOT DISTINCT FROM p_parent_id
+    AND position > jsonb_array_length(coalesce(p_questions, '[]'::jsonb))
+  );
+
+  RETURN jsonb_build_object(
+    'questions_created', v_created,
+    'questions_revised', v_revised,
+    'questions_not_in_pack', v_not_in_pack
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_content_pack_questions(uuid, uuid, jsonb) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION import_content_pack(p_pack jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry jsonb;
+  v_subject subjects%ROWTYPE;
+  v_created boolean;
+  v_revised boolean;
+  v_revision_id uuid;
+  v_questions jsonb;
+  v_prerequisites text[];
+  v_missing text;
+  v_report jsonb := '[]'::jsonb;
+BEGIN
+  IF p_pack ->> 'version' IS DISTINCT FROM '1' OR jsonb_typeof(p_pack -> 'subjects') <> 'array' THEN
+    RAISE EXCEPTION 'Unsupported content pack' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_entry IN SELECT value FROM jsonb_array_elements(p_pack -> 'subjects') LOOP
+    SELECT * INTO v_subject
+    FROM subjects
+    WHERE slug = v_entry ->> 'slug'
+    FOR UPDATE;
+
+    v_created := NOT FOUND;
+
+    -- New subjects get their details from the revision published below.
+    IF v_created THEN
+      INSERT INTO subjects (slug, name, title, ai_help_text, video_search_query)
+      VALUES (v_entry ->> 'slug', v_entry ->> 'name', v_entry ->> 'title', '', '')
+      RETURNING * INTO v_subject;
+    END IF;
+
+    UPDATE subjects
+    SET
+      confusion_model = coalesce(v_entry ->> 'confusion_model', confusion_model),
+      question_selector = coalesce(v_entry ->> 'question_selector', question_selector)
+    WHERE id = v_subject.id
+    AND (confusion_model, question_selector) IS DISTINCT FROM (
+      coalesce(v_entry ->> 'confusion_model', confusion_model),
+      coalesce(v_entry ->> 'question_selector', question_selector)
+    );
+
+    INSERT INTO misconceptions (subject_id, slug, name, description)
+    SELECT v_subject.id, m ->> 'slug', m ->> 'name', m ->> 'description'
+    FROM jsonb_array_elements(coalesce(v_entry -> 'misconceptions', '[]'::jsonb)) AS m
+    ON CONFLICT (subject_id, slug) DO UPDATE
+    SET
+      name = EXCLUDED.name,
+      description = EXCLUDED.description
+    WHERE (misconceptions.name, misconceptions.description)
+      IS DISTINCT FROM (EXCLUDED.name, EXCLUDED.description);
+
+    v_questions := import_content_pack_questions(v_subject.id, NULL, v_entry -> 'questions');
+
+    v_revised := NOT EXISTS (
+      SELECT 1 FROM subject_revisions
+      WHERE id = v_subject.revision_id
+      AND (name, title, description, ai_help_text, video_search_query) IS NOT DISTINCT FROM (
+        v_entry ->> 'name',
+        v_entry ->> 'title',
+        v_entry ->> 'description',
+        v_entry ->> 'ai_help_text',
+        v_entry ->> 'video_search_query'
+      )
+    );
+
+    IF v_revised THEN
+      IF EXISTS (
+        SELECT 1 FROM subject_revisions
+        WHERE subject_id = v_subject.id
+        AND published_at IS NULL
+      ) THEN
+        RAISE EXCEPTION 'Subject % has an unpublished draft; publish or discard it first', v_subject.slug;
+      END IF;
+
+      INSERT INTO subject_revisions (
+        subject_id, name, title, description, ai_help_text, video_search_query, created_by
+      )
+      VALUES (
+        v_subject.id,
+        v_entry ->> 'name',
+        v_entry ->> 'title',
+        v_entry ->> 'description',
+        v_entry ->> 'ai_help_text',
+        v_entry ->> 'video_search_query',
+        NULL
+      )
+      RETURNING id INTO v_revision_id;
+
+      PERFORM apply_subject_revision(v_revision_id);
+    END IF;
+
+    v_report := v_report || jsonb_build_array(
+      jsonb_build_object(
+        'slug', v_subject.slug,
+        'created', v_created,
+        'subject_revised', v_revised AND NOT v_created
+      ) || v_questions
+    );
+  END LOOP;
+
+  -- Prerequisites may name subjects later in the pack, so they go in once
+  -- every subject exists.
+  FOR v_entry IN SELECT value FROM jsonb_array_elements(p_pack -> 'subjects') LOOP
+    v_prerequisites := ARRAY(
+      SELECT jsonb_array_elements_text(coalesce(v_entry -> 'prerequisites', '[]'::jsonb))
+    );
+
+    SELECT prerequisite.slug INTO v_missing
+    FROM unnest(v_prerequisites) AS prerequisite(slug)
+    WHERE NOT EXISTS (SELECT 1 FROM subjects s WHERE s.slug = prerequisite.slug)
+    LIMIT 1;
+
+    IF v_missing IS NOT NULL THEN
+      RAISE EXCEPTION 'Prerequisite % of subject % not found', v_missing, v_entry ->> 'slug'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM subject_prerequisites sp
+    USING subjects s, subjects p
+    WHERE s.id = sp.subject_id
+    AND p.id = sp.prerequisite_id
+    AND s.slug = v_entry ->> 'slug'
+    AND p.slug <> ALL (v_prerequisites);
+
+    INSERT INTO subject_prerequisites (subject_id, prerequisite_id)
+    SELECT s.id, p.id
+    FROM subjects s
+    JOIN subjects p ON p.slug = ANY (v_prerequisites)
+    WHERE s.slug = v_entry ->> 'slug'
+    ON CONFLICT DO NOTHING;
+  END LOOP;
+
+  RETURN v_report;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_content_pack(jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_content_pack(jsonb) TO service_role;
+
+-- Export
+CREATE OR REPLACE FUNCTION content_pack_compact(p_object jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(jsonb_object_agg(key, value), '{}'::jsonb)
+  FROM jsonb_each(p_object)
+  WHERE value NOT IN ('null'::jsonb, '[]'::jsonb);
+$$;
+
+CREATE OR REPLACE FUNCTION content_pack_question(p_question_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN (
+    SELECT content_pack_compact(jsonb_build_object(
+      'difficulty', q.difficulty,
+      'format', q.format,
+      'question', q.question,
+      'data', q.data,
+      'options', q.options,
+      'correct_answer', q.correct_answer,
+      'answer_key', q.answer_key,
+      'answer_spec', q.answer_spec,
+      'hints', (
+        SELECT coalesce(jsonb_agg(
+          content_pack_compact(jsonb_build_object(
+            'level', h.level,
+            'body', h.body,
+            'unlock_confusion', h.unlock_confusion
+          ))
+          ORDER BY h.position
+        ), '[]'::jsonb)
+        FROM question_hints h
+        WHERE h.question_id = q.id
+      ),
+      'misconceptions', (
+        SELECT coalesce(jsonb_agg(
+          content_pack_compact(jsonb_build_object(
+            'misconception', m.slug,
+            'option_ids', to_jsonb(qm.option_ids),
+            'answer_spec', qm.answer_spec,
+            'feedback', qm.feedback
+          ))
+          ORDER BY qm.position
+        ), '[]'::jsonb)
+        FROM question_misconceptions qm
+        JOIN misconceptions m ON m.id = qm.misconception_id
+        WHERE qm.question_id = q.id
+      ),
+      'steps', (
+        SELECT coalesce(jsonb_agg(content_pack_question(s.id) ORDER BY s.position), '[]'::jsonb)
+        FROM questions s
+        WHERE s.parent_id = q.id
+      )
+    ))
+    FROM questions q
+    WHERE q.id = p_question_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION content_pack_question(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION export_content_pack(p_slugs text[] DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'version', 1,
+    'subjects', coalesce(jsonb_agg(
+      content_pack_compact(jsonb_build_object(
+        'slug', s.slug,
+        'name', s.name,
+        'title', s.title,
+        'description', s.description,
+        'ai_help_text', s.ai_help_text,
+        'video_search_query', s.video_search_query,
+        'confusion_model', s.confusion_model,
+        'question_selector', s.question_selector,
+        'prerequisites', (
+          SELECT coalesce(jsonb_agg(p.slug ORDER BY p.slug), '[]'::jsonb)
+          FROM subject_prerequisites sp
+          JOIN subjects p ON p.id = sp.prerequisite_id
+          WHERE sp.subject_id = s.id
+        ),
+        'misconceptions', (
+          SELECT coalesce(jsonb_agg(
+            content_pack_compact(jsonb_build_object(
+              'slug', m.slug,
+              'name', m.name,
+              'description', m.description
+            ))
+            ORDER BY m.created_at, m.slug
+          ), '[]'::jsonb)
+          FROM misconceptions m
+          WHERE m.subject_id = s.id
+        ),
+        'questions', (
+          SELECT coalesce(jsonb_agg(content_pack_question(q.id) ORDER BY q.position), '[]'::jsonb)
+          FROM questions q
+          WHERE q.subject_id = s.id
+          AND q.parent_id IS NULL
+        )
+      ))
+      ORDER BY array_position(p_slugs, s.slug), s.created_at, s.slug
+    ), '[]'::jsonb)
+  )
+  FROM subjects s
+  WHERE CASE
+    WHEN p_slugs IS NULL THEN s.published_at IS NOT NULL
+    ELSE s.slug = ANY (p_slugs)
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION export_content_pack(text[]) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION export_content_pack(text[]) TO service_role;
@@ -0,0 +1,145 @@
+/*
+  # Item analytics
+
+  ## Overview
+  Authors had no way to tell whether a question was too hard, ambiguous or
+  easy to guess. `question_item_stats` summarises how learners got on with each
+  question of a subject, across all learners. Learners' sessions are not
+  readable by authors, so the figures are only available through the function.
+
+  An encounter is a session that answered the question at least once. Rates are
+  shares of encounters. Scaffold steps are left out: only learners who
+  struggled with the parent question reach them, so their figures would not
+  compare with the rest.
+
+  ## New Functions
+
+  ### `question_item_stats(p_subject_id uuid, p_current_revision_only boolean)`
+  One entry per top-level question of the subject, in position order:
+  - `question_id` (uuid)
+  - `encounters` (integer)
+  - `solve_rate` (numeric) - Share of encounters answered correctly
+  - `first_try_rate` (numeric) - Share of encounters answered correctly on the
+    first attempt
+  - `mean_attempts` (numeric) - Attempts per solved encounter
+  - `mean_seconds_to_correct` (integer) - From reaching the question to the
+    correct answer, as in `learner_solve_times`
+  - `avg_confusion` (integer) - Mean confusion score of the attempts
+  - `hint_rate` (numeric) - Share of encounters where a hint was revealed, by
+    the learner or automatically
+  - `wrong_answers` (jsonb) - The three most frequent wrong answers,
+    `[{ answer, sessions, misconception_id }]`, compared case-insensitively;
+    `misconception_id` is the misconception they were most often matched to
+
+  Rates and means are NULL for questions nobody has answered. With
+  `p_current_revision_only` only attempts against the live revision count, so
+  the effect of an edit can be checked.
+*/
+
+CREATE OR REPLACE FUNCTION question_item_stats(
+  p_subject_id uuid,
+  p_current_revision_only boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_author() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN (
+    WITH attempts AS (
+      SELECT session_attempts.*
+      FROM session_attempts
+      JOIN questions ON questions.id = session_attempts.question_id
+      WHERE questions.subject_id = p_subject_id
+      AND questions.parent_id IS NULL
+      AND (
+        NOT p_current_revision_only
+        OR session_attempts.question_revision_id = questions.revision_id
+      )
+    ),
+    encounters AS (
+      SELECT
+        question_id,
+        session_id,
+        count(*) AS attempt_count,
+        bool_or(is_correct) AS solved,
+        (array_agg(is_correct ORDER BY attempt_number))[1] AS first_try,
+        CASE WHEN bool_or(is_correct) THEN
+          greatest(
+            0,
+            min(time_from_start) FILTER (WHERE is_correct)
+              - question_started_at(session_id, question_id)
+          )
+        END AS seconds_to_correct,
+        EXISTS (
+          SELECT 1 FROM hint_reveals
+          WHERE hint_reveals.session_id = attempts.session_id
+          AND hint_reveals.question_id = attempts.question_id
+        ) AS hinted
+      FROM attempts
+      GROUP BY question_id, session_id
+    ),
+    wrong_answers AS (
+      SELECT
+        question_id,
+        lower(trim(user_answer)) AS answer,
+        count(DISTINCT session_id)::integer AS sessions,
+        mode() WITHIN GROUP (ORDER BY misconception_id) AS misconception_id,
+        row_number() OVER (
+          PARTITION BY question_id
+          ORDER BY count(DISTINCT session_id) DESC, lower(trim(user_answer))
+        ) AS rank
+      FROM attempts
+      WHERE NOT is_correct
+      AND trim(user_answer) <> ''
+      GROUP BY question_id, lower(trim(user_answer))
+    )
+    SELECT coalesce(jsonb_agg(stats ORDER BY position), '[]'::jsonb)
+    FROM (
+      SELECT
+        questions.position,
+        jsonb_build_object(
+          'question_id', questions.id,
+          'encounters', count(encounters.session_id)::integer,
+          'solve_rate', round(avg(encounters.solved::integer), 2),
+          'first_try_rate', round(avg(encounters.first_try::integer), 2),
+          'mean_attempts', round(avg(encounters.attempt_count) FILTER (WHERE encounters.solved), 1),
+          'mean_seconds_to_correct', round(avg(encounters.seconds_to_correct))::integer,
+          'avg_confusion', (
+            SELECT round(avg(confusion_score))::integer
+            FROM attempts
+            WHERE attempts.question_id = questions.id
+          ),
+          'hint_rate', round(avg(encounters.hinted::integer), 2),
+          'wrong_answers', (
+            SELECT coalesce(jsonb_agg(
+              jsonb_build_object(
+                'answer', wrong_answers.answer,
+                'sessions', wrong_answers.sessions,
+                'misconception_id', wrong_answers.misconception_id
+              )
+              ORDER BY wrong_answers.rank
+            ), '[]'::jsonb)
+            FROM wrong_answers
+            WHERE wrong_answers.question_id = questions.id
+            AND wrong_answers.rank <= 3
+          )
+        ) AS stats
+      FROM questions
+      LEFT JOIN encounters ON encounters.question_id = questions.id
+      WHERE questions.subject_id = p_subject_id
+      AND questions.parent_id IS NULL
+      GROUP BY questions.id, questions.position
+    ) AS per_question
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION question_item_stats(uuid, boolean) FROM public, anon;
+GRANT EXECUTE ON FUNCTION question_item_stats(uuid, boolean) TO authenticated;
@@ -0,0 +1,83 @@
+/*
+  # Server-written tutor explanations
+
+  ## Overview
+  `save_tutor_explanation` was callable by every learner with any body and any
+  provider name. The first explanation cached for a question and misconception
+  is served to every other learner making the same mistake, and shown in their
+  mistake journal, so one learner could put whatever text they liked in front
+  of everyone else.
+
+  Explanations from a language model are now generated by the `tutor` edge
+  function, which holds the provider's API key, and only the service role may
+  write the cache. The template tutor runs in the browser and its explanations
+  are cheap to regenerate, so they are no longer cached.
+
+  ## Modified Functions
+
+  ### `save_tutor_explanation(p_session_id uuid, p_provider text, p_body text)`
+  Executable by the service role only. It is called on behalf of the learner
+  by the edge function, which has already checked the session is theirs
+  through `tutor_explanation`, so it looks the session up by id alone.
+
+  ## Data
+  - Cached explanations were written from browsers and cannot be trusted; they
+    are removed, together with the records of where they were shown
+*/
+
+CREATE OR REPLACE FUNCTION save_tutor_explanation(p_session_id uuid, p_provider text, p_body text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_question_id uuid;
+  v_misconception_id uuid;
+  v_explanation tutor_explanations%ROWTYPE;
+BEGIN
+  IF coalesce(trim(p_body), '') = '' THEN
+    RAISE EXCEPTION 'Explanation must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT question_id INTO v_question_id
+  FROM learning_sessions
+  WHERE id = p_session_id;
+
+  IF v_question_id IS NULL THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT misconception_id INTO v_misconception_id
+  FROM session_attempts
+  WHERE session_id = p_session_id
+  AND question_id = v_question_id
+  ORDER BY attempt_number DESC
+  LIMIT 1;
+
+  INSERT INTO tutor_explanations (question_id, misconception_id, provider, body)
+  VALUES (v_question_id, v_misconception_id, p_provider, trim(p_body))
+  ON CONFLICT (question_id, misconception_id, provider) DO NOTHING;
+
+  SELECT * INTO v_explanation
+  FROM tutor_explanations
+  WHERE question_id = v_question_id
+  AND misconception_id IS NOT DISTINCT FROM v_misconception_id
+  AND provider = p_provider;
+
+  INSERT INTO session_explanations (session_id, question_id, explanation_id)
+  VALUES (p_session_id, v_question_id, v_explanation.id)
+  ON CONFLICT (session_id, explanation_id) DO NOTHING;
+
+  RETURN jsonb_build_object(
+    'question_id', v_question_id,
+    'misconception_id', v_misconception_id,
+    'body', v_explanation.body
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_tutor_explanation(uuid, text, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION save_tutor_explanation(uuid, text, text) TO service_role;
+
+DELETE FROM tutor_explanations;
@@ -0,0 +1,103 @@
+/*
+  # Server-timed session events
+
+  ## Overview
+  `session_hidden_seconds` summed the gaps between visibility events using the
+  `occurred_at` the browser sent. A learner could insert a `visibility_hidden`
+  event dated at the start of the session and bring the time on every later
+  attempt down to 0, which also lowered their confusion score.
+
+  Events are now timed by the server: `occurred_at` and `created_at` are set to
+  the time the row is inserted, whatever the browser sent, so events can be
+  neither back-dated nor dated in the future, and they are ordered as they
+  arrive. The browser sends visibility changes as they happen, so the hidden
+  intervals stay close to what the learner saw. `seconds_from_start` is capped
+  at the session's active time on the server.
+
+  Events are only accepted for open sessions, neither completed nor abandoned.
+
+  ## Security
+  - "Users can insert own session events" also requires the session to be open
+
+  ## New Functions
+
+  ### `session_events_stamp()`
+  BEFORE INSERT trigger on `session_events` that sets the server timestamps
+  and caps `seconds_from_start`
+
+  ## Modified Functions
+  - `session_hidden_seconds` orders visibility events by `created_at`; at equal
+    times a `visibility_hidden` comes before the `visibility_visible` sent with it
+*/
+
+DROP POLICY IF EXISTS "Users can insert own session events" ON session_events;
+
+CREATE POLICY "Users can insert own session events"
+  ON session_events FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM learning_sessions
+      WHERE learning_sessions.id = session_events.session_id
+      AND learning_sessions.user_id = auth.uid()
+      AND NOT learning_sessions.is_completed
+      AND learning_sessions.abandoned_at IS NULL
+    )
+  );
+
+CREATE OR REPLACE FUNCTION session_hidden_seconds(p_session_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (
+    SELECT coalesce(floor(sum(extract(epoch FROM coalesce(next_at, now()) - created_at))), 0)::integer
+    FROM (
+      SELECT
+        event_type,
+        created_at,
+        lead(created_at) OVER (ORDER BY created_at, event_type) AS next_at
+      FROM session_events
+      WHERE session_id = p_session_id
+      AND event_type IN ('visibility_hidden', 'visibility_visible')
+    ) visibility
+    WHERE event_type = 'visibility_hidden'
+  ) + coalesce((SELECT paused_seconds FROM learning_sessions WHERE id = p_session_id), 0);
+$$;
+
+CREATE OR REPLACE FUNCTION session_events_stamp()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start_time timestamptz;
+  v_elapsed integer;
+BEGIN
+  NEW.occurred_at := now();
+  NEW.created_at := now();
+
+  SELECT start_time INTO v_start_time
+  FROM learning_sessions
+  WHERE id = NEW.session_id;
+
+  v_elapsed := floor(extract(epoch FROM now() - v_start_time))::integer;
+  NEW.seconds_from_start := greatest(
+    0,
+    least(
+      coalesce(NEW.seconds_from_start, 0),
+      v_elapsed - least(v_elapsed, session_hidden_seconds(NEW.session_id))
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS session_events_stamp ON session_events;
+CREATE TRIGGER session_events_stamp
+  BEFORE INSERT ON session_events
+  FOR EACH ROW
+  EXECUTE FUNCTION session_events_stamp();
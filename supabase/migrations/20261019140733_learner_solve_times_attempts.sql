@@ -0,0 +1,40 @@
+/*
+  # Attempts to solve in learner_solve_times
+
+  ## Overview
+  `learner_solve_times.attempts` counted every attempt at the question in the
+  session, including attempts made after it was solved, e.g. when a focused
+  retry is answered again. It now counts the attempts up to and including the
+  correct one.
+
+  ## Modified Views
+  - `learner_solve_times` bounds `attempts` by the solving attempt's
+    `attempt_number`
+*/
+
+CREATE OR REPLACE VIEW learner_solve_times
+WITH (security_invoker = true)
+AS
+  SELECT
+    learning_sessions.user_id,
+    learning_sessions.subject_id,
+    session_attempts.session_id,
+    session_attempts.question_id,
+    session_attempts.created_at AS solved_at,
+    greatest(
+      0,
+      session_attempts.time_from_start
+        - question_started_at(session_attempts.session_id, session_attempts.question_id)
+    ) AS seconds_to_correct,
+    (
+      SELECT count(*)::integer
+      FROM session_attempts AS previous
+      WHERE previous.session_id = session_attempts.session_id
+      AND previous.question_id = session_attempts.question_id
+      AND previous.attempt_number <= session_attempts.attempt_number
+    ) AS attempts,
+    session_attempts.hints_used
+  FROM session_attempts
+  JOIN learning_sessions ON learning_sessions.id = session_attempts.session_id
+  WHERE session_attempts.is_correct
+  AND session_attempts.parent_question_id IS NULL;
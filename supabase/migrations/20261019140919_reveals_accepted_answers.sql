@@ -0,0 +1,44 @@
+/*
+  # Accepted answers in reveals_answer
+
+  ## Overview
+  `save_tutor_reply` replaces tutor replies that give the answer away, but
+  `reveals_answer` only looked for `correct_answer` and the correct multiple
+  choice label. A reply containing another answer the question accepts, such
+  as "second normal form" for a question whose correct answer is "2NF", was
+  let through.
+
+  ## Modified Functions
+  - `reveals_answer(p_question questions, p_text text)` also looks for the
+    answers listed in `answer_spec.accepted`
+*/
+
+CREATE OR REPLACE FUNCTION reveals_answer(p_question questions, p_text text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM (
+      SELECT normalize_answer(p_question.correct_answer) AS phrase
+      UNION ALL
+      SELECT normalize_answer(option->>'label')
+      FROM jsonb_array_elements(
+        CASE WHEN p_question.format = 'multiple_choice' THEN p_question.options ELSE '[]'::jsonb END
+      ) AS option
+      WHERE option->>'id' = p_question.answer_key #>> '{}'
+      UNION ALL
+      SELECT normalize_answer(accepted)
+      FROM jsonb_array_elements_text(
+        CASE
+          WHEN jsonb_typeof(p_question.answer_spec->'accepted') = 'array' THEN p_question.answer_spec->'accepted'
+          ELSE '[]'::jsonb
+        END
+      ) AS accepted
+    ) answers
+    WHERE phrase <> ''
+    AND ' ' || normalize_answer(p_text) || ' ' LIKE '% ' || phrase || ' %'
+  );
+$$;
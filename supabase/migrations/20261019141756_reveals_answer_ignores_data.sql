@@ -0,0 +1,46 @@
+/*
+  # Answers the question already shows
+
+  ## Overview
+  `reveals_answer` flagged a tutor reply whenever an answer appeared in it as a
+  whole phrase, even when that phrase is part of the question or its data. A
+  reply quoting the data of the binary search question ("[2, 5, 8, ...]", answer
+  "5") was always replaced, including the template tutor's second chat turn.
+  Answers that the question or its data already show are no longer looked for.
+
+  ## Modified Functions
+  - `reveals_answer(p_question questions, p_text text)` skips answers that occur
+    in `question` or `data`
+*/
+
+CREATE OR REPLACE FUNCTION reveals_answer(p_question questions, p_text text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM (
+      SELECT normalize_answer(p_question.correct_answer) AS phrase
+      UNION ALL
+      SELECT normalize_answer(option->>'label')
+      FROM jsonb_array_elements(
+        CASE WHEN p_question.format = 'multiple_choice' THEN p_question.options ELSE '[]'::jsonb END
+      ) AS option
+      WHERE option->>'id' = p_question.answer_key #>> '{}'
+      UNION ALL
+      SELECT normalize_answer(accepted)
+      FROM jsonb_array_elements_text(
+        CASE
+          WHEN jsonb_typeof(p_question.answer_spec->'accepted') = 'array' THEN p_question.answer_spec->'accepted'
+          ELSE '[]'::jsonb
+        END
+      ) AS accepted
+    ) answers
+    WHERE phrase <> ''
+    AND ' ' || normalize_answer(p_text) || ' ' LIKE '% ' || phrase || ' %'
+    AND ' ' || normalize_answer(p_question.question) || ' ' || normalize_answer(p_question.data) || ' '
+      NOT LIKE '% ' || phrase || ' %'
+  );
+$$;
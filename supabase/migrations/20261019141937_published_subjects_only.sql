@@ -0,0 +1,157 @@
+/*
+  # Published subjects only
+
+  ## Overview
+  Content authoring hid unpublished subjects from learners, but their questions
+  and misconceptions stayed readable, and sessions could still be started on
+  them: `resume_session` runs as its owner and never looked at `published_at`,
+  and the insert policy on `learning_sessions` only checked the user. Learners
+  now only reach published subjects; authors still reach every subject, so
+  they can try a draft out before publishing it.
+
+  ## Security
+  - `questions` and `misconceptions` are readable when their subject is
+    published, and always by authors
+  - Learners can only insert sessions on published subjects
+
+  ## Modified Functions
+  - `resume_session` raises `Subject not found` for an unpublished subject
+    unless the caller is an author
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can view questions" ON questions;
+
+CREATE POLICY "Authenticated users can view questions of published subjects"
+  ON questions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM subjects
+      WHERE subjects.id = questions.subject_id
+      AND subjects.published_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Authors can view all questions"
+  ON questions FOR SELECT
+  TO authenticated
+  USING (is_author());
+
+DROP POLICY IF EXISTS "Authenticated users can view misconceptions" ON misconceptions;
+
+CREATE POLICY "Authenticated users can view misconceptions of published subjects"
+  ON misconceptions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM subjects
+      WHERE subjects.id = misconceptions.subject_id
+      AND subjects.published_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Authors can view all misconceptions"
+  ON misconceptions FOR SELECT
+  TO authenticated
+  USING (is_author());
+
+DROP POLICY IF EXISTS "Users can insert own sessions" ON learning_sessions;
+
+CREATE POLICY "Users can insert own sessions on published subjects"
+  ON learning_sessions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM subjects
+      WHERE subjects.id = learning_sessions.subject_id
+      AND (subjects.published_at IS NOT NULL OR is_author())
+    )
+  );
+
+CREATE OR REPLACE FUNCTION resume_session(
+  p_subject_id uuid,
+  p_stale_minutes integer DEFAULT 120,
+  p_question_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_last_visibility text;
+  v_away integer;
+  v_elapsed integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM subjects
+    WHERE id = p_subject_id
+    AND (published_at IS NOT NULL OR is_author())
+  ) THEN
+    RAISE EXCEPTION 'Subject not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_question_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM questions
+    WHERE id = p_question_id
+    AND subject_id = p_subject_id
+    AND parent_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Question not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM abandon_stale_sessions(p_stale_minutes);
+
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE user_id = auth.uid()
+  AND subject_id = p_subject_id
+  AND focus_question_id IS NOT DISTINCT FROM p_question_id
+  AND NOT is_completed
+  AND abandoned_at IS NULL
+  ORDER BY start_time DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO learning_sessions (user_id, subject_id, focus_question_id)
+    VALUES (auth.uid(), p_subject_id, p_question_id)
+    RETURNING * INTO v_session;
+
+    RETURN to_jsonb(v_session) || jsonb_build_object('elapsed_seconds', 0, 'resumed', false);
+  END IF;
+
+  SELECT event_type INTO v_last_visibility
+  FROM session_events
+  WHERE session_id = v_session.id
+  AND event_type IN ('visibility_hidden', 'visibility_visible')
+  ORDER BY occurred_at DESC
+  LIMIT 1;
+
+  IF v_last_visibility = 'visibility_hidden' THEN
+    -- The page was closed while hidden; the hidden interval already covers the gap
+    INSERT INTO session_events (session_id, event_type, payload, seconds_from_start, occurred_at)
+    VALUES (v_session.id, 'visibility_visible', jsonb_build_object('hidden_seconds', 0, 'resumed', true), 0, now());
+  ELSE
+    v_away := floor(extract(epoch FROM now() - session_last_activity(v_session.id)))::integer;
+
+    UPDATE learning_sessions
+    SET paused_seconds = paused_seconds + greatest(v_away, 0)
+    WHERE id = v_session.id
+    RETURNING * INTO v_session;
+  END IF;
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  RETURN to_jsonb(v_session) || jsonb_build_object(
+    'elapsed_seconds', v_elapsed - least(v_elapsed, session_hidden_seconds(v_session.id)),
+    'resumed', true
+  );
+END;
+$$;
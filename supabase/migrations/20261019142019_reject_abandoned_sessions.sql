@@ -0,0 +1,404 @@
+/*
+  # Reject abandoned sessions
+
+  ## Overview
+  Sessions abandoned after the inactivity window still accepted attempts, hint
+  reveals and tutor chat, because these functions only rejected completed
+  sessions. They now reject abandoned sessions the same way; reopening the
+  subject in Learn starts a new session.
+
+  ## Modified Functions
+  - `submit_attempt`, `reveal_hint`, `send_tutor_message` and
+    `save_tutor_reply` raise `Session was abandoned` for sessions with
+    `abandoned_at` set
+*/
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+  p_session_id uuid,
+  p_answer jsonb,
+  p_signals jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_mapping question_misconceptions%ROWTYPE;
+  v_misconception misconceptions%ROWTYPE;
+  v_is_step boolean;
+  v_next_question_id uuid;
+  v_next_step_id uuid;
+  v_answer text;
+  v_selected_options text[];
+  v_match jsonb;
+  v_is_correct boolean;
+  v_signals jsonb;
+  v_elapsed integer;
+  v_hints_used integer := 0;
+  v_hint_count integer := 0;
+  v_attempt_id uuid;
+  v_confusion jsonb := jsonb_build_object('score', 0, 'reasons', '[]'::jsonb);
+  v_confusion_score integer := 0;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_session.abandoned_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session was abandoned' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_is_step := v_session.scaffold_question_id IS NOT NULL;
+
+  SELECT * INTO v_question
+  FROM questions
+  WHERE id = coalesce(v_session.scaffold_question_id, v_session.question_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to answer' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_answer := describe_response(v_question, coalesce(p_answer, '""'::jsonb));
+
+  IF v_answer = '' THEN
+    RAISE EXCEPTION 'Answer must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_question.format IN ('multiple_choice', 'multi_select', 'ordering') THEN
+    IF jsonb_typeof(p_answer) = 'array' THEN
+      SELECT array_agg(value ORDER BY index) INTO v_selected_options
+      FROM jsonb_array_elements_text(p_answer) WITH ORDINALITY AS picked(value, index);
+    ELSE
+      v_selected_options := ARRAY[p_answer #>> '{}'];
+    END IF;
+  END IF;
+
+  v_match := evaluate_response(v_question, p_answer);
+  v_is_correct := (v_match->>'matched')::boolean;
+
+  IF NOT v_is_correct THEN
+    v_mapping := match_misconception(v_question, v_answer, v_selected_options);
+
+    IF v_mapping.id IS NOT NULL THEN
+      SELECT * INTO v_misconception FROM misconceptions WHERE id = v_mapping.misconception_id;
+    END IF;
+  END IF;
+
+  -- Client-reported signals are clamped so they cannot dominate the score
+  v_signals := jsonb_build_object(
+    'idle_seconds', greatest(0, least(3600, coalesce((p_signals->>'idle_seconds')::integer, 0))),
+    'deleted_chars', greatest(0, least(10000, coalesce((p_signals->>'deleted_chars')::integer, 0))),
+    'tab_away_seconds', greatest(0, least(3600, coalesce((p_signals->>'tab_away_seconds')::integer, 0)))
+  );
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  IF NOT v_is_step THEN
+    SELECT count(*) INTO v_hints_used
+    FROM hint_reveals
+    WHERE session_id = p_session_id
+    AND question_id = v_question.id;
+
+    SELECT count(*) INTO v_hint_count FROM question_hints WHERE question_id = v_question.id;
+  END IF;
+
+  INSERT INTO session_attempts (
+    session_id,
+    question_id,
+    parent_question_id,
+    attempt_number,
+    user_answer,
+    response,
+    selected_options,
+    is_correct,
+    match,
+    misconception_id,
+    hints_used,
+    credit,
+    time_from_start,
+    signals
+  )
+  VALUES (
+    p_session_id,
+    v_question.id,
+    v_question.parent_id,
+    (SELECT count(*) + 1 FROM session_attempts WHERE session_id = p_session_id),
+    v_answer,
+    p_answer,
+    v_selected_options,
+    v_is_correct,
+    v_match,
+    v_misconception.id,
+    v_hints_used,
+    CASE WHEN v_is_correct AND NOT v_is_step THEN hint_credit(v_hints_used, v_hint_count) END,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id)),
+    v_signals
+  )
+  RETURNING id INTO v_attempt_id;
+
+  IF v_is_step THEN
+    -- Steps are graded but not scored; move on to the next step or back to the question
+    IF v_is_correct THEN
+      SELECT id INTO v_next_step_id
+      FROM questions
+      WHERE parent_id = v_question.parent_id
+      AND position > v_question.position
+      ORDER BY position
+      LIMIT 1;
+
+      UPDATE learning_sessions SET scaffold_question_id = v_next_step_id WHERE id = p_session_id;
+    END IF;
+  ELSE
+    v_confusion := score_question_confusion(p_session_id, v_question.id, v_session.confusion_model);
+    v_confusion_score := (v_confusion->>'score')::integer;
+
+    UPDATE session_attempts
+    SET
+      confusion_score = v_confusion_score,
+      confusion_reasons = v_confusion->'reasons'
+    WHERE id = v_attempt_id;
+
+    PERFORM update_ratings(p_session_id, v_attempt_id);
+
+    IF v_is_correct THEN
+      v_next_question_id := select_question(
+        v_session.user_id,
+        v_session.subject_id,
+        v_session.question_selector,
+        p_session_id
+      );
+
+      IF v_next_question_id IS NOT NULL THEN
+        UPDATE learning_sessions SET question_id = v_next_question_id WHERE id = p_session_id;
+      END IF;
+    ELSE
+      -- Unlock hints as confusion rises
+      INSERT INTO hint_reveals (session_id, question_id, hint_id, source)
+      SELECT p_session_id, v_question.id, id, 'auto'
+      FROM question_hints
+      WHERE question_id = v_question.id
+      AND unlock_confusion <= v_confusion_score
+      ON CONFLICT (session_id, hint_id) DO NOTHING;
+
+      -- Break the question down once confusion reaches the help threshold
+      IF v_confusion_score >= 40 AND NOT EXISTS (
+        SELECT 1 FROM session_attempts
+        WHERE session_id = p_session_id
+        AND parent_question_id = v_question.id
+      ) THEN
+        SELECT id INTO v_next_step_id
+        FROM questions
+        WHERE parent_id = v_question.id
+        ORDER BY position
+        LIMIT 1;
+
+        IF v_next_step_id IS NOT NULL THEN
+          UPDATE learning_sessions SET scaffold_question_id = v_next_step_id WHERE id = p_session_id;
+        END IF;
+      END IF;
+
+      PERFORM refresh_session_stats(p_session_id);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_session FROM learning_sessions WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_is_correct,
+    'feedback', CASE
+      WHEN v_mapping.id IS NOT NULL THEN v_mapping.feedback
+      WHEN NOT v_is_correct THEN 'Not quite right. Try again.'
+      WHEN v_is_step AND v_next_step_id IS NOT NULL THEN 'Correct! On to the next step.'
+      WHEN v_is_step THEN 'Correct! Now try the original question again.'
+      WHEN v_next_question_id IS NOT NULL THEN 'Correct! On to the next question.'
+      ELSE 'Correct! Well done.'
+    END,
+    'match', CASE WHEN v_is_correct THEN v_match ELSE v_match - 'detail' END,
+    'misconception', CASE
+      WHEN v_misconception.id IS NOT NULL THEN jsonb_build_object(
+        'id', v_misconception.id,
+        'slug', v_misconception.slug,
+        'name', v_misconception.name
+      )
+    END,
+    'credit', CASE WHEN v_is_correct AND NOT v_is_step THEN hint_credit(v_hints_used, v_hint_count) END,
+    'hints', revealed_hints(p_session_id, coalesce(v_question.parent_id, v_question.id)),
+    'question_id', v_question.id,
+    'parent_question_id', v_question.parent_id,
+    'scaffold_question_id', v_session.scaffold_question_id,
+    'next_question_id', v_next_question_id,
+    'is_completed', v_session.is_completed,
+    'attempt_number', v_session.attempts,
+    'time_spent', v_session.time_spent,
+    'confusion_score', v_confusion_score,
+    'confusion_model', v_session.confusion_model,
+    'confusion_reasons', v_confusion->'reasons',
+    'ai_help_shown', v_session.ai_help_shown
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reveal_hint(p_session_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_hint_id uuid;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_session.abandoned_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session was abandoned' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT id INTO v_hint_id
+  FROM question_hints
+  WHERE question_id = v_session.question_id
+  AND id NOT IN (SELECT hint_id FROM hint_reveals WHERE session_id = p_session_id)
+  ORDER BY position
+  LIMIT 1;
+
+  IF v_hint_id IS NOT NULL THEN
+    INSERT INTO hint_reveals (session_id, question_id, hint_id, source)
+    VALUES (p_session_id, v_session.question_id, v_hint_id, 'learner');
+
+    PERFORM refresh_session_stats(p_session_id);
+  END IF;
+
+  RETURN revealed_hints(p_session_id, v_session.question_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION send_tutor_message(p_session_id uuid, p_body text)
+RETURNS tutor_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_elapsed integer;
+  v_message tutor_messages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.is_completed OR v_session.question_id IS NULL THEN
+    RAISE EXCEPTION 'Session is already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_session.abandoned_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session was abandoned' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF coalesce(trim(p_body), '') = '' THEN
+    RAISE EXCEPTION 'Message must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  INSERT INTO tutor_messages (session_id, question_id, role, body, seconds_from_start)
+  VALUES (
+    p_session_id,
+    v_session.question_id,
+    'learner',
+    left(trim(p_body), 4000),
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id))
+  )
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_tutor_reply(p_session_id uuid, p_provider text, p_body text)
+RETURNS tutor_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_redacted boolean;
+  v_elapsed integer;
+  v_message tutor_messages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM learning_sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.abandoned_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session was abandoned' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = v_session.question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to discuss' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF coalesce(trim(p_body), '') = '' THEN
+    RAISE EXCEPTION 'Message must not be empty' USING ERRCODE = '22023';
+  END IF;
+
+  v_redacted := reveals_answer(v_question, p_body);
+  v_elapsed := floor(extract(epoch FROM now() - v_session.start_time))::integer;
+
+  INSERT INTO tutor_messages (session_id, question_id, role, body, provider, redacted, seconds_from_start)
+  VALUES (
+    p_session_id,
+    v_question.id,
+    'tutor',
+    CASE
+      WHEN v_redacted THEN 'I would rather not hand you the answer. What does the data tell you if you go through it one step at a time?'
+      ELSE left(trim(p_body), 4000)
+    END,
+    p_provider,
+    v_redacted,
+    v_elapsed - least(v_elapsed, session_hidden_seconds(p_session_id))
+  )
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
@@ -0,0 +1,76 @@
+/*
+  # Template explanations on the server
+
+  ## Overview
+  Since only the service role may write the explanation cache, the template
+  tutor's explanations were generated in the browser and never stored: they
+  were not cached per (question, misconception), not recorded against the
+  session, and the mistake journal showed no explanation without a language
+  model. The template explanation is now written by the database itself. It
+  only depends on the question and the misconception, so it is cached like a
+  model's explanation and shared by every learner making the same mistake.
+
+  ## New Functions
+
+  ### `template_explanation(p_question questions, p_misconception misconceptions)`
+  The template tutor's text: the misconception's name and description, advice
+  for the question's format, and the data to work from.
+
+  ### `template_tutor_explanation(p_session_id uuid)`
+  Caches the template explanation for the caller's session's current question
+  and the misconception of its latest attempt, records it against the session
+  and returns `{ question_id, misconception_id, body }`, like
+  `tutor_explanation`.
+*/
+
+CREATE OR REPLACE FUNCTION template_explanation(p_question questions, p_misconception misconceptions)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws(' ',
+    CASE
+      WHEN p_misconception.id IS NOT NULL
+      THEN 'That is a common mistake: ' || lower(p_misconception.name) || '.'
+    END,
+    nullif(trim(p_misconception.description), ''),
+    CASE p_question.format
+      WHEN 'free_text' THEN 'Work the problem through on the data step by step before writing your answer.'
+      WHEN 'multiple_choice' THEN 'Rule out each option that contradicts the data before choosing one.'
+      WHEN 'multi_select' THEN 'Check every option on its own; more than one can be right, and so can none of the ones you picked.'
+      WHEN 'ordering' THEN 'Ask which step depends on the result of another: that one has to come later.'
+      WHEN 'fill_blank' THEN 'Read the whole sentence first, then fill each blank so the sentence stays true.'
+    END,
+    'Data to work from: ' || p_question.data
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION template_tutor_explanation(p_session_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_context record;
+  v_question questions%ROWTYPE;
+  v_misconception misconceptions%ROWTYPE;
+BEGIN
+  -- Also checks the session belongs to the caller
+  SELECT * INTO v_context FROM tutor_context(p_session_id);
+
+  SELECT * INTO v_question FROM questions WHERE id = v_context.question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session has no question to explain' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_misconception FROM misconceptions WHERE id = v_context.misconception_id;
+
+  RETURN save_tutor_explanation(p_session_id, 'template@1', template_explanation(v_question, v_misconception));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION template_tutor_explanation(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION template_tutor_explanation(uuid) TO authenticated;
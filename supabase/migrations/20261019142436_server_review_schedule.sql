@@ -0,0 +1,226 @@
+/*
+  # Review schedule on the server
+
+  ## Overview
+  Learn graded reviews and wrote `review_schedule` itself, through insert and
+  update policies, so a learner could set any `due_at`. It also only recorded
+  reviews of solved questions and completed sessions, so a failed review never
+  came back sooner. The schedule is now written by the database alone, with the
+  SM-2 rules that lived in src/lib/scheduler.ts:
+
+  - a question is reviewed when it is solved, graded from its attempts,
+    confusion and hint credit
+  - a session is reviewed for its subject when it is completed, graded from
+    its attempts per question, peak confusion and credit; focused retries only
+    review their own question
+  - when a session is abandoned, the question it was on fails its review if it
+    was answered wrongly, and so does the subject if anything was answered
+
+  ## Security
+  - Learners can no longer insert or update their review schedule
+
+  ## New Functions
+  - `review_quality(p_is_correct boolean, p_attempts numeric, p_confusion_score integer, p_credit numeric)`
+    - Grade 0-5 of a review
+  - `record_review(p_session learning_sessions, p_question_id uuid, p_quality integer)`
+    - Moves the next review of a question, or of the session's subject when
+      `p_question_id` is NULL
+  - `session_attempts_schedule_review()` - Trigger reviewing solved questions
+    and completed sessions
+  - `learning_sessions_schedule_review()` - Trigger failing the reviews of
+    abandoned sessions
+*/
+
+DROP POLICY IF EXISTS "Users can insert own review schedule" ON review_schedule;
+DROP POLICY IF EXISTS "Users can update own review schedule" ON review_schedule;
+
+REVOKE INSERT, UPDATE, DELETE ON review_schedule FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION review_quality(
+  p_is_correct boolean,
+  p_attempts numeric,
+  p_confusion_score integer,
+  p_credit numeric
+)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_quality integer;
+BEGIN
+  IF NOT p_is_correct THEN
+    RETURN CASE WHEN p_confusion_score >= 40 THEN 0 ELSE 1 END;
+  END IF;
+
+  v_quality := CASE
+    WHEN p_attempts <= 1 AND p_confusion_score < 20 THEN 5
+    WHEN p_attempts <= 2 AND p_confusion_score < 40 THEN 4
+    WHEN p_confusion_score < 70 THEN 3
+    ELSE 2
+  END;
+
+  -- Solving after most of the hint ladder is not a clean recall
+  IF p_credit < 0.5 THEN
+    v_quality := least(v_quality, 2);
+  ELSIF p_credit < 1 THEN
+    v_quality := least(v_quality, 3);
+  END IF;
+
+  RETURN v_quality;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_review(p_session learning_sessions, p_question_id uuid, p_quality integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous review_schedule%ROWTYPE;
+  v_ease_factor numeric;
+  v_repetitions integer;
+  v_interval_days integer;
+BEGIN
+  SELECT * INTO v_previous
+  FROM review_schedule
+  WHERE user_id = p_session.user_id
+  AND subject_id = p_session.subject_id
+  AND question_id IS NOT DISTINCT FROM p_question_id
+  FOR UPDATE;
+
+  v_ease_factor := coalesce(v_previous.ease_factor, 2.5);
+  v_repetitions := coalesce(v_previous.repetitions, 0);
+  v_interval_days := coalesce(v_previous.interval_days, 0);
+
+  IF p_quality < 3 THEN
+    v_repetitions := 0;
+    v_interval_days := 1;
+  ELSE
+    v_repetitions := v_repetitions + 1;
+    v_interval_days := CASE v_repetitions
+      WHEN 1 THEN 1
+      WHEN 2 THEN 6
+      ELSE round(v_interval_days * v_ease_factor)
+    END;
+  END IF;
+
+  v_ease_factor := greatest(1.3, v_ease_factor + (0.1 - (5 - p_quality) * (0.08 + (5 - p_quality) * 0.02)));
+
+  INSERT INTO review_schedule (
+    user_id, subject_id, question_id, ease_factor, interval_days, repetitions,
+    due_at, last_quality, last_reviewed_at, last_session_id
+  )
+  VALUES (
+    p_session.user_id, p_session.subject_id, p_question_id, round(v_ease_factor, 2), v_interval_days, v_repetitions,
+    now() + make_interval(days => v_interval_days), p_quality, now(), p_session.id
+  )
+  ON CONFLICT (user_id, subject_id, question_id) DO UPDATE SET
+    ease_factor = EXCLUDED.ease_factor,
+    interval_days = EXCLUDED.interval_days,
+    repetitions = EXCLUDED.repetitions,
+    due_at = EXCLUDED.due_at,
+    last_quality = EXCLUDED.last_quality,
+    last_reviewed_at = EXCLUDED.last_reviewed_at,
+    last_session_id = EXCLUDED.last_session_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_review(learning_sessions, uuid, integer) FROM public, anon, authenticated;
+
+-- Runs once submit_attempt has scored the attempt, after
+-- session_attempts_refresh_session has brought the session's stats up to date.
+CREATE OR REPLACE FUNCTION session_attempts_schedule_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session learning_sessions%ROWTYPE;
+  v_attempts integer;
+  v_question_count integer;
+BEGIN
+  SELECT * INTO v_session FROM learning_sessions WHERE id = NEW.session_id;
+
+  SELECT count(*) INTO v_attempts
+  FROM session_attempts
+  WHERE session_id = NEW.session_id
+  AND question_id = NEW.question_id
+  AND attempt_number <= NEW.attempt_number;
+
+  PERFORM record_review(
+    v_session,
+    NEW.question_id,
+    review_quality(true, v_attempts, NEW.confusion_score, NEW.credit)
+  );
+
+  IF v_session.is_completed AND v_session.focus_question_id IS NULL THEN
+    SELECT count(DISTINCT question_id) INTO v_question_count
+    FROM session_attempts
+    WHERE session_id = NEW.session_id
+    AND parent_question_id IS NULL;
+
+    PERFORM record_review(
+      v_session,
+      NULL,
+      review_quality(
+        true,
+        v_session.attempts::numeric / greatest(1, v_question_count),
+        v_session.confusion_score,
+        v_session.credit
+      )
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS session_attempts_schedule_review ON session_attempts;
+CREATE TRIGGER session_attempts_schedule_review
+  AFTER UPDATE OF confusion_score ON session_attempts
+  FOR EACH ROW
+  WHEN (NEW.is_correct AND NEW.parent_question_id IS NULL)
+  EXECUTE FUNCTION session_attempts_schedule_review();
+
+CREATE OR REPLACE FUNCTION learning_sessions_schedule_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_attempt session_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_last_attempt
+  FROM session_attempts
+  WHERE session_id = NEW.id
+  AND question_id = NEW.question_id
+  ORDER BY attempt_number DESC
+  LIMIT 1;
+
+  IF FOUND AND NOT v_last_attempt.is_correct THEN
+    PERFORM record_review(
+      NEW,
+      NEW.question_id,
+      review_quality(false, NULL, v_last_attempt.confusion_score, NULL)
+    );
+  END IF;
+
+  IF NEW.focus_question_id IS NULL AND NEW.attempts > 0 THEN
+    PERFORM record_review(NEW, NULL, review_quality(false, NULL, NEW.confusion_score, NULL));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS learning_sessions_schedule_review ON learning_sessions;
+CREATE TRIGGER learning_sessions_schedule_review
+  AFTER UPDATE OF abandoned_at ON learning_sessions
+  FOR EACH ROW
+  WHEN (OLD.abandoned_at IS NULL AND NEW.abandoned_at IS NOT NULL AND NOT NEW.is_completed)
+  EXECUTE FUNCTION learning_sessions_schedule_review();
@@ -0,0 +1,149 @@
+/*
+  # Wrong answers: share matched to a misconception
+
+  ## Overview
+  `question_item_stats` attributed each frequent wrong answer to the
+  misconception it was most often matched to, but `mode()` skips NULLs: an
+  answer matched to a misconception in one session out of twenty counted as
+  explained, and the "common wrong answer" flag never fired for it. Each
+  wrong answer now also reports how many of its sessions matched that
+  misconception, so the flag can look at the unexplained share.
+
+  ## Modified Functions
+  - `question_item_stats` - `wrong_answers` entries gain
+    `misconception_sessions` (integer), the number of the answer's sessions
+    matched to `misconception_id`; `misconception_id` is the misconception
+    matched in the most sessions, or NULL when none was
+*/
+
+CREATE OR REPLACE FUNCTION question_item_stats(
+  p_subject_id uuid,
+  p_current_revision_only boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_author() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN (
+    WITH attempts AS (
+      SELECT session_attempts.*
+      FROM session_attempts
+      JOIN questions ON questions.id = session_attempts.question_id
+      WHERE questions.subject_id = p_subject_id
+      AND questions.parent_id IS NULL
+      AND (
+        NOT p_current_revision_only
+        OR session_attempts.question_revision_id = questions.revision_id
+      )
+    ),
+    encounters AS (
+      SELECT
+        question_id,
+        session_id,
+        count(*) AS attempt_count,
+        bool_or(is_correct) AS solved,
+        (array_agg(is_correct ORDER BY attempt_number))[1] AS first_try,
+        CASE WHEN bool_or(is_correct) THEN
+          greatest(
+            0,
+            min(time_from_start) FILTER (WHERE is_correct)
+              - question_started_at(session_id, question_id)
+          )
+        END AS seconds_to_correct,
+        EXISTS (
+          SELECT 1 FROM hint_reveals
+          WHERE hint_reveals.session_id = attempts.session_id
+          AND hint_reveals.question_id = attempts.question_id
+        ) AS hinted
+      FROM attempts
+      GROUP BY question_id, session_id
+    ),
+    wrong_attempts AS (
+      SELECT question_id, lower(trim(user_answer)) AS answer, session_id, misconception_id
+      FROM attempts
+      WHERE NOT is_correct
+      AND trim(user_answer) <> ''
+    ),
+    answer_misconceptions AS (
+      SELECT DISTINCT ON (question_id, answer)
+        question_id,
+        answer,
+        misconception_id,
+        count(DISTINCT session_id)::integer AS sessions
+      FROM wrong_attempts
+      WHERE misconception_id IS NOT NULL
+      GROUP BY question_id, answer, misconception_id
+      ORDER BY question_id, answer, count(DISTINCT session_id) DESC, misconception_id
+    ),
+    wrong_answers AS (
+      SELECT
+        wrong_attempts.question_id,
+        wrong_attempts.answer,
+        count(DISTINCT wrong_attempts.session_id)::integer AS sessions,
+        answer_misconceptions.misconception_id,
+        coalesce(answer_misconceptions.sessions, 0) AS misconception_sessions,
+        row_number() OVER (
+          PARTITION BY wrong_attempts.question_id
+          ORDER BY count(DISTINCT wrong_attempts.session_id) DESC, wrong_attempts.answer
+        ) AS rank
+      FROM wrong_attempts
+      LEFT JOIN answer_misconceptions
+        ON answer_misconceptions.question_id = wrong_attempts.question_id
+        AND answer_misconceptions.answer = wrong_attempts.answer
+      GROUP BY
+        wrong_attempts.question_id,
+        wrong_attempts.answer,
+        answer_misconceptions.misconception_id,
+        answer_misconceptions.sessions
+    )
+    SELECT coalesce(jsonb_agg(stats ORDER BY position), '[]'::jsonb)
+    FROM (
+      SELECT
+        questions.position,
+        jsonb_build_object(
+          'question_id', questions.id,
+          'encounters', count(encounters.session_id)::integer,
+          'solve_rate', round(avg(encounters.solved::integer), 2),
+          'first_try_rate', round(avg(encounters.first_try::integer), 2),
+          'mean_attempts', round(avg(encounters.attempt_count) FILTER (WHERE encounters.solved), 1),
+          'mean_seconds_to_correct', round(avg(encounters.seconds_to_correct))::integer,
+          'avg_confusion', (
+            SELECT round(avg(confusion_score))::integer
+            FROM attempts
+            WHERE attempts.question_id = questions.id
+          ),
+          'hint_rate', round(avg(encounters.hinted::integer), 2),
+          'wrong_answers', (
+            SELECT coalesce(jsonb_agg(
+              jsonb_build_object(
+                'answer', wrong_answers.answer,
+                'sessions', wrong_answers.sessions,
+                'misconception_id', wrong_answers.misconception_id,
+                'misconception_sessions', wrong_answers.misconception_sessions
+              )
+              ORDER BY wrong_answers.rank
+            ), '[]'::jsonb)
+            FROM wrong_answers
+            WHERE wrong_answers.question_id = questions.id
+            AND wrong_answers.rank <= 3
+          )
+        ) AS stats
+      FROM questions
+      LEFT JOIN encounters ON encounters.question_id = questions.id
+      WHERE questions.subject_id = p_subject_id
+      AND questions.parent_id IS NULL
+      GROUP BY questions.id, questions.position
+    ) AS per_question
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION question_item_stats(uuid, boolean) FROM public, anon;
+GRANT EXECUTE ON FUNCTION question_item_stats(uuid, boolean) TO authenticated;
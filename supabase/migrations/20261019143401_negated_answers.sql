@@ -0,0 +1,236 @@
+/*
+  # Negated answers
+
+  ## Overview
+  Accepted answers and required keywords were found anywhere in a free-text
+  answer, so a negated answer passed: "it does not stay in the same state"
+  contains "same state" and was marked correct. A mention now only counts when
+  none of the four words before it is a negation ("not", "never", "doesn't",
+  ...), unless the accepted phrase is itself negative, like "does not change".
+
+  `fuzzy.max_distance` was also applied to required keywords, so "stay"
+  counted for "stays" without the spec asking for it. Keywords are now
+  matched exactly unless `keywords.fuzzy` is set.
+
+  ## Answer spec (`questions.answer_spec`)
+  - `keywords.fuzzy` (boolean) - Match required keywords within
+    `fuzzy.max_distance` as well; off by default
+
+  ## New Functions
+  - `negation_tokens()` - The words that negate what follows them
+  - `answer_negated(text[], integer)` - Whether a negation comes shortly before
+    the token at that position
+  - `affirmed_phrase_distance(text[], text[])` - `answer_phrase_distance`
+    over the mentions that are not negated
+
+  ## Modified Functions
+  - `match_free_text` matches accepted answers, fuzzy or not, and required
+    keywords with `affirmed_phrase_distance`; forbidden keywords still reject
+    the answer wherever they appear
+*/
+
+-- "doesn't" is normalized to "doesn t". "no" is left out: answers often open
+-- with it, as in "no, it stays the same".
+CREATE OR REPLACE FUNCTION negation_tokens()
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY[
+    'not', 'never', 'nor', 'neither', 'cannot', 't',
+    'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'wont', 'cant', 'hasnt', 'havent'
+  ];
+$$;
+
+CREATE OR REPLACE FUNCTION answer_negated(p_answer_tokens text[], p_position integer)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_answer_tokens[greatest(1, p_position - 4):p_position - 1] && negation_tokens();
+$$;
+
+-- As answer_phrase_distance, skipping the windows that are negated. A phrase
+-- that is itself negative is matched wherever it appears.
+CREATE OR REPLACE FUNCTION affirmed_phrase_distance(p_answer_tokens text[], p_phrase_tokens text[])
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_answer_length integer := coalesce(array_length(p_answer_tokens, 1), 0);
+  v_phrase_length integer := coalesce(array_length(p_phrase_tokens, 1), 0);
+  v_negative boolean := p_phrase_tokens && negation_tokens();
+  v_best integer;
+  v_window integer;
+BEGIN
+  IF v_phrase_length = 0 OR v_answer_length < v_phrase_length THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_start IN 0 .. v_answer_length - v_phrase_length LOOP
+    CONTINUE WHEN NOT v_negative AND answer_negated(p_answer_tokens, v_start + 1);
+
+    v_window := 0;
+    FOR v_index IN 1 .. v_phrase_length LOOP
+      v_window := greatest(
+        v_window,
+        extensions.levenshtein(p_answer_tokens[v_start + v_index], p_phrase_tokens[v_index])
+      );
+    END LOOP;
+
+    IF v_best IS NULL OR v_window < v_best THEN
+      v_best := v_window;
+    END IF;
+  END LOOP;
+
+  RETURN v_best;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_free_text(p_spec jsonb, p_correct_answer text, p_answer text)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_spec jsonb := coalesce(p_spec, '{}'::jsonb);
+  v_tokens text[] := answer_tokens(p_answer);
+  v_accepted text[];
+  v_phrase text;
+  v_distance integer;
+  v_best_distance integer;
+  v_best_phrase text;
+  v_max_distance integer;
+  v_keyword_distance integer;
+  v_numbers text[];
+  v_number numeric;
+  v_unit text;
+  v_factor numeric;
+  v_target numeric;
+  v_tolerance numeric;
+  v_pattern text;
+  v_group jsonb;
+  v_mentioned text[] := ARRAY[]::text[];
+  v_group_hit text;
+BEGIN
+  IF array_length(v_tokens, 1) IS NULL THEN
+    RETURN jsonb_build_object('matched', false, 'rule', 'empty', 'detail', 'The answer is empty');
+  END IF;
+
+  -- Forbidden keywords reject the answer before anything else is considered
+  FOR v_phrase IN SELECT jsonb_array_elements_text(coalesce(v_spec #> '{keywords,forbidden}', '[]'::jsonb)) LOOP
+    IF answer_phrase_distance(v_tokens, answer_tokens(v_phrase)) = 0 THEN
+      RETURN jsonb_build_object('matched', false, 'rule', 'forbidden_keyword',
+        'detail', 'Mentions "' || v_phrase || '"');
+    END IF;
+  END LOOP;
+
+  SELECT coalesce(array_agg(value), ARRAY[]::text[]) INTO v_accepted
+  FROM jsonb_array_elements_text(coalesce(v_spec->'accepted', '[]'::jsonb));
+
+  IF NOT (v_spec ? 'accepted') AND NOT (v_spec ? 'numeric') AND NOT (v_spec ? 'patterns')
+    AND NOT (v_spec ? 'keywords') AND p_correct_answer IS NOT NULL THEN
+    v_accepted := ARRAY[p_correct_answer];
+  END IF;
+
+  FOREACH v_phrase IN ARRAY v_accepted LOOP
+    v_distance := affirmed_phrase_distance(v_tokens, answer_tokens(v_phrase));
+
+    IF v_distance = 0 THEN
+      RETURN jsonb_build_object('matched', true, 'rule', 'accepted',
+        'detail', CASE
+          WHEN normalize_answer(p_answer) = normalize_answer(v_phrase) THEN 'Matches "' || v_phrase || '"'
+          ELSE 'Contains "' || v_phrase || '"'
+        END);
+    END IF;
+
+    IF v_distance IS NOT NULL AND (v_best_distance IS NULL OR v_distance < v_best_distance) THEN
+      v_best_distance := v_distance;
+      v_best_phrase := v_phrase;
+    END IF;
+  END LOOP;
+
+  IF v_spec ? 'numeric' THEN
+    SELECT array_agg(m[1] || '|' || coalesce(m[2], '')) INTO v_numbers
+    FROM regexp_matches(normalize_answer(p_answer), '(-?[0-9]+(?:\.[0-9]+)?)\s*([a-z%/]+)?', 'g') AS m;
+
+    IF coalesce(array_length(v_numbers, 1), 0) = 1 THEN
+      v_number := split_part(v_numbers[1], '|', 1)::numeric;
+      v_unit := split_part(v_numbers[1], '|', 2);
+      v_target := (v_spec #>> '{numeric,value}')::numeric;
+      v_tolerance := coalesce((v_spec #>> '{numeric,tolerance}')::numeric, 0);
+
+      IF v_unit = '' THEN
+        v_factor := CASE WHEN coalesce((v_spec #>> '{numeric,unit_required}')::boolean, false) THEN NULL ELSE 1 END;
+      ELSE
+        v_factor := (v_spec -> 'numeric' -> 'units' ->> v_unit)::numeric;
+      END IF;
+
+      IF v_factor IS NOT NULL AND abs(v_number * v_factor - v_target) <= v_tolerance THEN
+        RETURN jsonb_build_object('matched', true, 'rule', 'numeric',
+          'detail', trim(v_number || ' ' || v_unit) || ' is within ' || v_tolerance || ' of ' || v_target);
+      END IF;
+    END IF;
+  END IF;
+
+  FOR v_pattern IN SELECT jsonb_array_elements_text(coalesce(v_spec->'patterns', '[]'::jsonb)) LOOP
+    BEGIN
+      IF trim(p_answer) ~* v_pattern THEN
+        RETURN jsonb_build_object('matched', true, 'rule', 'pattern', 'detail', 'Matches /' || v_pattern || '/');
+      END IF;
+    EXCEPTION
+      WHEN invalid_regular_expression THEN
+        NULL;
+    END;
+  END LOOP;
+
+  v_max_distance := coalesce((v_spec #>> '{fuzzy,max_distance}')::integer, 0);
+  v_keyword_distance := CASE
+    WHEN coalesce((v_spec #>> '{keywords,fuzzy}')::boolean, false) THEN v_max_distance
+    ELSE 0
+  END;
+
+  IF v_best_distance IS NOT NULL AND v_best_distance <= v_max_distance THEN
+    RETURN jsonb_build_object('matched', true, 'rule', 'fuzzy',
+      'detail', 'Within ' || v_best_distance || ' edit(s) of "' || v_best_phrase || '"');
+  END IF;
+
+  IF jsonb_array_length(coalesce(v_spec #> '{keywords,required}', '[]'::jsonb)) > 0 THEN
+    FOR v_group IN SELECT jsonb_array_elements(v_spec #> '{keywords,required}') LOOP
+      v_group_hit := NULL;
+
+      FOR v_phrase IN
+        SELECT value FROM jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(v_group) = 'array' THEN v_group ELSE jsonb_build_array(v_group) END
+        )
+      LOOP
+        IF affirmed_phrase_distance(v_tokens, answer_tokens(v_phrase)) <= v_keyword_distance THEN
+          v_group_hit := v_phrase;
+          EXIT;
+        END IF;
+      END LOOP;
+
+      IF v_group_hit IS NULL THEN
+        RETURN jsonb_build_object('matched', false, 'rule', 'missing_keyword',
+          'detail', 'Does not mention ' || (
+            SELECT string_agg('"' || value || '"', ' or ')
+            FROM jsonb_array_elements_text(
+              CASE WHEN jsonb_typeof(v_group) = 'array' THEN v_group ELSE jsonb_build_array(v_group) END
+            )
+          ));
+      END IF;
+
+      v_mentioned := v_mentioned || v_group_hit;
+    END LOOP;
+
+    RETURN jsonb_build_object('matched', true, 'rule', 'keywords',
+      'detail', 'Mentions ' || array_to_string(v_mentioned, ', '));
+  END IF;
+
+  RETURN jsonb_build_object('matched', false, 'rule', 'no_match', 'detail', 'Does not match any accepted answer');
+END;
+$$;
@@ -0,0 +1,67 @@
+/*
+  # Local development seed
+
+  ## Overview
+  Loaded by `supabase db reset` on the local stack only; never run it against
+  a hosted project. It adds an instructor and a learner, both with the password
+  `password123`, and a classroom the learner belongs to, so live monitoring
+  and nudges can be tried out, and checked by supabase/tests.
+
+  - `instructor@example.com` - instructor of "Live Monitoring Demo"
+  - `learner@example.com` - member of the classroom, join code `LIVE2026`
+*/
+
+INSERT INTO auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, email_change, email_change_token_new, recovery_token
+)
+VALUES
+  (
+    '00000000-0000-0000-0000-000000000000', '00000000-0000-4000-8000-000000000001',
+    'authenticated', 'authenticated', 'instructor@example.com',
+    extensions.crypt('password123', extensions.gen_salt('bf')), now(),
+    '{"provider": "email", "providers": ["email"]}', '{}', now(), now(),
+    '', '', '', ''
+  ),
+  (
+    '00000000-0000-0000-0000-000000000000', '00000000-0000-4000-8000-000000000002',
+    'authenticated', 'authenticated', 'learner@example.com',
+    extensions.crypt('password123', extensions.gen_salt('bf')), now(),
+    '{"provider": "email", "providers": ["email"]}', '{}', now(), now(),
+    '', '', '', ''
+  )
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO auth.identities (id, provider_id, user_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+SELECT
+  gen_random_uuid(),
+  users.id::text,
+  users.id,
+  jsonb_build_object('sub', users.id::text, 'email', users.email),
+  'email',
+  now(),
+  now(),
+  now()
+FROM auth.users
+WHERE users.id IN ('00000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO profiles (id, email, full_name, role)
+VALUES
+  ('00000000-0000-4000-8000-000000000001', 'instructor@example.com', 'Demo Instructor', 'instructor'),
+  ('00000000-0000-4000-8000-000000000002', 'learner@example.com', 'Demo Learner', 'learner')
+ON CONFLICT (id) DO UPDATE SET role = EXCLUDED.role;
+
+INSERT INTO classrooms (id, instructor_id, name, join_code)
+VALUES (
+  '00000000-0000-4000-8000-000000000101',
+  '00000000-0000-4000-8000-000000000001',
+  'Live Monitoring Demo',
+  'LIVE2026'
+)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO classroom_members (classroom_id, user_id)
+VALUES ('00000000-0000-4000-8000-000000000101', '00000000-0000-4000-8000-000000000002')
+ON CONFLICT DO NOTHING;
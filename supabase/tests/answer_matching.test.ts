@@ -0,0 +1,43 @@
+// Checks free-text matching against the local Supabase stack; see
+// live_monitoring.test.ts for how to run it.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { anonKey, seededQuestion, signIn, url } from './client';
+
+describe.skipIf(!url || !anonKey)('free-text answer matching', () => {
+  let learner: SupabaseClient;
+
+  beforeAll(async () => {
+    learner = await signIn('learner@example.com');
+  });
+
+  // "What happens to an object if no external force acts on it?", accepting
+  // "same state" and keywords such as "stays" and "rest".
+  async function answerFirstLaw(answers: string[]) {
+    const { subjectId, question } = await seededQuestion(learner, 'newtons_laws', 1);
+    const { data: session } = await learner.rpc('resume_session', {
+      p_subject_id: subjectId,
+      p_stale_minutes: 120,
+      p_question_id: question.id,
+    });
+
+    const results = [];
+    for (const answer of answers) {
+      const { data, error } = await learner.rpc('submit_attempt', { p_session_id: session.id, p_answer: answer });
+      expect(error).toBeNull();
+      results.push(data.is_correct);
+    }
+    return results;
+  }
+
+  it('rejects a negated answer', async () => {
+    expect(
+      await answerFirstLaw(['it does not stay in the same state', 'it never remains the same', 'it stays in the same state'])
+    ).toEqual([false, false, true]);
+  });
+
+  it('matches keywords exactly unless the spec asks for fuzzy keywords', async () => {
+    expect(await answerFirstLaw(['it stay at rest', 'it stays at rest'])).toEqual([false, true]);
+  });
+});
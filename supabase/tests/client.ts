@@ -0,0 +1,47 @@
+// Shared setup for the tests against the local Supabase stack; see
+// live_monitoring.test.ts for how to run them.
+
+import { SupabaseClient, createClient } from '@supabase/supabase-js';
+import { Question } from '../../src/lib/supabase';
+
+export const url = process.env.SUPABASE_TEST_URL;
+export const anonKey = process.env.SUPABASE_TEST_ANON_KEY;
+
+// From supabase/seed.sql
+export const INSTRUCTOR_ID = '00000000-0000-4000-8000-000000000001';
+export const LEARNER_ID = '00000000-0000-4000-8000-000000000002';
+export const CLASSROOM_ID = '00000000-0000-4000-8000-000000000101';
+const PASSWORD = 'password123';
+
+// QUESTION_COLUMNS in src/lib/supabase.ts
+const QUESTION_COLUMNS =
+  'id, subject_id, parent_id, position, difficulty, format, question, data, options, revision_id, created_at';
+
+export async function signIn(email: string): Promise<SupabaseClient> {
+  const client = createClient(url!, anonKey!, { auth: { persistSession: false } });
+  const { error } = await client.auth.signInWithPassword({ email, password: PASSWORD });
+  if (error) {
+    throw new Error(`Could not sign in as ${email}; was the seed loaded? ${error.message}`);
+  }
+  // Realtime authorises with the signed-in user's token.
+  const { data } = await client.auth.getSession();
+  client.realtime.setAuth(data.session!.access_token);
+  return client;
+}
+
+// Top-level question of a seeded subject, by its position in the bank.
+export async function seededQuestion(
+  client: SupabaseClient,
+  subjectSlug: string,
+  position: number
+): Promise<{ subjectId: string; question: Question }> {
+  const { data: subject } = await client.from('subjects').select('id').eq('slug', subjectSlug).single();
+  const { data: question } = await client
+    .from('questions')
+    .select(QUESTION_COLUMNS)
+    .eq('subject_id', subject!.id)
+    .eq('position', position)
+    .is('parent_id', null)
+    .single();
+  return { subjectId: subject!.id, question: question! };
+}
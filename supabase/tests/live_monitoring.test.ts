@@ -0,0 +1,159 @@
+// Checks live classroom monitoring against the local Supabase stack: the
+// realtime changes useClassroomMonitor and useNudges subscribe to reach the
+// instructor and the learner, through the same RLS as the app.
+//
+//   supabase start
+//   supabase db reset          # applies the migrations and supabase/seed.sql
+//   SUPABASE_TEST_URL=http://127.0.0.1:54321 \
+//   SUPABASE_TEST_ANON_KEY=<anon key from `supabase status`> \
+//   npx vitest run supabase/tests
+//
+// Without those variables the test is skipped, so `npm test` does not need the
+// stack. To try it by hand, sign in as instructor@example.com in one browser
+// and learner@example.com in another (password `password123`), open the
+// instructor view and answer a Data Structures question wrongly a few times.
+
+import { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CLASSROOM_ID, INSTRUCTOR_ID, LEARNER_ID, anonKey, signIn, url } from './client';
+
+// CONFUSION_THRESHOLD in src/lib/confusion.ts
+const CONFUSION_THRESHOLD = 40;
+
+type Change = { table: string; eventType: string; row: Record<string, unknown> };
+
+function subscribe(channel: RealtimeChannel): Promise<void> {
+  return new Promise((resolve, reject) => {
+    channel.subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') resolve();
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') reject(error ?? new Error(status));
+    });
+  });
+}
+
+async function waitFor<T>(find: () => T | undefined, timeoutMs = 10000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const found = find();
+    if (found !== undefined) return found;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error(`Nothing arrived within ${timeoutMs}ms`);
+}
+
+describe.skipIf(!url || !anonKey)('live classroom monitoring', () => {
+  let instructor: SupabaseClient;
+  let learner: SupabaseClient;
+  const instructorChanges: Change[] = [];
+  const learnerChanges: Change[] = [];
+
+  beforeAll(async () => {
+    instructor = await signIn('instructor@example.com');
+    learner = await signIn('learner@example.com');
+
+    // As useClassroomMonitor subscribes
+    await subscribe(
+      instructor
+        .channel(`classroom-monitor:${CLASSROOM_ID}`)
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'learning_sessions', filter: `user_id=in.(${LEARNER_ID})` },
+          (payload) =>
+            instructorChanges.push({ table: 'learning_sessions', eventType: payload.eventType, row: payload.new })
+        )
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'session_attempts' }, (payload) =>
+          instructorChanges.push({ table: 'session_attempts', eventType: payload.eventType, row: payload.new })
+        )
+    );
+
+    // As useNudges subscribes
+    await subscribe(
+      learner
+        .channel(`nudges:${LEARNER_ID}`)
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'classroom_nudges', filter: `user_id=eq.${LEARNER_ID}` },
+          (payload) =>
+            learnerChanges.push({ table: 'classroom_nudges', eventType: payload.eventType, row: payload.new })
+        )
+    );
+  });
+
+  afterAll(async () => {
+    await instructor?.removeAllChannels();
+    await learner?.removeAllChannels();
+  });
+
+  it('streams a student\'s attempts to their instructor until confusion crosses the threshold', async () => {
+    const { data: subject } = await learner.from('subjects').select('id').eq('slug', 'data_structures').single();
+    const { data: question } = await learner
+      .from('questions')
+      .select('id')
+      .eq('subject_id', subject!.id)
+      .eq('format', 'free_text')
+      .is('parent_id', null)
+      .order('position')
+      .limit(1)
+      .single();
+
+    // A focused retry keeps the session on this one free-text question.
+    const { data: session, error: sessionError } = await learner.rpc('resume_session', {
+      p_subject_id: subject!.id,
+      p_stale_minutes: 120,
+      p_question_id: question!.id,
+    });
+    expect(sessionError).toBeNull();
+
+    let confusionScore = 0;
+    for (let attempt = 0; attempt < 8 && confusionScore < CONFUSION_THRESHOLD; attempt++) {
+      const { data: result, error } = await learner.rpc('submit_attempt', {
+        p_session_id: session.id,
+        p_answer: 'not the answer',
+      });
+      expect(error).toBeNull();
+      expect(result.is_correct).toBe(false);
+      confusionScore = result.confusion_score;
+    }
+    expect(confusionScore).toBeGreaterThanOrEqual(CONFUSION_THRESHOLD);
+
+    const scored = await waitFor(() =>
+      instructorChanges.find(
+        (change) =>
+          change.table === 'session_attempts' &&
+          change.row.session_id === session.id &&
+          Number(change.row.confusion_score) >= CONFUSION_THRESHOLD
+      )
+    );
+    expect(scored.row.question_id).toBe(question!.id);
+
+    await waitFor(() =>
+      instructorChanges.find((change) => change.table === 'learning_sessions' && change.row.id === session.id)
+    );
+  });
+
+  it('delivers a nudge to the student as soon as it is sent', async () => {
+    const body = `Take another look at the data (${Date.now()})`;
+    const { error } = await instructor.from('classroom_nudges').insert({
+      classroom_id: CLASSROOM_ID,
+      instructor_id: INSTRUCTOR_ID,
+      user_id: LEARNER_ID,
+      kind: 'nudge',
+      body,
+    });
+    expect(error).toBeNull();
+
+    const nudge = await waitFor(() => learnerChanges.find((change) => change.row.body === body));
+    expect(nudge.row.read_at).toBeNull();
+  });
+
+  it('does not let the student nudge anyone', async () => {
+    const { error } = await learner.from('classroom_nudges').insert({
+      classroom_id: CLASSROOM_ID,
+      instructor_id: LEARNER_ID,
+      user_id: LEARNER_ID,
+      body: 'Nudging myself',
+    });
+
+    expect(error).not.toBeNull();
+  });
+});
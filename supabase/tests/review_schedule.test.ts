@@ -0,0 +1,59 @@
+// Checks that the review schedule is kept by the database against the local
+// Supabase stack; see live_monitoring.test.ts for how to run it.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { ReviewScheduleEntry } from '../../src/lib/supabase';
+import { LEARNER_ID, anonKey, seededQuestion, signIn, url } from './client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe.skipIf(!url || !anonKey)('review schedule', () => {
+  let learner: SupabaseClient;
+
+  beforeAll(async () => {
+    learner = await signIn('learner@example.com');
+  });
+
+  async function review(questionId: string): Promise<ReviewScheduleEntry> {
+    const { data } = await learner
+      .from('review_schedule')
+      .select('*')
+      .eq('user_id', LEARNER_ID)
+      .eq('question_id', questionId)
+      .single();
+    return data!;
+  }
+
+  it('schedules a question when it is solved', async () => {
+    // "0" is the index of the first element.
+    const { subjectId, question } = await seededQuestion(learner, 'arrays', 1);
+    const { data: session } = await learner.rpc('resume_session', {
+      p_subject_id: subjectId,
+      p_stale_minutes: 120,
+      p_question_id: question.id,
+    });
+
+    const { data: result } = await learner.rpc('submit_attempt', { p_session_id: session.id, p_answer: '0' });
+    expect(result.is_correct).toBe(true);
+
+    const scheduled = await review(question.id);
+    expect(scheduled.last_session_id).toBe(session.id);
+    expect(scheduled.last_quality).toBeGreaterThanOrEqual(3);
+    expect(scheduled.repetitions).toBeGreaterThanOrEqual(1);
+    expect(new Date(scheduled.due_at).getTime()).toBeGreaterThan(Date.now() + (scheduled.interval_days - 1) * DAY_MS);
+  });
+
+  it('does not let the learner move a review', async () => {
+    const { question } = await seededQuestion(learner, 'arrays', 1);
+    const before = await review(question.id);
+
+    const { error } = await learner
+      .from('review_schedule')
+      .update({ due_at: new Date(Date.now() + 365 * DAY_MS).toISOString() })
+      .eq('id', before.id);
+
+    expect(error).not.toBeNull();
+    expect((await review(question.id)).due_at).toBe(before.due_at);
+  });
+});
@@ -0,0 +1,75 @@
+// Checks the answer guard in save_tutor_reply against the local Supabase stack;
+// see live_monitoring.test.ts for how to run it.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { templateTutor } from '../../src/lib/tutor';
+import { anonKey, seededQuestion, signIn, url } from './client';
+
+describe.skipIf(!url || !anonKey)('tutor chat answer guard', () => {
+  let learner: SupabaseClient;
+
+  beforeAll(async () => {
+    learner = await signIn('learner@example.com');
+  });
+
+  async function chatAbout(position: number) {
+    const { subjectId, question } = await seededQuestion(learner, 'data_structures', position);
+    const { data: session, error } = await learner.rpc('resume_session', {
+      p_subject_id: subjectId,
+      p_stale_minutes: 120,
+      p_question_id: question.id,
+    });
+    expect(error).toBeNull();
+
+    return {
+      question,
+      async reply(body: string) {
+        const { error: sendError } = await learner.rpc('send_tutor_message', {
+          p_session_id: session.id,
+          p_body: 'Why is my answer wrong?',
+        });
+        expect(sendError).toBeNull();
+
+        const { data: message, error: replyError } = await learner.rpc('save_tutor_reply', {
+          p_session_id: session.id,
+          p_provider: templateTutor.name,
+          p_body: body,
+        });
+        expect(replyError).toBeNull();
+        return message;
+      },
+    };
+  }
+
+  it('replaces a reply that gives the answer away', async () => {
+    // "How many middle elements does binary search compare against before it
+    // finds 23?": the answer, 3, is not in the data.
+    const chat = await chatAbout(2);
+    const message = await chat.reply('It compares against 3 middle elements.');
+
+    expect(message.redacted).toBe(true);
+  });
+
+  it('keeps replies that quote the data, even when the answer is in it', async () => {
+    // The answer to "Find the INDEX of 23", 5, is also one of the array's values.
+    const chat = await chatAbout(1);
+    const body = await templateTutor.reply({
+      subjectTitle: 'Binary Search',
+      question: chat.question,
+      attempts: [],
+      misconception: null,
+      messages: [
+        { role: 'learner', body: 'Why is my answer wrong?' },
+        { role: 'tutor', body: 'In your own words, what is the question asking you to find?' },
+        { role: 'learner', body: 'The index of 23.' },
+      ],
+    });
+    expect(body).toContain(chat.question.data);
+
+    const message = await chat.reply(body);
+
+    expect(message.redacted).toBe(false);
+    expect(message.body).toBe(body);
+  });
+});
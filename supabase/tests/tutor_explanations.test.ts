@@ -0,0 +1,62 @@
+// Checks template explanations against the local Supabase stack; see
+// live_monitoring.test.ts for how to run it.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { CachedExplanation, MistakeJournalEntry } from '../../src/lib/supabase';
+import { anonKey, seededQuestion, signIn, url } from './client';
+
+describe.skipIf(!url || !anonKey)('template tutor explanations', () => {
+  let learner: SupabaseClient;
+
+  beforeAll(async () => {
+    learner = await signIn('learner@example.com');
+  });
+
+  it('explains the misconception, records it against the session and shows it in the journal', async () => {
+    // "Find the INDEX of 23": 6 counts positions from 1.
+    const { subjectId, question } = await seededQuestion(learner, 'data_structures', 1);
+    const { data: session } = await learner.rpc('resume_session', {
+      p_subject_id: subjectId,
+      p_stale_minutes: 120,
+      p_question_id: question.id,
+    });
+    const { data: result } = await learner.rpc('submit_attempt', { p_session_id: session.id, p_answer: '6' });
+    expect(result.misconception?.name).toBe('Off-by-one / 1-based indexing');
+
+    const { data, error } = await learner.rpc('template_tutor_explanation', { p_session_id: session.id });
+    expect(error).toBeNull();
+    const explanation = data as CachedExplanation;
+
+    expect(explanation.question_id).toBe(question.id);
+    expect(explanation.misconception_id).toBe(result.misconception.id);
+    expect(explanation.body).toBe(
+      [
+        'That is a common mistake: off-by-one / 1-based indexing.',
+        'Counts array positions from 1 instead of 0.',
+        'Work the problem through on the data step by step before writing your answer.',
+        `Data to work from: ${question.data}`,
+      ].join(' ')
+    );
+
+    const { data: shown } = await learner
+      .from('session_explanations')
+      .select('question_id')
+      .eq('session_id', session.id);
+    expect(shown).toEqual([{ question_id: question.id }]);
+
+    const { data: journal } = await learner.rpc('mistake_journal');
+    const entry = (journal as MistakeJournalEntry[]).find(
+      (candidate) => candidate.question_id === question.id && candidate.misconception?.id === result.misconception.id
+    );
+    expect(entry?.explanation).toBe(explanation.body);
+  });
+
+  it('only explains the caller\'s own sessions', async () => {
+    const { error } = await learner.rpc('template_tutor_explanation', {
+      p_session_id: '00000000-0000-4000-8000-00000000ffff',
+    });
+
+    expect(error?.message).toBe('Session not found');
+  });
+});